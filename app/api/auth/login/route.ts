@@ -0,0 +1,22 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getAuthProvider } from "@/lib/auth"
+import { loginInputSchema } from "@/lib/domain"
+
+// POST /api/auth/login - Sign in and set the session cookie
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = loginInputSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, error: parsed.error.issues[0].message }, { status: 400 })
+    }
+
+    const user = await getAuthProvider().signIn(parsed.data.email, parsed.data.password)
+    if (!user) {
+      return NextResponse.json({ success: false, error: "Invalid email or password" }, { status: 401 })
+    }
+
+    return NextResponse.json({ success: true, data: user })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to sign in" }, { status: 500 })
+  }
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server"
+import { getAuthProvider } from "@/lib/auth"
+
+// POST /api/auth/logout - Clear the session cookie
+export async function POST() {
+  try {
+    await getAuthProvider().signOut()
+    return NextResponse.json({ success: true, message: "Signed out" })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to sign out" }, { status: 500 })
+  }
+}
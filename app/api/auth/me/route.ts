@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server"
+import { requireUser } from "@/lib/auth"
+
+// GET /api/auth/me - The signed-in user
+export async function GET() {
+  const user = await requireUser()
+  if (user instanceof NextResponse) return user
+
+  return NextResponse.json({ success: true, data: user })
+}
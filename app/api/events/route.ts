@@ -1,11 +1,25 @@
 import { type NextRequest, NextResponse } from "next/server"
-import type { DetectionEvent } from "../sessions/route"
-
-// In-memory storage (in production, use a proper database)
-let events: DetectionEvent[] = []
-
-// GET /api/events - Get detection events
+import { getRepository } from "@/lib/repository"
+import { refreshIntegrityScore } from "@/lib/scoring"
+import { getAccessibleSession, requireUser } from "@/lib/auth"
+import { getLiveHub } from "@/lib/live"
+import { endSessionIfTimeIsUp } from "@/lib/sessions"
+import {
+  MANAGER_ROLES,
+  SESSION_WRITER_ROLES,
+  createEventInputSchema,
+  detectionEventTypeSchema,
+  isAuditEvent,
+  isLiveSession,
+  isLoggedObjectEvent,
+  severitySchema,
+} from "@/lib/domain"
+
+// GET /api/events - Get detection events. Only admins may list events across sessions.
 export async function GET(request: NextRequest) {
+  const user = await requireUser()
+  if (user instanceof NextResponse) return user
+
   const { searchParams } = new URL(request.url)
   const sessionId = searchParams.get("sessionId")
   const type = searchParams.get("type")
@@ -13,31 +27,37 @@ export async function GET(request: NextRequest) {
   const limit = Number.parseInt(searchParams.get("limit") || "50")
   const offset = Number.parseInt(searchParams.get("offset") || "0")
 
-  try {
-    let filteredEvents = events
+  if (type && !detectionEventTypeSchema.safeParse(type).success) {
+    return NextResponse.json({ success: false, error: "Invalid event type" }, { status: 400 })
+  }
 
-    if (sessionId) {
-      filteredEvents = filteredEvents.filter((event) => event.sessionId === sessionId)
-    }
+  if (severity && !severitySchema.safeParse(severity).success) {
+    return NextResponse.json({ success: false, error: "Invalid severity level" }, { status: 400 })
+  }
 
-    if (type) {
-      filteredEvents = filteredEvents.filter((event) => event.type === type)
-    }
+  if (!sessionId && user.role !== "admin") {
+    return NextResponse.json({ success: false, error: "Session ID is required" }, { status: 400 })
+  }
 
-    if (severity) {
-      filteredEvents = filteredEvents.filter((event) => event.severity === severity)
+  try {
+    const repository = getRepository()
+    if (sessionId && !(await getAccessibleSession(repository, user, sessionId))) {
+      return NextResponse.json({ success: false, error: "Session not found" }, { status: 404 })
     }
 
-    // Sort by timestamp (newest first)
-    filteredEvents.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
-
-    // Apply pagination
-    const paginatedEvents = filteredEvents.slice(offset, offset + limit)
+    // Sorted newest first and paginated by the repository
+    const { events, total } = await repository.listEvents({
+      sessionId: sessionId || undefined,
+      type: type ? detectionEventTypeSchema.parse(type) : undefined,
+      severity: severity ? severitySchema.parse(severity) : undefined,
+      limit,
+      offset,
+    })
 
     return NextResponse.json({
       success: true,
-      data: paginatedEvents,
-      total: filteredEvents.length,
+      data: events,
+      total,
       limit,
       offset,
     })
@@ -48,6 +68,9 @@ export async function GET(request: NextRequest) {
 
 // POST /api/events - Create new detection event
 export async function POST(request: NextRequest) {
+  const user = await requireUser(...SESSION_WRITER_ROLES)
+  if (user instanceof NextResponse) return user
+
   try {
     const body = await request.json()
     const { sessionId, type, description, severity, confidence, metadata } = body
@@ -56,42 +79,74 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: false, error: "Missing required fields" }, { status: 400 })
     }
 
-    const validTypes = [
-      "focus_lost",
-      "no_face",
-      "multiple_faces",
-      "phone_detected",
-      "notes_detected",
-      "suspicious_object",
-      "eyes_closed",
-    ]
-    const validSeverities = ["low", "medium", "high"]
-
-    if (!validTypes.includes(type)) {
+    if (!detectionEventTypeSchema.safeParse(type).success) {
       return NextResponse.json({ success: false, error: "Invalid event type" }, { status: 400 })
     }
 
-    if (!validSeverities.includes(severity)) {
+    if (!severitySchema.safeParse(severity).success) {
       return NextResponse.json({ success: false, error: "Invalid severity level" }, { status: 400 })
     }
 
-    const newEvent: DetectionEvent = {
-      id: `event_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      sessionId,
-      type,
-      timestamp: new Date(),
-      description,
-      severity,
-      confidence,
-      metadata,
+    // Only the command routes record proctor interventions
+    if (isAuditEvent(type)) {
+      return NextResponse.json({ success: false, error: "Invalid event type" }, { status: 400 })
     }
 
-    events.push(newEvent)
+    const parsed = createEventInputSchema.safeParse({ sessionId, type, description, severity, confidence, metadata })
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, error: parsed.error.issues[0].message }, { status: 400 })
+    }
+
+    const repository = getRepository()
+    const accessible = await getAccessibleSession(repository, user, sessionId)
+    if (!accessible) {
+      return NextResponse.json({ success: false, error: "Session not found" }, { status: 404 })
+    }
+    // Nothing is added once the session is over, including when its exam's time ran out
+    const session = await endSessionIfTimeIsUp(repository, accessible)
+    if (!isLiveSession(session)) {
+      return NextResponse.json({ success: false, error: "Session is not in progress" }, { status: 409 })
+    }
+
+    // Whether the event counts toward the score is decided here, from the session's
+    // object policy, and neither an episode nor a frame sample can reach back before
+    // the session started
+    const timestamp = new Date()
+    const eventMetadata: Record<string, any> = { ...parsed.data.metadata }
+    delete eventMetadata.informational
+    const sinceStartMs = Math.max(0, timestamp.getTime() - session.startTime.getTime())
+    if (eventMetadata.durationMs !== undefined) {
+      eventMetadata.durationMs = Math.min(eventMetadata.durationMs, sinceStartMs)
+    }
+    const samples = parsed.data.metadata?.samples
+    if (samples) {
+      eventMetadata.samples = samples.map(({ ageMs, ...sample }) => ({
+        ...sample,
+        timestamp: new Date(timestamp.getTime() - Math.min(ageMs, sinceStartMs)).toISOString(),
+      }))
+    }
+    if (isLoggedObjectEvent(session.settings.objectPolicy, parsed.data.type, eventMetadata.objectClass)) {
+      eventMetadata.informational = true
+    }
+
+    const newEvent = await repository.createEvent({
+      ...parsed.data,
+      metadata: eventMetadata,
+      timestamp,
+    })
+
+    const score = await refreshIntegrityScore(repository, sessionId)
+    getLiveHub().publish({
+      type: "event",
+      session: { ...session, integrityScore: score?.score ?? session.integrityScore },
+      event: newEvent,
+    })
 
     return NextResponse.json(
       {
         success: true,
         data: newEvent,
+        integrityScore: score?.score,
       },
       { status: 201 },
     )
@@ -100,23 +155,33 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// DELETE /api/events - Delete events
+// DELETE /api/events - Delete events. Candidates can never delete events.
 export async function DELETE(request: NextRequest) {
+  const user = await requireUser(...MANAGER_ROLES)
+  if (user instanceof NextResponse) return user
+
   try {
     const { searchParams } = new URL(request.url)
     const sessionId = searchParams.get("sessionId")
     const eventId = searchParams.get("eventId")
 
+    const repository = getRepository()
+
     if (eventId) {
       // Delete specific event
-      const eventIndex = events.findIndex((event) => event.id === eventId)
-      if (eventIndex === -1) {
+      const event = await repository.getEvent(eventId)
+      if (!event || !(await getAccessibleSession(repository, user, event.sessionId))) {
         return NextResponse.json({ success: false, error: "Event not found" }, { status: 404 })
       }
-      events.splice(eventIndex, 1)
+      await repository.deleteEvent(eventId)
+      await refreshIntegrityScore(repository, event.sessionId)
     } else if (sessionId) {
+      if (!(await getAccessibleSession(repository, user, sessionId))) {
+        return NextResponse.json({ success: false, error: "Session not found" }, { status: 404 })
+      }
       // Delete all events for a session
-      events = events.filter((event) => event.sessionId !== sessionId)
+      await repository.deleteSessionEvents(sessionId)
+      await refreshIntegrityScore(repository, sessionId)
     } else {
       return NextResponse.json({ success: false, error: "Event ID or Session ID is required" }, { status: 400 })
     }
@@ -0,0 +1,25 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getSystemRepository } from "@/lib/repository"
+import { getBlobStore } from "@/lib/blob-store"
+import { requireUser } from "@/lib/auth"
+import { purgeExpiredEvidence } from "@/lib/evidence"
+
+// POST /api/evidence/purge - Delete snapshots past their retention period.
+// Meant to be called on a schedule; expired snapshots are never served in the meantime.
+// Admins may call it directly; the scheduler sends "Authorization: Bearer $CRON_SECRET".
+// Either way it lists every session, so it runs with the system repository.
+export async function POST(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret || request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    const user = await requireUser("admin")
+    if (user instanceof NextResponse) return user
+  }
+
+  try {
+    const deleted = await purgeExpiredEvidence(getBlobStore(), getSystemRepository())
+
+    return NextResponse.json({ success: true, data: { deleted } })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to purge evidence" }, { status: 500 })
+  }
+}
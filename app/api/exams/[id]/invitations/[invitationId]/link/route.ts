@@ -0,0 +1,42 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getRepository } from "@/lib/repository"
+import { getAccessibleExam, getAuthSecret, requireUser } from "@/lib/auth"
+import { issueInvitationLink } from "@/lib/invitations"
+import { MANAGER_ROLES, examWindowState, issueInvitationLinkInputSchema } from "@/lib/domain"
+
+interface RouteContext {
+  params: { id: string; invitationId: string }
+}
+
+// POST /api/exams/:id/invitations/:invitationId/link - Issue a single-use join link for a
+// pending invitation. Earlier links of the invitation stop working.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const user = await requireUser("proctor", ...MANAGER_ROLES)
+  if (user instanceof NextResponse) return user
+
+  try {
+    const parsed = issueInvitationLinkInputSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, error: parsed.error.issues[0].message }, { status: 400 })
+    }
+
+    const repository = getRepository()
+    const exam = await getAccessibleExam(repository, user, params.id)
+    const invitation = exam ? await repository.getInvitation(params.invitationId) : null
+    if (!exam || !invitation || invitation.examId !== exam.id) {
+      return NextResponse.json({ success: false, error: "Invitation not found" }, { status: 404 })
+    }
+    if (invitation.status !== "pending") {
+      return NextResponse.json({ success: false, error: `Invitation is ${invitation.status}` }, { status: 409 })
+    }
+    if (examWindowState(exam) === "closed") {
+      return NextResponse.json({ success: false, error: "Exam has closed" }, { status: 409 })
+    }
+
+    const link = await issueInvitationLink(repository, invitation, exam, getAuthSecret(), parsed.data.expiresInHours)
+
+    return NextResponse.json({ success: true, data: link }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to issue invitation link" }, { status: 500 })
+  }
+}
@@ -0,0 +1,98 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getRepository } from "@/lib/repository"
+import { getAccessibleExam, requireUser } from "@/lib/auth"
+import { MANAGER_ROLES, STAFF_ROLES, createInvitationInputSchema, updateInvitationInputSchema } from "@/lib/domain"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// GET /api/exams/:id/invitations - Candidates invited to the exam, newest first
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const user = await requireUser(...STAFF_ROLES)
+  if (user instanceof NextResponse) return user
+
+  try {
+    const repository = getRepository()
+    if (!(await getAccessibleExam(repository, user, params.id))) {
+      return NextResponse.json({ success: false, error: "Exam not found" }, { status: 404 })
+    }
+
+    const invitations = await repository.listInvitations({ examId: params.id })
+
+    return NextResponse.json({ success: true, data: invitations })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to fetch invitations" }, { status: 500 })
+  }
+}
+
+// POST /api/exams/:id/invitations - Invite a candidate. Each email is invited once per exam.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const user = await requireUser("proctor", ...MANAGER_ROLES)
+  if (user instanceof NextResponse) return user
+
+  try {
+    const parsed = createInvitationInputSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, error: parsed.error.issues[0].message }, { status: 400 })
+    }
+
+    const repository = getRepository()
+    const exam = await getAccessibleExam(repository, user, params.id)
+    if (!exam) {
+      return NextResponse.json({ success: false, error: "Exam not found" }, { status: 404 })
+    }
+
+    const existing = await repository.listInvitations({ examId: exam.id })
+    if (
+      existing.some(
+        (invitation) => invitation.candidateEmail === parsed.data.candidateEmail && invitation.status !== "revoked",
+      )
+    ) {
+      return NextResponse.json(
+        { success: false, error: "This candidate is already invited to the exam" },
+        { status: 409 },
+      )
+    }
+
+    const invitation = await repository.createInvitation({
+      ...parsed.data,
+      examId: exam.id,
+      orgId: exam.orgId,
+      status: "pending",
+      createdAt: new Date(),
+    })
+
+    return NextResponse.json({ success: true, data: invitation }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to create invitation" }, { status: 500 })
+  }
+}
+
+// PUT /api/exams/:id/invitations - Revoke an invitation that has not been accepted
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const user = await requireUser("proctor", ...MANAGER_ROLES)
+  if (user instanceof NextResponse) return user
+
+  try {
+    const parsed = updateInvitationInputSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, error: parsed.error.issues[0].message }, { status: 400 })
+    }
+
+    const repository = getRepository()
+    const invitation = await repository.getInvitation(parsed.data.invitationId)
+    if (!invitation || invitation.examId !== params.id || !(await getAccessibleExam(repository, user, params.id))) {
+      return NextResponse.json({ success: false, error: "Invitation not found" }, { status: 404 })
+    }
+    if (invitation.status === "accepted") {
+      return NextResponse.json({ success: false, error: "Invitation has already been accepted" }, { status: 409 })
+    }
+
+    const updated = await repository.updateInvitation(invitation.id, { status: parsed.data.status })
+
+    return NextResponse.json({ success: true, data: updated })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to update invitation" }, { status: 500 })
+  }
+}
@@ -0,0 +1,85 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getRepository } from "@/lib/repository"
+import { getAccessibleExam, requireUser } from "@/lib/auth"
+import { isScoringPolicyName } from "@/lib/scoring"
+import { MANAGER_ROLES, resolveProctoringSettings, updateExamInputSchema, type Exam } from "@/lib/domain"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// GET /api/exams/:id - One exam of the user's organization
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const user = await requireUser()
+  if (user instanceof NextResponse) return user
+
+  try {
+    const exam = await getAccessibleExam(getRepository(), user, params.id)
+    if (!exam) {
+      return NextResponse.json({ success: false, error: "Exam not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, data: exam })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to fetch exam" }, { status: 500 })
+  }
+}
+
+// PUT /api/exams/:id - Update an exam. Sessions already taken keep the settings they started with.
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const user = await requireUser(...MANAGER_ROLES)
+  if (user instanceof NextResponse) return user
+
+  try {
+    const parsed = updateExamInputSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, error: parsed.error.issues[0].message }, { status: 400 })
+    }
+
+    const { settings, ...fields } = parsed.data
+    if (fields.scoringPolicy !== undefined && !isScoringPolicyName(fields.scoringPolicy)) {
+      return NextResponse.json({ success: false, error: "Unknown scoring policy" }, { status: 400 })
+    }
+
+    const repository = getRepository()
+    const existing = await getAccessibleExam(repository, user, params.id)
+    if (!existing) {
+      return NextResponse.json({ success: false, error: "Exam not found" }, { status: 404 })
+    }
+
+    // Only one end of the window may be given, so check the window it results in
+    const opensAt = fields.opensAt ?? existing.opensAt
+    const closesAt = fields.closesAt ?? existing.closesAt
+    if (closesAt <= opensAt) {
+      return NextResponse.json({ success: false, error: "closesAt must be after opensAt" }, { status: 400 })
+    }
+
+    const updates: Partial<Exam> = { ...fields }
+    if (settings) updates.settings = resolveProctoringSettings(settings)
+
+    const exam = await repository.updateExam(params.id, updates)
+
+    return NextResponse.json({ success: true, data: exam })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to update exam" }, { status: 500 })
+  }
+}
+
+// DELETE /api/exams/:id - Delete an exam and its invitations; its sessions are kept
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const user = await requireUser(...MANAGER_ROLES)
+  if (user instanceof NextResponse) return user
+
+  try {
+    const repository = getRepository()
+    if (!(await getAccessibleExam(repository, user, params.id))) {
+      return NextResponse.json({ success: false, error: "Exam not found" }, { status: 404 })
+    }
+
+    await repository.deleteExam(params.id)
+
+    return NextResponse.json({ success: true, message: "Exam deleted successfully" })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to delete exam" }, { status: 500 })
+  }
+}
@@ -0,0 +1,69 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getRepository } from "@/lib/repository"
+import { requireUser } from "@/lib/auth"
+import { DEFAULT_SCORING_POLICY, isScoringPolicyName } from "@/lib/scoring"
+import { MANAGER_ROLES, createExamInputSchema, examWindowState, resolveProctoringSettings } from "@/lib/domain"
+
+// GET /api/exams - Exams of the user's organization, latest first. Admins see every
+// exam, or one organization's with ?orgId; candidates only see exams open right now.
+export async function GET(request: NextRequest) {
+  const user = await requireUser()
+  if (user instanceof NextResponse) return user
+
+  const orgId = user.role === "admin" ? new URL(request.url).searchParams.get("orgId") || undefined : user.orgId
+  if (user.role !== "admin" && !orgId) {
+    return NextResponse.json({ success: true, data: [] })
+  }
+
+  try {
+    const exams = await getRepository().listExams({ orgId })
+
+    return NextResponse.json({
+      success: true,
+      data: user.role === "candidate" ? exams.filter((exam) => examWindowState(exam) === "open") : exams,
+    })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to fetch exams" }, { status: 500 })
+  }
+}
+
+// POST /api/exams - Create an exam in the user's organization
+export async function POST(request: NextRequest) {
+  const user = await requireUser(...MANAGER_ROLES)
+  if (user instanceof NextResponse) return user
+
+  try {
+    const parsed = createExamInputSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, error: parsed.error.issues[0].message }, { status: 400 })
+    }
+
+    const { orgId: requestedOrgId, scoringPolicy = DEFAULT_SCORING_POLICY, settings, ...fields } = parsed.data
+
+    if (!isScoringPolicyName(scoringPolicy)) {
+      return NextResponse.json({ success: false, error: "Unknown scoring policy" }, { status: 400 })
+    }
+
+    const repository = getRepository()
+    const orgId = user.role === "admin" ? requestedOrgId : user.orgId
+    if (!orgId) {
+      return NextResponse.json({ success: false, error: "Organization is required" }, { status: 400 })
+    }
+    if (user.role === "admin" && !(await repository.getOrganization(orgId))) {
+      return NextResponse.json({ success: false, error: "Organization not found" }, { status: 404 })
+    }
+
+    const exam = await repository.createExam({
+      ...fields,
+      orgId,
+      scoringPolicy,
+      settings: resolveProctoringSettings(settings),
+      createdBy: user.id,
+      createdAt: new Date(),
+    })
+
+    return NextResponse.json({ success: true, data: exam }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to create exam" }, { status: 500 })
+  }
+}
@@ -0,0 +1,85 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getRepository } from "@/lib/repository"
+import { getAuthSecret, requireUser } from "@/lib/auth"
+import { getLiveHub } from "@/lib/live"
+import {
+  INVITATION_TOKEN_ERRORS,
+  acceptInvitation,
+  resolveInvitationToken,
+  type InvitationTokenError,
+} from "@/lib/invitations"
+import { examWindowState, type AuthUser, type Invitation, type InvitationPreview } from "@/lib/domain"
+
+interface RouteContext {
+  params: { token: string }
+}
+
+function tokenErrorResponse(error: InvitationTokenError) {
+  const { status, message } = INVITATION_TOKEN_ERRORS[error]
+  return NextResponse.json({ success: false, error: message }, { status })
+}
+
+// Links only work for the candidate they were sent to
+function isInvitee(invitation: Invitation, user: AuthUser) {
+  return invitation.candidateEmail === user.email.toLowerCase()
+}
+
+const notInviteeResponse = () =>
+  NextResponse.json({ success: false, error: "This invitation was sent to another candidate" }, { status: 403 })
+
+// GET /api/invitations/:token - The exam an invitation link is for, without using the link
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const user = await requireUser("candidate")
+  if (user instanceof NextResponse) return user
+
+  try {
+    const resolved = await resolveInvitationToken(getRepository(), params.token, getAuthSecret())
+    if (resolved.error) return tokenErrorResponse(resolved.error)
+    if (!isInvitee(resolved.invitation, user)) return notInviteeResponse()
+
+    const { invitation, exam } = resolved
+    const preview: InvitationPreview = {
+      candidateName: invitation.candidateName,
+      candidateEmail: invitation.candidateEmail,
+      exam: {
+        id: exam.id,
+        title: exam.title,
+        description: exam.description,
+        opensAt: exam.opensAt,
+        closesAt: exam.closesAt,
+        durationMinutes: exam.durationMinutes,
+      },
+      expiresAt: invitation.tokenExpiresAt ?? exam.closesAt,
+    }
+
+    return NextResponse.json({ success: true, data: preview })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to fetch invitation" }, { status: 500 })
+  }
+}
+
+// POST /api/invitations/:token - Use the link: accepts the invitation and starts the
+// candidate's session for the exam. A link works once.
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  const user = await requireUser("candidate")
+  if (user instanceof NextResponse) return user
+
+  try {
+    const repository = getRepository()
+    const resolved = await resolveInvitationToken(repository, params.token, getAuthSecret())
+    if (resolved.error) return tokenErrorResponse(resolved.error)
+    if (!isInvitee(resolved.invitation, user)) return notInviteeResponse()
+
+    if (examWindowState(resolved.exam) !== "open") {
+      return NextResponse.json({ success: false, error: "Exam is not open" }, { status: 409 })
+    }
+
+    const session = await acceptInvitation(repository, user, resolved)
+    if (!session) return tokenErrorResponse("used")
+    getLiveHub().publish({ type: "session", session })
+
+    return NextResponse.json({ success: true, data: session }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to accept invitation" }, { status: 500 })
+  }
+}
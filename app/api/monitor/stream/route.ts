@@ -0,0 +1,65 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getRepository } from "@/lib/repository"
+import { canAccessSession, requireUser, sessionScope } from "@/lib/auth"
+import { formatSse, getLiveHub } from "@/lib/live"
+import { STAFF_ROLES, isLiveSession, type LiveStatus } from "@/lib/domain"
+
+export const dynamic = "force-dynamic"
+
+// Comment lines keep proxies from closing an idle stream
+const KEEP_ALIVE_MS = 15_000
+
+// GET /api/monitor/stream - Server-Sent Events stream of the sessions in progress the
+// user may access: a snapshot first, then session changes, detection events and
+// candidate statuses as they happen
+export async function GET(request: NextRequest) {
+  const user = await requireUser(...STAFF_ROLES)
+  if (user instanceof NextResponse) return user
+
+  let sessions
+  try {
+    const page = await getRepository().listSessions({ ...sessionScope(user), sort: "startTime", order: "desc" })
+    sessions = page.sessions.filter(isLiveSession)
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to fetch sessions" }, { status: 500 })
+  }
+
+  const hub = getLiveHub()
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => controller.enqueue(encoder.encode(chunk))
+
+      const statuses: Record<string, LiveStatus> = {}
+      for (const session of sessions) {
+        const status = hub.getStatus(session.id)
+        if (status) statuses[session.id] = status
+      }
+      send(formatSse({ type: "snapshot", sessions, statuses }))
+
+      const unsubscribe = hub.subscribe((message) => {
+        if (canAccessSession(user, message.session)) send(formatSse(message))
+      })
+      const keepAlive = setInterval(() => send(": keep-alive\n\n"), KEEP_ALIVE_MS)
+
+      cleanup = () => {
+        unsubscribe()
+        clearInterval(keepAlive)
+      }
+      request.signal.addEventListener("abort", () => cleanup())
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  })
+}
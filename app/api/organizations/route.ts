@@ -0,0 +1,43 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getRepository } from "@/lib/repository"
+import { requireUser } from "@/lib/auth"
+import { createOrganizationInputSchema } from "@/lib/domain"
+
+// GET /api/organizations - Every organization for admins; everyone else gets their own
+export async function GET() {
+  const user = await requireUser()
+  if (user instanceof NextResponse) return user
+
+  try {
+    const repository = getRepository()
+    const organizations =
+      user.role === "admin"
+        ? await repository.listOrganizations()
+        : user.orgId
+          ? [await repository.getOrganization(user.orgId)].filter((organization) => organization !== null)
+          : []
+
+    return NextResponse.json({ success: true, data: organizations })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to fetch organizations" }, { status: 500 })
+  }
+}
+
+// POST /api/organizations - Create an organization. Members are assigned through their profiles.
+export async function POST(request: NextRequest) {
+  const user = await requireUser("admin")
+  if (user instanceof NextResponse) return user
+
+  try {
+    const parsed = createOrganizationInputSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, error: parsed.error.issues[0].message }, { status: 400 })
+    }
+
+    const organization = await getRepository().createOrganization({ name: parsed.data.name, createdAt: new Date() })
+
+    return NextResponse.json({ success: true, data: organization }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to create organization" }, { status: 500 })
+  }
+}
@@ -1,93 +1,123 @@
 import { type NextRequest, NextResponse } from "next/server"
-import type { ProctoringSession, DetectionEvent } from "../sessions/route"
-
-// In-memory storage references (in production, use a proper database)
-declare global {
-  var sessions: ProctoringSession[]
-  var events: DetectionEvent[]
-}
-
-interface ProctoringReport {
-  session: ProctoringSession
-  events: DetectionEvent[]
-  statistics: {
-    totalEvents: number
-    eventsBySeverity: {
-      high: number
-      medium: number
-      low: number
-    }
-    eventsByType: Record<string, number>
-    focusLossCount: number
-    suspiciousObjectCount: number
-    multipleFaceCount: number
-    averageConfidence: number
-  }
-  integrityAnalysis: {
-    finalScore: number
-    deductions: Array<{
-      reason: string
-      points: number
-      count: number
-    }>
-    recommendations: string[]
-  }
-  timeline: Array<{
-    timestamp: Date
-    event: string
-    severity: string
-  }>
-}
+import { getRepository } from "@/lib/repository"
+import { getScoringPolicy, scoreIncidents } from "@/lib/scoring"
+import { buildIncidents } from "@/lib/incidents"
+import { getBlobStore } from "@/lib/blob-store"
+import { readEvidence } from "@/lib/evidence"
+import { renderReportPdf, type ReportThumbnail } from "@/lib/reports/pdf"
+import { eventsCsv, reportCsv } from "@/lib/reports/csv"
+import { bundleReport } from "@/lib/reports/bundle"
+import { getAccessibleSession, requireUser } from "@/lib/auth"
+import {
+  commandsFromEvents,
+  downsampleAudioLevels,
+  evidenceRefSchema,
+  isAuditEvent,
+  isSuspiciousObjectEvent,
+  type DetectionEvent,
+  type DetectionEventType,
+  type Incident,
+  type IntegrityAnalysis,
+  type ProctorCommand,
+  type ProctoringReport,
+  type ProctoringSession,
+  type ReportStatistics,
+  type TimelineEntry,
+} from "@/lib/domain"
+
+// Snapshots embedded in PDF reports; the rest stay available through the evidence API
+const MAX_REPORT_THUMBNAILS = 12
+
+// Points of the audio level chart; the full series is available through the audio levels API
+const MAX_AUDIO_LEVEL_POINTS = 600
 
 // GET /api/reports - Generate proctoring report
 export async function GET(request: NextRequest) {
+  const user = await requireUser()
+  if (user instanceof NextResponse) return user
+
   const { searchParams } = new URL(request.url)
   const sessionId = searchParams.get("sessionId")
-  const format = searchParams.get("format") || "json" // json, csv, pdf
+  const format = searchParams.get("format") || "json" // json, csv, events-csv, pdf, zip
 
   if (!sessionId) {
     return NextResponse.json({ success: false, error: "Session ID is required" }, { status: 400 })
   }
 
   try {
-    // Get session data (in production, fetch from database)
-    const sessions: ProctoringSession[] = globalThis.sessions || []
-    const events: DetectionEvent[] = globalThis.events || []
-
-    const session = sessions.find((s) => s.id === sessionId)
+    const repository = getRepository()
+    const session = await getAccessibleSession(repository, user, sessionId)
     if (!session) {
       return NextResponse.json({ success: false, error: "Session not found" }, { status: 404 })
     }
 
-    const sessionEvents = events.filter((e) => e.sessionId === sessionId)
+    const [{ events: sessionEvents }, audioLevels] = await Promise.all([
+      repository.listEvents({ sessionId }),
+      repository.listAudioLevels(sessionId),
+    ])
 
-    // Generate statistics
-    const statistics = generateStatistics(sessionEvents)
+    // Reports work on incidents; the raw events are included for audit
+    const incidents = buildIncidents(sessionEvents, session.settings.incidents.graceMs)
+
+    // Generate statistics of what was detected; proctor interventions are only audited
+    const statistics = generateStatistics(
+      sessionEvents.filter((event) => !isAuditEvent(event.type)),
+      incidents.filter((incident) => !isAuditEvent(incident.type)),
+    )
 
     // Generate integrity analysis
-    const integrityAnalysis = generateIntegrityAnalysis(sessionEvents, session)
+    const integrityAnalysis = generateIntegrityAnalysis(incidents, session, statistics, commandsFromEvents(sessionEvents))
 
     // Generate timeline
-    const timeline = generateTimeline(sessionEvents)
+    const timeline = generateTimeline(incidents)
 
     const report: ProctoringReport = {
       session,
       events: sessionEvents,
+      incidents,
       statistics,
       integrityAnalysis,
       timeline,
+      audioLevels: downsampleAudioLevels(audioLevels, MAX_AUDIO_LEVEL_POINTS),
     }
 
     if (format === "csv") {
-      const csv = generateCSVReport(report)
-      return new NextResponse(csv, {
+      return new NextResponse(reportCsv(report), {
         headers: {
-          "Content-Type": "text/csv",
+          "Content-Type": "text/csv; charset=utf-8",
           "Content-Disposition": `attachment; filename="proctoring-report-${sessionId}.csv"`,
         },
       })
     }
 
+    if (format === "events-csv") {
+      return new NextResponse(eventsCsv(sessionEvents), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="proctoring-events-${sessionId}.csv"`,
+        },
+      })
+    }
+
+    if (format === "zip") {
+      return new NextResponse(new Uint8Array(bundleReport(report)), {
+        headers: {
+          "Content-Type": "application/zip",
+          "Content-Disposition": `attachment; filename="proctoring-report-${sessionId}.zip"`,
+        },
+      })
+    }
+
+    if (format === "pdf") {
+      const pdf = await renderReportPdf(report, await loadThumbnails(session, sessionEvents))
+      return new NextResponse(new Uint8Array(pdf), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="proctoring-report-${sessionId}.pdf"`,
+        },
+      })
+    }
+
     return NextResponse.json({
       success: true,
       data: report,
@@ -97,7 +127,32 @@ export async function GET(request: NextRequest) {
   }
 }
 
-function generateStatistics(events: DetectionEvent[]) {
+// Evidence snapshots referenced by the events, in the order they were taken
+async function loadThumbnails(session: ProctoringSession, events: DetectionEvent[]): Promise<ReportThumbnail[]> {
+  const store = getBlobStore()
+  const referenced = events
+    .flatMap((event) => {
+      const ref = evidenceRefSchema.safeParse(event.metadata?.evidence)
+      return ref.success ? [{ event, ref: ref.data }] : []
+    })
+    .sort((a, b) => a.event.timestamp.getTime() - b.event.timestamp.getTime())
+    .slice(0, MAX_REPORT_THUMBNAILS)
+
+  const thumbnails = await Promise.all(
+    referenced.map(async ({ event, ref }) => {
+      const data = await readEvidence(store, session, ref.id)
+      if (!data) return null
+
+      const offset = Math.max(0, Math.round((event.timestamp.getTime() - session.startTime.getTime()) / 1000))
+      const at = `${Math.floor(offset / 60)}:${(offset % 60).toString().padStart(2, "0")}`
+      return { data, caption: `${at} ${event.description} (${ref.trigger})` }
+    }),
+  )
+
+  return thumbnails.filter((thumbnail): thumbnail is ReportThumbnail => thumbnail !== null)
+}
+
+function generateStatistics(events: DetectionEvent[], incidents: Incident[]): ReportStatistics {
   const eventsBySeverity = {
     high: events.filter((e) => e.severity === "high").length,
     medium: events.filter((e) => e.severity === "medium").length,
@@ -112,11 +167,24 @@ function generateStatistics(events: DetectionEvent[]) {
     {} as Record<string, number>,
   )
 
-  const focusLossCount = events.filter((e) => e.type === "focus_lost").length
-  const suspiciousObjectCount = events.filter(
-    (e) => e.type === "phone_detected" || e.type === "notes_detected" || e.type === "suspicious_object",
-  ).length
-  const multipleFaceCount = events.filter((e) => e.type === "multiple_faces").length
+  const incidentsByType = incidents.reduce(
+    (acc, incident) => {
+      acc[incident.type] = (acc[incident.type] || 0) + 1
+      return acc
+    },
+    {} as Record<string, number>,
+  )
+
+  const focusLossCount = incidentsByType.focus_lost || 0
+  const suspiciousObjectCount = incidents.filter((i) => isSuspiciousObjectEvent(i.type) && !i.informational).length
+  const multipleFaceCount = incidentsByType.multiple_faces || 0
+
+  const offScreenDurations = incidentDurations(incidents, "focus_lost")
+  const offScreenSeconds = Math.round(sum(offScreenDurations) / 1000)
+  const longestOffScreenSeconds = Math.round(Math.max(0, ...offScreenDurations) / 1000)
+
+  const eyesClosedDurations = incidentDurations(incidents, "eyes_closed")
+  const blinkRates = metadataValues(events, "eyes_closed", "blinkRate")
 
   const confidenceValues = events.filter((e) => e.confidence).map((e) => e.confidence!)
   const averageConfidence =
@@ -126,70 +194,109 @@ function generateStatistics(events: DetectionEvent[]) {
     totalEvents: events.length,
     eventsBySeverity,
     eventsByType,
+    totalIncidents: incidents.length,
+    incidentsByType,
     focusLossCount,
     suspiciousObjectCount,
     multipleFaceCount,
     averageConfidence,
+    offScreenSeconds,
+    longestOffScreenSeconds,
+    eyesClosedCount: incidentsByType.eyes_closed || 0,
+    eyesClosedSeconds: Math.round(sum(eyesClosedDurations) / 1000),
+    longestEyesClosedSeconds: Math.round(Math.max(0, ...eyesClosedDurations) / 1000),
+    averageBlinkRate: blinkRates.length > 0 ? Number((sum(blinkRates) / blinkRates.length).toFixed(1)) : null,
   }
 }
 
-function generateIntegrityAnalysis(events: DetectionEvent[], session: ProctoringSession) {
-  const deductions = []
-  let totalDeduction = 0
-
-  // Calculate deductions by event type
-  const highSeverityEvents = events.filter((e) => e.severity === "high")
-  const mediumSeverityEvents = events.filter((e) => e.severity === "medium")
-  const lowSeverityEvents = events.filter((e) => e.severity === "low")
-
-  if (highSeverityEvents.length > 0) {
-    const points = highSeverityEvents.length * 15
-    deductions.push({
-      reason: "High severity violations",
-      points,
-      count: highSeverityEvents.length,
-    })
-    totalDeduction += points
-  }
+// Numeric metadata field of every event of the given type that reports it
+function metadataValues(events: DetectionEvent[], type: DetectionEventType, key: string): number[] {
+  return events
+    .filter((e) => e.type === type && typeof e.metadata?.[key] === "number")
+    .map((e) => e.metadata![key] as number)
+}
 
-  if (mediumSeverityEvents.length > 0) {
-    const points = mediumSeverityEvents.length * 10
-    deductions.push({
-      reason: "Medium severity violations",
-      points,
-      count: mediumSeverityEvents.length,
-    })
-    totalDeduction += points
-  }
+function incidentDurations(incidents: Incident[], type: DetectionEventType): number[] {
+  return incidents.filter((i) => i.type === type).map((i) => i.durationMs)
+}
 
-  if (lowSeverityEvents.length > 0) {
-    const points = lowSeverityEvents.length * 5
-    deductions.push({
-      reason: "Low severity violations",
-      points,
-      count: lowSeverityEvents.length,
-    })
-    totalDeduction += points
-  }
+function sum(values: number[]) {
+  return values.reduce((total, value) => total + value, 0)
+}
 
-  const finalScore = Math.max(0, 100 - totalDeduction)
+function generateIntegrityAnalysis(
+  incidents: Incident[],
+  session: ProctoringSession,
+  statistics: ReportStatistics,
+  commands: ProctorCommand[],
+): IntegrityAnalysis {
+  // Same engine that maintains the live score, so the breakdown always adds up to it
+  const { policy, score: finalScore, deductions } = scoreIncidents(incidents, getScoringPolicy(session.scoringPolicy))
+  const scored = incidents.filter((i) => !i.informational)
 
   // Generate recommendations
   const recommendations = []
-  if (events.filter((e) => e.type === "focus_lost").length > 3) {
+  if (statistics.focusLossCount > 3) {
     recommendations.push(
       "Candidate showed frequent loss of focus. Consider discussing attention management strategies.",
     )
   }
-  if (events.filter((e) => e.type === "phone_detected").length > 0) {
+  if (session.duration > 0 && statistics.offScreenSeconds / session.duration > 0.1) {
+    recommendations.push(
+      `Attention was off-screen for ${Math.round((statistics.offScreenSeconds / session.duration) * 100)}% of the session. Review the longest look-away periods.`,
+    )
+  }
+  if (statistics.eyesClosedCount > 2) {
+    recommendations.push(
+      `Eyes were closed for ${statistics.eyesClosedSeconds}s across ${statistics.eyesClosedCount} closures. Candidate may have been drowsy or unwell.`,
+    )
+  }
+  if (scored.some((i) => i.type === "phone_detected")) {
     recommendations.push("Mobile device detected during session. Verify candidate understanding of device policies.")
   }
-  if (events.filter((e) => e.type === "multiple_faces").length > 0) {
+  if (scored.some((i) => i.type === "multiple_faces")) {
     recommendations.push("Multiple faces detected. Investigate potential unauthorized assistance.")
   }
-  if (events.filter((e) => e.type === "notes_detected").length > 0) {
+  if (scored.some((i) => i.type === "notes_detected")) {
     recommendations.push("Notes or reference materials detected. Review materials policy with candidate.")
   }
+  const tabHiddenSeconds = Math.round(sum(incidentDurations(scored, "tab_hidden")) / 1000)
+  if (tabHiddenSeconds > 0) {
+    recommendations.push(
+      `Candidate switched away from the exam tab for ${tabHiddenSeconds}s in total. Check whether other material was consulted.`,
+    )
+  }
+  if (scored.some((i) => i.type === "multiple_speakers")) {
+    recommendations.push("More than one voice was heard. Listen to the recording around these moments.")
+  }
+  const identity = session.identityVerification
+  if (identity?.status === "pending") {
+    recommendations.push(
+      `Identity is not confirmed yet: compare the ID photo with the selfie. The candidate's browser reported a ${Math.round(identity.reportedMatchScore * 100)}% match.`,
+    )
+  } else if (identity?.status === "rejected") {
+    recommendations.push(
+      `${identity.reviewedByName ?? "A reviewer"} found that the selfie does not match the ID photo. Do not accept the result without confirming the candidate's identity.`,
+    )
+  }
+  if (scored.some((i) => i.type === "identity_mismatch")) {
+    recommendations.push(
+      "The face on camera stopped matching the verified candidate. Check the recording for a change of person.",
+    )
+  }
+  if (scored.some((i) => i.type === "devtools_open")) {
+    recommendations.push("Developer tools were open during the session. Check for tampering with the exam page.")
+  }
+  const warnings = commands.filter((command) => command.type === "warning").length
+  if (warnings > 0) {
+    recommendations.push(
+      `Candidate received ${warnings} formal warning${warnings === 1 ? "" : "s"} from a proctor; see the timeline for details.`,
+    )
+  }
+  const termination = commands.find((command) => command.type === "terminate")
+  if (termination) {
+    recommendations.push(`Session was terminated by ${termination.issuedByName}: ${termination.text}`)
+  }
   if (finalScore >= 90) {
     recommendations.push("Excellent session integrity. No major concerns identified.")
   } else if (finalScore >= 70) {
@@ -202,66 +309,19 @@ function generateIntegrityAnalysis(events: DetectionEvent[], session: Proctoring
 
   return {
     finalScore,
+    policy,
     deductions,
     recommendations,
   }
 }
 
-function generateTimeline(events: DetectionEvent[]) {
-  return events
-    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
-    .map((event) => ({
-      timestamp: event.timestamp,
-      event: event.description,
-      severity: event.severity,
-    }))
-}
-
-function generateCSVReport(report: ProctoringReport): string {
-  const lines = []
-
-  // Header
-  lines.push("Proctoring Session Report")
-  lines.push("")
-
-  // Session Info
-  lines.push("Session Information")
-  lines.push(`Candidate Name,${report.session.candidateName}`)
-  lines.push(`Session ID,${report.session.id}`)
-  lines.push(`Start Time,${report.session.startTime.toISOString()}`)
-  lines.push(`End Time,${report.session.endTime?.toISOString() || "N/A"}`)
-  lines.push(
-    `Duration,${Math.floor(report.session.duration / 60)}:${(report.session.duration % 60).toString().padStart(2, "0")}`,
-  )
-  lines.push(`Status,${report.session.status}`)
-  lines.push(`Video Quality,${report.session.videoQuality}`)
-  lines.push(`Final Integrity Score,${report.integrityAnalysis.finalScore}%`)
-  lines.push("")
-
-  // Statistics
-  lines.push("Detection Statistics")
-  lines.push(`Total Events,${report.statistics.totalEvents}`)
-  lines.push(`High Severity Events,${report.statistics.eventsBySeverity.high}`)
-  lines.push(`Medium Severity Events,${report.statistics.eventsBySeverity.medium}`)
-  lines.push(`Low Severity Events,${report.statistics.eventsBySeverity.low}`)
-  lines.push(`Focus Loss Events,${report.statistics.focusLossCount}`)
-  lines.push(`Suspicious Object Events,${report.statistics.suspiciousObjectCount}`)
-  lines.push(`Multiple Face Events,${report.statistics.multipleFaceCount}`)
-  lines.push("")
-
-  // Events Timeline
-  lines.push("Events Timeline")
-  lines.push("Timestamp,Event Type,Description,Severity")
-  report.events.forEach((event) => {
-    lines.push(`${event.timestamp.toISOString()},${event.type},${event.description},${event.severity}`)
-  })
-  lines.push("")
-
-  // Recommendations
-  lines.push("Recommendations")
-  report.integrityAnalysis.recommendations.forEach((rec) => {
-    lines.push(`"${rec}"`)
-  })
-
-  return lines.join("\n")
+function generateTimeline(incidents: Incident[]): TimelineEntry[] {
+  // buildIncidents returns incidents ordered by start
+  return incidents.map((incident) => ({
+    timestamp: incident.startedAt,
+    event: incident.description,
+    severity: incident.severity,
+    type: incident.type,
+    durationMs: incident.durationMs,
+  }))
 }
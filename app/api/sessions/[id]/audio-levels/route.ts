@@ -0,0 +1,54 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getRepository } from "@/lib/repository"
+import { getAccessibleSession, requireUser } from "@/lib/auth"
+import { SESSION_WRITER_ROLES, addAudioLevelsInputSchema } from "@/lib/domain"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// GET /api/sessions/:id/audio-levels - The session's microphone level, one sample per second, oldest first
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const user = await requireUser()
+  if (user instanceof NextResponse) return user
+
+  try {
+    const repository = getRepository()
+    const session = await getAccessibleSession(repository, user, params.id)
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Session not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, data: await repository.listAudioLevels(session.id) })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to fetch audio levels" }, { status: 500 })
+  }
+}
+
+// POST /api/sessions/:id/audio-levels - Add a batch of level samples measured by the candidate's page
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const user = await requireUser(...SESSION_WRITER_ROLES)
+  if (user instanceof NextResponse) return user
+
+  try {
+    const parsed = addAudioLevelsInputSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, error: parsed.error.issues[0].message }, { status: 400 })
+    }
+
+    const repository = getRepository()
+    const session = await getAccessibleSession(repository, user, params.id)
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Session not found" }, { status: 404 })
+    }
+    if (!session.settings.audio.enabled) {
+      return NextResponse.json({ success: false, error: "Audio analysis is disabled for this session" }, { status: 409 })
+    }
+
+    await repository.addAudioLevels(parsed.data.samples.map((sample) => ({ ...sample, sessionId: session.id })))
+
+    return NextResponse.json({ success: true, data: { received: parsed.data.samples.length } }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to store audio levels" }, { status: 500 })
+  }
+}
@@ -0,0 +1,35 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getRepository } from "@/lib/repository"
+import { getAccessibleSession, requireUser } from "@/lib/auth"
+import { acknowledgeCommand } from "@/lib/commands"
+import { getLiveHub } from "@/lib/live"
+
+interface RouteContext {
+  params: { id: string; commandId: string }
+}
+
+// POST /api/sessions/:id/commands/:commandId/ack - Confirm that the candidate's page
+// received and showed the command. Repeating it is harmless.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const user = await requireUser("candidate")
+  if (user instanceof NextResponse) return user
+
+  try {
+    const repository = getRepository()
+    const session = await getAccessibleSession(repository, user, params.id)
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Session not found" }, { status: 404 })
+    }
+
+    const result = await acknowledgeCommand(repository, session, params.commandId)
+    if (!result) {
+      return NextResponse.json({ success: false, error: "Command not found" }, { status: 404 })
+    }
+
+    if (result.event) getLiveHub().publish({ type: "event", session, event: result.event })
+
+    return NextResponse.json({ success: true, data: result.command })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to acknowledge command" }, { status: 500 })
+  }
+}
@@ -0,0 +1,68 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getRepository } from "@/lib/repository"
+import { getAccessibleSession, requireUser } from "@/lib/auth"
+import { issueCommand, listCommands } from "@/lib/commands"
+import { getLiveHub } from "@/lib/live"
+import { MANAGER_ROLES, isLiveSession, issueCommandInputSchema } from "@/lib/domain"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// GET /api/sessions/:id/commands - Commands issued to the session, oldest first, with
+// when the candidate's page acknowledged them
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const user = await requireUser()
+  if (user instanceof NextResponse) return user
+
+  try {
+    const repository = getRepository()
+    const session = await getAccessibleSession(repository, user, params.id)
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Session not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, data: await listCommands(repository, session.id) })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to fetch commands" }, { status: 500 })
+  }
+}
+
+// POST /api/sessions/:id/commands - Message, warn, pause, resume or terminate a session
+// in progress. The command is recorded as an audit event and pushed to the candidate.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const user = await requireUser("proctor", ...MANAGER_ROLES)
+  if (user instanceof NextResponse) return user
+
+  try {
+    const parsed = issueCommandInputSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, error: parsed.error.issues[0].message }, { status: 400 })
+    }
+
+    const repository = getRepository()
+    const session = await getAccessibleSession(repository, user, params.id)
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Session not found" }, { status: 404 })
+    }
+    if (!isLiveSession(session)) {
+      return NextResponse.json({ success: false, error: "Session is not in progress" }, { status: 409 })
+    }
+    if (parsed.data.type === "pause" && session.status === "paused") {
+      return NextResponse.json({ success: false, error: "Session is already paused" }, { status: 409 })
+    }
+    if (parsed.data.type === "resume" && session.status !== "paused") {
+      return NextResponse.json({ success: false, error: "Session is not paused" }, { status: 409 })
+    }
+
+    const { command, event, session: updated } = await issueCommand(repository, user, session, parsed.data)
+
+    const hub = getLiveHub()
+    hub.publish({ type: "event", session: updated, event })
+    if (updated.status !== session.status) hub.publish({ type: "session", session: updated })
+
+    return NextResponse.json({ success: true, data: command }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to issue command" }, { status: 500 })
+  }
+}
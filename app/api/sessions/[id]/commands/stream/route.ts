@@ -0,0 +1,71 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getRepository } from "@/lib/repository"
+import { getAccessibleSession, requireUser } from "@/lib/auth"
+import { formatCommandSse, listCommands } from "@/lib/commands"
+import { getLiveHub } from "@/lib/live"
+import { commandsFromEvents, type ProctorCommand } from "@/lib/domain"
+
+export const dynamic = "force-dynamic"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// Comment lines keep proxies from closing an idle stream
+const KEEP_ALIVE_MS = 15_000
+
+// GET /api/sessions/:id/commands/stream - Server-Sent Events stream of the commands
+// issued to the session: those not yet acknowledged first, then new ones as proctors
+// issue them
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const user = await requireUser()
+  if (user instanceof NextResponse) return user
+
+  let pending: ProctorCommand[]
+  try {
+    const repository = getRepository()
+    const session = await getAccessibleSession(repository, user, params.id)
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Session not found" }, { status: 404 })
+    }
+    pending = (await listCommands(repository, session.id)).filter((command) => !command.acknowledgedAt)
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to fetch commands" }, { status: 500 })
+  }
+
+  const hub = getLiveHub()
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => controller.enqueue(encoder.encode(chunk))
+
+      for (const command of pending) send(formatCommandSse(command))
+
+      const unsubscribe = hub.subscribe((message) => {
+        if (message.type !== "event" || message.event.sessionId !== params.id) return
+        const [command] = commandsFromEvents([message.event])
+        if (command) send(formatCommandSse(command))
+      })
+      const keepAlive = setInterval(() => send(": keep-alive\n\n"), KEEP_ALIVE_MS)
+
+      cleanup = () => {
+        unsubscribe()
+        clearInterval(keepAlive)
+      }
+      request.signal.addEventListener("abort", () => cleanup())
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  })
+}
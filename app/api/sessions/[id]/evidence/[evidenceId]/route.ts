@@ -0,0 +1,37 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getRepository } from "@/lib/repository"
+import { getBlobStore } from "@/lib/blob-store"
+import { getAccessibleSession, requireUser } from "@/lib/auth"
+import { getEvidence } from "@/lib/evidence"
+
+interface RouteContext {
+  params: { id: string; evidenceId: string }
+}
+
+// GET /api/sessions/:id/evidence/:evidenceId - The snapshot image
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const user = await requireUser()
+  if (user instanceof NextResponse) return user
+
+  try {
+    const session = await getAccessibleSession(getRepository(), user, params.id)
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Session not found" }, { status: 404 })
+    }
+
+    const body = await getEvidence(getBlobStore(), session, params.evidenceId)
+    if (!body) {
+      return NextResponse.json({ success: false, error: "Evidence not found" }, { status: 404 })
+    }
+
+    return new NextResponse(body.stream, {
+      headers: {
+        "Content-Type": body.info.contentType,
+        "Content-Length": String(body.info.size),
+        "Cache-Control": "private, max-age=3600",
+      },
+    })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to read evidence" }, { status: 500 })
+  }
+}
@@ -0,0 +1,67 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getRepository } from "@/lib/repository"
+import { getBlobStore } from "@/lib/blob-store"
+import { getAccessibleSession, requireUser } from "@/lib/auth"
+import { SESSION_WRITER_ROLES } from "@/lib/domain"
+import { listEvidence, MAX_SNAPSHOT_BYTES, saveEvidence } from "@/lib/evidence"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// GET /api/sessions/:id/evidence - Snapshots of the session still within their retention period
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const user = await requireUser()
+  if (user instanceof NextResponse) return user
+
+  try {
+    const session = await getAccessibleSession(getRepository(), user, params.id)
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Session not found" }, { status: 404 })
+    }
+
+    const evidence = await listEvidence(getBlobStore(), session)
+
+    return NextResponse.json({ success: true, data: evidence })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to fetch evidence" }, { status: 500 })
+  }
+}
+
+// POST /api/sessions/:id/evidence - Store one JPEG snapshot; the body is the raw image
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const user = await requireUser(...SESSION_WRITER_ROLES)
+  if (user instanceof NextResponse) return user
+
+  const contentType = request.headers.get("content-type") || ""
+  if (contentType !== "image/jpeg") {
+    return NextResponse.json({ success: false, error: "Snapshots must be image/jpeg" }, { status: 415 })
+  }
+
+  try {
+    const session = await getAccessibleSession(getRepository(), user, params.id)
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Session not found" }, { status: 404 })
+    }
+    if (!session.settings.evidence.enabled) {
+      return NextResponse.json(
+        { success: false, error: "Evidence capture is disabled for this session" },
+        { status: 409 },
+      )
+    }
+
+    const data = new Uint8Array(await request.arrayBuffer())
+    if (data.byteLength === 0) {
+      return NextResponse.json({ success: false, error: "Snapshot is empty" }, { status: 400 })
+    }
+    if (data.byteLength > MAX_SNAPSHOT_BYTES) {
+      return NextResponse.json({ success: false, error: "Snapshot is too large" }, { status: 413 })
+    }
+
+    const evidence = await saveEvidence(getBlobStore(), session, data, contentType)
+
+    return NextResponse.json({ success: true, data: evidence }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to store evidence" }, { status: 500 })
+  }
+}
@@ -0,0 +1,149 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getRepository } from "@/lib/repository"
+import { getBlobStore } from "@/lib/blob-store"
+import { getAccessibleSession, requireUser } from "@/lib/auth"
+import { getLiveHub } from "@/lib/live"
+import { MAX_SNAPSHOT_BYTES, saveEvidence } from "@/lib/evidence"
+import {
+  SESSION_WRITER_ROLES,
+  STAFF_ROLES,
+  isLiveSession,
+  recordIdentityInputSchema,
+  reviewIdentityInputSchema,
+} from "@/lib/domain"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+const IDENTITY_IMAGES = ["idDocument", "selfie"] as const
+
+// POST /api/sessions/:id/identity - Record the identity check the candidate ran before
+// starting: a multipart form with the idDocument and selfie JPEGs and the matchScore
+// the page computed. Both images are stored as evidence. The score is kept as reported
+// and the check stays pending until staff review it. A session is checked only once,
+// so a different person cannot replace the check later.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const user = await requireUser(...SESSION_WRITER_ROLES)
+  if (user instanceof NextResponse) return user
+
+  let form: FormData
+  try {
+    form = await request.formData()
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Expected a multipart form" }, { status: 400 })
+  }
+
+  const parsed = recordIdentityInputSchema.safeParse({ matchScore: form.get("matchScore") ?? undefined })
+  if (!parsed.success) {
+    return NextResponse.json({ success: false, error: parsed.error.issues[0].message }, { status: 400 })
+  }
+
+  const images: Blob[] = []
+  for (const name of IDENTITY_IMAGES) {
+    const image = form.get(name)
+    if (!(image instanceof Blob) || image.size === 0) {
+      return NextResponse.json({ success: false, error: `${name} image is required` }, { status: 400 })
+    }
+    if (image.type !== "image/jpeg") {
+      return NextResponse.json({ success: false, error: "Images must be image/jpeg" }, { status: 415 })
+    }
+    if (image.size > MAX_SNAPSHOT_BYTES) {
+      return NextResponse.json({ success: false, error: `${name} image is too large` }, { status: 413 })
+    }
+    images.push(image)
+  }
+
+  try {
+    const repository = getRepository()
+    const session = await getAccessibleSession(repository, user, params.id)
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Session not found" }, { status: 404 })
+    }
+    if (!session.settings.identity.enabled) {
+      return NextResponse.json(
+        { success: false, error: "Identity verification is disabled for this session" },
+        { status: 409 },
+      )
+    }
+    if (!isLiveSession(session)) {
+      return NextResponse.json({ success: false, error: "Session is not in progress" }, { status: 409 })
+    }
+    if (session.identityVerification) {
+      return NextResponse.json(
+        { success: false, error: "Identity was already checked for this session" },
+        { status: 409 },
+      )
+    }
+
+    const store = getBlobStore()
+    const [idDocument, selfie] = await Promise.all(
+      images.map(async (image) =>
+        saveEvidence(store, session, new Uint8Array(await image.arrayBuffer()), image.type, "identity"),
+      ),
+    )
+
+    const updated = await repository.updateSession(session.id, {
+      identityVerification: {
+        verifiedAt: new Date(),
+        reportedMatchScore: parsed.data.matchScore,
+        threshold: session.settings.identity.matchThreshold,
+        status: "pending",
+        idDocumentEvidenceId: idDocument.id,
+        selfieEvidenceId: selfie.id,
+      },
+    })
+    if (!updated) {
+      return NextResponse.json({ success: false, error: "Session not found" }, { status: 404 })
+    }
+    getLiveHub().publish({ type: "session", session: updated })
+
+    return NextResponse.json({ success: true, data: updated })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to record identity check" }, { status: 500 })
+  }
+}
+
+// PUT /api/sessions/:id/identity - Approve or reject the identity check after comparing
+// the ID photo with the selfie ({ status: "approved" | "rejected" })
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const user = await requireUser(...STAFF_ROLES)
+  if (user instanceof NextResponse) return user
+
+  try {
+    const parsed = reviewIdentityInputSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, error: parsed.error.issues[0].message }, { status: 400 })
+    }
+
+    const repository = getRepository()
+    const session = await getAccessibleSession(repository, user, params.id)
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Session not found" }, { status: 404 })
+    }
+    if (!session.identityVerification) {
+      return NextResponse.json(
+        { success: false, error: "Identity was not checked for this session" },
+        { status: 409 },
+      )
+    }
+
+    const updated = await repository.updateSession(session.id, {
+      identityVerification: {
+        ...session.identityVerification,
+        status: parsed.data.status,
+        reviewedAt: new Date(),
+        reviewedBy: user.id,
+        reviewedByName: user.name,
+      },
+    })
+    if (!updated) {
+      return NextResponse.json({ success: false, error: "Session not found" }, { status: 404 })
+    }
+    getLiveHub().publish({ type: "session", session: updated })
+
+    return NextResponse.json({ success: true, data: updated })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to review identity check" }, { status: 500 })
+  }
+}
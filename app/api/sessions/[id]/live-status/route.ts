@@ -0,0 +1,38 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getRepository } from "@/lib/repository"
+import { getAccessibleSession, requireUser } from "@/lib/auth"
+import { getLiveHub } from "@/lib/live"
+import { SESSION_WRITER_ROLES, isLiveSession, liveStatusInputSchema } from "@/lib/domain"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// POST /api/sessions/:id/live-status - Report what the candidate's page currently sees.
+// Only relayed to the monitoring wall; statuses are not stored with the session.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const user = await requireUser(...SESSION_WRITER_ROLES)
+  if (user instanceof NextResponse) return user
+
+  try {
+    const parsed = liveStatusInputSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, error: parsed.error.issues[0].message }, { status: 400 })
+    }
+
+    const session = await getAccessibleSession(getRepository(), user, params.id)
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Session not found" }, { status: 404 })
+    }
+    if (!isLiveSession(session)) {
+      return NextResponse.json({ success: false, error: "Session is not in progress" }, { status: 409 })
+    }
+
+    const status = { ...parsed.data, updatedAt: new Date() }
+    getLiveHub().publish({ type: "status", session, status })
+
+    return NextResponse.json({ success: true, data: status })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to report status" }, { status: 500 })
+  }
+}
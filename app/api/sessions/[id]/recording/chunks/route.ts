@@ -0,0 +1,88 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getRepository } from "@/lib/repository"
+import { getBlobStore } from "@/lib/blob-store"
+import { getAccessibleSession, requireUser } from "@/lib/auth"
+import { endSessionIfTimeIsUp } from "@/lib/sessions"
+import { SESSION_WRITER_ROLES, recordingChunkQuerySchema } from "@/lib/domain"
+import {
+  MAX_CHUNK_BYTES,
+  MAX_RECORDING_BYTES,
+  acceptsChunks,
+  receivedChunkBytes,
+  recordingMimeType,
+  saveChunk,
+} from "@/lib/recording"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// POST /api/sessions/:id/recording/chunks?sequence=N - Upload one MediaRecorder chunk.
+// The body is the raw chunk; its Content-Type (video/webm or video/mp4) becomes the
+// recording's MIME type. Chunks are refused once the session has ended, after a short
+// grace period for the upload to catch up, and beyond MAX_RECORDING_BYTES in total.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const user = await requireUser(...SESSION_WRITER_ROLES)
+  if (user instanceof NextResponse) return user
+
+  const parsed = recordingChunkQuerySchema.safeParse({
+    sequence: new URL(request.url).searchParams.get("sequence") ?? undefined,
+  })
+  if (!parsed.success) {
+    return NextResponse.json({ success: false, error: parsed.error.issues[0].message }, { status: 400 })
+  }
+  const { sequence } = parsed.data
+
+  const mimeType = recordingMimeType(request.headers.get("content-type"))
+  if (!mimeType) {
+    return NextResponse.json(
+      { success: false, error: "Chunks must be video/webm or video/mp4" },
+      { status: 415 },
+    )
+  }
+
+  // Refused before the body is read; the size is checked again once it is
+  const declaredSize = Number(request.headers.get("content-length")) || 0
+  if (declaredSize > MAX_CHUNK_BYTES) {
+    return NextResponse.json({ success: false, error: "Chunk is too large" }, { status: 413 })
+  }
+
+  try {
+    const repository = getRepository()
+    const accessible = await getAccessibleSession(repository, user, params.id)
+    if (!accessible) {
+      return NextResponse.json({ success: false, error: "Session not found" }, { status: 404 })
+    }
+    // An exam session whose time is up ends at its deadline, which starts the upload grace period
+    const session = await endSessionIfTimeIsUp(repository, accessible)
+    if (session.recording?.status === "complete") {
+      return NextResponse.json({ success: false, error: "Recording is already complete" }, { status: 409 })
+    }
+    if (!acceptsChunks(session)) {
+      return NextResponse.json({ success: false, error: "Session is no longer recording" }, { status: 409 })
+    }
+
+    const store = getBlobStore()
+    const receivedBytes = await receivedChunkBytes(store, session.id)
+    if (receivedBytes + declaredSize > MAX_RECORDING_BYTES) {
+      return NextResponse.json({ success: false, error: "Recording is too large" }, { status: 413 })
+    }
+
+    const data = new Uint8Array(await request.arrayBuffer())
+    if (data.byteLength === 0) {
+      return NextResponse.json({ success: false, error: "Chunk is empty" }, { status: 400 })
+    }
+    if (data.byteLength > MAX_CHUNK_BYTES) {
+      return NextResponse.json({ success: false, error: "Chunk is too large" }, { status: 413 })
+    }
+    if (receivedBytes + data.byteLength > MAX_RECORDING_BYTES) {
+      return NextResponse.json({ success: false, error: "Recording is too large" }, { status: 413 })
+    }
+
+    await saveChunk(store, repository, session, sequence, data, mimeType)
+
+    return NextResponse.json({ success: true, data: { sequence, size: data.byteLength } }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to store recording chunk" }, { status: 500 })
+  }
+}
@@ -0,0 +1,86 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getRepository } from "@/lib/repository"
+import { getBlobStore } from "@/lib/blob-store"
+import { getAccessibleSession, requireUser } from "@/lib/auth"
+import { recordingMimeType } from "@/lib/recording"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// GET /api/sessions/:id/recording/file - Download the assembled recording.
+// Honours single byte ranges so browsers can seek in the video.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const user = await requireUser()
+  if (user instanceof NextResponse) return user
+
+  try {
+    const session = await getAccessibleSession(getRepository(), user, params.id)
+    if (!session?.recording?.key || session.recording.status !== "complete") {
+      return NextResponse.json({ success: false, error: "Recording not found" }, { status: 404 })
+    }
+
+    const store = getBlobStore()
+    const info = await store.stat(session.recording.key)
+    if (!info) {
+      return NextResponse.json({ success: false, error: "Recording not found" }, { status: 404 })
+    }
+
+    const range = parseRange(request.headers.get("range"), info.size)
+    if (range === "invalid") {
+      return new NextResponse(null, { status: 416, headers: { "Content-Range": `bytes */${info.size}` } })
+    }
+
+    const body = await store.getStream(session.recording.key, range ?? undefined)
+    if (!body) {
+      return NextResponse.json({ success: false, error: "Recording not found" }, { status: 404 })
+    }
+
+    // Recordings stored before chunk types were checked may carry any type
+    const contentType = recordingMimeType(info.contentType) ?? "application/octet-stream"
+    const extension = contentType.startsWith("video/mp4") ? "mp4" : "webm"
+    const headers: Record<string, string> = {
+      "Content-Type": contentType,
+      "Accept-Ranges": "bytes",
+      "Content-Disposition": `inline; filename="recording-${session.id}.${extension}"`,
+      // Browsers must not guess another type from the content
+      "X-Content-Type-Options": "nosniff",
+    }
+
+    if (!range) {
+      return new NextResponse(body.stream, { headers: { ...headers, "Content-Length": String(info.size) } })
+    }
+
+    return new NextResponse(body.stream, {
+      status: 206,
+      headers: {
+        ...headers,
+        "Content-Length": String(range.end - range.start + 1),
+        "Content-Range": `bytes ${range.start}-${range.end}/${info.size}`,
+      },
+    })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to read recording" }, { status: 500 })
+  }
+}
+
+// Parses "bytes=start-end", "bytes=start-" and "bytes=-suffix"; null when absent
+function parseRange(header: string | null, size: number) {
+  if (!header) return null
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim())
+  if (!match || (match[1] === "" && match[2] === "")) return "invalid" as const
+
+  let start: number
+  let end: number
+  if (match[1] === "") {
+    start = Math.max(0, size - Number(match[2]))
+    end = size - 1
+  } else {
+    start = Number(match[1])
+    end = match[2] === "" ? size - 1 : Math.min(Number(match[2]), size - 1)
+  }
+
+  if (start > end || start >= size) return "invalid" as const
+  return { start, end }
+}
@@ -0,0 +1,64 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getRepository } from "@/lib/repository"
+import { getBlobStore } from "@/lib/blob-store"
+import { getAccessibleSession, requireUser } from "@/lib/auth"
+import { assembleRecording, listReceivedChunks } from "@/lib/recording"
+import { SESSION_WRITER_ROLES, completeRecordingInputSchema } from "@/lib/domain"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// GET /api/sessions/:id/recording - Recording state and the chunks received so far
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const user = await requireUser()
+  if (user instanceof NextResponse) return user
+
+  try {
+    const session = await getAccessibleSession(getRepository(), user, params.id)
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Session not found" }, { status: 404 })
+    }
+
+    const receivedSequences =
+      session.recording?.status === "complete" ? [] : await listReceivedChunks(getBlobStore(), session.id)
+
+    return NextResponse.json({
+      success: true,
+      data: { recording: session.recording ?? null, receivedSequences },
+    })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to fetch recording" }, { status: 500 })
+  }
+}
+
+// POST /api/sessions/:id/recording - Assemble the uploaded chunks into the final recording
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const user = await requireUser(...SESSION_WRITER_ROLES)
+  if (user instanceof NextResponse) return user
+
+  try {
+    const parsed = completeRecordingInputSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, error: parsed.error.issues[0].message }, { status: 400 })
+    }
+
+    const repository = getRepository()
+    const session = await getAccessibleSession(repository, user, params.id)
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Session not found" }, { status: 404 })
+    }
+
+    const result = await assembleRecording(getBlobStore(), repository, session, parsed.data.totalChunks)
+    if ("missing" in result) {
+      return NextResponse.json(
+        { success: false, error: "Recording chunks are missing", missing: result.missing },
+        { status: 409 },
+      )
+    }
+
+    return NextResponse.json({ success: true, data: result.session })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to assemble recording" }, { status: 500 })
+  }
+}
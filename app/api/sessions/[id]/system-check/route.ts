@@ -0,0 +1,44 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getRepository } from "@/lib/repository"
+import { getAccessibleSession, requireUser } from "@/lib/auth"
+import { getLiveHub } from "@/lib/live"
+import { SESSION_WRITER_ROLES, isLiveSession, recordSystemCheckInputSchema, systemCheckPassed } from "@/lib/domain"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// POST /api/sessions/:id/system-check - Record the device check the candidate ran
+// before starting. A later check replaces the earlier one.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const user = await requireUser(...SESSION_WRITER_ROLES)
+  if (user instanceof NextResponse) return user
+
+  try {
+    const parsed = recordSystemCheckInputSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, error: parsed.error.issues[0].message }, { status: 400 })
+    }
+
+    const repository = getRepository()
+    const session = await getAccessibleSession(repository, user, params.id)
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Session not found" }, { status: 404 })
+    }
+    if (!isLiveSession(session)) {
+      return NextResponse.json({ success: false, error: "Session is not in progress" }, { status: 409 })
+    }
+
+    const updated = await repository.updateSession(session.id, {
+      systemCheck: { ...parsed.data, checkedAt: new Date(), passed: systemCheckPassed(parsed.data.checks) },
+    })
+    if (!updated) {
+      return NextResponse.json({ success: false, error: "Session not found" }, { status: 404 })
+    }
+    getLiveHub().publish({ type: "session", session: updated })
+
+    return NextResponse.json({ success: true, data: updated })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to record system check" }, { status: 500 })
+  }
+}
@@ -0,0 +1,74 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getRepository } from "@/lib/repository"
+import { getBlobStore } from "@/lib/blob-store"
+import { deleteSessionWithArtifacts, exportSessions } from "@/lib/sessions"
+import { sessionsCsv } from "@/lib/reports/csv"
+import { getAccessibleSession, requireUser } from "@/lib/auth"
+import { getLiveHub } from "@/lib/live"
+import { MANAGER_ROLES, STAFF_ROLES, bulkSessionActionInputSchema } from "@/lib/domain"
+
+// POST /api/sessions/bulk - Apply an action to several sessions from the session browser.
+// export responds with a JSON file of the sessions and their events, or a CSV
+// summary of the sessions; the other actions respond with the ids of the
+// sessions they applied to. Sessions the user may not access are skipped like
+// missing ones.
+export async function POST(request: NextRequest) {
+  const user = await requireUser(...STAFF_ROLES)
+  if (user instanceof NextResponse) return user
+
+  try {
+    const parsed = bulkSessionActionInputSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, error: parsed.error.issues[0].message }, { status: 400 })
+    }
+
+    const { action, format } = parsed.data
+    if (action === "delete" && !MANAGER_ROLES.includes(user.role)) {
+      return NextResponse.json({ success: false, error: "Not allowed for your role" }, { status: 403 })
+    }
+
+    const repository = getRepository()
+    const accessible = await Promise.all(
+      parsed.data.sessionIds.map((sessionId) => getAccessibleSession(repository, user, sessionId)),
+    )
+    const sessions = accessible.flatMap((session) => (session ? [session] : []))
+    const sessionIds = sessions.map((session) => session.id)
+
+    if (action === "export") {
+      const exported = await exportSessions(repository, sessionIds)
+      const filename = `sessions-export-${exported.exportedAt.toISOString().split("T")[0]}.${format}`
+
+      if (format === "csv") {
+        return new NextResponse(sessionsCsv(exported.sessions.map(({ session }) => session)), {
+          headers: {
+            "Content-Type": "text/csv; charset=utf-8",
+            "Content-Disposition": `attachment; filename="${filename}"`,
+          },
+        })
+      }
+
+      return new NextResponse(JSON.stringify(exported, null, 2), {
+        headers: {
+          "Content-Type": "application/json",
+          "Content-Disposition": `attachment; filename="${filename}"`,
+        },
+      })
+    }
+
+    const applied: string[] = []
+    for (const session of sessions) {
+      const succeeded =
+        action === "delete"
+          ? await deleteSessionWithArtifacts(repository, getBlobStore(), session.id)
+          : (await repository.updateSession(session.id, { reviewedAt: new Date() })) !== null
+      if (!succeeded) continue
+
+      applied.push(session.id)
+      if (action === "delete") getLiveHub().publish({ type: "removed", session })
+    }
+
+    return NextResponse.json({ success: true, data: { action, sessionIds: applied } })
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to apply bulk action" }, { status: 500 })
+  }
+}
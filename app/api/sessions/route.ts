@@ -1,78 +1,104 @@
 import { type NextRequest, NextResponse } from "next/server"
-
-export interface ProctoringSession {
-  id: string
-  candidateName: string
-  startTime: Date
-  endTime?: Date
-  duration: number
-  status: "active" | "paused" | "completed"
-  integrityScore: number
-  videoQuality: "720p" | "1080p"
-  detectionEnabled: boolean
-}
-
-export interface DetectionEvent {
-  id: string
-  sessionId: string
-  type:
-    | "focus_lost"
-    | "no_face"
-    | "multiple_faces"
-    | "phone_detected"
-    | "notes_detected"
-    | "suspicious_object"
-    | "eyes_closed"
-  timestamp: Date
-  description: string
-  severity: "low" | "medium" | "high"
-  confidence?: number
-  metadata?: Record<string, any>
-}
-
-// In-memory storage (in production, use a proper database)
-const sessions: ProctoringSession[] = []
-let events: DetectionEvent[] = []
-
-// GET /api/sessions - Get all sessions
+import { decodeCursor, getRepository } from "@/lib/repository"
+import { getBlobStore } from "@/lib/blob-store"
+import { deleteSessionWithArtifacts, endSessionIfTimeIsUp } from "@/lib/sessions"
+import { getLiveHub } from "@/lib/live"
+import { isPausedByProctor } from "@/lib/commands"
+import { DEFAULT_SCORING_POLICY, isScoringPolicyName } from "@/lib/scoring"
+import { getAccessibleExam, getAccessibleSession, requireUser, sessionScope } from "@/lib/auth"
+import {
+  examWindowState,
+  MANAGER_ROLES,
+  SESSION_WRITER_ROLES,
+  STAFF_ROLES,
+  createSessionInputSchema,
+  resolveProctoringSettings,
+  sessionQuerySchema,
+  updateSessionInputSchema,
+  type ProctoringSession,
+} from "@/lib/domain"
+
+// GET /api/sessions - List sessions, filtered and sorted by the query string.
+// Paginated with limit and cursor; without a limit every matching session is returned.
+// Only the sessions the user may access are listed.
 export async function GET(request: NextRequest) {
-  const { searchParams } = new URL(request.url)
-  const sessionId = searchParams.get("sessionId")
-  const status = searchParams.get("status")
+  const user = await requireUser()
+  if (user instanceof NextResponse) return user
 
-  try {
-    let filteredSessions = sessions
+  const { searchParams } = new URL(request.url)
+  const parsed = sessionQuerySchema.safeParse(
+    Object.fromEntries([...searchParams.entries()].filter(([, value]) => value !== "")),
+  )
 
-    if (sessionId) {
-      filteredSessions = sessions.filter((session) => session.id === sessionId)
-    }
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    return NextResponse.json({ success: false, error: `Invalid ${issue.path.join(".")}` }, { status: 400 })
+  }
+  if (parsed.data.cursor && !decodeCursor(parsed.data.cursor)) {
+    return NextResponse.json({ success: false, error: "Invalid cursor" }, { status: 400 })
+  }
 
-    if (status) {
-      filteredSessions = filteredSessions.filter((session) => session.status === status)
-    }
+  try {
+    const { sessions, total, nextCursor } = await getRepository().listSessions({
+      ...parsed.data,
+      ...sessionScope(user),
+    })
 
     return NextResponse.json({
       success: true,
-      data: filteredSessions,
-      total: filteredSessions.length,
+      data: sessions,
+      total,
+      nextCursor,
     })
   } catch (error) {
     return NextResponse.json({ success: false, error: "Failed to fetch sessions" }, { status: 500 })
   }
 }
 
-// POST /api/sessions - Create new session
+// POST /api/sessions - Create new session, taken by the signed-in user. A session
+// for an exam can only start while the exam is open and follows the exam's policy.
+// Candidates take exams through their invitation link, so only staff start exam
+// sessions here, to try an exam out.
 export async function POST(request: NextRequest) {
+  const user = await requireUser()
+  if (user instanceof NextResponse) return user
+
   try {
-    const body = await request.json()
-    const { candidateName, videoQuality = "720p", detectionEnabled = true } = body
+    const parsed = createSessionInputSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, error: parsed.error.issues[0].message }, { status: 400 })
+    }
+
+    const {
+      candidateName,
+      videoQuality,
+      detectionEnabled,
+      scoringPolicy = DEFAULT_SCORING_POLICY,
+      settings,
+      examId,
+    } = parsed.data
+
+    if (!isScoringPolicyName(scoringPolicy)) {
+      return NextResponse.json({ success: false, error: "Unknown scoring policy" }, { status: 400 })
+    }
+
+    if (examId && !STAFF_ROLES.includes(user.role)) {
+      return NextResponse.json(
+        { success: false, error: "Exam sessions start from your invitation link" },
+        { status: 403 },
+      )
+    }
 
-    if (!candidateName) {
-      return NextResponse.json({ success: false, error: "Candidate name is required" }, { status: 400 })
+    const repository = getRepository()
+    const exam = examId ? await getAccessibleExam(repository, user, examId) : null
+    if (examId && !exam) {
+      return NextResponse.json({ success: false, error: "Exam not found" }, { status: 404 })
+    }
+    if (exam && examWindowState(exam) !== "open") {
+      return NextResponse.json({ success: false, error: "Exam is not open" }, { status: 409 })
     }
 
-    const newSession: ProctoringSession = {
-      id: `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    const newSession = await repository.createSession({
       candidateName,
       startTime: new Date(),
       duration: 0,
@@ -80,9 +106,13 @@ export async function POST(request: NextRequest) {
       integrityScore: 100,
       videoQuality,
       detectionEnabled,
-    }
-
-    sessions.push(newSession)
+      scoringPolicy: exam?.scoringPolicy ?? scoringPolicy,
+      settings: exam?.settings ?? resolveProctoringSettings(settings),
+      candidateId: user.id,
+      orgId: exam?.orgId ?? user.orgId,
+      examId: exam?.id,
+    })
+    getLiveHub().publish({ type: "session", session: newSession })
 
     return NextResponse.json(
       {
@@ -96,32 +126,50 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// PUT /api/sessions - Update session
+// PUT /api/sessions - Update session. Reviewers only read sessions.
 export async function PUT(request: NextRequest) {
-  try {
-    const body = await request.json()
-    const { sessionId, status, duration, integrityScore } = body
+  const user = await requireUser(...SESSION_WRITER_ROLES)
+  if (user instanceof NextResponse) return user
 
-    if (!sessionId) {
-      return NextResponse.json({ success: false, error: "Session ID is required" }, { status: 400 })
+  try {
+    const parsed = updateSessionInputSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, error: parsed.error.issues[0].message }, { status: 400 })
     }
 
-    const sessionIndex = sessions.findIndex((session) => session.id === sessionId)
-    if (sessionIndex === -1) {
+    const { sessionId, status, duration } = parsed.data
+
+    const repository = getRepository()
+    const accessible = await getAccessibleSession(repository, user, sessionId)
+    if (!accessible) {
       return NextResponse.json({ success: false, error: "Session not found" }, { status: 404 })
     }
+    const existing = await endSessionIfTimeIsUp(repository, accessible)
+
+    // A proctor's pause or termination is theirs to lift, and an ended session stays ended
+    if (user.role === "candidate" && status && status !== existing.status) {
+      if (existing.status === "terminated") {
+        return NextResponse.json({ success: false, error: "Session was terminated by a proctor" }, { status: 409 })
+      }
+      if (existing.status === "completed") {
+        return NextResponse.json({ success: false, error: "Session has ended" }, { status: 409 })
+      }
+      if (status === "active" && (await isPausedByProctor(repository, existing))) {
+        return NextResponse.json({ success: false, error: "Session was paused by a proctor" }, { status: 409 })
+      }
+    }
 
-    const session = sessions[sessionIndex]
+    const updates: Partial<ProctoringSession> = {}
 
-    if (status) session.status = status
-    if (duration !== undefined) session.duration = duration
-    if (integrityScore !== undefined) session.integrityScore = integrityScore
+    if (status) updates.status = status
+    if (duration !== undefined) updates.duration = duration
 
-    if (status === "completed" && !session.endTime) {
-      session.endTime = new Date()
+    if ((status === "completed" || status === "terminated") && !existing.endTime) {
+      updates.endTime = new Date()
     }
 
-    sessions[sessionIndex] = session
+    const session = await repository.updateSession(sessionId, updates)
+    if (session) getLiveHub().publish({ type: "session", session })
 
     return NextResponse.json({
       success: true,
@@ -134,6 +182,9 @@ export async function PUT(request: NextRequest) {
 
 // DELETE /api/sessions - Delete session
 export async function DELETE(request: NextRequest) {
+  const user = await requireUser(...MANAGER_ROLES)
+  if (user instanceof NextResponse) return user
+
   try {
     const { searchParams } = new URL(request.url)
     const sessionId = searchParams.get("sessionId")
@@ -142,14 +193,18 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ success: false, error: "Session ID is required" }, { status: 400 })
     }
 
-    const sessionIndex = sessions.findIndex((session) => session.id === sessionId)
-    if (sessionIndex === -1) {
+    const repository = getRepository()
+    const session = await getAccessibleSession(repository, user, sessionId)
+    if (!session) {
       return NextResponse.json({ success: false, error: "Session not found" }, { status: 404 })
     }
 
-    // Also delete related events
-    events = events.filter((event) => event.sessionId !== sessionId)
-    sessions.splice(sessionIndex, 1)
+    // Also deletes related events, the recording and evidence
+    const deleted = await deleteSessionWithArtifacts(repository, getBlobStore(), sessionId)
+    if (!deleted) {
+      return NextResponse.json({ success: false, error: "Session not found" }, { status: 404 })
+    }
+    getLiveHub().publish({ type: "removed", session })
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,9 @@
+import { ExamManager } from "@/components/exam-manager"
+
+export default function ExamsPage() {
+  return (
+    <main className="min-h-screen bg-background p-6">
+      <ExamManager />
+    </main>
+  )
+}
@@ -0,0 +1,15 @@
+import { JoinExam } from "@/components/join-exam"
+
+interface JoinPageProps {
+  params: { token: string }
+}
+
+// Landing page of an invitation link. Signed-out candidates are sent through the
+// login page first, which brings them back here.
+export default function JoinPage({ params }: JoinPageProps) {
+  return (
+    <main className="min-h-screen bg-background p-6 flex items-center justify-center">
+      <JoinExam token={params.token} />
+    </main>
+  )
+}
@@ -0,0 +1,29 @@
+import { LoginForm } from "@/components/login-form"
+import { DEV_USERS, getAuthBackend } from "@/lib/auth"
+
+interface LoginPageProps {
+  searchParams: { next?: string }
+}
+
+// Only same-site paths, so the page cannot be used to redirect elsewhere. The value is parsed
+// the way the browser will resolve it, which also catches "/\evil.com" and stray control characters.
+function safeNextPath(next: string | undefined): string {
+  if (!next?.startsWith("/")) return "/"
+  const base = "http://login.invalid"
+  try {
+    const url = new URL(next, base)
+    return url.origin === base ? `${url.pathname}${url.search}${url.hash}` : "/"
+  } catch {
+    return "/"
+  }
+}
+
+export default function LoginPage({ searchParams }: LoginPageProps) {
+  const next = safeNextPath(searchParams.next)
+
+  return (
+    <main className="min-h-screen bg-background p-6 flex items-center justify-center">
+      <LoginForm next={next} devUsers={getAuthBackend() === "local" ? DEV_USERS : []} />
+    </main>
+  )
+}
@@ -0,0 +1,9 @@
+import { MonitoringWall } from "@/components/monitoring-wall"
+
+export default function MonitorPage() {
+  return (
+    <main className="min-h-screen bg-background p-6">
+      <MonitoringWall />
+    </main>
+  )
+}
@@ -1,9 +1,14 @@
 import { VideoProctoring } from "@/components/video-proctoring"
 
-export default function Home() {
+interface HomeProps {
+  // Session to continue, as after accepting an invitation link
+  searchParams: { sessionId?: string }
+}
+
+export default function Home({ searchParams }: HomeProps) {
   return (
     <main className="min-h-screen bg-background">
-      <VideoProctoring />
+      <VideoProctoring sessionId={searchParams.sessionId} />
     </main>
   )
 }
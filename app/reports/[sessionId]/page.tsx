@@ -0,0 +1,20 @@
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { ReportingDashboard } from "@/components/reporting-dashboard"
+
+interface ReportPageProps {
+  params: { sessionId: string }
+}
+
+export default function ReportPage({ params }: ReportPageProps) {
+  return (
+    <main className="min-h-screen bg-background p-6">
+      <div className="mb-6">
+        <Button asChild variant="outline">
+          <Link href="/reports">← All Reports</Link>
+        </Button>
+      </div>
+      <ReportingDashboard sessionId={params.sessionId} />
+    </main>
+  )
+}
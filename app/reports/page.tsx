@@ -1,47 +1,66 @@
 "use client"
 
-import { ReportingDashboard } from "@/components/reporting-dashboard"
+import Link from "next/link"
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Skeleton } from "@/components/ui/skeleton"
 import { ApiClient } from "@/lib/api-client"
-import { useState } from "react"
+import type { ProctoringSession } from "@/lib/domain"
 
+// Lists sessions, newest first, each linking to its report
 export default function ReportsPage() {
-  const [isLoading, setIsLoading] = useState(false)
+  const [sessions, setSessions] = useState<ProctoringSession[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
 
-  const handleDownloadReport = async () => {
-    setIsLoading(true)
-    try {
-      // Get the most recent session or allow user to select
-      const sessionId = "latest" // This would typically come from user selection
-      await ApiClient.downloadReport(sessionId, "candidate-report")
-    } catch (error) {
-      console.error("Failed to download report:", error)
-      alert("Failed to download report. Please try again.")
-    } finally {
-      setIsLoading(false)
-    }
-  }
-
-  const handleGenerateNewReport = async () => {
-    setIsLoading(true)
-    try {
-      const sessionId = "latest" // This would typically come from user selection
-      await ApiClient.generateReport(sessionId, "json")
-      alert("Report generated successfully!")
-    } catch (error) {
-      console.error("Failed to generate report:", error)
-      alert("Failed to generate report. Please try again.")
-    } finally {
-      setIsLoading(false)
-    }
-  }
+  useEffect(() => {
+    ApiClient.getSessions()
+      .then((result) => setSessions(result.sort((a, b) => b.startTime.getTime() - a.startTime.getTime())))
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to fetch sessions"))
+  }, [])
 
   return (
     <main className="min-h-screen bg-background p-6">
-      <ReportingDashboard
-        onDownloadReport={handleDownloadReport}
-        onGenerateNewReport={handleGenerateNewReport}
-        isLoading={isLoading}
-      />
+      <Card>
+        <CardHeader>
+          <CardTitle>Proctoring Reports</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {error ? (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          ) : !sessions ? (
+            <div className="space-y-2">
+              {[0, 1, 2].map((index) => (
+                <Skeleton key={index} className="h-14" />
+              ))}
+            </div>
+          ) : sessions.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">No sessions have been recorded yet</p>
+          ) : (
+            <div className="divide-y">
+              {sessions.map((session) => (
+                <Link
+                  key={session.id}
+                  href={`/reports/${session.id}`}
+                  className="flex items-center justify-between gap-4 py-3 hover:bg-muted/50"
+                >
+                  <div>
+                    <p className="font-medium text-foreground">{session.candidateName}</p>
+                    <p className="text-xs text-muted-foreground">{session.startTime.toLocaleString()}</p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="text-sm font-semibold">{session.integrityScore}%</span>
+                    <Badge variant={session.status === "completed" ? "default" : "secondary"}>{session.status}</Badge>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </main>
   )
 }
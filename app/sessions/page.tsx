@@ -0,0 +1,9 @@
+import { SessionBrowser } from "@/components/session-browser"
+
+export default function SessionsPage() {
+  return (
+    <main className="min-h-screen bg-background p-6">
+      <SessionBrowser />
+    </main>
+  )
+}
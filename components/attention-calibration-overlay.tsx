@@ -0,0 +1,110 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  calibrationFromSamples,
+  type AttentionCalibration,
+  type AttentionSample,
+  type DetectionResults,
+} from "@/lib/detection"
+import { Crosshair } from "lucide-react"
+
+// Screen positions the candidate looks at, in order
+const TARGETS = [
+  { label: "centre", className: "top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2" },
+  { label: "top left", className: "top-8 left-8" },
+  { label: "top right", className: "top-8 right-8" },
+  { label: "bottom right", className: "bottom-8 right-8" },
+  { label: "bottom left", className: "bottom-8 left-8" },
+]
+
+// Detection runs about once a second, so each target is held long enough for a
+// couple of frames after the eyes have settled on it
+const TARGET_DURATION_MS = 3000
+const SETTLE_MS = 1000
+
+interface AttentionCalibrationProps {
+  detectionResults: DetectionResults
+  onComplete: (calibration: AttentionCalibration) => void
+  onSkip: () => void
+}
+
+// Full-screen calibration shown at session start: the candidate follows a dot
+// to each corner of the screen while head pose and gaze are sampled
+export function AttentionCalibrationOverlay({ detectionResults, onComplete, onSkip }: AttentionCalibrationProps) {
+  const [targetIndex, setTargetIndex] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const samplesRef = useRef<AttentionSample[]>([])
+  const targetStartedAt = useRef(0)
+  // The parent re-renders on every detection; a ref keeps the target timer from restarting
+  const onCompleteRef = useRef(onComplete)
+  onCompleteRef.current = onComplete
+
+  // Collect samples for the current target once the eyes have settled
+  useEffect(() => {
+    if (targetIndex === null || Date.now() - targetStartedAt.current < SETTLE_MS) return
+    samplesRef.current.push({ headPose: detectionResults.headPose, gaze: detectionResults.gaze })
+  }, [detectionResults, targetIndex])
+
+  // Advance through the targets, then derive the calibration
+  useEffect(() => {
+    if (targetIndex === null) return
+    targetStartedAt.current = Date.now()
+
+    const timeout = setTimeout(() => {
+      if (targetIndex < TARGETS.length - 1) {
+        setTargetIndex(targetIndex + 1)
+        return
+      }
+
+      setTargetIndex(null)
+      try {
+        onCompleteRef.current(calibrationFromSamples(samplesRef.current))
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Calibration failed")
+      }
+    }, TARGET_DURATION_MS)
+
+    return () => clearTimeout(timeout)
+  }, [targetIndex])
+
+  const start = () => {
+    samplesRef.current = []
+    setError(null)
+    setTargetIndex(0)
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-background/95 backdrop-blur-sm">
+      {targetIndex === null ? (
+        <div className="flex h-full items-center justify-center">
+          <div className="max-w-md text-center space-y-4">
+            <Crosshair className="h-12 w-12 text-primary mx-auto" />
+            <h2 className="text-xl font-semibold">Attention Calibration</h2>
+            <p className="text-muted-foreground">
+              Sit as you will during the interview and follow the dot with your eyes as it moves to each corner of the
+              screen. This takes about 15 seconds.
+            </p>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex justify-center gap-2">
+              <Button onClick={start}>{error ? "Try Again" : "Start Calibration"}</Button>
+              <Button variant="outline" onClick={onSkip}>
+                Skip
+              </Button>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <>
+          <p className="absolute top-1/3 left-1/2 -translate-x-1/2 text-muted-foreground">
+            Look at the dot ({TARGETS[targetIndex].label})
+          </p>
+          <div className={`absolute ${TARGETS[targetIndex].className}`}>
+            <div className="h-6 w-6 rounded-full bg-primary animate-pulse" />
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,35 +1,60 @@
 "use client"
 
-import { useEffect, useRef, useState } from "react"
-
-// Types for detection results
-export interface FaceDetection {
-  box: { x: number; y: number; width: number; height: number }
-  confidence: number
-  landmarks?: { x: number; y: number }[]
-}
-
-export interface ObjectDetection {
-  class: string
-  confidence: number
-  box: { x: number; y: number; width: number; height: number }
-}
-
-export interface DetectionResults {
-  faces: FaceDetection[]
-  objects: ObjectDetection[]
-  eyesClosed: boolean
-  lookingAway: boolean
-  multipleFaces: boolean
-}
+import { useEffect, useRef, useState, type MutableRefObject } from "react"
+import {
+  AttentionTracker,
+  createDetector,
+  DEFAULT_ATTENTION_CALIBRATION,
+  DEFAULT_DETECTORS,
+  EMPTY_DETECTION_RESULTS,
+  EyeTracker,
+  evaluateObjects,
+  isLookingAway,
+  mergeDetectionResults,
+  type AttentionCalibration,
+  type DetectionResults,
+  type Detector,
+  type DetectorSpec,
+  type EyeClosure,
+  type OffScreenEpisode,
+} from "@/lib/detection"
+import {
+  DEFAULT_PROCTORING_SETTINGS,
+  type AttentionSettings,
+  type EyeSettings,
+  type ObjectPolicy,
+} from "@/lib/domain"
+import { renderSnapshot, type CaptureSnapshot } from "@/lib/evidence-capture"
+
+export type { DetectionResults, EyeClosure, FaceDetection, ObjectDetection, OffScreenEpisode } from "@/lib/detection"
+
+// Detectors run at their own intervalMs; merged results are published once per second
+const DEFAULT_DETECTOR_INTERVAL_MS = 1000
+const PUBLISH_INTERVAL_MS = 1000
 
 interface CVDetectionProps {
   videoElement: HTMLVideoElement | null
   isActive: boolean
   onDetectionUpdate: (results: DetectionResults) => void
-  onFocusLost: () => void
+  // Called when an off-screen episode longer than the dwell time ends
+  onFocusLost: (episode: OffScreenEpisode) => void
   onMultipleFaces: () => void
+  // Called when a closure longer than eyes.minClosureMs ends
+  onEyesClosed?: (closure: EyeClosure) => void
   onSuspiciousObject: (objectType: string) => void
+  // Detector plugins to run on each frame; results are merged
+  detectors?: DetectorSpec[]
+  // Decides which detected object classes count as suspicious
+  objectPolicy?: ObjectPolicy
+  // Thresholds and calibration for deciding when the candidate looks away
+  attention?: AttentionSettings
+  calibration?: AttentionCalibration
+  // Stops attention tracking, e.g. while the candidate is calibrating
+  suspendAttention?: boolean
+  // Thresholds for telling blinks from sustained eye closure
+  eyes?: EyeSettings
+  // Receives a function that encodes the last analysed frame, for evidence snapshots
+  snapshotRef?: MutableRefObject<CaptureSnapshot | null>
 }
 
 export function CVDetection({
@@ -38,31 +63,108 @@ export function CVDetection({
   onDetectionUpdate,
   onFocusLost,
   onMultipleFaces,
+  onEyesClosed,
   onSuspiciousObject,
+  detectors = DEFAULT_DETECTORS,
+  objectPolicy = DEFAULT_PROCTORING_SETTINGS.objectPolicy,
+  attention = DEFAULT_PROCTORING_SETTINGS.attention,
+  calibration = DEFAULT_ATTENTION_CALIBRATION,
+  suspendAttention = false,
+  eyes = DEFAULT_PROCTORING_SETTINGS.eyes,
+  snapshotRef,
 }: CVDetectionProps) {
   const [isModelLoaded, setIsModelLoaded] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const detectionIntervalRef = useRef<NodeJS.Timeout | null>(null)
   const canvasRef = useRef<HTMLCanvasElement>(null)
-  const lastFocusTime = useRef<number>(Date.now())
+  const attentionTrackerRef = useRef(new AttentionTracker(attention.dwellMs))
+  const onFocusLostRef = useRef(onFocusLost)
+  const eyeTrackerRef = useRef(new EyeTracker(eyes))
+  const onEyesClosedRef = useRef(onEyesClosed)
   const lastFaceCount = useRef<number>(1)
-
-  // Load TensorFlow.js models
+  const detectorsRef = useRef<Detector[]>([])
+  // Latest output of each detector and when it last ran, by index into detectorsRef
+  const partialsRef = useRef<Partial<DetectionResults>[]>([])
+  const lastRunRef = useRef<number[]>([])
+  const lastPublishedRef = useRef(0)
+  const isDetectingRef = useRef(false)
+  // Results for the frame currently on the canvas, drawn into snapshots
+  const latestResultsRef = useRef<DetectionResults | null>(null)
+
+  // Specs are compared by value so inline arrays don't reload the models every render
+  const detectorsKey = JSON.stringify(detectors)
+
+  // Create and load the detector plugins
   useEffect(() => {
+    let cancelled = false
+    let instances: Detector[] = []
+
     const loadModels = async () => {
+      setIsModelLoaded(false)
+      setError(null)
+
       try {
-        // In a real implementation, you would load actual TensorFlow.js models
-        // For demo purposes, we'll simulate model loading
-        await new Promise((resolve) => setTimeout(resolve, 2000))
+        instances = (JSON.parse(detectorsKey) as DetectorSpec[]).map(createDetector)
+        await Promise.all(instances.map((detector) => detector.load()))
+        if (cancelled) return
+        detectorsRef.current = instances
+        partialsRef.current = instances.map(() => ({}))
+        lastRunRef.current = instances.map(() => 0)
         setIsModelLoaded(true)
       } catch (err) {
-        setError("Failed to load detection models")
+        if (cancelled) return
+        setError(`Failed to load detection models: ${err instanceof Error ? err.message : String(err)}`)
         console.error("Model loading error:", err)
       }
     }
 
     loadModels()
-  }, [])
+
+    return () => {
+      cancelled = true
+      detectorsRef.current = []
+      instances.forEach((detector) => detector.dispose())
+    }
+  }, [detectorsKey])
+
+  onFocusLostRef.current = onFocusLost
+  onEyesClosedRef.current = onEyesClosed
+
+  // Start tracking afresh whenever the thresholds or calibration change or tracking is
+  // suspended; compared by value since settings are re-fetched with the session
+  const attentionKey = JSON.stringify({ attention, calibration, suspendAttention })
+  useEffect(() => {
+    attentionTrackerRef.current = new AttentionTracker(attention.dwellMs)
+  }, [attentionKey])
+
+  const eyesKey = JSON.stringify(eyes)
+  useEffect(() => {
+    eyeTrackerRef.current = new EyeTracker(eyes)
+  }, [eyesKey])
+
+  // Report an episode or closure still in progress when detection stops
+  useEffect(() => {
+    if (!isActive) return
+
+    return () => {
+      const episode = attentionTrackerRef.current.flush()
+      if (episode) onFocusLostRef.current(episode)
+
+      const closure = eyeTrackerRef.current.flush()
+      if (closure) onEyesClosedRef.current?.(closure)
+    }
+  }, [isActive])
+
+  useEffect(() => {
+    if (!snapshotRef) return
+
+    snapshotRef.current = (options) =>
+      canvasRef.current ? renderSnapshot(canvasRef.current, latestResultsRef.current, options) : Promise.resolve(null)
+
+    return () => {
+      snapshotRef.current = null
+    }
+  }, [snapshotRef])
 
   // Main detection loop
   useEffect(() => {
@@ -74,72 +176,100 @@ export function CVDetection({
       return
     }
 
-    const runDetection = () => {
-      if (!videoElement || videoElement.readyState !== 4) return
+    const runDetection = async () => {
+      // Skip a tick rather than queue frames when a slow model overruns the interval
+      if (!videoElement || videoElement.readyState !== 4 || isDetectingRef.current) return
+      isDetectingRef.current = true
 
       try {
-        const results = performDetection(videoElement)
-        onDetectionUpdate(results)
-
-        // Check for focus loss
-        if (results.lookingAway) {
-          if (Date.now() - lastFocusTime.current > 5000) {
-            onFocusLost()
-            lastFocusTime.current = Date.now()
+        const { results: detected, ranDetectors } = await performDetection(videoElement)
+
+        // Judge attention against the calibration when a detector estimated head pose,
+        // and eye closure from the eye aspect ratio when one was measured; otherwise
+        // keep the flags the detectors reported
+        const lookingAway = isLookingAway(detected, calibration, attention) ?? detected.lookingAway
+        const eyesClosed =
+          detected.eyeAspectRatio !== null ? detected.eyeAspectRatio < eyes.closedThreshold : detected.eyesClosed
+        const results = { ...detected, lookingAway, eyesClosed }
+        latestResultsRef.current = results
+
+        // Trackers see every frame from the fast detectors; blinks last a few hundred ms
+        if (ranDetectors) {
+          if (!suspendAttention) {
+            const episode = attentionTrackerRef.current.update(lookingAway, results.headPose)
+            if (episode) onFocusLost(episode)
           }
-        } else {
-          lastFocusTime.current = Date.now()
+
+          const closure = eyeTrackerRef.current.update(results.eyeAspectRatio)
+          if (closure) onEyesClosed?.(closure)
         }
 
+        const now = Date.now()
+        if (now - lastPublishedRef.current < PUBLISH_INTERVAL_MS) return
+        lastPublishedRef.current = now
+
+        onDetectionUpdate(results)
+
         // Check for multiple faces
         if (results.multipleFaces && results.faces.length !== lastFaceCount.current) {
           onMultipleFaces()
           lastFaceCount.current = results.faces.length
         }
 
-        // Check for suspicious objects
-        results.objects.forEach((obj) => {
-          if (obj.confidence > 0.7 && isSuspiciousObject(obj.class)) {
-            onSuspiciousObject(obj.class)
-          }
-        })
+        // Check for forbidden objects; "logged" classes are recorded but not flagged
+        evaluateObjects(objectPolicy, results.objects)
+          .filter((violation) => violation.action === "forbidden")
+          .forEach((violation) => onSuspiciousObject(violation.objectClass))
       } catch (err) {
         console.error("Detection error:", err)
+      } finally {
+        isDetectingRef.current = false
       }
     }
 
-    detectionIntervalRef.current = setInterval(runDetection, 1000) // Run every second
+    // Tick as often as the most frequent detector wants to run
+    const tickMs = Math.min(
+      DEFAULT_DETECTOR_INTERVAL_MS,
+      ...detectorsRef.current.map((detector) => detector.intervalMs ?? DEFAULT_DETECTOR_INTERVAL_MS),
+    )
+    detectionIntervalRef.current = setInterval(runDetection, tickMs)
 
     return () => {
       if (detectionIntervalRef.current) {
         clearInterval(detectionIntervalRef.current)
       }
     }
-  }, [isActive, isModelLoaded, videoElement, onDetectionUpdate, onFocusLost, onMultipleFaces, onSuspiciousObject])
-
-  // Simulated detection function (in real implementation, this would use TensorFlow.js)
-  const performDetection = (video: HTMLVideoElement): DetectionResults => {
-    // Create canvas for processing
+  }, [
+    isActive,
+    isModelLoaded,
+    videoElement,
+    objectPolicy,
+    attention,
+    calibration,
+    suspendAttention,
+    eyes,
+    onDetectionUpdate,
+    onFocusLost,
+    onMultipleFaces,
+    onEyesClosed,
+    onSuspiciousObject,
+  ])
+
+  // Draws the current frame to the hidden canvas and runs the detectors that are due;
+  // the others contribute their most recent output
+  const performDetection = async (video: HTMLVideoElement) => {
     const canvas = canvasRef.current
-    if (!canvas) {
-      return {
-        faces: [],
-        objects: [],
-        eyesClosed: false,
-        lookingAway: false,
-        multipleFaces: false,
-      }
-    }
-
-    const ctx = canvas.getContext("2d")
-    if (!ctx) {
-      return {
-        faces: [],
-        objects: [],
-        eyesClosed: false,
-        lookingAway: false,
-        multipleFaces: false,
-      }
+    const ctx = canvas?.getContext("2d")
+    const now = performance.now()
+    const due = detectorsRef.current
+      .map((detector, index) => ({ detector, index }))
+      .filter(
+        ({ detector, index }) =>
+          now - lastRunRef.current[index] >= (detector.intervalMs ?? DEFAULT_DETECTOR_INTERVAL_MS) - 1,
+      )
+
+    if (!canvas || !ctx || due.length === 0) {
+      return { results: mergeDetectionResults(partialsRef.current), ranDetectors: false }
     }
 
     // Set canvas size to match video
@@ -149,100 +279,18 @@ export function CVDetection({
     // Draw video frame to canvas
     ctx.drawImage(video, 0, 0, canvas.width, canvas.height)
 
-    // Simulate face detection results
-    const faces: FaceDetection[] = generateSimulatedFaceDetection()
-    const objects: ObjectDetection[] = generateSimulatedObjectDetection()
-
-    return {
-      faces,
-      objects,
-      eyesClosed: Math.random() < 0.1, // 10% chance of eyes being closed
-      lookingAway: Math.random() < 0.15, // 15% chance of looking away
-      multipleFaces: faces.length > 1,
-    }
-  }
-
-  // Simulate face detection (replace with actual TensorFlow.js face detection)
-  const generateSimulatedFaceDetection = (): FaceDetection[] => {
-    const faceCount = Math.random() < 0.9 ? 1 : Math.random() < 0.95 ? 0 : 2
-    const faces: FaceDetection[] = []
-
-    for (let i = 0; i < faceCount; i++) {
-      faces.push({
-        box: {
-          x: 100 + i * 200,
-          y: 100,
-          width: 150,
-          height: 200,
-        },
-        confidence: 0.85 + Math.random() * 0.1,
-        landmarks: [
-          { x: 150 + i * 200, y: 150 }, // Left eye
-          { x: 200 + i * 200, y: 150 }, // Right eye
-          { x: 175 + i * 200, y: 180 }, // Nose
-          { x: 175 + i * 200, y: 220 }, // Mouth
-        ],
-      })
-    }
-
-    return faces
-  }
-
-  // Simulate object detection (replace with actual YOLO/TensorFlow.js object detection)
-  const generateSimulatedObjectDetection = (): ObjectDetection[] => {
-    const objects: ObjectDetection[] = []
-
-    // Randomly detect suspicious objects
-    if (Math.random() < 0.05) {
-      // 5% chance of phone
-      objects.push({
-        class: "cell phone",
-        confidence: 0.8,
-        box: { x: 300, y: 200, width: 60, height: 120 },
-      })
-    }
-
-    if (Math.random() < 0.03) {
-      // 3% chance of book/notes
-      objects.push({
-        class: "book",
-        confidence: 0.75,
-        box: { x: 50, y: 300, width: 100, height: 150 },
-      })
-    }
-
-    if (Math.random() < 0.02) {
-      // 2% chance of laptop
-      objects.push({
-        class: "laptop",
-        confidence: 0.9,
-        box: { x: 400, y: 250, width: 200, height: 150 },
-      })
-    }
+    const frame = { canvas, timestamp: now }
+    const partials = await Promise.all(due.map(({ detector }) => detector.detect(frame)))
+    due.forEach(({ index }, i) => {
+      partialsRef.current[index] = partials[i]
+      lastRunRef.current[index] = now
+    })
 
-    return objects
-  }
-
-  // Check if detected object is suspicious
-  const isSuspiciousObject = (className: string): boolean => {
-    const suspiciousObjects = [
-      "cell phone",
-      "mobile phone",
-      "smartphone",
-      "book",
-      "notebook",
-      "paper",
-      "laptop",
-      "tablet",
-      "monitor",
-      "screen",
-    ]
-
-    return suspiciousObjects.some((obj) => className.toLowerCase().includes(obj.toLowerCase()))
+    return { results: mergeDetectionResults(partialsRef.current), ranDetectors: true }
   }
 
   return (
-    <div className="hidden">
+    <div>
       {/* Hidden canvas for image processing */}
       <canvas ref={canvasRef} style={{ display: "none" }} />
 
@@ -256,13 +304,7 @@ export function CVDetection({
 
 // Hook for using CV detection
 export function useCVDetection() {
-  const [detectionResults, setDetectionResults] = useState<DetectionResults>({
-    faces: [],
-    objects: [],
-    eyesClosed: false,
-    lookingAway: false,
-    multipleFaces: false,
-  })
+  const [detectionResults, setDetectionResults] = useState<DetectionResults>(EMPTY_DETECTION_RESULTS)
 
   const [detectionStats, setDetectionStats] = useState({
     totalFocusLossEvents: 0,
@@ -275,7 +317,7 @@ export function useCVDetection() {
     setDetectionResults(results)
   }
 
-  const handleFocusLost = () => {
+  const handleFocusLost = (_episode: OffScreenEpisode) => {
     setDetectionStats((prev) => ({
       ...prev,
       totalFocusLossEvents: prev.totalFocusLossEvents + 1,
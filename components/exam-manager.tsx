@@ -0,0 +1,531 @@
+"use client"
+
+import Link from "next/link"
+import { useCallback, useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Link2, Plus, Trash2, UserPlus } from "lucide-react"
+import { UserMenu } from "@/components/user-menu"
+import { useCurrentUser } from "@/hooks/use-current-user"
+import { ApiClient } from "@/lib/api-client"
+import { DEFAULT_SCORING_POLICY, SCORING_POLICIES } from "@/lib/scoring"
+import {
+  DEFAULT_PROCTORING_SETTINGS,
+  MANAGER_ROLES,
+  STAFF_ROLES,
+  examWindowState,
+  type Exam,
+  type ExamWindowState,
+  type Invitation,
+  type Organization,
+} from "@/lib/domain"
+
+interface ExamForm {
+  orgId: string
+  title: string
+  description: string
+  opensAt: string
+  closesAt: string
+  durationMinutes: string
+  scoringPolicy: string
+  requireFullscreen: boolean
+  analyseAudio: boolean
+  verifyIdentity: boolean
+}
+
+const INITIAL_FORM: ExamForm = {
+  orgId: "",
+  title: "",
+  description: "",
+  opensAt: "",
+  closesAt: "",
+  durationMinutes: "60",
+  scoringPolicy: DEFAULT_SCORING_POLICY,
+  requireFullscreen: false,
+  analyseAudio: true,
+  verifyIdentity: false,
+}
+
+const WINDOW_BADGES: Record<ExamWindowState, "default" | "secondary" | "outline"> = {
+  upcoming: "secondary",
+  open: "default",
+  closed: "outline",
+}
+
+// Exams of the user's organization: managers schedule them, proctors invite candidates
+export function ExamManager() {
+  const { user } = useCurrentUser()
+  const [exams, setExams] = useState<Exam[]>([])
+  const [organizations, setOrganizations] = useState<Organization[]>([])
+  const [form, setForm] = useState<ExamForm>(INITIAL_FORM)
+  const [selectedExamId, setSelectedExamId] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const isManager = !!user && MANAGER_ROLES.includes(user.role)
+  const isStaff = !!user && STAFF_ROLES.includes(user.role)
+  const canInvite = !!user && (user.role === "proctor" || isManager)
+  const isAdmin = user?.role === "admin"
+
+  const loadExams = useCallback(async () => {
+    try {
+      setExams(await ApiClient.getExams())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch exams")
+    }
+  }, [])
+
+  useEffect(() => {
+    loadExams()
+  }, [loadExams])
+
+  // Admins belong to no organization, so they pick the one the exam is for
+  useEffect(() => {
+    if (!isAdmin) return
+    ApiClient.getOrganizations()
+      .then(setOrganizations)
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to fetch organizations"))
+  }, [isAdmin])
+
+  const updateForm = <K extends keyof ExamForm>(key: K, value: ExamForm[K]) =>
+    setForm((prev) => ({ ...prev, [key]: value }))
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const exam = await ApiClient.createExam({
+        orgId: form.orgId || undefined,
+        title: form.title,
+        description: form.description || undefined,
+        // datetime-local inputs are in local time
+        opensAt: new Date(form.opensAt),
+        closesAt: new Date(form.closesAt),
+        durationMinutes: Number(form.durationMinutes),
+        scoringPolicy: form.scoringPolicy,
+        settings: {
+          ...(form.requireFullscreen
+            ? { browser: { ...DEFAULT_PROCTORING_SETTINGS.browser, requireFullscreen: true } }
+            : {}),
+          ...(form.analyseAudio ? {} : { audio: { ...DEFAULT_PROCTORING_SETTINGS.audio, enabled: false } }),
+          ...(form.verifyIdentity ? { identity: { ...DEFAULT_PROCTORING_SETTINGS.identity, enabled: true } } : {}),
+        },
+      })
+      setExams((prev) => [exam, ...prev])
+      setForm(INITIAL_FORM)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create exam")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (exam: Exam) => {
+    if (!window.confirm(`Delete "${exam.title}" and its invitations? Its sessions are kept.`)) return
+
+    setError(null)
+    try {
+      await ApiClient.deleteExam(exam.id)
+      setExams((prev) => prev.filter((item) => item.id !== exam.id))
+      if (selectedExamId === exam.id) setSelectedExamId(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete exam")
+    }
+  }
+
+  const selectedExam = exams.find((exam) => exam.id === selectedExamId)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground">Exams</h2>
+          <p className="text-muted-foreground">Schedule exams and invite candidates to take them</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <UserMenu />
+          <Button asChild variant="ghost">
+            <Link href="/sessions">Past Sessions</Link>
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {isManager && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">New exam</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              {isAdmin && (
+                <div className="space-y-1 md:col-span-4">
+                  <Label>Organization</Label>
+                  <Select value={form.orgId} onValueChange={(value) => updateForm("orgId", value)}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select an organization" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {organizations.map((organization) => (
+                        <SelectItem key={organization.id} value={organization.id}>
+                          {organization.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-1 md:col-span-2">
+                <Label htmlFor="exam-title">Title</Label>
+                <Input
+                  id="exam-title"
+                  value={form.title}
+                  onChange={(e) => updateForm("title", e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="exam-duration">Time limit (minutes)</Label>
+                <Input
+                  id="exam-duration"
+                  type="number"
+                  min={1}
+                  value={form.durationMinutes}
+                  onChange={(e) => updateForm("durationMinutes", e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Scoring policy</Label>
+                <Select value={form.scoringPolicy} onValueChange={(value) => updateForm("scoringPolicy", value)}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.keys(SCORING_POLICIES).map((name) => (
+                      <SelectItem key={name} value={name}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1 md:col-span-2">
+                <Label htmlFor="exam-opens">Opens</Label>
+                <Input
+                  id="exam-opens"
+                  type="datetime-local"
+                  value={form.opensAt}
+                  onChange={(e) => updateForm("opensAt", e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-1 md:col-span-2">
+                <Label htmlFor="exam-closes">Closes</Label>
+                <Input
+                  id="exam-closes"
+                  type="datetime-local"
+                  value={form.closesAt}
+                  onChange={(e) => updateForm("closesAt", e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-1 md:col-span-4">
+                <Label htmlFor="exam-description">Description</Label>
+                <Textarea
+                  id="exam-description"
+                  value={form.description}
+                  onChange={(e) => updateForm("description", e.target.value)}
+                />
+              </div>
+              <div className="md:col-span-4 flex items-center gap-2">
+                <Checkbox
+                  id="exam-fullscreen"
+                  checked={form.requireFullscreen}
+                  onCheckedChange={(checked) => updateForm("requireFullscreen", checked === true)}
+                />
+                <Label htmlFor="exam-fullscreen">Require fullscreen</Label>
+              </div>
+              <div className="md:col-span-4 flex items-center gap-2">
+                <Checkbox
+                  id="exam-audio"
+                  checked={form.analyseAudio}
+                  onCheckedChange={(checked) => updateForm("analyseAudio", checked === true)}
+                />
+                <Label htmlFor="exam-audio">Analyse audio for speech and other voices</Label>
+              </div>
+              <div className="md:col-span-4 flex items-center gap-2">
+                <Checkbox
+                  id="exam-identity"
+                  checked={form.verifyIdentity}
+                  onCheckedChange={(checked) => updateForm("verifyIdentity", checked === true)}
+                />
+                <Label htmlFor="exam-identity">Verify identity against a photo ID</Label>
+              </div>
+              <div className="md:col-span-4 flex justify-end">
+                <Button type="submit" disabled={isSaving}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create exam
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">
+            {exams.length} exam{exams.length === 1 ? "" : "s"}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {exams.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">No exams scheduled yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Window</TableHead>
+                  <TableHead>Time limit</TableHead>
+                  <TableHead>Policy</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {exams.map((exam) => {
+                  const state = examWindowState(exam)
+                  return (
+                    <TableRow key={exam.id} data-state={exam.id === selectedExamId ? "selected" : undefined}>
+                      <TableCell>
+                        <p className="font-medium">{exam.title}</p>
+                        {exam.description && <p className="text-xs text-muted-foreground">{exam.description}</p>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={WINDOW_BADGES[state]}>{state}</Badge>
+                        <p className="text-xs text-muted-foreground">
+                          {exam.opensAt.toLocaleString()} – {exam.closesAt.toLocaleString()}
+                        </p>
+                      </TableCell>
+                      <TableCell>{exam.durationMinutes} min</TableCell>
+                      <TableCell>
+                        {exam.scoringPolicy}
+                        {exam.settings.browser.requireFullscreen && (
+                          <Badge variant="outline" className="ml-2">
+                            fullscreen
+                          </Badge>
+                        )}
+                        {!exam.settings.audio.enabled && (
+                          <Badge variant="outline" className="ml-2">
+                            no audio
+                          </Badge>
+                        )}
+                        {exam.settings.identity.enabled && (
+                          <Badge variant="outline" className="ml-2">
+                            identity
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right space-x-2">
+                        {isStaff && (
+                          <Button variant="outline" size="sm" onClick={() => setSelectedExamId(exam.id)}>
+                            Invitations
+                          </Button>
+                        )}
+                        {isManager && (
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(exam)} title="Delete exam">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedExam && <InvitationsPanel exam={selectedExam} canInvite={canInvite} />}
+    </div>
+  )
+}
+
+// Candidates invited to one exam
+function InvitationsPanel({ exam, canInvite }: { exam: Exam; canInvite: boolean }) {
+  const [invitations, setInvitations] = useState<Invitation[]>([])
+  const [candidateName, setCandidateName] = useState("")
+  const [candidateEmail, setCandidateEmail] = useState("")
+  const [issuedLink, setIssuedLink] = useState<{ candidateName: string; url: string; expiresAt: Date } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setError(null)
+    ApiClient.getInvitations(exam.id)
+      .then(setInvitations)
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to fetch invitations"))
+  }, [exam.id])
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    try {
+      const invitation = await ApiClient.createInvitation(exam.id, { candidateName, candidateEmail })
+      setInvitations((prev) => [invitation, ...prev])
+      setCandidateName("")
+      setCandidateEmail("")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to invite candidate")
+    }
+  }
+
+  const handleRevoke = async (invitation: Invitation) => {
+    setError(null)
+    try {
+      const revoked = await ApiClient.revokeInvitation(exam.id, invitation.id)
+      setInvitations((prev) => prev.map((item) => (item.id === revoked.id ? revoked : item)))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to revoke invitation")
+    }
+  }
+
+  // Each link works once; the new link replaces any the candidate was sent before
+  const handleIssueLink = async (invitation: Invitation) => {
+    setError(null)
+    try {
+      const link = await ApiClient.issueInvitationLink(exam.id, invitation.id)
+      const url = `${window.location.origin}${link.path}`
+      setIssuedLink({ candidateName: invitation.candidateName, url, expiresAt: link.expiresAt })
+      setInvitations((prev) =>
+        prev.map((item) => (item.id === invitation.id ? { ...item, tokenExpiresAt: link.expiresAt } : item)),
+      )
+      await navigator.clipboard?.writeText(url).catch(() => undefined)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to issue invitation link")
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Invitations · {exam.title}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {canInvite && (
+          <form onSubmit={handleInvite} className="flex flex-col md:flex-row gap-2">
+            <Input
+              placeholder="Candidate name"
+              value={candidateName}
+              onChange={(e) => setCandidateName(e.target.value)}
+              required
+            />
+            <Input
+              type="email"
+              placeholder="Candidate email"
+              value={candidateEmail}
+              onChange={(e) => setCandidateEmail(e.target.value)}
+              required
+            />
+            <Button type="submit">
+              <UserPlus className="h-4 w-4 mr-2" />
+              Invite
+            </Button>
+          </form>
+        )}
+
+        {issuedLink && (
+          <Alert>
+            <AlertDescription>
+              <p>
+                Join link for {issuedLink.candidateName}, copied to the clipboard. It works once and expires{" "}
+                {issuedLink.expiresAt.toLocaleString()}.
+              </p>
+              <Input readOnly value={issuedLink.url} className="mt-2 font-mono text-xs" onFocus={(e) => e.target.select()} />
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {invitations.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">Nobody has been invited yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Candidate</TableHead>
+                <TableHead>Invited</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invitations.map((invitation) => (
+                <TableRow key={invitation.id}>
+                  <TableCell>
+                    <p className="font-medium">{invitation.candidateName}</p>
+                    <p className="text-xs text-muted-foreground">{invitation.candidateEmail}</p>
+                  </TableCell>
+                  <TableCell>{invitation.createdAt.toLocaleString()}</TableCell>
+                  <TableCell>
+                    {invitation.sessionId ? (
+                      <Link href={`/reports/${invitation.sessionId}`} className="text-primary hover:underline">
+                        {invitation.status}
+                      </Link>
+                    ) : (
+                      <Badge variant={invitation.status === "revoked" ? "outline" : "secondary"}>{invitation.status}</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {canInvite && invitation.status === "pending" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleIssueLink(invitation)}
+                        title={
+                          invitation.tokenExpiresAt
+                            ? `Current link expires ${invitation.tokenExpiresAt.toLocaleString()}`
+                            : undefined
+                        }
+                      >
+                        <Link2 className="h-4 w-4 mr-2" />
+                        {invitation.tokenExpiresAt ? "New link" : "Copy link"}
+                      </Button>
+                    )}
+                    {canInvite && invitation.status === "pending" && (
+                      <Button variant="ghost" size="sm" onClick={() => handleRevoke(invitation)}>
+                        Revoke
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,272 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { compareFaceSignatures, FaceSignatureExtractor, type FaceSignature } from "@/lib/detection"
+import { mediaConstraints } from "@/lib/system-check"
+import { Camera, IdCard, Loader2, RotateCcw, XCircle } from "lucide-react"
+
+// The two images of the identity check and how well they matched. The selfie's
+// signature is the reference the live face is re-verified against.
+export interface IdentityCapture {
+  idDocument: Blob
+  selfie: Blob
+  matchScore: number
+  signature: FaceSignature
+}
+
+interface Capture {
+  image: Blob
+  url: string
+  signature: FaceSignature
+}
+
+interface IdentityVerificationProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Camera chosen in the system check
+  cameraId?: string
+  // settings.identity.matchThreshold of the session
+  matchThreshold: number
+  onComplete: (capture: IdentityCapture) => void
+}
+
+type IdentityStep = "id_document" | "selfie" | "review"
+
+const JPEG_QUALITY = 0.9
+
+const STEP_PROMPTS: Record<Exclude<IdentityStep, "review">, { title: string; description: string }> = {
+  id_document: {
+    title: "Photograph your ID",
+    description: "Hold your photo ID close to the camera so its photo is clearly visible, then capture it.",
+  },
+  selfie: {
+    title: "Take a selfie",
+    description: "Remove the ID, look straight at the camera with only your face in view, then capture.",
+  },
+}
+
+// Identity step before the session: the candidate captures a photo ID and a selfie,
+// and the faces on the two are compared in the browser. A poor match does not stop
+// the session but is recorded for reviewers along with both images.
+export function IdentityVerification({
+  open,
+  onOpenChange,
+  cameraId,
+  matchThreshold,
+  onComplete,
+}: IdentityVerificationProps) {
+  const [step, setStep] = useState<IdentityStep>("id_document")
+  const [idDocument, setIdDocument] = useState<Capture | null>(null)
+  const [selfie, setSelfie] = useState<Capture | null>(null)
+  const [isModelReady, setIsModelReady] = useState(false)
+  const [isCapturing, setIsCapturing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const extractorRef = useRef<FaceSignatureExtractor | null>(null)
+
+  const matchScore = idDocument && selfie ? compareFaceSignatures(idDocument.signature, selfie.signature) : null
+
+  const reset = () => {
+    setStep("id_document")
+    setIdDocument(null)
+    setSelfie(null)
+    setError(null)
+  }
+
+  useEffect(() => {
+    if (!open) return
+
+    let cancelled = false
+    let stream: MediaStream | null = null
+    reset()
+
+    navigator.mediaDevices
+      .getUserMedia(mediaConstraints("720p", { cameraId, audio: false }))
+      .then((opened) => {
+        stream = opened
+        if (cancelled) {
+          opened.getTracks().forEach((track) => track.stop())
+        } else if (videoRef.current) {
+          videoRef.current.srcObject = opened
+        }
+      })
+      .catch((err) => {
+        console.error("Error accessing camera:", err)
+        if (!cancelled) setError("Unable to access the camera. Check that it is connected and allowed.")
+      })
+
+    const extractor = extractorRef.current ?? new FaceSignatureExtractor()
+    extractorRef.current = extractor
+    extractor
+      .load()
+      .then(() => !cancelled && setIsModelReady(true))
+      .catch((err) => {
+        console.error("Failed to load the face model:", err)
+        if (!cancelled) setError("Face comparison is unavailable in this browser. Contact your proctor.")
+      })
+
+    return () => {
+      cancelled = true
+      stream?.getTracks().forEach((track) => track.stop())
+    }
+  }, [open, cameraId])
+
+  useEffect(() => {
+    return () => {
+      extractorRef.current?.dispose()
+      extractorRef.current = null
+    }
+  }, [])
+
+  // Object URLs of the previews are released when replaced or closed
+  useEffect(() => {
+    return () => {
+      if (idDocument) URL.revokeObjectURL(idDocument.url)
+    }
+  }, [idDocument])
+  useEffect(() => {
+    return () => {
+      if (selfie) URL.revokeObjectURL(selfie.url)
+    }
+  }, [selfie])
+
+  const capture = async () => {
+    const video = videoRef.current
+    const extractor = extractorRef.current
+    if (!video || !extractor || video.videoWidth === 0 || step === "review") return
+
+    setIsCapturing(true)
+    setError(null)
+    try {
+      const canvas = document.createElement("canvas")
+      canvas.width = video.videoWidth
+      canvas.height = video.videoHeight
+      canvas.getContext("2d")?.drawImage(video, 0, 0)
+
+      const { faces, signature } = extractor.extract(canvas)
+      if (!signature) {
+        setError(
+          faces === 0
+            ? step === "id_document"
+              ? "No face found on the ID. Hold it closer, without glare on the photo."
+              : "No face found. Look straight at the camera in good light."
+            : step === "id_document"
+              ? "More than one face in view. Cover your own face or hold the ID closer so only its photo shows."
+              : "More than one face in view. Make sure you are alone in front of the camera.",
+        )
+        return
+      }
+
+      const image = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", JPEG_QUALITY))
+      if (!image) {
+        setError("Failed to capture the picture. Please try again.")
+        return
+      }
+
+      const captured = { image, url: URL.createObjectURL(image), signature }
+      if (step === "id_document") {
+        setIdDocument(captured)
+        setStep("selfie")
+      } else {
+        setSelfie(captured)
+        setStep("review")
+      }
+    } finally {
+      setIsCapturing(false)
+    }
+  }
+
+  const handleContinue = () => {
+    if (!idDocument || !selfie || matchScore === null) return
+    onComplete({ idDocument: idDocument.image, selfie: selfie.image, matchScore, signature: selfie.signature })
+  }
+
+  const passed = matchScore !== null && matchScore >= matchThreshold
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isCapturing && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{step === "review" ? "Identity check" : STEP_PROMPTS[step].title}</DialogTitle>
+          <DialogDescription>
+            {step === "review"
+              ? "Your selfie was compared with the photo on your ID. Both pictures are kept with the session for the reviewers."
+              : STEP_PROMPTS[step].description}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert className="border-red-200 bg-red-50">
+            <XCircle className="h-4 w-4 text-red-600" />
+            <AlertDescription className="text-red-800">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <video
+          ref={videoRef}
+          autoPlay
+          muted
+          playsInline
+          className={`w-full aspect-video rounded-lg bg-black object-cover ${step === "review" ? "hidden" : ""}`}
+        />
+
+        {step === "review" && idDocument && selfie && matchScore !== null && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-4">
+              {[
+                { label: "ID photo", capture: idDocument },
+                { label: "Selfie", capture: selfie },
+              ].map(({ label, capture: { url } }) => (
+                <div key={label} className="space-y-1">
+                  <p className="text-sm font-medium text-muted-foreground">{label}</p>
+                  <img src={url} alt={label} className="w-full rounded-lg border" />
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium">Match score: {Math.round(matchScore * 100)}%</span>
+              <Badge variant={passed ? "default" : "destructive"}>{passed ? "match" : "no match"}</Badge>
+            </div>
+            {!passed && (
+              <p className="text-sm text-muted-foreground">
+                The faces do not match well. Retake the pictures in better light, or continue and a reviewer will
+                compare them.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isCapturing}>
+            Cancel
+          </Button>
+          {step !== "id_document" && (
+            <Button variant="outline" onClick={reset} disabled={isCapturing}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Start over
+            </Button>
+          )}
+          {step === "review" ? (
+            <Button onClick={handleContinue}>Start session</Button>
+          ) : (
+            <Button onClick={capture} disabled={!isModelReady || isCapturing}>
+              {isCapturing || !isModelReady ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : step === "id_document" ? (
+                <IdCard className="h-4 w-4 mr-2" />
+              ) : (
+                <Camera className="h-4 w-4 mr-2" />
+              )}
+              Capture
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
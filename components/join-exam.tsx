@@ -0,0 +1,106 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Skeleton } from "@/components/ui/skeleton"
+import { UserMenu } from "@/components/user-menu"
+import { ApiClient } from "@/lib/api-client"
+import { examWindowState, type InvitationPreview } from "@/lib/domain"
+
+interface JoinExamProps {
+  token: string
+}
+
+// Shows the exam an invitation link is for and uses the link once the candidate
+// starts. The link is only consumed by the button, never by opening the page.
+export function JoinExam({ token }: JoinExamProps) {
+  const router = useRouter()
+  const [preview, setPreview] = useState<InvitationPreview | null>(null)
+  const [isJoining, setIsJoining] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    ApiClient.getInvitationPreview(token)
+      .then(setPreview)
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to fetch invitation"))
+  }, [token])
+
+  const handleJoin = async () => {
+    setIsJoining(true)
+    setError(null)
+    try {
+      const session = await ApiClient.acceptInvitation(token)
+      router.replace(`/?sessionId=${session.id}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to accept invitation")
+      setIsJoining(false)
+    }
+  }
+
+  const state = preview ? examWindowState(preview.exam) : null
+
+  return (
+    <Card className="w-full max-w-lg">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Exam invitation</CardTitle>
+        <UserMenu />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {!preview ? (
+          !error && <Skeleton className="h-32 w-full" />
+        ) : (
+          <>
+            <div className="space-y-1">
+              <h3 className="text-lg font-semibold text-foreground">{preview.exam.title}</h3>
+              {preview.exam.description && <p className="text-muted-foreground">{preview.exam.description}</p>}
+            </div>
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div>
+                <p className="text-muted-foreground">Candidate</p>
+                <p className="text-foreground">{preview.candidateName}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Time limit</p>
+                <p className="text-foreground">{preview.exam.durationMinutes} minutes</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Window</p>
+                <p className="text-foreground">
+                  {preview.exam.opensAt.toLocaleString()} – {preview.exam.closesAt.toLocaleString()}
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Link expires</p>
+                <p className="text-foreground">{preview.expiresAt.toLocaleString()}</p>
+              </div>
+            </div>
+
+            {state === "open" ? (
+              <p className="text-sm text-muted-foreground">
+                Starting opens the proctored session for this exam. The link can only be used once.
+              </p>
+            ) : (
+              <Badge variant="secondary">
+                {state === "upcoming" ? `Opens ${preview.exam.opensAt.toLocaleString()}` : "This exam has closed"}
+              </Badge>
+            )}
+
+            <Button className="w-full" disabled={state !== "open" || isJoining} onClick={handleJoin}>
+              {isJoining ? "Starting..." : "Start exam"}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,114 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ApiClient } from "@/lib/api-client"
+import type { AuthUser } from "@/lib/domain"
+
+interface LoginFormProps {
+  // Where to go once signed in
+  next: string
+  // Accounts of the local dev provider, offered for one-click sign-in; empty with Supabase Auth
+  devUsers: AuthUser[]
+}
+
+export function LoginForm({ next, devUsers }: LoginFormProps) {
+  const router = useRouter()
+  const [email, setEmail] = useState("")
+  const [password, setPassword] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const signIn = async (signInEmail: string, signInPassword: string) => {
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      await ApiClient.login(signInEmail, signInPassword)
+      router.replace(next)
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to sign in")
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>Sign in to Video Proctoring</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault()
+            signIn(email, password)
+          }}
+        >
+          <div className="space-y-1">
+            <Label htmlFor="login-email">Email</Label>
+            <Input
+              id="login-email"
+              type="email"
+              autoComplete="email"
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+          </div>
+          {devUsers.length === 0 && (
+            <div className="space-y-1">
+              <Label htmlFor="login-password">Password</Label>
+              <Input
+                id="login-password"
+                type="password"
+                autoComplete="current-password"
+                required
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+          )}
+          <Button type="submit" className="w-full" disabled={isSubmitting}>
+            {isSubmitting ? "Signing in..." : "Sign in"}
+          </Button>
+        </form>
+
+        {devUsers.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">Local development accounts</p>
+            <div className="divide-y rounded-md border">
+              {devUsers.map((user) => (
+                <button
+                  key={user.id}
+                  type="button"
+                  disabled={isSubmitting}
+                  className="flex w-full items-center justify-between gap-4 px-3 py-2 text-left hover:bg-muted/50"
+                  onClick={() => signIn(user.email, "")}
+                >
+                  <div>
+                    <p className="text-sm font-medium text-foreground">{user.name}</p>
+                    <p className="text-xs text-muted-foreground">{user.email}</p>
+                  </div>
+                  <Badge variant="secondary">{user.role.replace("_", " ")}</Badge>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,318 @@
+"use client"
+
+import Link from "next/link"
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import {
+  AlertTriangle,
+  Ban,
+  Eye,
+  EyeOff,
+  MessageSquare,
+  Pause,
+  Play,
+  Radio,
+  Smartphone,
+  UserCheck,
+  UserX,
+  Users,
+} from "lucide-react"
+import { UserMenu } from "@/components/user-menu"
+import { useCurrentUser } from "@/hooks/use-current-user"
+import { useLiveMonitor, type LiveConnection } from "@/hooks/use-live-monitor"
+import { ApiClient } from "@/lib/api-client"
+import {
+  MANAGER_ROLES,
+  PROCTOR_COMMAND_LABELS,
+  type LiveStatus,
+  type ProctorCommandType,
+  type ProctoringSession,
+} from "@/lib/domain"
+
+// A candidate page that has not reported for this long may have lost its connection
+const STALE_STATUS_MS = 30_000
+
+// Commands the proctor writes a text for before sending
+type ComposedCommand = Extract<ProctorCommandType, "message" | "warning" | "terminate">
+
+const COMPOSE_PROMPTS: Record<ComposedCommand, { description: string; placeholder: string; action: string }> = {
+  message: {
+    description: "Shown to the candidate until they acknowledge it.",
+    placeholder: "Message to the candidate",
+    action: "Send message",
+  },
+  warning: {
+    description: "Recorded in the session report as a formal warning.",
+    placeholder: "What the candidate is being warned about",
+    action: "Issue warning",
+  },
+  terminate: {
+    description: "Ends the session immediately. The reason is shown to the candidate and kept in the report.",
+    placeholder: "Reason for terminating the session",
+    action: "Terminate session",
+  },
+}
+
+const CONNECTION_LABELS: Record<LiveConnection, string> = {
+  connecting: "Connecting",
+  open: "Live",
+  reconnecting: "Reconnecting",
+}
+
+function getScoreColor(score: number) {
+  if (score >= 90) return "text-green-600"
+  if (score >= 70) return "text-yellow-600"
+  return "text-red-600"
+}
+
+function formatElapsed(from: Date, now: number) {
+  const seconds = Math.max(0, Math.floor((now - from.getTime()) / 1000))
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes.toString().padStart(2, "0")}:${(seconds % 60).toString().padStart(2, "0")}`
+}
+
+function getSeverityColor(severity: string) {
+  switch (severity) {
+    case "high":
+      return "bg-red-100 text-red-800 border-red-200"
+    case "medium":
+      return "bg-yellow-100 text-yellow-800 border-yellow-200"
+    default:
+      return "bg-blue-100 text-blue-800 border-blue-200"
+  }
+}
+
+// Proctor view of every session in progress, with the candidates' live status and
+// a feed of detection events as they are logged
+export function MonitoringWall() {
+  const { user } = useCurrentUser()
+  const { sessions, statuses, feed, connection } = useLiveMonitor()
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground flex items-center gap-3">
+            Live Monitoring
+            <Badge variant={connection === "open" ? "default" : "secondary"}>
+              <Radio className="h-3 w-3 mr-1" />
+              {CONNECTION_LABELS[connection]}
+            </Badge>
+          </h2>
+          <p className="text-muted-foreground">
+            {sessions.length} session{sessions.length === 1 ? "" : "s"} in progress
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <UserMenu />
+          <Button asChild variant="ghost">
+            <Link href="/sessions">Past Sessions</Link>
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-4 gap-6">
+        <div className="xl:col-span-3">
+          {sessions.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center text-muted-foreground">No sessions in progress</CardContent>
+            </Card>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 2xl:grid-cols-3 gap-4">
+              {sessions.map((session) => (
+                <SessionTile
+                  key={session.id}
+                  session={session}
+                  status={statuses[session.id]}
+                  now={now}
+                  canIntervene={!!user && (user.role === "proctor" || MANAGER_ROLES.includes(user.role))}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+
+        <Card className="h-fit">
+          <CardHeader>
+            <CardTitle className="text-base">Incoming events</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {feed.length === 0 ? (
+              <p className="text-muted-foreground text-center py-4 text-sm">Waiting for detection events</p>
+            ) : (
+              <div className="space-y-2 max-h-[70vh] overflow-y-auto">
+                {feed.map(({ session, event }) => (
+                  <div key={event.id} className="p-2 rounded-lg border text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-foreground truncate">{session.candidateName}</span>
+                      <Badge className={getSeverityColor(event.severity)}>{event.severity}</Badge>
+                    </div>
+                    <p className="text-foreground">{event.description}</p>
+                    <p className="text-xs text-muted-foreground">{event.timestamp.toLocaleTimeString()}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
+
+function SessionTile({
+  session,
+  status,
+  now,
+  canIntervene,
+}: {
+  session: ProctoringSession
+  status?: LiveStatus
+  now: number
+  // Reviewers watch without intervening
+  canIntervene: boolean
+}) {
+  const [composing, setComposing] = useState<ComposedCommand | null>(null)
+  const [text, setText] = useState("")
+  const [isSending, setIsSending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const isStale = !status || now - status.updatedAt.getTime() > STALE_STATUS_MS
+
+  // The tile follows the session through the monitoring stream, so nothing is updated here
+  const sendCommand = async (type: ProctorCommandType, commandText?: string) => {
+    setIsSending(true)
+    setError(null)
+
+    try {
+      await ApiClient.issueCommand(session.id, { type, text: commandText })
+      setComposing(null)
+      setText("")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to issue command")
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <Card className={session.integrityScore < 70 ? "border-red-300" : undefined}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center justify-between gap-2">
+          <Link href={`/reports/${session.id}`} className="truncate hover:underline">
+            {session.candidateName}
+          </Link>
+          <span className={`font-bold ${getScoreColor(session.integrityScore)}`}>{session.integrityScore}%</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span className="font-mono">{formatElapsed(session.startTime, now)}</span>
+          {session.status === "paused" ? <Badge variant="secondary">Paused</Badge> : <Badge>Active</Badge>}
+        </div>
+
+        {!status ? (
+          <p className="text-sm text-muted-foreground">No status reported yet</p>
+        ) : (
+          <div className={`flex flex-wrap gap-2 ${isStale ? "opacity-50" : ""}`}>
+            <Badge variant={status.focused ? "outline" : "destructive"}>
+              {status.focused ? <Eye className="h-3 w-3 mr-1" /> : <EyeOff className="h-3 w-3 mr-1" />}
+              {status.focused ? "Focused" : "Not focused"}
+            </Badge>
+            <Badge variant={status.faceDetected ? "outline" : "destructive"}>
+              {status.faceDetected ? <UserCheck className="h-3 w-3 mr-1" /> : <UserX className="h-3 w-3 mr-1" />}
+              {status.faceDetected ? "Face detected" : "No face"}
+            </Badge>
+            {status.multipleFaces && (
+              <Badge variant="destructive">
+                <Users className="h-3 w-3 mr-1" />
+                Multiple faces
+              </Badge>
+            )}
+            {status.suspiciousItems.map((item) => (
+              <Badge key={item} variant="destructive">
+                <Smartphone className="h-3 w-3 mr-1" />
+                {item}
+              </Badge>
+            ))}
+          </div>
+        )}
+        {status && isStale && (
+          <p className="text-xs text-muted-foreground">
+            Last status {Math.round((now - status.updatedAt.getTime()) / 1000)}s ago
+          </p>
+        )}
+
+        {canIntervene && (
+          <div className="flex flex-wrap gap-2 pt-1">
+            <Button size="sm" variant="outline" onClick={() => setComposing("message")} disabled={isSending}>
+              <MessageSquare className="h-3 w-3 mr-1" />
+              Message
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setComposing("warning")} disabled={isSending}>
+              <AlertTriangle className="h-3 w-3 mr-1" />
+              Warn
+            </Button>
+            {session.status === "paused" ? (
+              <Button size="sm" variant="outline" onClick={() => sendCommand("resume")} disabled={isSending}>
+                <Play className="h-3 w-3 mr-1" />
+                Resume
+              </Button>
+            ) : (
+              <Button size="sm" variant="outline" onClick={() => sendCommand("pause")} disabled={isSending}>
+                <Pause className="h-3 w-3 mr-1" />
+                Pause
+              </Button>
+            )}
+            <Button size="sm" variant="destructive" onClick={() => setComposing("terminate")} disabled={isSending}>
+              <Ban className="h-3 w-3 mr-1" />
+              Terminate
+            </Button>
+          </div>
+        )}
+        {error && !composing && <p className="text-xs text-red-600">{error}</p>}
+      </CardContent>
+
+      <Dialog open={composing !== null} onOpenChange={(open) => !open && setComposing(null)}>
+        {composing && (
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>
+                {PROCTOR_COMMAND_LABELS[composing]} for {session.candidateName}
+              </DialogTitle>
+              <DialogDescription>{COMPOSE_PROMPTS[composing].description}</DialogDescription>
+            </DialogHeader>
+            <Textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={COMPOSE_PROMPTS[composing].placeholder}
+              maxLength={1000}
+            />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setComposing(null)}>
+                Cancel
+              </Button>
+              <Button
+                variant={composing === "terminate" ? "destructive" : "default"}
+                onClick={() => sendCommand(composing, text)}
+                disabled={isSending || !text.trim()}
+              >
+                {COMPOSE_PROMPTS[composing].action}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        )}
+      </Dialog>
+    </Card>
+  )
+}
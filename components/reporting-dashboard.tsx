@@ -1,12 +1,19 @@
 "use client"
 
-import { useState } from "react"
+import { useRef, useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Progress } from "@/components/ui/progress"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
 import {
   BarChart,
   Bar,
@@ -20,6 +27,9 @@ import {
   Cell,
   Area,
   AreaChart,
+  Line,
+  LineChart,
+  Legend,
 } from "recharts"
 import {
   Download,
@@ -34,159 +44,88 @@ import {
   BookOpen,
   Brain,
   Calendar,
+  ImageIcon,
+  Video,
+  XCircle,
 } from "lucide-react"
-
-interface ReportData {
-  session: {
-    id: string
-    candidateName: string
-    startTime: Date
-    endTime?: Date
-    duration: number
-    status: string
-    integrityScore: number
-    videoQuality: string
-    detectionEnabled: boolean
-  }
-  events: Array<{
-    id: string
-    type: string
-    timestamp: Date
-    description: string
-    severity: "low" | "medium" | "high"
-    confidence?: number
-  }>
-  statistics: {
-    totalEvents: number
-    eventsBySeverity: {
-      high: number
-      medium: number
-      low: number
-    }
-    eventsByType: Record<string, number>
-    focusLossCount: number
-    suspiciousObjectCount: number
-    multipleFaceCount: number
-    averageConfidence: number
-  }
-  integrityAnalysis: {
-    finalScore: number
-    deductions: Array<{
-      reason: string
-      points: number
-      count: number
-    }>
-    recommendations: string[]
-  }
-  timeline: Array<{
-    timestamp: Date
-    event: string
-    severity: string
-  }>
-}
+import {
+  STAFF_ROLES,
+  SYSTEM_CHECK_LABELS,
+  identityScoreReachedThreshold,
+  type IdentityReviewStatus,
+} from "@/lib/domain"
+import { ApiClient, type ReportDownloadFormat } from "@/lib/api-client"
+import { ReviewPlayer, type ReviewPlayerHandle } from "@/components/review-player"
+import { useProctoringReport } from "@/hooks/use-proctoring-report"
+import { useCurrentUser } from "@/hooks/use-current-user"
 
 interface ReportingDashboardProps {
+  // Session whose report is fetched from /api/reports
   sessionId?: string
-  reportData?: ReportData
-  onDownloadReport?: () => void
-  onGenerateNewReport?: () => void
-  isLoading?: boolean
 }
 
-export function ReportingDashboard({
-  sessionId,
-  reportData,
-  onDownloadReport,
-  onGenerateNewReport,
-  isLoading = false,
-}: ReportingDashboardProps) {
+export function ReportingDashboard({ sessionId }: ReportingDashboardProps) {
   const [activeTab, setActiveTab] = useState("overview")
-  const [isGenerating, setIsGenerating] = useState(false)
-
-  // Mock data for demonstration if no reportData provided
-  const mockReportData: ReportData = {
-    session: {
-      id: "session_123",
-      candidateName: "John Doe",
-      startTime: new Date(Date.now() - 3600000), // 1 hour ago
-      endTime: new Date(),
-      duration: 3600, // 1 hour
-      status: "completed",
-      integrityScore: 85,
-      videoQuality: "1080p",
-      detectionEnabled: true,
-    },
-    events: [
-      {
-        id: "1",
-        type: "focus_lost",
-        timestamp: new Date(Date.now() - 3000000),
-        description: "Candidate looked away from screen",
-        severity: "medium",
-        confidence: 0.85,
-      },
-      {
-        id: "2",
-        type: "phone_detected",
-        timestamp: new Date(Date.now() - 2400000),
-        description: "Mobile phone detected in frame",
-        severity: "high",
-        confidence: 0.92,
-      },
-      {
-        id: "3",
-        type: "notes_detected",
-        timestamp: new Date(Date.now() - 1800000),
-        description: "Paper notes detected on desk",
-        severity: "medium",
-        confidence: 0.78,
-      },
-    ],
-    statistics: {
-      totalEvents: 3,
-      eventsBySeverity: { high: 1, medium: 2, low: 0 },
-      eventsByType: {
-        focus_lost: 1,
-        phone_detected: 1,
-        notes_detected: 1,
-      },
-      focusLossCount: 1,
-      suspiciousObjectCount: 2,
-      multipleFaceCount: 0,
-      averageConfidence: 0.85,
-    },
-    integrityAnalysis: {
-      finalScore: 85,
-      deductions: [
-        { reason: "High severity violations", points: 15, count: 1 },
-        { reason: "Medium severity violations", points: 20, count: 2 },
-      ],
-      recommendations: [
-        "Mobile device detected during session. Verify candidate understanding of device policies.",
-        "Notes detected. Review materials policy with candidate.",
-        "Good session integrity with minor violations. Consider follow-up discussion.",
-      ],
-    },
-    timeline: [
-      {
-        timestamp: new Date(Date.now() - 3000000),
-        event: "Candidate looked away from screen",
-        severity: "medium",
-      },
-      {
-        timestamp: new Date(Date.now() - 2400000),
-        event: "Mobile phone detected in frame",
-        severity: "high",
-      },
-      {
-        timestamp: new Date(Date.now() - 1800000),
-        event: "Paper notes detected on desk",
-        severity: "medium",
-      },
-    ],
+  const [isDownloading, setIsDownloading] = useState(false)
+  const [isReviewingIdentity, setIsReviewingIdentity] = useState(false)
+  const playerRef = useRef<ReviewPlayerHandle>(null)
+  const { report, isLoading, error, refresh } = useProctoringReport(sessionId)
+  const { user } = useCurrentUser()
+  const isStaff = !!user && STAFF_ROLES.includes(user.role)
+
+  if (!sessionId) {
+    return (
+      <Card>
+        <CardContent className="p-12 text-center space-y-2">
+          <FileText className="h-10 w-10 mx-auto text-muted-foreground" />
+          <p className="font-medium text-foreground">No session selected</p>
+          <p className="text-sm text-muted-foreground">Start or choose a session to see its report.</p>
+        </CardContent>
+      </Card>
+    )
   }
 
-  const data = reportData || mockReportData
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertDescription className="flex items-center justify-between gap-4">
+          <span>{error}</span>
+          <Button variant="outline" size="sm" onClick={refresh}>
+            Retry
+          </Button>
+        </AlertDescription>
+      </Alert>
+    )
+  }
+
+  if (!report) {
+    if (isLoading) {
+      return (
+        <div className="space-y-6">
+          <Skeleton className="h-12 w-1/3" />
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            {[0, 1, 2, 3].map((index) => (
+              <Skeleton key={index} className="h-28" />
+            ))}
+          </div>
+          <Skeleton className="h-96" />
+        </div>
+      )
+    }
+
+    return (
+      <Card>
+        <CardContent className="p-12 text-center space-y-2">
+          <FileText className="h-10 w-10 mx-auto text-muted-foreground" />
+          <p className="font-medium text-foreground">Report not found</p>
+          <p className="text-sm text-muted-foreground">No session exists with the ID {sessionId}.</p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const data = report
 
   const formatDuration = (seconds: number) => {
     const hours = Math.floor(seconds / 3600)
@@ -230,13 +169,34 @@ export function ReportingDashboard({
     severity: item.severity === "high" ? 3 : item.severity === "medium" ? 2 : 1,
   }))
 
-  const handleGenerateReport = async () => {
-    setIsGenerating(true)
+  // Seconds into the session, so the chart lines up with the recording
+  const audioChartData = data.audioLevels.map((sample) => ({
+    second: Math.max(0, Math.round((sample.timestamp.getTime() - data.session.startTime.getTime()) / 1000)),
+    level: Math.round(sample.levelDb),
+    peak: Math.round(sample.peakDb),
+    speech: Math.round(sample.speechRatio * 100),
+  }))
+
+  const handleDownloadReport = async (format: ReportDownloadFormat) => {
+    setIsDownloading(true)
+    try {
+      await ApiClient.downloadReport(data.session.id, data.session.candidateName, format)
+    } catch (err) {
+      console.error("Failed to download report:", err)
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
+  const handleReviewIdentity = async (status: Exclude<IdentityReviewStatus, "pending">) => {
+    setIsReviewingIdentity(true)
     try {
-      await new Promise((resolve) => setTimeout(resolve, 2000)) // Simulate API call
-      onGenerateNewReport?.()
+      await ApiClient.reviewIdentity(data.session.id, status)
+      refresh()
+    } catch (err) {
+      console.error("Failed to review identity check:", err)
     } finally {
-      setIsGenerating(false)
+      setIsReviewingIdentity(false)
     }
   }
 
@@ -249,14 +209,24 @@ export function ReportingDashboard({
           <p className="text-muted-foreground">Comprehensive analysis for {data.session.candidateName}</p>
         </div>
         <div className="flex items-center gap-3">
-          <Button onClick={handleGenerateReport} disabled={isGenerating || isLoading} variant="outline">
+          <Button onClick={refresh} disabled={isLoading} variant="outline">
             <FileText className="h-4 w-4 mr-2" />
-            {isGenerating || isLoading ? "Generating..." : "Regenerate"}
-          </Button>
-          <Button onClick={onDownloadReport} disabled={isLoading} className="bg-primary hover:bg-primary/90">
-            <Download className="h-4 w-4 mr-2" />
-            {isLoading ? "Processing..." : "Download Report"}
+            {isLoading ? "Generating..." : "Regenerate"}
           </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button disabled={isDownloading} className="bg-primary hover:bg-primary/90">
+                <Download className="h-4 w-4 mr-2" />
+                {isDownloading ? "Processing..." : "Download Report"}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onSelect={() => handleDownloadReport("pdf")}>PDF report</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => handleDownloadReport("csv")}>Summary CSV</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => handleDownloadReport("events-csv")}>Events CSV</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => handleDownloadReport("zip")}>ZIP bundle (JSON + CSV)</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
       </div>
 
@@ -300,9 +270,9 @@ export function ReportingDashboard({
           <CardContent className="p-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-muted-foreground">Total Events</p>
-                <p className="text-2xl font-bold text-foreground">{data.statistics.totalEvents}</p>
-                <p className="text-xs text-muted-foreground">{data.statistics.eventsBySeverity.high} high severity</p>
+                <p className="text-sm font-medium text-muted-foreground">Incidents</p>
+                <p className="text-2xl font-bold text-foreground">{data.statistics.totalIncidents}</p>
+                <p className="text-xs text-muted-foreground">from {data.statistics.totalEvents} detections</p>
               </div>
               <div className="h-12 w-12 bg-yellow-100 rounded-full flex items-center justify-center">
                 <AlertTriangle className="h-6 w-6 text-yellow-600" />
@@ -379,6 +349,110 @@ export function ReportingDashboard({
                     </Badge>
                   </div>
                 </div>
+
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground">System Check</label>
+                  {data.session.systemCheck ? (
+                    <div className="space-y-1 mt-1">
+                      <p className="text-xs text-muted-foreground">
+                        Run {data.session.systemCheck.checkedAt.toLocaleString()}
+                        {data.session.systemCheck.camera && ` · ${data.session.systemCheck.camera.label}`}
+                      </p>
+                      {data.session.systemCheck.checks.map((check) => (
+                        <div key={check.name} className="flex items-center justify-between gap-2 text-sm">
+                          <span className="text-foreground">
+                            {SYSTEM_CHECK_LABELS[check.name]}
+                            <span className="text-muted-foreground"> – {check.message}</span>
+                          </span>
+                          <Badge variant={check.status === "failed" ? "destructive" : "outline"}>{check.status}</Badge>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Not run</p>
+                  )}
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground">Identity</label>
+                  {data.session.identityVerification ? (
+                    <div className="space-y-2 mt-1">
+                      <div className="flex items-center justify-between gap-2 text-sm">
+                        <span className="text-foreground">
+                          Reported match {Math.round(data.session.identityVerification.reportedMatchScore * 100)}%
+                          <span className="text-muted-foreground">
+                            {" "}
+                            – threshold {Math.round(data.session.identityVerification.threshold * 100)}%
+                            {!identityScoreReachedThreshold(data.session.identityVerification) && ", not reached"}
+                          </span>
+                        </span>
+                        <Badge
+                          variant={
+                            data.session.identityVerification.status === "rejected"
+                              ? "destructive"
+                              : data.session.identityVerification.status === "approved"
+                                ? "outline"
+                                : "secondary"
+                          }
+                        >
+                          {data.session.identityVerification.status}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {data.session.identityVerification.reviewedAt
+                          ? `Reviewed by ${data.session.identityVerification.reviewedByName ?? "staff"} on ${data.session.identityVerification.reviewedAt.toLocaleString()}`
+                          : "The score comes from the candidate's browser; compare the pictures to confirm."}
+                      </p>
+                      <div className="grid grid-cols-2 gap-2">
+                        {[
+                          { label: "ID photo", evidenceId: data.session.identityVerification.idDocumentEvidenceId },
+                          { label: "Selfie", evidenceId: data.session.identityVerification.selfieEvidenceId },
+                        ].map(({ label, evidenceId }) => (
+                          <a
+                            key={label}
+                            href={ApiClient.evidenceUrl(data.session.id, evidenceId)}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="space-y-1"
+                          >
+                            <img
+                              src={ApiClient.evidenceUrl(data.session.id, evidenceId)}
+                              alt={label}
+                              className="w-full rounded border"
+                            />
+                            <span className="text-xs text-muted-foreground">{label}</span>
+                          </a>
+                        ))}
+                      </div>
+                      {isStaff && (
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={isReviewingIdentity || data.session.identityVerification.status === "approved"}
+                            onClick={() => handleReviewIdentity("approved")}
+                          >
+                            <CheckCircle className="h-4 w-4 mr-2" />
+                            Same person
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={isReviewingIdentity || data.session.identityVerification.status === "rejected"}
+                            onClick={() => handleReviewIdentity("rejected")}
+                          >
+                            <XCircle className="h-4 w-4 mr-2" />
+                            Different person
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      {data.session.settings.identity.enabled ? "Not run" : "Not required"}
+                    </p>
+                  )}
+                </div>
               </CardContent>
             </Card>
 
@@ -401,11 +475,12 @@ export function ReportingDashboard({
                 <Progress value={data.integrityAnalysis.finalScore} className="h-2" />
 
                 <div className="space-y-2">
-                  <h4 className="font-medium">Deductions:</h4>
+                  <h4 className="font-medium">Deductions ({data.integrityAnalysis.policy} policy):</h4>
                   {data.integrityAnalysis.deductions.map((deduction, index) => (
                     <div key={index} className="flex justify-between text-sm">
                       <span className="text-muted-foreground">
-                        {deduction.reason} ({deduction.count})
+                        {deduction.reason} ({deduction.count}
+                        {deduction.forgiven > 0 && `, ${deduction.forgiven} forgiven`})
                       </span>
                       <span className="text-red-600">-{deduction.points} pts</span>
                     </div>
@@ -463,49 +538,85 @@ export function ReportingDashboard({
         </TabsContent>
 
         <TabsContent value="events" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Video className="h-5 w-5 text-primary" />
+                Recording
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {data.session.recording?.status === "complete" ? (
+                <ReviewPlayer
+                  ref={playerRef}
+                  sessionId={data.session.id}
+                  sessionStart={data.session.startTime}
+                  sessionDuration={data.session.duration}
+                  incidents={data.incidents}
+                  events={data.events}
+                />
+              ) : (
+                <p className="text-muted-foreground text-center py-8">No recording is available for this session</p>
+              )}
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <AlertTriangle className="h-5 w-5 text-primary" />
-                Detection Events Timeline
+                Incident Timeline
               </CardTitle>
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                {data.events.length === 0 ? (
-                  <p className="text-muted-foreground text-center py-8">No events detected during this session</p>
+                {data.incidents.length === 0 ? (
+                  <p className="text-muted-foreground text-center py-8">No incidents detected during this session</p>
                 ) : (
                   <div className="space-y-3 max-h-96 overflow-y-auto">
-                    {data.events.map((event, index) => (
-                      <div key={event.id} className="flex items-start gap-4 p-4 border rounded-lg">
+                    {data.incidents.map((incident) => (
+                      <div
+                        key={incident.id}
+                        className="flex items-start gap-4 p-4 border rounded-lg cursor-pointer hover:bg-muted/50"
+                        onClick={() => playerRef.current?.seekTo(incident.startedAt)}
+                      >
                         <div className="flex-shrink-0 mt-1">
-                          {event.type === "focus_lost" && <Eye className="h-4 w-4 text-yellow-500" />}
-                          {event.type === "phone_detected" && <Smartphone className="h-4 w-4 text-red-500" />}
-                          {event.type === "notes_detected" && <BookOpen className="h-4 w-4 text-yellow-500" />}
-                          {event.type === "multiple_faces" && <Users className="h-4 w-4 text-orange-500" />}
+                          {incident.type === "focus_lost" && <Eye className="h-4 w-4 text-yellow-500" />}
+                          {incident.type === "phone_detected" && <Smartphone className="h-4 w-4 text-red-500" />}
+                          {incident.type === "notes_detected" && <BookOpen className="h-4 w-4 text-yellow-500" />}
+                          {incident.type === "multiple_faces" && <Users className="h-4 w-4 text-orange-500" />}
                         </div>
                         <div className="flex-1 min-w-0">
                           <div className="flex items-center justify-between">
-                            <p className="text-sm font-medium text-foreground">{event.description}</p>
-                            <Badge
-                              variant={
-                                event.severity === "high"
-                                  ? "destructive"
-                                  : event.severity === "medium"
-                                    ? "default"
-                                    : "secondary"
-                              }
-                            >
-                              {event.severity}
-                            </Badge>
+                            <p className="text-sm font-medium text-foreground">{incident.description}</p>
+                            <div className="flex items-center gap-2">
+                              {incident.informational && <Badge variant="outline">logged</Badge>}
+                              <Badge
+                                variant={
+                                  incident.severity === "high"
+                                    ? "destructive"
+                                    : incident.severity === "medium"
+                                      ? "default"
+                                      : "secondary"
+                                }
+                              >
+                                {incident.severity}
+                              </Badge>
+                            </div>
                           </div>
                           <div className="flex items-center gap-4 mt-1">
-                            <p className="text-xs text-muted-foreground">{event.timestamp.toLocaleTimeString()}</p>
-                            {event.confidence && (
+                            <p className="text-xs text-muted-foreground">
+                              {incident.startedAt.toLocaleTimeString()} - {incident.endedAt.toLocaleTimeString()}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              Duration: {formatDuration(Math.round(incident.durationMs / 1000))}
+                            </p>
+                            {incident.peakConfidence !== undefined && (
                               <p className="text-xs text-muted-foreground">
-                                Confidence: {(event.confidence * 100).toFixed(1)}%
+                                Peak confidence: {(incident.peakConfidence * 100).toFixed(1)}%
                               </p>
                             )}
+                            <p className="text-xs text-muted-foreground">{incident.eventIds.length} detections</p>
                           </div>
                         </div>
                       </div>
@@ -515,6 +626,47 @@ export function ReportingDashboard({
               </div>
             </CardContent>
           </Card>
+
+          {/* Frame-level detections behind the incidents, for audit */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Raw Detections ({data.events.length})</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {data.events.length === 0 ? (
+                <p className="text-muted-foreground text-center py-4">No detections recorded</p>
+              ) : (
+                <div className="max-h-64 overflow-y-auto divide-y text-xs">
+                  {data.events.map((event) => (
+                    <div
+                      key={event.id}
+                      className="flex items-center justify-between gap-4 py-2 cursor-pointer hover:bg-muted/50"
+                      onClick={() => playerRef.current?.seekTo(event.timestamp)}
+                    >
+                      <span className="font-mono text-muted-foreground">{event.timestamp.toLocaleTimeString()}</span>
+                      <span className="flex-1 truncate text-foreground">{event.description}</span>
+                      {event.confidence !== undefined && (
+                        <span className="text-muted-foreground">{(event.confidence * 100).toFixed(1)}%</span>
+                      )}
+                      {event.metadata?.evidence && (
+                        <a
+                          href={ApiClient.evidenceUrl(data.session.id, event.metadata.evidence.id)}
+                          target="_blank"
+                          rel="noreferrer"
+                          onClick={(clickEvent) => clickEvent.stopPropagation()}
+                          className="flex items-center gap-1 text-primary hover:underline"
+                        >
+                          <ImageIcon className="h-3 w-3" />
+                          Snapshot
+                        </a>
+                      )}
+                      <Badge variant="outline">{event.severity}</Badge>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </TabsContent>
 
         <TabsContent value="analytics" className="space-y-4">
@@ -560,10 +712,65 @@ export function ReportingDashboard({
                     </div>
                     <div className="text-sm text-muted-foreground">Avg Confidence</div>
                   </div>
+                  <div className="text-center p-4 bg-muted/50 rounded-lg">
+                    <div className="text-2xl font-bold text-primary">{formatDuration(data.statistics.offScreenSeconds)}</div>
+                    <div className="text-sm text-muted-foreground">
+                      Time Off-Screen
+                      {data.session.duration > 0 &&
+                        ` (${((data.statistics.offScreenSeconds / data.session.duration) * 100).toFixed(1)}%)`}
+                    </div>
+                  </div>
+                  <div className="text-center p-4 bg-muted/50 rounded-lg">
+                    <div className="text-2xl font-bold text-primary">
+                      {formatDuration(data.statistics.longestOffScreenSeconds)}
+                    </div>
+                    <div className="text-sm text-muted-foreground">Longest Look-Away</div>
+                  </div>
+                  <div className="text-center p-4 bg-muted/50 rounded-lg">
+                    <div className="text-2xl font-bold text-primary">{formatDuration(data.statistics.eyesClosedSeconds)}</div>
+                    <div className="text-sm text-muted-foreground">
+                      Eyes Closed ({data.statistics.eyesClosedCount} times)
+                    </div>
+                  </div>
+                  <div className="text-center p-4 bg-muted/50 rounded-lg">
+                    <div className="text-2xl font-bold text-primary">
+                      {data.statistics.averageBlinkRate !== null ? data.statistics.averageBlinkRate.toFixed(1) : "N/A"}
+                    </div>
+                    <div className="text-sm text-muted-foreground">Blinks per Minute</div>
+                  </div>
                 </div>
               </CardContent>
             </Card>
           </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Audio Levels</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {audioChartData.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  {data.session.settings.audio.enabled
+                    ? "No audio was analysed for this session."
+                    : "Audio analysis is disabled for this exam."}
+                </p>
+              ) : (
+                <ResponsiveContainer width="100%" height={250}>
+                  <LineChart data={audioChartData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="second" type="number" domain={["dataMin", "dataMax"]} tickFormatter={formatDuration} />
+                    <YAxis yAxisId="db" domain={[-100, 0]} unit=" dB" />
+                    <YAxis yAxisId="speech" orientation="right" domain={[0, 100]} unit="%" />
+                    <Tooltip labelFormatter={(second) => formatDuration(Number(second))} />
+                    <Legend />
+                    <Line yAxisId="db" type="monotone" dataKey="level" name="Level (dB)" stroke="hsl(var(--primary))" dot={false} />
+                    <Line yAxisId="db" type="monotone" dataKey="peak" name="Peak (dB)" stroke="#f59e0b" dot={false} />
+                    <Line yAxisId="speech" type="stepAfter" dataKey="speech" name="Speech (%)" stroke="#ef4444" dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              )}
+            </CardContent>
+          </Card>
         </TabsContent>
 
         <TabsContent value="recommendations" className="space-y-4">
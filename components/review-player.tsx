@@ -0,0 +1,239 @@
+"use client"
+
+import { forwardRef, useImperativeHandle, useMemo, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Pause, Play } from "lucide-react"
+import { ApiClient } from "@/lib/api-client"
+import {
+  eventBoxesOf,
+  eventSamplesOf,
+  type DetectionEvent,
+  type EventBox,
+  type Incident,
+  type Severity,
+} from "@/lib/domain"
+
+// A frame's boxes stay on screen until the next frame of the same incident, and at most
+// this long; detectors run about once per second by default
+const BOX_VISIBLE_MS = 1000
+
+// Boxes seen in one frame: those of an event itself or of one of its samples, each at
+// the moment it was seen
+interface BoxFrame {
+  key: string
+  // Incident the frame belongs to, or the event when it is not part of one
+  track: string
+  severity: Severity
+  offset: number
+  until: number
+  boxes: EventBox[]
+}
+
+const SEVERITY_COLORS: Record<Severity, string> = {
+  high: "#ef4444",
+  medium: "#f59e0b",
+  low: "#3b82f6",
+}
+
+export interface ReviewPlayerHandle {
+  // Seeks to a wall-clock moment of the session and starts playback there
+  seekTo: (time: Date) => void
+}
+
+interface ReviewPlayerProps {
+  sessionId: string
+  // Recording position 0 corresponds to the session start
+  sessionStart: Date
+  // Session length in seconds, used when the recording does not report its duration
+  sessionDuration: number
+  incidents: Incident[]
+  events: DetectionEvent[]
+}
+
+export const ReviewPlayer = forwardRef<ReviewPlayerHandle, ReviewPlayerProps>(function ReviewPlayer(
+  { sessionId, sessionStart, sessionDuration, incidents, events },
+  ref,
+) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const [currentTime, setCurrentTime] = useState(0)
+  const [duration, setDuration] = useState(sessionDuration)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const offsetOf = (time: Date) => (time.getTime() - sessionStart.getTime()) / 1000
+
+  const seek = (seconds: number) => {
+    const video = videoRef.current
+    if (!video) return
+    video.currentTime = Math.min(Math.max(seconds, 0), duration)
+    setCurrentTime(video.currentTime)
+  }
+
+  useImperativeHandle(ref, () => ({
+    seekTo: (time) => {
+      seek(offsetOf(time))
+      videoRef.current?.play()
+      containerRef.current?.scrollIntoView({ behavior: "smooth", block: "nearest" })
+    },
+  }))
+
+  const boxFrames = useMemo(() => {
+    const frames = events
+      .flatMap((event) => {
+        const incidentId = event.metadata?.incidentId
+        const track = typeof incidentId === "string" ? incidentId : event.id
+        // Events that continue an incident, including the one closing it, are logged
+        // after the frames they carry as samples and have no frame of their own
+        const continuesIncident =
+          event.metadata?.samples !== undefined || event.metadata?.incidentDurationMs !== undefined
+        return [
+          ...(continuesIncident
+            ? []
+            : [{ key: event.id, track, offset: offsetOf(event.timestamp), boxes: eventBoxesOf(event) }]),
+          ...eventSamplesOf(event).map((sample, index) => ({
+            key: `${event.id}-${index}`,
+            track,
+            offset: offsetOf(sample.timestamp),
+            boxes: sample.boxes ?? [],
+          })),
+        ].map((frame) => ({ ...frame, severity: event.severity, until: frame.offset + BOX_VISIBLE_MS / 1000 }))
+      })
+      .sort((a, b) => a.offset - b.offset)
+
+    // A later frame of the same incident replaces the boxes, including when it has none
+    const nextOffsets = new Map<string, number>()
+    for (const frame of [...frames].reverse()) {
+      const next = nextOffsets.get(frame.track)
+      if (next !== undefined) frame.until = Math.min(frame.until, next)
+      nextOffsets.set(frame.track, frame.offset)
+    }
+
+    // Only frames carrying boxes can be overlaid
+    return frames.filter((frame): frame is BoxFrame => frame.boxes.length > 0)
+  }, [events, sessionStart])
+
+  const visibleFrames = boxFrames.filter(({ offset, until }) => currentTime >= offset && currentTime < until)
+
+  const handleLoadedMetadata = () => {
+    const video = videoRef.current
+    if (!video) return
+    // MediaRecorder output usually has no duration in its header
+    if (Number.isFinite(video.duration) && video.duration > 0) {
+      setDuration(video.duration)
+    }
+  }
+
+  const togglePlayback = () => {
+    const video = videoRef.current
+    if (!video) return
+    if (video.paused) {
+      video.play()
+    } else {
+      video.pause()
+    }
+  }
+
+  const handleScrubberClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    seek(((event.clientX - rect.left) / rect.width) * duration)
+  }
+
+  const formatTime = (seconds: number) => {
+    const whole = Math.max(0, Math.floor(seconds))
+    const mins = Math.floor(whole / 60)
+    const secs = whole % 60
+    return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`
+  }
+
+  const percentOf = (seconds: number) => `${duration > 0 ? Math.min(Math.max(seconds / duration, 0), 1) * 100 : 0}%`
+
+  if (error) {
+    return <p className="text-muted-foreground text-center py-8">{error}</p>
+  }
+
+  return (
+    <div ref={containerRef} className="space-y-3">
+      <div className="relative bg-black rounded-lg overflow-hidden">
+        <video
+          ref={videoRef}
+          src={ApiClient.recordingUrl(sessionId)}
+          className="w-full h-auto block"
+          preload="metadata"
+          onLoadedMetadata={handleLoadedMetadata}
+          onTimeUpdate={() => setCurrentTime(videoRef.current?.currentTime ?? 0)}
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onError={() => setError("The recording could not be loaded")}
+          onClick={togglePlayback}
+        />
+
+        {/* Detection boxes of the frames around the current position */}
+        {visibleFrames.flatMap(({ key, severity, boxes }) =>
+          boxes.map((box, index) => (
+            <div
+              key={`${key}-${index}`}
+              className="absolute border-2 pointer-events-none"
+              style={{
+                left: `${box.x * 100}%`,
+                top: `${box.y * 100}%`,
+                width: `${box.width * 100}%`,
+                height: `${box.height * 100}%`,
+                borderColor: SEVERITY_COLORS[severity],
+              }}
+            >
+              {box.label && (
+                <span
+                  className="absolute -top-5 left-0 px-1 text-xs text-white whitespace-nowrap"
+                  style={{ backgroundColor: SEVERITY_COLORS[severity] }}
+                >
+                  {box.label}
+                </span>
+              )}
+            </div>
+          )),
+        )}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Button variant="outline" size="sm" onClick={togglePlayback}>
+          {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </Button>
+
+        {/* Scrubber with one marker per incident, spanning its duration */}
+        <div className="relative flex-1 h-6 cursor-pointer" onClick={handleScrubberClick}>
+          <div className="absolute inset-x-0 top-1/2 h-1.5 -translate-y-1/2 rounded-full bg-muted" />
+          <div
+            className="absolute left-0 top-1/2 h-1.5 -translate-y-1/2 rounded-full bg-primary"
+            style={{ width: percentOf(currentTime) }}
+          />
+          {incidents.map((incident) => (
+            <button
+              key={incident.id}
+              type="button"
+              title={`${formatTime(offsetOf(incident.startedAt))} ${incident.description}`}
+              className="absolute top-0 h-full min-w-[4px] rounded-sm opacity-80 hover:opacity-100"
+              style={{
+                left: percentOf(offsetOf(incident.startedAt)),
+                width: percentOf(incident.durationMs / 1000),
+                backgroundColor: SEVERITY_COLORS[incident.severity],
+              }}
+              onClick={(event) => {
+                event.stopPropagation()
+                seek(offsetOf(incident.startedAt))
+              }}
+            />
+          ))}
+          <div
+            className="absolute top-0 h-full w-0.5 bg-foreground pointer-events-none"
+            style={{ left: percentOf(currentTime) }}
+          />
+        </div>
+
+        <span className="text-xs font-mono text-muted-foreground">
+          {formatTime(currentTime)} / {formatTime(duration)}
+        </span>
+      </div>
+    </div>
+  )
+})
@@ -0,0 +1,444 @@
+"use client"
+
+import Link from "next/link"
+import { useCallback, useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { CheckCircle, Download, Trash2 } from "lucide-react"
+import { UserMenu } from "@/components/user-menu"
+import { ApiClient } from "@/lib/api-client"
+import {
+  SESSION_STATUSES,
+  type Exam,
+  type ProctoringSession,
+  type SessionExportFormat,
+  type SessionQueryInput,
+} from "@/lib/domain"
+
+const PAGE_SIZE = 25
+const SEARCH_DEBOUNCE_MS = 300
+
+// Sort options as "field:order"
+const SORT_OPTIONS = [
+  { value: "startTime:desc", label: "Newest first" },
+  { value: "startTime:asc", label: "Oldest first" },
+  { value: "integrityScore:asc", label: "Lowest score" },
+  { value: "integrityScore:desc", label: "Highest score" },
+  { value: "candidateName:asc", label: "Candidate A-Z" },
+  { value: "duration:desc", label: "Longest" },
+] as const
+
+interface Filters {
+  search: string
+  examId: string
+  status: string
+  from: string
+  to: string
+  minScore: string
+  maxScore: string
+  reviewed: string
+  sort: (typeof SORT_OPTIONS)[number]["value"]
+}
+
+const INITIAL_FILTERS: Filters = {
+  search: "",
+  examId: "all",
+  status: "all",
+  from: "",
+  to: "",
+  minScore: "",
+  maxScore: "",
+  reviewed: "all",
+  sort: "startTime:desc",
+}
+
+function toQuery(filters: Filters, cursor?: string): SessionQueryInput {
+  const [sort, order] = filters.sort.split(":") as [SessionQueryInput["sort"], SessionQueryInput["order"]]
+
+  return {
+    search: filters.search || undefined,
+    examId: filters.examId === "all" ? undefined : filters.examId,
+    status: filters.status === "all" ? undefined : (filters.status as SessionQueryInput["status"]),
+    // Date inputs are local calendar days; "to" includes the whole day
+    from: filters.from ? new Date(`${filters.from}T00:00:00`) : undefined,
+    to: filters.to ? new Date(`${filters.to}T23:59:59.999`) : undefined,
+    minScore: filters.minScore ? Number(filters.minScore) : undefined,
+    maxScore: filters.maxScore ? Number(filters.maxScore) : undefined,
+    reviewed: filters.reviewed === "all" ? undefined : (filters.reviewed as "true" | "false"),
+    sort,
+    order,
+    limit: PAGE_SIZE,
+    cursor,
+  }
+}
+
+export function SessionBrowser() {
+  const [filters, setFilters] = useState<Filters>(INITIAL_FILTERS)
+  const [debouncedSearch, setDebouncedSearch] = useState("")
+  const [sessions, setSessions] = useState<ProctoringSession[]>([])
+  const [exams, setExams] = useState<Exam[]>([])
+  const [total, setTotal] = useState(0)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [isLoading, setIsLoading] = useState(false)
+  const [isApplying, setIsApplying] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(filters.search), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [filters.search])
+
+  // Compared by value so typing in the search box only refetches once it settles
+  const queryKey = JSON.stringify({ ...filters, search: debouncedSearch })
+
+  // Loads the first page, or appends the page after the cursor
+  const loadSessions = useCallback(
+    async (cursor?: string) => {
+      setIsLoading(true)
+      setError(null)
+
+      try {
+        const page = await ApiClient.searchSessions(toQuery(JSON.parse(queryKey), cursor))
+        setSessions((prev) => (cursor ? [...prev, ...page.sessions] : page.sessions))
+        setTotal(page.total)
+        setNextCursor(page.nextCursor)
+        if (!cursor) setSelected(new Set())
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to fetch sessions")
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [queryKey],
+  )
+
+  useEffect(() => {
+    loadSessions()
+  }, [loadSessions])
+
+  // Exams only label and filter sessions, so the browser works without them
+  useEffect(() => {
+    ApiClient.getExams()
+      .then(setExams)
+      .catch(() => setExams([]))
+  }, [])
+
+  const examTitles = new Map(exams.map((exam) => [exam.id, exam.title]))
+
+  const updateFilter = <K extends keyof Filters>(key: K, value: Filters[K]) =>
+    setFilters((prev) => ({ ...prev, [key]: value }))
+
+  const toggleSelected = (sessionId: string, checked: boolean) =>
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (checked) {
+        next.add(sessionId)
+      } else {
+        next.delete(sessionId)
+      }
+      return next
+    })
+
+  const allSelected = sessions.length > 0 && sessions.every((session) => selected.has(session.id))
+
+  const applyBulkAction = async (action: "delete" | "mark_reviewed" | "export", format?: SessionExportFormat) => {
+    const sessionIds = [...selected]
+    if (
+      action === "delete" &&
+      !window.confirm(`Delete ${sessionIds.length} session(s) with their events and recordings? This cannot be undone.`)
+    ) {
+      return
+    }
+
+    setIsApplying(true)
+    setError(null)
+    try {
+      if (action === "export") {
+        await ApiClient.exportSessions(sessionIds, format)
+      } else {
+        await ApiClient.bulkSessionAction(action, sessionIds)
+        await loadSessions()
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to apply bulk action")
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  const formatDuration = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60)
+    return `${minutes}m ${seconds % 60}s`
+  }
+
+  const getScoreColor = (score: number) => {
+    if (score >= 90) return "text-green-600"
+    if (score >= 70) return "text-yellow-600"
+    return "text-red-600"
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground">Sessions</h2>
+          <p className="text-muted-foreground">Browse past proctoring sessions and open their reports</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <UserMenu />
+          <Button asChild variant="ghost">
+            <Link href="/monitor">Live</Link>
+          </Button>
+          <Button asChild variant="ghost">
+            <Link href="/exams">Exams</Link>
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4 grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="session-search">Candidate</Label>
+            <Input
+              id="session-search"
+              placeholder="Search by name"
+              value={filters.search}
+              onChange={(e) => updateFilter("search", e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Exam</Label>
+            <Select value={filters.examId} onValueChange={(value) => updateFilter("examId", value)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All exams</SelectItem>
+                {exams.map((exam) => (
+                  <SelectItem key={exam.id} value={exam.id}>
+                    {exam.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Status</Label>
+            <Select value={filters.status} onValueChange={(value) => updateFilter("status", value)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {SESSION_STATUSES.map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {status}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Sort</Label>
+            <Select value={filters.sort} onValueChange={(value) => updateFilter("sort", value as Filters["sort"])}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="session-from">Started from</Label>
+            <Input
+              id="session-from"
+              type="date"
+              value={filters.from}
+              onChange={(e) => updateFilter("from", e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="session-to">Started until</Label>
+            <Input id="session-to" type="date" value={filters.to} onChange={(e) => updateFilter("to", e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label>Integrity score</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                placeholder="Min"
+                value={filters.minScore}
+                onChange={(e) => updateFilter("minScore", e.target.value)}
+              />
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                placeholder="Max"
+                value={filters.maxScore}
+                onChange={(e) => updateFilter("maxScore", e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label>Review</Label>
+            <Select value={filters.reviewed} onValueChange={(value) => updateFilter("reviewed", value)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                <SelectItem value="false">Not reviewed</SelectItem>
+                <SelectItem value="true">Reviewed</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="text-base">
+            {total} session{total === 1 ? "" : "s"}
+            {selected.size > 0 && <span className="text-muted-foreground font-normal"> · {selected.size} selected</span>}
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" disabled={selected.size === 0 || isApplying}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onSelect={() => applyBulkAction("export", "json")}>JSON with events</DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => applyBulkAction("export", "csv")}>Summary CSV</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={selected.size === 0 || isApplying}
+              onClick={() => applyBulkAction("mark_reviewed")}
+            >
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Mark reviewed
+            </Button>
+            <Button
+              variant="destructive"
+              size="sm"
+              disabled={selected.size === 0 || isApplying}
+              onClick={() => applyBulkAction("delete")}
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!isLoading && sessions.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">No sessions match these filters</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={(checked) =>
+                        setSelected(checked === true ? new Set(sessions.map((session) => session.id)) : new Set())
+                      }
+                      aria-label="Select all"
+                    />
+                  </TableHead>
+                  <TableHead>Candidate</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Score</TableHead>
+                  <TableHead>Review</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sessions.map((session) => (
+                  <TableRow key={session.id} data-state={selected.has(session.id) ? "selected" : undefined}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selected.has(session.id)}
+                        onCheckedChange={(checked) => toggleSelected(session.id, checked === true)}
+                        aria-label={`Select ${session.candidateName}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Link href={`/reports/${session.id}`} className="font-medium text-primary hover:underline">
+                        {session.candidateName}
+                      </Link>
+                      {session.examId && (
+                        <p className="text-xs text-muted-foreground">{examTitles.get(session.examId) ?? "Exam"}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>{session.startTime.toLocaleString()}</TableCell>
+                    <TableCell>{formatDuration(session.duration)}</TableCell>
+                    <TableCell>
+                      <Badge variant={session.status === "completed" ? "default" : "secondary"}>{session.status}</Badge>
+                    </TableCell>
+                    <TableCell className={`text-right font-semibold ${getScoreColor(session.integrityScore)}`}>
+                      {session.integrityScore}%
+                    </TableCell>
+                    <TableCell>
+                      {session.reviewedAt ? (
+                        <Badge variant="outline">Reviewed {session.reviewedAt.toLocaleDateString()}</Badge>
+                      ) : (
+                        <span className="text-muted-foreground text-sm">Pending</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <div className="flex justify-center pt-4">
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground">Loading sessions...</p>
+            ) : (
+              nextCursor && (
+                <Button variant="outline" onClick={() => loadSessions(nextCursor)}>
+                  Load more
+                </Button>
+              )
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
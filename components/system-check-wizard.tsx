@@ -0,0 +1,374 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { MediaPipeFaceDetector } from "@/lib/detection"
+import {
+  checkAudioLevel,
+  checkCodec,
+  checkDevice,
+  checkFaces,
+  checkLighting,
+  checkResolution,
+  listMediaDevices,
+  measureBrightness,
+  measureMicrophone,
+  mediaConstraints,
+  pickRecordingMimeType,
+  type MediaDeviceChoices,
+} from "@/lib/system-check"
+import {
+  AUDIO_LEVEL_FLOOR_DB,
+  SYSTEM_CHECK_LABELS,
+  SYSTEM_CHECK_NAMES,
+  systemCheckPassed,
+  type RecordSystemCheckInput,
+  type SystemCheckItem,
+  type SystemCheckName,
+  type VideoQuality,
+} from "@/lib/domain"
+import { AlertTriangle, CheckCircle, Loader2, XCircle } from "lucide-react"
+
+// What the session starts with once the candidate passes the check
+export interface SystemCheckResult {
+  check: RecordSystemCheckInput
+  cameraId?: string
+  microphoneId?: string
+  mimeType: string
+}
+
+interface SystemCheckWizardProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  videoQuality: VideoQuality
+  // Devices the candidate turned off on the video controls
+  cameraEnabled: boolean
+  micEnabled: boolean
+  // Speech threshold of the exam's audio settings, which the microphone should reach
+  speechThresholdDb: number
+  onComplete: (result: SystemCheckResult) => void
+}
+
+const MIC_TEST_MS = 3000
+const BRIGHTNESS_SAMPLES = 5
+const FACE_ATTEMPTS = 3
+const SAMPLE_GAP_MS = 200
+
+const STATUS_ICONS = {
+  passed: <CheckCircle className="h-4 w-4 text-green-500" />,
+  warning: <AlertTriangle className="h-4 w-4 text-yellow-500" />,
+  failed: <XCircle className="h-4 w-4 text-red-500" />,
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Pre-session device check: the candidate picks a camera and microphone, then the
+// wizard checks resolution, lighting, that exactly one face is in view, the
+// microphone level and that the browser can record. Failed checks block the start.
+export function SystemCheckWizard({
+  open,
+  onOpenChange,
+  videoQuality,
+  cameraEnabled,
+  micEnabled,
+  speechThresholdDb,
+  onComplete,
+}: SystemCheckWizardProps) {
+  const [devices, setDevices] = useState<MediaDeviceChoices>({ cameras: [], microphones: [] })
+  const [cameraId, setCameraId] = useState<string>()
+  const [microphoneId, setMicrophoneId] = useState<string>()
+  const [mediaError, setMediaError] = useState<string | null>(null)
+  const [checks, setChecks] = useState<SystemCheckItem[]>([])
+  const [currentStep, setCurrentStep] = useState<SystemCheckName | null>(null)
+  const [micLevel, setMicLevel] = useState(AUDIO_LEVEL_FLOOR_DB)
+
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const streamRef = useRef<MediaStream | null>(null)
+  const faceDetectorRef = useRef<MediaPipeFaceDetector | null>(null)
+
+  const isRunning = currentStep !== null
+  const isComplete = !isRunning && checks.length > 0
+  const passed = isComplete && systemCheckPassed(checks)
+
+  const releaseStream = () => {
+    streamRef.current?.getTracks().forEach((track) => track.stop())
+    streamRef.current = null
+    if (videoRef.current) videoRef.current.srcObject = null
+  }
+
+  // Preview of the chosen devices; a new choice needs a new check
+  useEffect(() => {
+    if (!open) return
+
+    let cancelled = false
+    setChecks([])
+    setMediaError(null)
+
+    navigator.mediaDevices
+      .getUserMedia(
+        mediaConstraints(videoQuality, { cameraId, microphoneId, video: cameraEnabled, audio: micEnabled }),
+      )
+      .then(async (stream) => {
+        if (cancelled) {
+          stream.getTracks().forEach((track) => track.stop())
+          return
+        }
+        streamRef.current = stream
+        if (videoRef.current) videoRef.current.srcObject = stream
+
+        setDevices(await listMediaDevices())
+        setCameraId((current) => current ?? stream.getVideoTracks()[0]?.getSettings().deviceId)
+        setMicrophoneId((current) => current ?? stream.getAudioTracks()[0]?.getSettings().deviceId)
+      })
+      .catch((error) => {
+        if (cancelled) return
+        console.error("Error accessing camera/microphone:", error)
+        setMediaError(
+          error instanceof DOMException && error.name === "NotAllowedError"
+            ? "Camera or microphone access was denied. Allow access in the browser's site settings and try again."
+            : "Unable to access the camera or microphone. Check that they are connected and not used by another app.",
+        )
+      })
+
+    return () => {
+      cancelled = true
+      releaseStream()
+    }
+  }, [open, cameraId, microphoneId, videoQuality, cameraEnabled, micEnabled])
+
+  useEffect(() => {
+    return () => {
+      faceDetectorRef.current?.dispose()
+      faceDetectorRef.current = null
+    }
+  }, [])
+
+  const averageBrightness = async (video: HTMLVideoElement) => {
+    const samples: number[] = []
+    for (let sample = 0; sample < BRIGHTNESS_SAMPLES; sample++) {
+      const brightness = measureBrightness(video)
+      if (brightness !== null) samples.push(brightness)
+      await wait(SAMPLE_GAP_MS)
+    }
+    return samples.length > 0 ? samples.reduce((total, value) => total + value, 0) / samples.length : null
+  }
+
+  // Faces in view, retried a few times for a frame with exactly one. Null when the
+  // face detector cannot load, e.g. without the models in public/models.
+  const countFaces = async (video: HTMLVideoElement) => {
+    try {
+      if (!faceDetectorRef.current) {
+        const detector = new MediaPipeFaceDetector()
+        await detector.load()
+        faceDetectorRef.current = detector
+      }
+
+      const canvas = document.createElement("canvas")
+      canvas.width = video.videoWidth
+      canvas.height = video.videoHeight
+      const ctx = canvas.getContext("2d")
+      if (!ctx) return null
+
+      let count = 0
+      for (let attempt = 0; attempt < FACE_ATTEMPTS; attempt++) {
+        ctx.drawImage(video, 0, 0)
+        count = faceDetectorRef.current.detect({ canvas, timestamp: performance.now() }).faces.length
+        if (count === 1) break
+        await wait(SAMPLE_GAP_MS)
+      }
+      return count
+    } catch (error) {
+      console.error("Face detection unavailable for the system check:", error)
+      return null
+    }
+  }
+
+  const runChecks = async () => {
+    const stream = streamRef.current
+    const video = videoRef.current
+    const videoTrack = stream?.getVideoTracks()[0]
+    const audioTrack = stream?.getAudioTracks()[0]
+
+    const results: SystemCheckItem[] = []
+    const record = (item: SystemCheckItem) => {
+      results.push(item)
+      setChecks([...results])
+    }
+    setChecks([])
+
+    try {
+      setCurrentStep("camera")
+      record(
+        cameraEnabled
+          ? checkDevice("camera", videoTrack)
+          : { name: "camera", status: "failed", message: "The camera is turned off; turn it on to continue" },
+      )
+
+      setCurrentStep("microphone")
+      record(
+        micEnabled
+          ? checkDevice("microphone", audioTrack)
+          : { name: "microphone", status: "warning", message: "The microphone is turned off; no audio will be recorded" },
+      )
+
+      if (videoTrack && video) {
+        setCurrentStep("resolution")
+        record(checkResolution(videoTrack, videoQuality))
+
+        setCurrentStep("lighting")
+        record(checkLighting(await averageBrightness(video)))
+
+        setCurrentStep("face")
+        record(checkFaces(await countFaces(video)))
+      }
+
+      if (stream && audioTrack) {
+        setCurrentStep("audio_level")
+        record(checkAudioLevel(await measureMicrophone(stream, MIC_TEST_MS, setMicLevel), speechThresholdDb))
+        setMicLevel(AUDIO_LEVEL_FLOOR_DB)
+      }
+
+      setCurrentStep("codec")
+      record(checkCodec(pickRecordingMimeType()))
+    } finally {
+      setCurrentStep(null)
+    }
+  }
+
+  const handleStart = () => {
+    const mimeType = pickRecordingMimeType()
+    const stream = streamRef.current
+    if (!passed || !mimeType || !stream) return
+
+    const describe = (track: MediaStreamTrack | undefined) =>
+      track ? { deviceId: track.getSettings().deviceId ?? "", label: track.label } : undefined
+    const result: SystemCheckResult = {
+      check: {
+        camera: describe(stream.getVideoTracks()[0]),
+        microphone: describe(stream.getAudioTracks()[0]),
+        mimeType,
+        checks,
+      },
+      cameraId,
+      microphoneId,
+      mimeType,
+    }
+
+    // The recording opens the devices again
+    releaseStream()
+    onComplete(result)
+  }
+
+  const visibleSteps = SYSTEM_CHECK_NAMES.filter(
+    (name) => checks.some((check) => check.name === name) || name === currentStep,
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isRunning && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>System check</DialogTitle>
+          <DialogDescription>
+            Choose your camera and microphone, then run the check. The session starts once no check fails.
+          </DialogDescription>
+        </DialogHeader>
+
+        {mediaError && (
+          <Alert className="border-red-200 bg-red-50">
+            <XCircle className="h-4 w-4 text-red-600" />
+            <AlertDescription className="text-red-800">{mediaError}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-3">
+            <video ref={videoRef} autoPlay muted playsInline className="w-full aspect-video rounded-lg bg-black object-cover" />
+
+            <div className="space-y-1">
+              <Label>Camera</Label>
+              <Select value={cameraId} onValueChange={setCameraId} disabled={isRunning || !cameraEnabled}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder={cameraEnabled ? "Select a camera" : "Camera turned off"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {devices.cameras.map((device, index) => (
+                    <SelectItem key={device.deviceId} value={device.deviceId}>
+                      {device.label || `Camera ${index + 1}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Microphone</Label>
+              <Select value={microphoneId} onValueChange={setMicrophoneId} disabled={isRunning || !micEnabled}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder={micEnabled ? "Select a microphone" : "Microphone turned off"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {devices.microphones.map((device, index) => (
+                    <SelectItem key={device.deviceId} value={device.deviceId}>
+                      {device.label || `Microphone ${index + 1}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {visibleSteps.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                The check takes a few seconds. Sit facing the camera in a well-lit room, and say a few words when
+                asked.
+              </p>
+            )}
+            {visibleSteps.map((name) => {
+              const check = checks.find((item) => item.name === name)
+              return (
+                <div key={name} className="flex items-start gap-3 p-2 rounded-lg bg-muted/50">
+                  <div className="mt-0.5">
+                    {check ? STATUS_ICONS[check.status] : <Loader2 className="h-4 w-4 animate-spin text-primary" />}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium">{SYSTEM_CHECK_LABELS[name]}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {check?.message ?? (name === "audio_level" ? "Say a few words…" : "Checking…")}
+                    </p>
+                    {!check && name === "audio_level" && (
+                      <Progress value={micLevel - AUDIO_LEVEL_FLOOR_DB} className="h-1.5 mt-2" />
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+            {isComplete && (
+              <p className={`text-sm font-medium ${passed ? "text-green-600" : "text-red-600"}`}>
+                {passed ? "Your system is ready." : "Fix the failed checks and run the check again."}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isRunning}>
+            Cancel
+          </Button>
+          <Button variant="outline" onClick={runChecks} disabled={isRunning || !!mediaError}>
+            {isRunning && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {isComplete ? "Run again" : "Run check"}
+          </Button>
+          <Button onClick={handleStart} disabled={!passed}>
+            Start session
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,22 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { LogOut } from "lucide-react"
+import { useCurrentUser } from "@/hooks/use-current-user"
+
+// Signed-in user with their role, and a sign-out button
+export function UserMenu() {
+  const { user, signOut } = useCurrentUser()
+  if (!user) return null
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-sm text-foreground">{user.name}</span>
+      <Badge variant="secondary">{user.role.replace("_", " ")}</Badge>
+      <Button variant="ghost" size="sm" onClick={signOut} title="Sign out">
+        <LogOut className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
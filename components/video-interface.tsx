@@ -1,13 +1,49 @@
 "use client"
 
-import { useState, useRef, useEffect } from "react"
+import { useState, useRef, useEffect, type MutableRefObject } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { CVDetection, useCVDetection } from "@/components/cv-detection"
-import { proctoringService, type ProctoringSession } from "@/lib/proctoring-service"
+import { AttentionCalibrationOverlay } from "@/components/attention-calibration-overlay"
+import { SystemCheckWizard, type SystemCheckResult } from "@/components/system-check-wizard"
+import { IdentityVerification, type IdentityCapture } from "@/components/identity-verification"
+import { ApiClient } from "@/lib/api-client"
+import { RecordingUploader, type UploadProgress } from "@/lib/recording-uploader"
+import type { CaptureSnapshot } from "@/lib/evidence-capture"
+import { mediaConstraints } from "@/lib/system-check"
+import {
+  AudioActivityMonitor,
+  BrowserActivityMonitor,
+  DEFAULT_ATTENTION_CALIBRATION,
+  FaceSignatureExtractor,
+  compareFaceSignatures,
+  evaluateObjects,
+  type AttentionCalibration,
+  type AudioEpisode,
+  type AudioEpisodeType,
+  type AudioLevel,
+  type BrowserEpisode,
+  type BrowserEpisodeType,
+  type ClipboardAction,
+  type DetectorSpec,
+  type EyeClosure,
+  type FaceSignature,
+  type OffScreenEpisode,
+} from "@/lib/detection"
+import {
+  DEFAULT_PROCTORING_SETTINGS,
+  type DetectionEventType,
+  type EventBox,
+  type IdentityVerification as IdentityVerificationResult,
+  type ProctoringSettings,
+  type RecordSystemCheckInput,
+  type Severity,
+  type VideoQuality,
+} from "@/lib/domain"
 import {
   Play,
   Square,
@@ -23,16 +59,65 @@ import {
   MicOff,
 } from "lucide-react"
 
+// How browser activity is reported; durations are in whole seconds
+const BROWSER_EPISODES: Record<BrowserEpisodeType, { severity: Severity; describe: (seconds: number) => string }> = {
+  tab_hidden: { severity: "medium", describe: (seconds) => `Candidate switched away from the exam tab for ${seconds}s` },
+  window_blur: { severity: "low", describe: (seconds) => `Exam window lost focus for ${seconds}s` },
+  fullscreen_exit: { severity: "medium", describe: (seconds) => `Candidate left fullscreen for ${seconds}s` },
+  devtools_open: { severity: "high", describe: (seconds) => `Developer tools were open for ${seconds}s` },
+}
+
+// How voice activity is reported; durations are in whole seconds
+const AUDIO_EPISODES: Record<AudioEpisodeType, { severity: Severity; describe: (episode: AudioEpisode, seconds: number) => string }> = {
+  speech_detected: { severity: "medium", describe: (_, seconds) => `Speech detected for ${seconds}s` },
+  multiple_speakers: {
+    severity: "high",
+    describe: (episode, seconds) => `${episode.pitchesHz?.length ?? 2} voices detected over ${seconds}s of speech`,
+  },
+  background_noise: { severity: "low", describe: (_, seconds) => `Loud background noise for ${seconds}s` },
+}
+
+// Audio levels are sent in batches of this many seconds
+const AUDIO_LEVEL_BATCH = 10
+
+const CLIPBOARD_DESCRIPTIONS: Record<ClipboardAction, string> = {
+  copy: "Candidate copied from the exam page",
+  cut: "Candidate cut text in the exam page",
+  paste: "Candidate pasted into the exam page",
+  contextmenu: "Candidate opened the context menu",
+}
+
 interface VideoInterfaceProps {
-  onRecordingStart: () => void
+  // Receives the system check the candidate passed and, for exams that verify identity,
+  // the identity check, both to be recorded on the session
+  onRecordingStart: (systemCheck: RecordSystemCheckInput, identity: IdentityCapture | null) => void
   onRecordingStop: () => void
   onRecordingPause: () => void
-  onDetectionEvent: (type: string, description: string, severity: "low" | "medium" | "high") => void
+  onDetectionEvent: (
+    type: DetectionEventType,
+    description: string,
+    severity: Severity,
+    confidence?: number,
+    metadata?: Record<string, any>,
+  ) => void
   isRecording: boolean
   isPaused: boolean
   sessionDuration: number
   candidateName: string
   onCandidateNameChange: (name: string) => void
+  // Set once a session exists, whose candidate name can no longer change
+  candidateNameLocked?: boolean
+  detectors?: DetectorSpec[]
+  // Per-exam settings of the current session
+  settings?: ProctoringSettings
+  // Session the recording is uploaded to; chunks are held until it is known
+  sessionId?: string
+  // Passed to CVDetection, which fills it with a function capturing evidence snapshots
+  snapshotRef?: MutableRefObject<CaptureSnapshot | null>
+  // A proctor's pause or termination in force, which the candidate cannot lift
+  proctorLock?: "paused" | "terminated" | null
+  // Identity check already on record for the session, e.g. before the page was reloaded
+  identityVerification?: IdentityVerificationResult
 }
 
 export function VideoInterface({
@@ -45,19 +130,38 @@ export function VideoInterface({
   sessionDuration,
   candidateName,
   onCandidateNameChange,
+  candidateNameLocked = false,
+  detectors,
+  settings = DEFAULT_PROCTORING_SETTINGS,
+  sessionId,
+  snapshotRef,
+  proctorLock = null,
+  identityVerification,
 }: VideoInterfaceProps) {
   const [isFullscreen, setIsFullscreen] = useState(false)
   const [isMuted, setIsMuted] = useState(true)
   const [cameraEnabled, setCameraEnabled] = useState(true)
   const [micEnabled, setMicEnabled] = useState(true)
-  const [videoQuality, setVideoQuality] = useState<"720p" | "1080p">("720p")
-  const [recordedChunks, setRecordedChunks] = useState<Blob[]>([])
-  const [currentSession, setCurrentSession] = useState<ProctoringSession | null>(null)
+  const [videoQuality, setVideoQuality] = useState<VideoQuality>("720p")
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null)
+  const [recordingUrl, setRecordingUrl] = useState<string | null>(null)
+  const [uploadError, setUploadError] = useState<string | null>(null)
+  const [calibration, setCalibration] = useState<AttentionCalibration>(DEFAULT_ATTENTION_CALIBRATION)
+  const [isCalibrating, setIsCalibrating] = useState(false)
+  const [isDocumentFullscreen, setIsDocumentFullscreen] = useState(false)
+  const [isSystemCheckOpen, setIsSystemCheckOpen] = useState(false)
+  // Passed system check waiting for the identity step
+  const [pendingStart, setPendingStart] = useState<SystemCheckResult | null>(null)
 
   const videoRef = useRef<HTMLVideoElement>(null)
   const streamRef = useRef<MediaStream | null>(null)
   const mediaRecorderRef = useRef<MediaRecorder | null>(null)
+  const uploaderRef = useRef<RecordingUploader | null>(null)
+  // Chunks recorded before the session was created
+  const bufferedChunksRef = useRef<Blob[]>([])
   const containerRef = useRef<HTMLDivElement>(null)
+  // Selfie signature of the identity check the live face is compared with
+  const referenceSignatureRef = useRef<FaceSignature | null>(null)
 
   // Use CV detection hook - always enabled for candidates, they can't control it
   const {
@@ -69,27 +173,46 @@ export function VideoInterface({
     handleSuspiciousObject,
   } = useCVDetection()
 
-  // Handle detection events and log to Supabase
-  useEffect(() => {
-    if (!isRecording || !currentSession) return
+  // Detections and episodes are reported through a ref to the latest handler, so
+  // the effects below run for new results rather than whenever the parent re-renders
+  const onDetectionEventRef = useRef(onDetectionEvent)
+  onDetectionEventRef.current = onDetectionEvent
 
-    const logEvent = async (type: string, description: string, severity: "low" | "medium" | "high") => {
-      try {
-        await proctoringService.logDetectionEvent(currentSession.id, type, description, severity)
-        onDetectionEvent(type, description, severity)
-      } catch (error) {
-        console.error("Failed to log detection event:", error)
-      }
+  // Report each frame's detections to the parent, which groups them into incidents
+  // and logs those to the API for server-side scoring
+  useEffect(() => {
+    if (!isRecording) return
+
+    const logEvent = (
+      type: DetectionEventType,
+      description: string,
+      severity: Severity,
+      confidence?: number,
+      metadata?: Record<string, any>,
+    ) => {
+      onDetectionEventRef.current(type, description, severity, confidence, metadata)
     }
 
-    // Focus loss detection
-    if (detectionResults.lookingAway) {
-      logEvent("focus_lost", "Candidate looking away from screen", "medium")
-    }
+    // Boxes are stored relative to the frame so review can draw them over the recording
+    const video = videoRef.current
+    const toEventBox = (box: { x: number; y: number; width: number; height: number }, label: string): EventBox[] =>
+      video && video.videoWidth > 0
+        ? [
+            {
+              x: box.x / video.videoWidth,
+              y: box.y / video.videoHeight,
+              width: box.width / video.videoWidth,
+              height: box.height / video.videoHeight,
+              label,
+            },
+          ]
+        : []
 
     // Multiple faces detection
     if (detectionResults.multipleFaces) {
-      logEvent("multiple_faces", `${detectionResults.faces.length} faces detected in frame`, "high")
+      logEvent("multiple_faces", `${detectionResults.faces.length} faces detected in frame`, "high", undefined, {
+        boxes: detectionResults.faces.flatMap((face) => toEventBox(face.box, "face")),
+      })
     }
 
     // No face detection
@@ -97,19 +220,219 @@ export function VideoInterface({
       logEvent("no_face", "No face detected in frame", "high")
     }
 
-    // Eyes closed detection
-    if (detectionResults.eyesClosed) {
-      logEvent("eyes_closed", "Candidate appears to have eyes closed", "low")
+    // Object detection, classified by the exam's object policy. Logged classes are
+    // kept for review and shown as informational here; the server decides whether
+    // they count toward the score from the same policy.
+    evaluateObjects(settings.objectPolicy, detectionResults.objects).forEach((violation) => {
+      logEvent(violation.eventType, `${violation.objectClass} detected in frame`, violation.severity, violation.confidence, {
+        objectClass: violation.objectClass,
+        policy: settings.objectPolicy.name,
+        policyAction: violation.action,
+        informational: violation.action === "logged",
+        boxes: toEventBox(violation.box, violation.objectClass),
+      })
+    })
+  }, [detectionResults, isRecording])
+
+  // Browser activity goes through the same pipeline as the camera's detections. The
+  // monitor lives for the whole recording, so it reports through the ref rather than
+  // restarting whenever the parent re-renders.
+
+  const { requireFullscreen, minEpisodeMs, devtoolsGapPx } = settings.browser
+  useEffect(() => {
+    if (!isRecording) return
+
+    const browserSettings = { requireFullscreen, minEpisodeMs, devtoolsGapPx }
+    const monitor = new BrowserActivityMonitor(browserSettings, {
+      onEpisode: (episode: BrowserEpisode) => {
+        const { severity, describe } = BROWSER_EPISODES[episode.type]
+        const seconds = Math.round(episode.durationMs / 1000)
+        onDetectionEventRef.current(episode.type, describe(seconds), severity, undefined, {
+          durationMs: episode.durationMs,
+          startedAt: new Date(episode.startedAt).toISOString(),
+          endedAt: new Date(episode.endedAt).toISOString(),
+        })
+      },
+      onClipboard: (action) => {
+        onDetectionEventRef.current(
+          "clipboard_use",
+          CLIPBOARD_DESCRIPTIONS[action],
+          action === "paste" ? "medium" : "low",
+          undefined,
+          { action },
+        )
+      },
+    })
+    monitor.start()
+    return () => monitor.stop()
+  }, [isRecording, requireFullscreen, minEpisodeMs, devtoolsGapPx])
+
+  // Voice activity is analysed locally; only the episodes and per-second levels leave
+  // the browser. Analysis pauses with the recording and needs the microphone.
+  const { enabled: audioEnabled, speechThresholdDb, minSpeechMs, speakerPitchGapHz, noiseThresholdDb, minNoiseMs } =
+    settings.audio
+  useEffect(() => {
+    const stream = streamRef.current
+    if (!isRecording || isPaused || !sessionId || !audioEnabled || !stream?.getAudioTracks().length) return
+
+    let levels: AudioLevel[] = []
+    const sendLevels = () => {
+      if (levels.length === 0) return
+      const samples = levels.map((level) => ({ ...level, timestamp: new Date(level.timestamp) }))
+      levels = []
+      ApiClient.addAudioLevels(sessionId, samples).catch((err) => console.error("Failed to store audio levels:", err))
     }
 
-    // Suspicious objects detection
-    detectionResults.objects.forEach((obj) => {
-      if (obj.confidence > 0.7) {
-        const severity = obj.class.includes("phone") ? "high" : "medium"
-        logEvent("suspicious_object", `${obj.class} detected in frame`, severity)
-      }
+    const audioSettings = { enabled: audioEnabled, speechThresholdDb, minSpeechMs, speakerPitchGapHz, noiseThresholdDb, minNoiseMs }
+    const monitor = new AudioActivityMonitor(stream, audioSettings, {
+      onEpisode: (episode) => {
+        const { severity, describe } = AUDIO_EPISODES[episode.type]
+        const seconds = Math.round(episode.durationMs / 1000)
+        onDetectionEventRef.current(episode.type, describe(episode, seconds), severity, episode.confidence, {
+          durationMs: episode.durationMs,
+          startedAt: new Date(episode.startedAt).toISOString(),
+          endedAt: new Date(episode.endedAt).toISOString(),
+          peakDb: Math.round(episode.peakDb),
+          ...(episode.pitchesHz ? { pitchesHz: episode.pitchesHz } : {}),
+        })
+      },
+      onLevel: (level) => {
+        levels.push(level)
+        if (levels.length >= AUDIO_LEVEL_BATCH) sendLevels()
+      },
     })
-  }, [detectionResults, isRecording, currentSession, onDetectionEvent])
+    monitor.start()
+    return () => {
+      monitor.stop()
+      sendLevels()
+    }
+  }, [isRecording, isPaused, sessionId, audioEnabled, speechThresholdDb, minSpeechMs, speakerPitchGapHz, noiseThresholdDb, minNoiseMs])
+
+  // Re-verification compares the live face with the identity check's selfie. Frames
+  // without exactly one face are skipped; no_face and multiple_faces cover those.
+  // After a reload the selfie's signature is taken again from the stored picture.
+  const { enabled: identityEnabled, matchThreshold, reverifyIntervalMs } = settings.identity
+  const storedSelfieUrl =
+    sessionId && identityVerification ? ApiClient.evidenceUrl(sessionId, identityVerification.selfieEvidenceId) : null
+  useEffect(() => {
+    if (!isRecording || isPaused || !identityEnabled) return
+    if (!referenceSignatureRef.current && !storedSelfieUrl) return
+
+    const extractor = new FaceSignatureExtractor()
+    const canvas = document.createElement("canvas")
+    let stopped = false
+
+    const reverify = () => {
+      const video = videoRef.current
+      if (stopped || !video || video.videoWidth === 0) return
+
+      canvas.width = video.videoWidth
+      canvas.height = video.videoHeight
+      canvas.getContext("2d")?.drawImage(video, 0, 0)
+      const { signature } = extractor.extract(canvas)
+      const reference = referenceSignatureRef.current
+      if (!signature || !reference) return
+
+      const matchScore = compareFaceSignatures(reference, signature)
+      if (matchScore < matchThreshold) {
+        onDetectionEventRef.current(
+          "identity_mismatch",
+          `Face on camera does not match the verified candidate (${Math.round(matchScore * 100)}% match)`,
+          "high",
+          1 - matchScore,
+          { matchScore, threshold: matchThreshold },
+        )
+      }
+    }
+
+    let interval: ReturnType<typeof setInterval> | null = null
+    extractor
+      .load()
+      .then(async () => {
+        if (!referenceSignatureRef.current && storedSelfieUrl) {
+          const { signature } = await extractor.extractFromUrl(storedSelfieUrl)
+          if (!signature) throw new Error("No single face on the stored selfie")
+          referenceSignatureRef.current = signature
+        }
+        if (!stopped) interval = setInterval(reverify, reverifyIntervalMs)
+      })
+      .catch((err) => console.error("Identity re-verification unavailable:", err))
+
+    return () => {
+      stopped = true
+      if (interval) clearInterval(interval)
+      extractor.dispose()
+    }
+  }, [isRecording, isPaused, identityEnabled, matchThreshold, reverifyIntervalMs, storedSelfieUrl])
+
+  useEffect(() => {
+    const handleFullscreenChange = () => setIsDocumentFullscreen(!!document.fullscreenElement)
+    document.addEventListener("fullscreenchange", handleFullscreenChange)
+    return () => document.removeEventListener("fullscreenchange", handleFullscreenChange)
+  }, [])
+
+  // Focus loss is reported per off-screen episode, with its duration. Detection only
+  // runs while recording; an episode still open when recording stops arrives afterwards.
+  const handleOffScreenEpisode = (episode: OffScreenEpisode) => {
+    handleFocusLost(episode)
+
+    onDetectionEvent(
+      "focus_lost",
+      `Candidate looked away from the screen for ${Math.round(episode.durationMs / 1000)}s`,
+      "medium",
+      undefined,
+      {
+        durationMs: episode.durationMs,
+        startedAt: new Date(episode.startedAt).toISOString(),
+        endedAt: new Date(episode.endedAt).toISOString(),
+        peakYaw: Math.round(episode.peakYaw),
+        peakPitch: Math.round(episode.peakPitch),
+      },
+    )
+  }
+
+  // Blinks are only counted; sustained closures are reported with their duration
+  const handleEyeClosure = (closure: EyeClosure) => {
+    onDetectionEvent(
+      "eyes_closed",
+      `Candidate's eyes were closed for ${(closure.durationMs / 1000).toFixed(1)}s`,
+      "low",
+      undefined,
+      {
+        durationMs: closure.durationMs,
+        startedAt: new Date(closure.startedAt).toISOString(),
+        endedAt: new Date(closure.endedAt).toISOString(),
+        minEyeAspectRatio: Number(closure.minEyeAspectRatio.toFixed(3)),
+        blinkRate: Number(closure.blinkRate.toFixed(1)),
+      },
+    )
+  }
+
+  // Start uploading once the session exists
+  useEffect(() => {
+    if (!isRecording || !sessionId || uploaderRef.current) return
+
+    const uploader = new RecordingUploader(sessionId, setUploadProgress)
+    bufferedChunksRef.current.forEach((chunk) => uploader.add(chunk))
+    bufferedChunksRef.current = []
+    uploaderRef.current = uploader
+  }, [isRecording, sessionId])
+
+  // Called once the recorder has emitted its last chunk
+  const finishUpload = async () => {
+    const uploader = uploaderRef.current
+    uploaderRef.current = null
+    bufferedChunksRef.current = []
+    if (!uploader) return
+
+    try {
+      const session = await uploader.finish()
+      setRecordingUrl(ApiClient.recordingUrl(session.id))
+    } catch (error) {
+      console.error("Failed to complete recording upload:", error)
+      setUploadError(error instanceof Error ? error.message : "Failed to upload recording")
+    }
+  }
 
   const formatTime = (seconds: number) => {
     const hours = Math.floor(seconds / 3600)
@@ -122,23 +445,41 @@ export function VideoInterface({
     return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`
   }
 
-  const getVideoConstraints = () => {
-    return {
-      width: videoQuality === "1080p" ? 1920 : 1280,
-      height: videoQuality === "1080p" ? 1080 : 720,
-      frameRate: 30,
+  // Exams that verify identity go on to the identity step; the others, and sessions
+  // whose identity was already checked, start right away
+  const handleSystemCheckPassed = (result: SystemCheckResult) => {
+    setIsSystemCheckOpen(false)
+    if (identityEnabled && !identityVerification) {
+      setPendingStart(result)
+    } else {
+      startRecording(result, null)
     }
   }
 
-  const startRecording = async () => {
-    try {
-      const session = await proctoringService.createSession(candidateName, videoQuality)
-      setCurrentSession(session)
+  // Called from the start button of the last step the candidate passed
+  const startRecording = async (
+    { check, cameraId, microphoneId, mimeType }: SystemCheckResult,
+    identity: IdentityCapture | null,
+  ) => {
+    setIsSystemCheckOpen(false)
+    setPendingStart(null)
+    // Without a new check, re-verification takes the reference from the stored selfie
+    referenceSignatureRef.current = identity?.signature ?? null
+
+    // Requested first, while the click still counts as a user gesture
+    if (requireFullscreen && !document.fullscreenElement) {
+      try {
+        await document.documentElement.requestFullscreen()
+      } catch (error) {
+        alert("This exam must be taken in fullscreen. Please allow fullscreen to start.")
+        return
+      }
+    }
 
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: cameraEnabled ? getVideoConstraints() : false,
-        audio: micEnabled,
-      })
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia(
+        mediaConstraints(videoQuality, { cameraId, microphoneId, video: cameraEnabled, audio: micEnabled }),
+      )
 
       if (videoRef.current) {
         videoRef.current.srcObject = stream
@@ -146,27 +487,35 @@ export function VideoInterface({
       }
 
       // Setup MediaRecorder for video recording
-      const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: "video/webm;codecs=vp9",
-      })
+      const mediaRecorder = new MediaRecorder(stream, { mimeType })
 
       mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          setRecordedChunks((prev) => [...prev, event.data])
+        if (event.data.size === 0) return
+        if (uploaderRef.current) {
+          uploaderRef.current.add(event.data)
+        } else {
+          bufferedChunksRef.current.push(event.data)
         }
       }
+      mediaRecorder.onstop = finishUpload
+
+      setRecordingUrl(null)
+      setUploadError(null)
+      setUploadProgress(null)
+      bufferedChunksRef.current = []
 
-      mediaRecorder.start(1000) // Record in 1-second chunks
+      mediaRecorder.start(1000) // Record in 1-second chunks, uploaded as they arrive
       mediaRecorderRef.current = mediaRecorder
 
-      onRecordingStart()
+      onRecordingStart(check, identity)
+      setIsCalibrating(true)
     } catch (error) {
       console.error("Error accessing camera/microphone:", error)
       alert("Unable to access camera or microphone. Please check permissions.")
     }
   }
 
-  const stopRecording = async () => {
+  const releaseMedia = () => {
     if (mediaRecorderRef.current && mediaRecorderRef.current.state !== "inactive") {
       mediaRecorderRef.current.stop()
     }
@@ -180,36 +529,27 @@ export function VideoInterface({
       videoRef.current.srcObject = null
     }
 
-    if (currentSession) {
-      try {
-        await proctoringService.endSession(currentSession.id, sessionDuration)
-      } catch (error) {
-        console.error("Failed to end session:", error)
-      }
-    }
+    setIsCalibrating(false)
+  }
 
+  const stopRecording = async () => {
+    releaseMedia()
     onRecordingStop()
   }
 
+  // The recorder keeps running while the session is paused, by the candidate or a
+  // proctor, so a position in the recording stays the time since the session started
+  // and review can place incidents on it by their timestamps
   const pauseRecording = async () => {
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state === "recording") {
-      mediaRecorderRef.current.pause()
-    } else if (mediaRecorderRef.current && mediaRecorderRef.current.state === "paused") {
-      mediaRecorderRef.current.resume()
-    }
-
-    if (currentSession) {
-      try {
-        const newStatus = isPaused ? "active" : "paused"
-        await proctoringService.updateSession(currentSession.id, { status: newStatus })
-      } catch (error) {
-        console.error("Failed to update session status:", error)
-      }
-    }
-
     onRecordingPause()
   }
 
+  // The parent also ends the session on its own, e.g. when a proctor terminates it or
+  // the exam's time runs out
+  useEffect(() => {
+    if (!isRecording) releaseMedia()
+  }, [isRecording])
+
   const toggleFullscreen = () => {
     if (!isFullscreen && containerRef.current) {
       containerRef.current.requestFullscreen()
@@ -227,31 +567,35 @@ export function VideoInterface({
     }
   }
 
+  // Downloads the recording assembled on the server
   const downloadRecording = () => {
-    if (recordedChunks.length === 0) {
+    if (!recordingUrl) {
       alert("No recording available to download")
       return
     }
 
-    const blob = new Blob(recordedChunks, { type: "video/webm" })
-    const url = URL.createObjectURL(blob)
     const a = document.createElement("a")
-    a.href = url
+    a.href = recordingUrl
     a.download = `interview-${candidateName.replace(/\s+/g, "-")}-${new Date().toISOString().split("T")[0]}.webm`
     document.body.appendChild(a)
     a.click()
     document.body.removeChild(a)
-    URL.revokeObjectURL(url)
   }
 
   const restartSession = async () => {
     if (window.confirm("Are you sure you want to restart the interview? This will stop the current recording.")) {
       await stopRecording()
-      setRecordedChunks([])
-      setCurrentSession(null)
     }
   }
 
+  const getUploadStatus = () => {
+    if (uploadError) return "Failed"
+    if (recordingUrl) return "Saved"
+    if (!uploadProgress) return isRecording ? "Waiting" : "Not started"
+    if (uploadProgress.pending > 0) return `${uploadProgress.pending} chunks pending`
+    return `${uploadProgress.uploaded} chunks uploaded`
+  }
+
   useEffect(() => {
     const handleFullscreenChange = () => {
       setIsFullscreen(!!document.fullscreenElement)
@@ -289,7 +633,7 @@ export function VideoInterface({
               value={candidateName}
               onChange={(e) => onCandidateNameChange(e.target.value)}
               placeholder="Enter your full name"
-              disabled={isRecording}
+              disabled={isRecording || candidateNameLocked}
               className="mt-1"
             />
           </div>
@@ -301,7 +645,7 @@ export function VideoInterface({
             <select
               id="video-quality"
               value={videoQuality}
-              onChange={(e) => setVideoQuality(e.target.value as "720p" | "1080p")}
+              onChange={(e) => setVideoQuality(e.target.value as VideoQuality)}
               disabled={isRecording}
               className="px-2 py-1 border border-border rounded text-sm bg-background"
             >
@@ -313,6 +657,20 @@ export function VideoInterface({
       </CardHeader>
 
       <CardContent>
+        {requireFullscreen && isRecording && !isDocumentFullscreen && (
+          <Alert className="mb-4 border-yellow-200 bg-yellow-50">
+            <Maximize className="h-4 w-4 text-yellow-600" />
+            <AlertDescription className="flex items-center justify-between gap-4 text-yellow-800">
+              This exam must be taken in fullscreen. Time outside fullscreen is recorded.
+              <Button onClick={() => document.documentElement.requestFullscreen()} variant="outline" size="sm">
+                Return to fullscreen
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+        {requireFullscreen && !isRecording && (
+          <p className="mb-4 text-sm text-muted-foreground">This exam runs in fullscreen once you start it.</p>
+        )}
         <div ref={containerRef} className="relative">
           {/* Video Display */}
           <div className={`relative ${isFullscreen ? "h-screen" : "aspect-video"} bg-muted rounded-lg overflow-hidden`}>
@@ -379,7 +737,13 @@ export function VideoInterface({
                 </Button>
               </div>
 
-              <Button size="sm" variant="ghost" onClick={toggleFullscreen} className="text-white hover:bg-white/20">
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={toggleFullscreen}
+                disabled={requireFullscreen && isRecording}
+                className="text-white hover:bg-white/20"
+              >
                 <Maximize className="h-4 w-4" />
               </Button>
             </div>
@@ -388,13 +752,18 @@ export function VideoInterface({
           {/* Main Controls */}
           <div className="flex items-center justify-center gap-4 mt-6">
             {!isRecording ? (
-              <Button onClick={startRecording} size="lg" className="bg-primary hover:bg-primary/90">
+              <Button
+                onClick={() => setIsSystemCheckOpen(true)}
+                size="lg"
+                className="bg-primary hover:bg-primary/90"
+                disabled={proctorLock === "terminated"}
+              >
                 <Play className="h-5 w-5 mr-2" />
                 Start Interview
               </Button>
             ) : (
               <>
-                <Button onClick={pauseRecording} variant="outline" size="lg">
+                <Button onClick={pauseRecording} variant="outline" size="lg" disabled={proctorLock !== null}>
                   {isPaused ? <Play className="h-5 w-5 mr-2" /> : <Pause className="h-5 w-5 mr-2" />}
                   {isPaused ? "Resume" : "Pause"}
                 </Button>
@@ -411,14 +780,14 @@ export function VideoInterface({
               Restart
             </Button>
 
-            <Button onClick={downloadRecording} variant="outline" size="lg" disabled={recordedChunks.length === 0}>
+            <Button onClick={downloadRecording} variant="outline" size="lg" disabled={!recordingUrl}>
               <Download className="h-5 w-5 mr-2" />
               Download
             </Button>
           </div>
 
           {/* Session Info */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-6 p-4 bg-muted/50 rounded-lg">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-6 p-4 bg-muted/50 rounded-lg">
             <div className="text-center">
               <p className="text-sm text-muted-foreground">Recording Quality</p>
               <p className="font-semibold text-primary">{videoQuality}</p>
@@ -431,6 +800,12 @@ export function VideoInterface({
               <p className="text-sm text-muted-foreground">Video Status</p>
               <p className="font-semibold text-primary">{cameraEnabled ? "Enabled" : "Disabled"}</p>
             </div>
+            <div className="text-center">
+              <p className="text-sm text-muted-foreground">Recording Upload</p>
+              <p className={`font-semibold ${uploadError ? "text-red-600" : "text-primary"}`} title={uploadError ?? undefined}>
+                {getUploadStatus()}
+              </p>
+            </div>
           </div>
         </div>
 
@@ -439,11 +814,48 @@ export function VideoInterface({
           videoElement={videoRef.current}
           isActive={isRecording}
           onDetectionUpdate={handleDetectionUpdate}
-          onFocusLost={handleFocusLost}
+          onFocusLost={handleOffScreenEpisode}
           onMultipleFaces={handleMultipleFaces}
+          onEyesClosed={handleEyeClosure}
           onSuspiciousObject={handleSuspiciousObject}
+          detectors={detectors}
+          objectPolicy={settings.objectPolicy}
+          attention={settings.attention}
+          calibration={calibration}
+          suspendAttention={isCalibrating}
+          eyes={settings.eyes}
+          snapshotRef={snapshotRef}
         />
+
+        {isCalibrating && (
+          <AttentionCalibrationOverlay
+            detectionResults={detectionResults}
+            onComplete={(result) => {
+              setCalibration(result)
+              setIsCalibrating(false)
+            }}
+            onSkip={() => setIsCalibrating(false)}
+          />
+        )}
       </CardContent>
+
+      <SystemCheckWizard
+        open={isSystemCheckOpen}
+        onOpenChange={setIsSystemCheckOpen}
+        videoQuality={videoQuality}
+        cameraEnabled={cameraEnabled}
+        micEnabled={micEnabled}
+        speechThresholdDb={speechThresholdDb}
+        onComplete={handleSystemCheckPassed}
+      />
+
+      <IdentityVerification
+        open={pendingStart !== null}
+        onOpenChange={(open) => !open && setPendingStart(null)}
+        cameraId={pendingStart?.cameraId}
+        matchThreshold={matchThreshold}
+        onComplete={(identity) => pendingStart && startRecording(pendingStart, identity)}
+      />
     </Card>
   )
 }
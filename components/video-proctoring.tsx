@@ -1,13 +1,37 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
+import Link from "next/link"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { VideoInterface } from "@/components/video-interface"
+import type { IdentityCapture } from "@/components/identity-verification"
 import { ReportingDashboard } from "@/components/reporting-dashboard"
+import { UserMenu } from "@/components/user-menu"
+import { useCurrentUser } from "@/hooks/use-current-user"
 import { useProctoringSession } from "@/hooks/use-proctoring-session"
+import { useProctorCommands } from "@/hooks/use-proctor-commands"
+import { IncidentTracker } from "@/lib/incidents"
+import { EvidenceCapturePolicy, type CaptureSnapshot } from "@/lib/evidence-capture"
+import { ApiClient } from "@/lib/api-client"
+import {
+  DEFAULT_PROCTORING_SETTINGS,
+  PROCTOR_COMMAND_STATUSES,
+  STAFF_ROLES,
+  type DetectionEventType,
+  type EventBox,
+  type EventSampleInput,
+  type EvidenceRef,
+  type EvidenceTrigger,
+  type Exam,
+  type Incident,
+  type ProctorCommand,
+  type RecordSystemCheckInput,
+  type Severity,
+} from "@/lib/domain"
 import {
   Eye,
   EyeOff,
@@ -19,29 +43,83 @@ import {
   XCircle,
   Brain,
   FileText,
+  MessageSquare,
+  Ban,
+  Pause,
+  Monitor,
+  Clipboard,
+  Code,
+  Mic,
+  Volume2,
+  UserX,
 } from "lucide-react"
 
-interface DetectionEvent {
-  id: string
-  type:
-    | "focus_lost"
-    | "no_face"
-    | "multiple_faces"
-    | "phone_detected"
-    | "notes_detected"
-    | "suspicious_object"
-    | "eyes_closed"
-  timestamp: Date
-  description: string
-  severity: "low" | "medium" | "high"
+const LIVE_STATUS_DEBOUNCE_MS = 500
+const LIVE_STATUS_HEARTBEAT_MS = 10_000
+// How often incidents whose condition is no longer seen are closed and logged
+const INCIDENT_CLOSE_CHECK_MS = 1000
+// Frames of an open incident sent together, so long incidents are kept as they go
+const INCIDENT_SAMPLE_BATCH = 30
+
+// Value of the exam select for a session outside any exam
+const PRACTICE_SESSION = "practice"
+
+// Incidents shown in the live feed; detections are grouped the same way the server scores them
+type LiveIncident = Pick<Incident, "id" | "type" | "startedAt" | "description" | "severity" | "durationMs">
+
+// A frame in which an open incident's condition was seen, waiting to be logged
+interface PendingSample {
+  seenAt: number
+  confidence?: number
+  boxes?: EventBox[]
+}
+
+// An incident logged as opened and not yet closed: the opening event's metadata, the
+// requests logging it so far, the snapshot of the latest peak and the frames seen since
+// its last event, for the events that follow
+interface OpenIncident {
+  metadata?: Record<string, any>
+  logged: Promise<unknown>
+  peakEvidence?: EvidenceRef
+  samples: PendingSample[]
 }
 
-export function VideoProctoring() {
+// Metadata of the events that follow an incident's opening one. Their frames travel as
+// samples, so the opening frame's boxes are left out rather than shown at a later time.
+function continuationMetadata(open: OpenIncident): Record<string, any> {
+  const metadata = { ...open.metadata }
+  delete metadata.boxes
+  return metadata
+}
+
+// Samples as the events route takes them, aged from when they are sent
+function toSampleInputs(samples: PendingSample[]): EventSampleInput[] {
+  const now = Date.now()
+  return samples.map(({ seenAt, ...sample }) => ({ ...sample, ageMs: Math.max(0, Math.round(now - seenAt)) }))
+}
+
+interface VideoProctoringProps {
+  // Existing session to continue instead of starting a new one
+  sessionId?: string
+}
+
+export function VideoProctoring({ sessionId }: VideoProctoringProps) {
+  const { user } = useCurrentUser()
+  // Candidates start exam sessions from their invitation link, not from here
+  const canPickExam = !!user && STAFF_ROLES.includes(user.role)
   const [isRecording, setIsRecording] = useState(false)
   const [isPaused, setIsPaused] = useState(false)
-  const [candidateName, setCandidateName] = useState("John Doe")
+  const [candidateName, setCandidateName] = useState("")
   const [sessionDuration, setSessionDuration] = useState(0)
-  const [detectionEvents, setDetectionEvents] = useState<DetectionEvent[]>([])
+  const [exams, setExams] = useState<Exam[]>([])
+  const [selectedExamId, setSelectedExamId] = useState(PRACTICE_SESSION)
+  const [proctorLock, setProctorLock] = useState<"paused" | "terminated" | null>(null)
+  const [terminationReason, setTerminationReason] = useState<string | null>(null)
+  const [detectionEvents, setDetectionEvents] = useState<LiveIncident[]>([])
+  const incidentTrackerRef = useRef(new IncidentTracker(DEFAULT_PROCTORING_SETTINGS.incidents.graceMs))
+  const evidencePolicyRef = useRef(new EvidenceCapturePolicy(DEFAULT_PROCTORING_SETTINGS.evidence))
+  const snapshotRef = useRef<CaptureSnapshot | null>(null)
+  const openIncidentsRef = useRef(new Map<string, OpenIncident>())
   const [showReports, setShowReports] = useState(false)
   const [currentStatus, setCurrentStatus] = useState<{
     focused: boolean
@@ -63,9 +141,11 @@ export function VideoProctoring() {
     isLoading,
     error,
     createSession,
+    resumeSession,
     updateSession,
+    recordSystemCheck,
+    recordIdentity,
     logDetectionEvent,
-    generateReport,
     downloadReport,
     endSession,
     clearError,
@@ -88,13 +168,111 @@ export function VideoProctoring() {
     return () => clearInterval(interval)
   }, [isRecording, isPaused, currentSession, updateSession])
 
-  const handleRecordingStart = async () => {
+  // Sessions started from an invitation are bound to the invited candidate's name
+  useEffect(() => {
+    if (!sessionId) return
+    resumeSession(sessionId)
+      .then(async (session) => {
+        setCandidateName(session.candidateName)
+        setSessionDuration(session.duration)
+        if (session.status !== "paused" && session.status !== "terminated") return
+
+        // A pause or termination acknowledged before the page was reloaded still holds
+        const last = (await ApiClient.getCommands(session.id))
+          .filter((command) => PROCTOR_COMMAND_STATUSES[command.type])
+          .at(-1)
+        if (session.status === "terminated" && last?.type === "terminate") {
+          setProctorLock("terminated")
+          setTerminationReason(last.text ?? null)
+        } else if (session.status === "paused" && last?.type === "pause") {
+          setProctorLock("paused")
+        }
+      })
+      .catch((err) => console.error("Failed to load session:", err))
+  }, [sessionId, resumeSession])
+
+  // Commands from the proctor. A termination ends the recording without completing
+  // the session, which the server has already marked terminated.
+  const handleProctorCommand = (command: ProctorCommand) => {
+    switch (command.type) {
+      case "pause":
+        setIsPaused(true)
+        setProctorLock("paused")
+        break
+      case "resume":
+        setIsPaused(false)
+        setProctorLock(null)
+        break
+      case "terminate":
+        setIsRecording(false)
+        setIsPaused(false)
+        setProctorLock("terminated")
+        setTerminationReason(command.text ?? null)
+        setCurrentStatus((prev) => ({ ...prev, aiDetectionActive: false }))
+        break
+    }
+  }
+  const { notices, acknowledge } = useProctorCommands(currentSession?.id ?? null, handleProctorCommand)
+
+  // Practice sessions default to the signed-in user's name
+  useEffect(() => {
+    if (user && !sessionId) setCandidateName((name) => name || user.name)
+  }, [user, sessionId])
+
+  // Relay what the page sees to the proctors' monitoring wall once it settles, and
+  // again periodically so the wall can tell a quiet candidate from a lost one
+  const { focused, faceDetected, multipleFaces, suspiciousItems } = currentStatus
+  const suspiciousKey = suspiciousItems.join("\n")
+  useEffect(() => {
+    if (!currentSession || !isRecording) return
+
+    const report = () =>
+      ApiClient.reportLiveStatus(currentSession.id, { focused, faceDetected, multipleFaces, suspiciousItems }).catch(
+        (err) => console.error("Failed to report live status:", err),
+      )
+    const timeout = setTimeout(report, LIVE_STATUS_DEBOUNCE_MS)
+    const interval = setInterval(report, LIVE_STATUS_HEARTBEAT_MS)
+    return () => {
+      clearTimeout(timeout)
+      clearInterval(interval)
+    }
+  }, [currentSession?.id, isRecording, focused, faceDetected, multipleFaces, suspiciousKey])
+
+  // Exams open to the user; without any, sessions are practice sessions
+  useEffect(() => {
+    ApiClient.getExams()
+      .then(setExams)
+      .catch(() => setExams([]))
+  }, [])
+
+  const sessionExam = exams.find(
+    (exam) => exam.id === (currentSession?.examId ?? (canPickExam ? selectedExamId : undefined)),
+  )
+  const timeLimit = sessionExam ? sessionExam.durationMinutes * 60 : null
+  const deadline =
+    currentSession && timeLimit !== null ? new Date(currentSession.startTime).getTime() + timeLimit * 1000 : null
+
+  // The server ends exam sessions once the time limit has passed since they started
+  // (lib/sessions) and refuses anything sent later, so the page stops at that moment
+  useEffect(() => {
+    if (!isRecording || deadline === null) return
+
+    const timeout = setTimeout(handleRecordingStop, Math.max(0, deadline - Date.now()))
+    return () => clearTimeout(timeout)
+  }, [isRecording, deadline])
+
+  const handleRecordingStart = async (systemCheck: RecordSystemCheckInput, identity: IdentityCapture | null) => {
     try {
-      if (!currentSession) {
-        await createSession(candidateName, "1080p", true)
-      }
+      const examId = !canPickExam || selectedExamId === PRACTICE_SESSION ? undefined : selectedExamId
+      const session = currentSession ?? (await createSession(candidateName, "1080p", true, examId))
+      // The session only starts once the check is on record
+      await recordSystemCheck(session.id, systemCheck)
+      if (identity) await recordIdentity(session.id, identity)
+      incidentTrackerRef.current = new IncidentTracker(session.settings.incidents.graceMs)
+      openIncidentsRef.current.clear()
+      evidencePolicyRef.current = new EvidenceCapturePolicy(session.settings.evidence)
       setIsRecording(true)
-      setIsPaused(false)
+      setIsPaused(proctorLock === "paused")
       setCurrentStatus((prev) => ({ ...prev, aiDetectionActive: true }))
     } catch (err) {
       console.error("Failed to start session:", err)
@@ -103,6 +281,7 @@ export function VideoProctoring() {
 
   const handleRecordingStop = async () => {
     try {
+      await reportClosedIncidents(incidentTrackerRef.current.closeAll())
       if (currentSession) {
         await endSession()
       }
@@ -129,23 +308,63 @@ export function VideoProctoring() {
     }
   }
 
-  const handleDetectionEvent = async (type: string, description: string, severity: "low" | "medium" | "high") => {
-    const newEvent: DetectionEvent = {
+  const handleDetectionEvent = async (
+    type: DetectionEventType,
+    description: string,
+    severity: Severity,
+    confidence?: number,
+    metadata?: Record<string, any>,
+  ) => {
+    const timestamp = new Date()
+    reportClosedIncidents(incidentTrackerRef.current.closeExpired(timestamp))
+    const { incident, change, newPeak } = incidentTrackerRef.current.observe({
       id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
-      type: type as DetectionEvent["type"],
-      timestamp: new Date(),
+      sessionId: currentSession?.id ?? "",
+      type,
+      timestamp,
       description,
       severity,
-    }
-    setDetectionEvents((prev) => [newEvent, ...prev].slice(0, 20)) // Keep last 20 events
+      confidence,
+      metadata,
+    })
+    const liveIncident: LiveIncident = { ...incident }
+    setDetectionEvents((prev) =>
+      change === "opened"
+        ? [liveIncident, ...prev].slice(0, 20) // Keep last 20 incidents
+        : prev.map((item) => (item.id === incident.id ? liveIncident : item)),
+    )
 
-    // Log to backend
-    try {
-      if (currentSession) {
-        await logDetectionEvent(type as any, description, severity)
+    // Detections repeat every frame while a condition lasts, so an incident is logged
+    // by the events that open and close it, tagged with its id so the server groups
+    // them the same way. The frames in between are kept for audit as samples, sent in
+    // batches with the same id and the rest with the closing event. Opening takes a
+    // snapshot; a new peak takes another, which is sent with the closing event.
+    if (currentSession) {
+      if (change === "opened") {
+        const logged = captureEvidence(incident.id, severity, "start")
+          .then((evidence) =>
+            logDetectionEvent(type, description, severity, confidence, {
+              ...metadata,
+              incidentId: incident.id,
+              ...(evidence ? { evidence } : {}),
+            }),
+          )
+          .catch((err) => console.error("Failed to log detection event:", err))
+        // Episode events span their own duration and are complete once logged
+        if (typeof metadata?.durationMs !== "number") {
+          openIncidentsRef.current.set(incident.id, { metadata, logged, samples: [] })
+        }
+      } else {
+        const open = openIncidentsRef.current.get(incident.id)
+        if (open) {
+          open.samples.push({ seenAt: timestamp.getTime(), confidence, boxes: metadata?.boxes })
+          if (open.samples.length >= INCIDENT_SAMPLE_BATCH) logIncidentSamples(incident, open)
+        }
+        if (newPeak) {
+          const evidence = await captureEvidence(incident.id, severity, "peak")
+          if (evidence && open) open.peakEvidence = evidence
+        }
       }
-    } catch (err) {
-      console.error("Failed to log detection event:", err)
     }
 
     // Update current status based on event
@@ -165,7 +384,9 @@ export function VideoProctoring() {
       case "suspicious_object":
       case "phone_detected":
       case "notes_detected":
-        const objectType = description.split(" ")[0].toLowerCase()
+        // Objects the policy only logs are not shown as violations
+        if (metadata?.informational) break
+        const objectType = metadata?.objectClass ?? description.split(" ")[0].toLowerCase()
         setCurrentStatus((prev) => ({
           ...prev,
           suspiciousItems: [...prev.suspiciousItems.filter((item) => item !== objectType), objectType].slice(-3),
@@ -180,6 +401,84 @@ export function VideoProctoring() {
     }
   }
 
+  // Logs the frames seen since an open incident's last event, after the events before it
+  const logIncidentSamples = (incident: Incident, open: OpenIncident) => {
+    const samples = open.samples.splice(0)
+    open.logged = open.logged
+      .then(() =>
+        logDetectionEvent(incident.type, incident.description, incident.severity, incident.peakConfidence, {
+          ...continuationMetadata(open),
+          incidentId: incident.id,
+          samples: toSampleInputs(samples),
+        }),
+      )
+      .catch((err) => console.error("Failed to log detection event:", err))
+  }
+
+  // Logs the end of incidents the tracker closed, with how long they lasted and the
+  // frames not yet sent. Incidents seen only once are already complete on the server.
+  const reportClosedIncidents = (closed: Incident[]) =>
+    Promise.all(
+      closed.map(async (incident) => {
+        const open = openIncidentsRef.current.get(incident.id)
+        openIncidentsRef.current.delete(incident.id)
+        if (!open || incident.eventIds.length < 2) return
+
+        try {
+          await open.logged
+          await logDetectionEvent(
+            incident.type,
+            `${incident.description} (${Math.round(incident.durationMs / 1000)}s)`,
+            incident.severity,
+            incident.peakConfidence,
+            {
+              ...continuationMetadata(open),
+              incidentId: incident.id,
+              incidentDurationMs: incident.durationMs,
+              samples: toSampleInputs(open.samples),
+              ...(open.peakEvidence ? { evidence: open.peakEvidence } : {}),
+            },
+          )
+        } catch (err) {
+          console.error("Failed to log detection event:", err)
+        }
+      }),
+    )
+
+  // Closes incidents on a timer too, as detections of other conditions may not come
+  const reportClosedIncidentsRef = useRef(reportClosedIncidents)
+  reportClosedIncidentsRef.current = reportClosedIncidents
+  useEffect(() => {
+    if (!isRecording) return
+
+    const interval = setInterval(
+      () => reportClosedIncidentsRef.current(incidentTrackerRef.current.closeExpired(new Date())),
+      INCIDENT_CLOSE_CHECK_MS,
+    )
+    return () => clearInterval(interval)
+  }, [isRecording])
+
+  // Uploads a snapshot of the current frame; events are still logged without one if this fails
+  const captureEvidence = async (
+    incidentId: string,
+    severity: Severity,
+    trigger: EvidenceTrigger,
+  ): Promise<EvidenceRef | null> => {
+    if (!currentSession || !evidencePolicyRef.current.shouldCapture(incidentId, severity)) return null
+
+    const { drawBoxes, jpegQuality } = currentSession.settings.evidence
+    try {
+      const snapshot = await snapshotRef.current?.({ drawBoxes, quality: jpegQuality })
+      if (!snapshot) return null
+
+      const evidence = await ApiClient.uploadEvidence(currentSession.id, snapshot)
+      return { id: evidence.id, trigger }
+    } catch (err) {
+      console.error("Failed to capture evidence:", err)
+      return null
+    }
+  }
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60)
     const secs = seconds % 60
@@ -203,7 +502,7 @@ export function VideoProctoring() {
     }
   }
 
-  const getEventIcon = (type: DetectionEvent["type"]) => {
+  const getEventIcon = (type: DetectionEventType) => {
     switch (type) {
       case "focus_lost":
         return <EyeOff className="h-4 w-4 text-yellow-500" />
@@ -218,6 +517,22 @@ export function VideoProctoring() {
         return <BookOpen className="h-4 w-4 text-yellow-500" />
       case "eyes_closed":
         return <Eye className="h-4 w-4 text-blue-500" />
+      case "tab_hidden":
+      case "window_blur":
+      case "fullscreen_exit":
+        return <Monitor className="h-4 w-4 text-yellow-500" />
+      case "clipboard_use":
+        return <Clipboard className="h-4 w-4 text-orange-500" />
+      case "devtools_open":
+        return <Code className="h-4 w-4 text-red-500" />
+      case "speech_detected":
+        return <Mic className="h-4 w-4 text-yellow-500" />
+      case "multiple_speakers":
+        return <Users className="h-4 w-4 text-red-500" />
+      case "background_noise":
+        return <Volume2 className="h-4 w-4 text-gray-500" />
+      case "identity_mismatch":
+        return <UserX className="h-4 w-4 text-red-500" />
       default:
         return <AlertTriangle className="h-4 w-4 text-gray-500" />
     }
@@ -240,12 +555,13 @@ export function VideoProctoring() {
           <Button onClick={() => setShowReports(false)} variant="outline">
             ← Back to Monitoring
           </Button>
+          {currentSession && (
+            <Button asChild variant="ghost">
+              <Link href={`/reports/${currentSession.id}`}>Shareable link</Link>
+            </Button>
+          )}
         </div>
-        <ReportingDashboard
-          sessionId={currentSession?.id}
-          onDownloadReport={handleDownloadReport}
-          onGenerateNewReport={() => generateReport()}
-        />
+        <ReportingDashboard sessionId={currentSession?.id} />
       </div>
     )
   }
@@ -258,10 +574,19 @@ export function VideoProctoring() {
           <h1 className="text-3xl font-bold text-foreground mb-2">Video Proctoring System</h1>
           <p className="text-muted-foreground">Real-time AI-powered monitoring for online interviews</p>
         </div>
-        <Button onClick={() => setShowReports(true)} variant="outline">
-          <FileText className="h-4 w-4 mr-2" />
-          View Reports
-        </Button>
+        <div className="flex items-center gap-2">
+          <UserMenu />
+          <Button asChild variant="ghost">
+            <Link href="/exams">Exams</Link>
+          </Button>
+          <Button asChild variant="ghost">
+            <Link href="/sessions">Past Sessions</Link>
+          </Button>
+          <Button onClick={() => setShowReports(true)} variant="outline">
+            <FileText className="h-4 w-4 mr-2" />
+            View Reports
+          </Button>
+        </div>
       </div>
 
       {/* Error Alert */}
@@ -277,6 +602,49 @@ export function VideoProctoring() {
         </Alert>
       )}
 
+      {/* Proctor Commands */}
+      {proctorLock === "terminated" && (
+        <Alert className="mb-6 border-red-200 bg-red-50">
+          <Ban className="h-4 w-4 text-red-600" />
+          <AlertDescription className="text-red-800">
+            A proctor has ended this session{terminationReason ? `: ${terminationReason}` : "."}
+          </AlertDescription>
+        </Alert>
+      )}
+      {proctorLock === "paused" && (
+        <Alert className="mb-6 border-yellow-200 bg-yellow-50">
+          <Pause className="h-4 w-4 text-yellow-600" />
+          <AlertDescription className="text-yellow-800">
+            A proctor has paused this session. Please wait for them to resume it.
+          </AlertDescription>
+        </Alert>
+      )}
+      {notices.map((notice) => (
+        <Alert
+          key={notice.id}
+          className={`mb-6 ${notice.type === "warning" ? "border-red-200 bg-red-50" : "border-blue-200 bg-blue-50"}`}
+        >
+          {notice.type === "warning" ? (
+            <AlertTriangle className="h-4 w-4 text-red-600" />
+          ) : (
+            <MessageSquare className="h-4 w-4 text-blue-600" />
+          )}
+          <AlertDescription
+            className={`flex items-center justify-between gap-4 ${notice.type === "warning" ? "text-red-800" : "text-blue-800"}`}
+          >
+            <span>
+              <span className="font-medium">
+                {notice.type === "warning" ? "Formal warning" : "Message"} from {notice.issuedByName}:
+              </span>{" "}
+              {notice.text}
+            </span>
+            <Button onClick={() => acknowledge(notice.id)} variant="outline" size="sm">
+              Acknowledge
+            </Button>
+          </AlertDescription>
+        </Alert>
+      ))}
+
       {/* Main Grid Layout */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Video Feed - Main Column */}
@@ -291,6 +659,12 @@ export function VideoProctoring() {
             sessionDuration={sessionDuration}
             candidateName={candidateName}
             onCandidateNameChange={setCandidateName}
+            candidateNameLocked={!!currentSession}
+            settings={currentSession?.settings ?? sessionExam?.settings}
+            sessionId={currentSession?.id}
+            snapshotRef={snapshotRef}
+            proctorLock={proctorLock}
+            identityVerification={currentSession?.identityVerification}
           />
 
           {/* Recent Events */}
@@ -321,7 +695,10 @@ export function VideoProctoring() {
                       <div className="flex-shrink-0 mt-0.5">{getEventIcon(event.type)}</div>
                       <div className="flex-1 min-w-0">
                         <p className="text-sm font-medium text-foreground">{event.description}</p>
-                        <p className="text-xs text-muted-foreground">{event.timestamp.toLocaleTimeString()}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {event.startedAt.toLocaleTimeString()}
+                          {event.durationMs >= 1000 && ` · ${Math.round(event.durationMs / 1000)}s`}
+                        </p>
                       </div>
                       <Badge className={getSeverityColor(event.severity)}>{event.severity}</Badge>
                     </div>
@@ -345,9 +722,37 @@ export function VideoProctoring() {
                   <label className="text-sm font-medium text-muted-foreground">Name</label>
                   <p className="text-foreground">{candidateName}</p>
                 </div>
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground">Exam</label>
+                  {currentSession || isRecording ? (
+                    <p className="text-foreground">{sessionExam?.title ?? "Practice session"}</p>
+                  ) : !canPickExam ? (
+                    <>
+                      <p className="text-foreground">Practice session</p>
+                      <p className="text-xs text-muted-foreground">Open the invitation link you received to take an exam.</p>
+                    </>
+                  ) : (
+                    <Select value={selectedExamId} onValueChange={setSelectedExamId}>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={PRACTICE_SESSION}>Practice session</SelectItem>
+                        {exams.map((exam) => (
+                          <SelectItem key={exam.id} value={exam.id}>
+                            {exam.title}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
                 <div>
                   <label className="text-sm font-medium text-muted-foreground">Session Duration</label>
-                  <p className="text-foreground font-mono">{formatTime(sessionDuration)}</p>
+                  <p className="text-foreground font-mono">
+                    {formatTime(sessionDuration)}
+                    {timeLimit !== null && <span className="text-muted-foreground"> / {formatTime(timeLimit)}</span>}
+                  </p>
                 </div>
                 <div>
                   <label className="text-sm font-medium text-muted-foreground">Session Status</label>
@@ -0,0 +1,38 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useRouter } from "next/navigation"
+import { ApiClient } from "@/lib/api-client"
+import type { AuthUser } from "@/lib/domain"
+
+// The signed-in user; null while loading and when nobody is signed in
+export function useCurrentUser() {
+  const router = useRouter()
+  const [user, setUser] = useState<AuthUser | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+
+    ApiClient.getCurrentUser()
+      .then((result) => {
+        if (!cancelled) setUser(result)
+      })
+      .catch((err) => console.error("Failed to fetch the signed-in user:", err))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const signOut = useCallback(async () => {
+    await ApiClient.logout()
+    setUser(null)
+    router.replace("/login")
+  }, [router])
+
+  return { user, isLoading, signOut }
+}
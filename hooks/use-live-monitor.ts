@@ -0,0 +1,82 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { ApiClient } from "@/lib/api-client"
+import {
+  LIVE_MESSAGE_TYPES,
+  isLiveSession,
+  liveMessageSchema,
+  type DetectionEvent,
+  type LiveMessage,
+  type LiveStatus,
+  type ProctoringSession,
+} from "@/lib/domain"
+
+const FEED_SIZE = 100
+
+export type LiveConnection = "connecting" | "open" | "reconnecting"
+
+export interface LiveFeedItem {
+  session: ProctoringSession
+  event: DetectionEvent
+}
+
+interface LiveState {
+  sessions: ProctoringSession[]
+  statuses: Record<string, LiveStatus>
+  feed: LiveFeedItem[]
+}
+
+const INITIAL_STATE: LiveState = { sessions: [], statuses: {}, feed: [] }
+
+// Sessions are kept newest first; ended and deleted ones leave the wall
+function upsertSession(sessions: ProctoringSession[], session: ProctoringSession) {
+  if (!isLiveSession(session)) return sessions.filter((item) => item.id !== session.id)
+  if (!sessions.some((item) => item.id === session.id)) return [session, ...sessions]
+  return sessions.map((item) => (item.id === session.id ? session : item))
+}
+
+function reduce(state: LiveState, message: LiveMessage): LiveState {
+  switch (message.type) {
+    case "snapshot":
+      // Sent again after every reconnect, so it replaces what was missed
+      return { sessions: message.sessions, statuses: message.statuses, feed: state.feed }
+    case "session":
+      return { ...state, sessions: upsertSession(state.sessions, message.session) }
+    case "removed":
+      return { ...state, sessions: state.sessions.filter((session) => session.id !== message.session.id) }
+    case "event":
+      return {
+        ...state,
+        sessions: upsertSession(state.sessions, message.session),
+        feed: [{ session: message.session, event: message.event }, ...state.feed].slice(0, FEED_SIZE),
+      }
+    case "status":
+      return { ...state, statuses: { ...state.statuses, [message.session.id]: message.status } }
+  }
+}
+
+// Sessions in progress with their latest candidate status, and the detection events
+// streaming in, kept current through the monitoring stream. EventSource reconnects
+// on its own after network errors.
+export function useLiveMonitor() {
+  const [state, setState] = useState<LiveState>(INITIAL_STATE)
+  const [connection, setConnection] = useState<LiveConnection>("connecting")
+
+  useEffect(() => {
+    const source = new EventSource(ApiClient.monitorStreamUrl())
+
+    const handleMessage = (message: MessageEvent<string>) => {
+      const parsed = liveMessageSchema.safeParse(JSON.parse(message.data))
+      if (parsed.success) setState((prev) => reduce(prev, parsed.data))
+    }
+
+    for (const type of LIVE_MESSAGE_TYPES) source.addEventListener(type, handleMessage)
+    source.onopen = () => setConnection("open")
+    source.onerror = () => setConnection("reconnecting")
+
+    return () => source.close()
+  }, [])
+
+  return { ...state, connection }
+}
@@ -0,0 +1,61 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { ApiClient } from "@/lib/api-client"
+import { proctorCommandSchema, type ProctorCommand } from "@/lib/domain"
+
+// Commands the candidate reads and dismisses; the others are applied as they arrive
+const NOTICE_COMMANDS: ProctorCommand["type"][] = ["message", "warning"]
+
+// Commands a proctor issues to the session, received over the command stream.
+// Pause, resume and terminate are handed to onCommand and acknowledged right away;
+// messages and warnings wait in notices until the candidate acknowledges them.
+export function useProctorCommands(sessionId: string | null, onCommand: (command: ProctorCommand) => void) {
+  const [notices, setNotices] = useState<ProctorCommand[]>([])
+  const onCommandRef = useRef(onCommand)
+  onCommandRef.current = onCommand
+
+  useEffect(() => {
+    setNotices([])
+    if (!sessionId) return
+
+    // The stream repeats unacknowledged commands after every reconnect
+    const seen = new Set<string>()
+    const source = new EventSource(ApiClient.commandStreamUrl(sessionId))
+
+    source.addEventListener("command", (message: MessageEvent<string>) => {
+      const parsed = proctorCommandSchema.safeParse(JSON.parse(message.data))
+      if (!parsed.success || seen.has(parsed.data.id)) return
+      const command = parsed.data
+      seen.add(command.id)
+
+      if (NOTICE_COMMANDS.includes(command.type)) {
+        setNotices((prev) => [...prev, command])
+        return
+      }
+
+      onCommandRef.current(command)
+      ApiClient.acknowledgeCommand(sessionId, command.id).catch((err) =>
+        console.error("Failed to acknowledge command:", err),
+      )
+    })
+
+    return () => source.close()
+  }, [sessionId])
+
+  const acknowledge = useCallback(
+    async (commandId: string) => {
+      setNotices((prev) => prev.filter((command) => command.id !== commandId))
+      if (!sessionId) return
+
+      try {
+        await ApiClient.acknowledgeCommand(sessionId, commandId)
+      } catch (err) {
+        console.error("Failed to acknowledge command:", err)
+      }
+    },
+    [sessionId],
+  )
+
+  return { notices, acknowledge }
+}
@@ -0,0 +1,48 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { ApiClient } from "@/lib/api-client"
+import type { ProctoringReport } from "@/lib/domain"
+
+// Fetches the report of a session, and again whenever refresh is called.
+// report stays null when no session is given or the session does not exist.
+export function useProctoringReport(sessionId?: string) {
+  const [report, setReport] = useState<ProctoringReport | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [version, setVersion] = useState(0)
+
+  useEffect(() => {
+    if (!sessionId) {
+      setReport(null)
+      setError(null)
+      return
+    }
+
+    let cancelled = false
+
+    const loadReport = async () => {
+      setIsLoading(true)
+      setError(null)
+
+      try {
+        const result = await ApiClient.getReport(sessionId)
+        if (!cancelled) setReport(result)
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to fetch report")
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    loadReport()
+
+    return () => {
+      cancelled = true
+    }
+  }, [sessionId, version])
+
+  const refresh = useCallback(() => setVersion((prev) => prev + 1), [])
+
+  return { report, isLoading, error, refresh }
+}
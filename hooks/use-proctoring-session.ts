@@ -2,7 +2,15 @@
 
 import { useState, useEffect, useCallback } from "react"
 import { ApiClient } from "@/lib/api-client"
-import type { ProctoringSession, DetectionEvent } from "@/app/api/sessions/route"
+import type {
+  DetectionEvent,
+  DetectionEventType,
+  ProctoringSession,
+  RecordSystemCheckInput,
+  Severity,
+  UpdateSessionInput,
+  VideoQuality,
+} from "@/lib/domain"
 
 export function useProctoringSession() {
   const [currentSession, setCurrentSession] = useState<ProctoringSession | null>(null)
@@ -11,12 +19,12 @@ export function useProctoringSession() {
   const [error, setError] = useState<string | null>(null)
 
   const createSession = useCallback(
-    async (candidateName: string, videoQuality: "720p" | "1080p" = "720p", detectionEnabled = true) => {
+    async (candidateName: string, videoQuality: VideoQuality = "720p", detectionEnabled = true, examId?: string) => {
       setIsLoading(true)
       setError(null)
 
       try {
-        const session = await ApiClient.createSession(candidateName, videoQuality, detectionEnabled)
+        const session = await ApiClient.createSession(candidateName, videoQuality, detectionEnabled, examId)
         setCurrentSession(session)
         setSessionEvents([])
         return session
@@ -31,8 +39,30 @@ export function useProctoringSession() {
     [],
   )
 
+  // Continues a session that was started elsewhere, such as by accepting an invitation
+  const resumeSession = useCallback(async (sessionId: string) => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const session = await ApiClient.getSession(sessionId)
+      if (!session) {
+        throw new Error("Session not found")
+      }
+
+      setCurrentSession(session)
+      return session
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to load session"
+      setError(errorMessage)
+      throw err
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
   const updateSession = useCallback(
-    async (updates: Partial<ProctoringSession>) => {
+    async (updates: Omit<UpdateSessionInput, "sessionId">) => {
       if (!currentSession) {
         throw new Error("No active session")
       }
@@ -55,11 +85,43 @@ export function useProctoringSession() {
     [currentSession],
   )
 
+  // Takes the session id because it is called right after the session is created
+  const recordSystemCheck = useCallback(async (sessionId: string, check: RecordSystemCheckInput) => {
+    setError(null)
+
+    try {
+      const session = await ApiClient.recordSystemCheck(sessionId, check)
+      setCurrentSession(session)
+      return session
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to record system check"
+      setError(errorMessage)
+      throw err
+    }
+  }, [])
+
+  const recordIdentity = useCallback(
+    async (sessionId: string, identity: { idDocument: Blob; selfie: Blob; matchScore: number }) => {
+      setError(null)
+
+      try {
+        const session = await ApiClient.recordIdentity(sessionId, identity)
+        setCurrentSession(session)
+        return session
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : "Failed to record identity check"
+        setError(errorMessage)
+        throw err
+      }
+    },
+    [],
+  )
+
   const logDetectionEvent = useCallback(
     async (
-      type: DetectionEvent["type"],
+      type: DetectionEventType,
       description: string,
-      severity: "low" | "medium" | "high",
+      severity: Severity,
       confidence?: number,
       metadata?: Record<string, any>,
     ) => {
@@ -72,11 +134,11 @@ export function useProctoringSession() {
 
         setSessionEvents((prev) => [event, ...prev].slice(0, 50)) // Keep last 50 events
 
-        // Update integrity score based on new event
-        const deduction = severity === "high" ? 15 : severity === "medium" ? 10 : 5
-        const newScore = Math.max(0, currentSession.integrityScore - deduction)
-
-        await updateSession({ integrityScore: newScore })
+        // The server rescored the session; pick up the new integrity score
+        const refreshedSession = await ApiClient.getSession(currentSession.id)
+        if (refreshedSession) {
+          setCurrentSession(refreshedSession)
+        }
 
         return event
       } catch (err) {
@@ -85,7 +147,7 @@ export function useProctoringSession() {
         throw err
       }
     },
-    [currentSession, updateSession],
+    [currentSession],
   )
 
   const loadSessionEvents = useCallback(
@@ -150,10 +212,8 @@ export function useProctoringSession() {
     if (!currentSession) return
 
     try {
-      await updateSession({
-        status: "completed",
-        endTime: new Date(),
-      })
+      // The server stamps endTime when the session is completed
+      await updateSession({ status: "completed" })
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : "Failed to end session"
       setError(errorMessage)
@@ -174,7 +234,10 @@ export function useProctoringSession() {
     isLoading,
     error,
     createSession,
+    resumeSession,
     updateSession,
+    recordSystemCheck,
+    recordIdentity,
     logDetectionEvent,
     loadSessionEvents,
     generateReport,
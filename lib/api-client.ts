@@ -1,13 +1,107 @@
-import type { ProctoringSession, DetectionEvent } from "@/app/api/sessions/route"
+import {
+  audioLevelSampleSchema,
+  authUserSchema,
+  detectionEventSchema,
+  evidenceSchema,
+  examSchema,
+  invitationPreviewSchema,
+  invitationSchema,
+  organizationSchema,
+  proctorCommandSchema,
+  proctoringReportSchema,
+  proctoringSessionSchema,
+  recordingSchema,
+  type AddAudioLevelsInput,
+  type AudioLevelSample,
+  type AuthUser,
+  type BulkSessionAction,
+  type CreateExamInput,
+  type CreateInvitationInput,
+  type DetectionEvent,
+  type DetectionEventType,
+  type Evidence,
+  type Exam,
+  type Invitation,
+  type InvitationLink,
+  type InvitationPreview,
+  type IssueCommandInput,
+  type LiveStatusInput,
+  type Organization,
+  type ProctorCommand,
+  type ProctoringReport,
+  type ProctoringSession,
+  type Recording,
+  type RecordSystemCheckInput,
+  type ReviewIdentityInput,
+  type SessionExportFormat,
+  type SessionQueryInput,
+  type Severity,
+  type UpdateExamInput,
+  type UpdateSessionInput,
+  type VideoQuality,
+} from "@/lib/domain"
 
 const API_BASE_URL = "/api"
 
+// Formats of GET /api/reports that download as a file
+export type ReportDownloadFormat = "csv" | "events-csv" | "pdf" | "zip"
+
+const REPORT_DOWNLOAD_SUFFIXES: Record<ReportDownloadFormat, string> = {
+  csv: ".csv",
+  "events-csv": "-events.csv",
+  pdf: ".pdf",
+  zip: ".zip",
+}
+
 export class ApiClient {
+  // Authentication
+  static async login(email: string, password: string): Promise<AuthUser> {
+    const response = await fetch(`${API_BASE_URL}/auth/login`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ email, password }),
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || "Failed to sign in")
+    }
+
+    return authUserSchema.parse(result.data)
+  }
+
+  static async logout(): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/auth/logout`, { method: "POST" })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || "Failed to sign out")
+    }
+  }
+
+  // Null when nobody is signed in
+  static async getCurrentUser(): Promise<AuthUser | null> {
+    const response = await fetch(`${API_BASE_URL}/auth/me`)
+    if (response.status === 401) {
+      return null
+    }
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || "Failed to fetch the signed-in user")
+    }
+
+    return authUserSchema.parse(result.data)
+  }
+
   // Session management
   static async createSession(
     candidateName: string,
-    videoQuality: "720p" | "1080p" = "720p",
+    videoQuality: VideoQuality = "720p",
     detectionEnabled = true,
+    examId?: string,
   ): Promise<ProctoringSession> {
     const response = await fetch(`${API_BASE_URL}/sessions`, {
       method: "POST",
@@ -18,6 +112,7 @@ export class ApiClient {
         candidateName,
         videoQuality,
         detectionEnabled,
+        examId,
       }),
     })
 
@@ -26,10 +121,13 @@ export class ApiClient {
       throw new Error(result.error || "Failed to create session")
     }
 
-    return result.data
+    return proctoringSessionSchema.parse(result.data)
   }
 
-  static async updateSession(sessionId: string, updates: Partial<ProctoringSession>): Promise<ProctoringSession> {
+  static async updateSession(
+    sessionId: string,
+    updates: Omit<UpdateSessionInput, "sessionId">,
+  ): Promise<ProctoringSession> {
     const response = await fetch(`${API_BASE_URL}/sessions`, {
       method: "PUT",
       headers: {
@@ -46,7 +144,68 @@ export class ApiClient {
       throw new Error(result.error || "Failed to update session")
     }
 
-    return result.data
+    return proctoringSessionSchema.parse(result.data)
+  }
+
+  static async recordSystemCheck(sessionId: string, check: RecordSystemCheckInput): Promise<ProctoringSession> {
+    const response = await fetch(`${API_BASE_URL}/sessions/${sessionId}/system-check`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(check),
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || "Failed to record system check")
+    }
+
+    return proctoringSessionSchema.parse(result.data)
+  }
+
+  // The page's match score with the two images it compared, stored as evidence
+  static async recordIdentity(
+    sessionId: string,
+    { idDocument, selfie, matchScore }: { idDocument: Blob; selfie: Blob; matchScore: number },
+  ): Promise<ProctoringSession> {
+    const form = new FormData()
+    form.append("idDocument", idDocument, "id-document.jpg")
+    form.append("selfie", selfie, "selfie.jpg")
+    form.append("matchScore", String(matchScore))
+
+    const response = await fetch(`${API_BASE_URL}/sessions/${sessionId}/identity`, {
+      method: "POST",
+      body: form,
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || "Failed to record identity check")
+    }
+
+    return proctoringSessionSchema.parse(result.data)
+  }
+
+  // A reviewer's decision after comparing the ID photo with the selfie
+  static async reviewIdentity(
+    sessionId: string,
+    status: ReviewIdentityInput["status"],
+  ): Promise<ProctoringSession> {
+    const response = await fetch(`${API_BASE_URL}/sessions/${sessionId}/identity`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ status }),
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || "Failed to review identity check")
+    }
+
+    return proctoringSessionSchema.parse(result.data)
   }
 
   static async getSession(sessionId: string): Promise<ProctoringSession | null> {
@@ -57,7 +216,7 @@ export class ApiClient {
       throw new Error(result.error || "Failed to fetch session")
     }
 
-    return result.data.length > 0 ? result.data[0] : null
+    return result.data.length > 0 ? proctoringSessionSchema.parse(result.data[0]) : null
   }
 
   static async getSessions(status?: string): Promise<ProctoringSession[]> {
@@ -69,7 +228,72 @@ export class ApiClient {
       throw new Error(result.error || "Failed to fetch sessions")
     }
 
-    return result.data
+    return proctoringSessionSchema.array().parse(result.data)
+  }
+
+  // One page of sessions matching the query; pass nextCursor back as cursor for the next page
+  static async searchSessions(
+    query: SessionQueryInput,
+  ): Promise<{ sessions: ProctoringSession[]; total: number; nextCursor: string | null }> {
+    const params = new URLSearchParams()
+    Object.entries(query).forEach(([key, value]) => {
+      if (value === undefined || value === "") return
+      params.set(key, value instanceof Date ? value.toISOString() : String(value))
+    })
+
+    const response = await fetch(`${API_BASE_URL}/sessions?${params}`)
+    const result = await response.json()
+
+    if (!result.success) {
+      throw new Error(result.error || "Failed to fetch sessions")
+    }
+
+    return {
+      sessions: proctoringSessionSchema.array().parse(result.data),
+      total: result.total,
+      nextCursor: result.nextCursor,
+    }
+  }
+
+  static async bulkSessionAction(action: Exclude<BulkSessionAction, "export">, sessionIds: string[]): Promise<string[]> {
+    const response = await fetch(`${API_BASE_URL}/sessions/bulk`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ action, sessionIds }),
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || "Failed to apply bulk action")
+    }
+
+    return result.data.sessionIds
+  }
+
+  static async exportSessions(sessionIds: string[], format: SessionExportFormat = "json"): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/sessions/bulk`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ action: "export", sessionIds, format }),
+    })
+
+    if (!response.ok) {
+      const result = await response.json()
+      throw new Error(result.error || "Failed to export sessions")
+    }
+
+    const url = URL.createObjectURL(await response.blob())
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `sessions-export-${new Date().toISOString().split("T")[0]}.${format}`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
   }
 
   static async deleteSession(sessionId: string): Promise<void> {
@@ -83,12 +307,358 @@ export class ApiClient {
     }
   }
 
+  // Organizations and exams
+  static async getOrganizations(): Promise<Organization[]> {
+    const response = await fetch(`${API_BASE_URL}/organizations`)
+    const result = await response.json()
+
+    if (!result.success) {
+      throw new Error(result.error || "Failed to fetch organizations")
+    }
+
+    return organizationSchema.array().parse(result.data)
+  }
+
+  // Exams of the user's organization; candidates only get the exams open right now
+  static async getExams(orgId?: string): Promise<Exam[]> {
+    const url = orgId ? `${API_BASE_URL}/exams?orgId=${encodeURIComponent(orgId)}` : `${API_BASE_URL}/exams`
+    const response = await fetch(url)
+    const result = await response.json()
+
+    if (!result.success) {
+      throw new Error(result.error || "Failed to fetch exams")
+    }
+
+    return examSchema.array().parse(result.data)
+  }
+
+  static async createExam(input: CreateExamInput): Promise<Exam> {
+    const response = await fetch(`${API_BASE_URL}/exams`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(input),
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || "Failed to create exam")
+    }
+
+    return examSchema.parse(result.data)
+  }
+
+  static async updateExam(examId: string, updates: UpdateExamInput): Promise<Exam> {
+    const response = await fetch(`${API_BASE_URL}/exams/${examId}`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(updates),
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || "Failed to update exam")
+    }
+
+    return examSchema.parse(result.data)
+  }
+
+  static async deleteExam(examId: string): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/exams/${examId}`, {
+      method: "DELETE",
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || "Failed to delete exam")
+    }
+  }
+
+  static async getInvitations(examId: string): Promise<Invitation[]> {
+    const response = await fetch(`${API_BASE_URL}/exams/${examId}/invitations`)
+    const result = await response.json()
+
+    if (!result.success) {
+      throw new Error(result.error || "Failed to fetch invitations")
+    }
+
+    return invitationSchema.array().parse(result.data)
+  }
+
+  static async createInvitation(examId: string, input: CreateInvitationInput): Promise<Invitation> {
+    const response = await fetch(`${API_BASE_URL}/exams/${examId}/invitations`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(input),
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || "Failed to invite candidate")
+    }
+
+    return invitationSchema.parse(result.data)
+  }
+
+  static async revokeInvitation(examId: string, invitationId: string): Promise<Invitation> {
+    const response = await fetch(`${API_BASE_URL}/exams/${examId}/invitations`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ invitationId, status: "revoked" }),
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || "Failed to revoke invitation")
+    }
+
+    return invitationSchema.parse(result.data)
+  }
+
+  // Issues a new join link for the invitation; earlier links stop working
+  static async issueInvitationLink(examId: string, invitationId: string, expiresInHours?: number): Promise<InvitationLink> {
+    const response = await fetch(`${API_BASE_URL}/exams/${examId}/invitations/${invitationId}/link`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ expiresInHours }),
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || "Failed to issue invitation link")
+    }
+
+    return { ...result.data, expiresAt: new Date(result.data.expiresAt) }
+  }
+
+  static async getInvitationPreview(token: string): Promise<InvitationPreview> {
+    const response = await fetch(`${API_BASE_URL}/invitations/${encodeURIComponent(token)}`)
+    const result = await response.json()
+
+    if (!result.success) {
+      throw new Error(result.error || "Failed to fetch invitation")
+    }
+
+    return invitationPreviewSchema.parse(result.data)
+  }
+
+  // Uses the join link, starting the candidate's session for the exam
+  static async acceptInvitation(token: string): Promise<ProctoringSession> {
+    const response = await fetch(`${API_BASE_URL}/invitations/${encodeURIComponent(token)}`, {
+      method: "POST",
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || "Failed to accept invitation")
+    }
+
+    return proctoringSessionSchema.parse(result.data)
+  }
+
+  // Live monitoring
+  static async reportLiveStatus(sessionId: string, status: LiveStatusInput): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/sessions/${sessionId}/live-status`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(status),
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || "Failed to report status")
+    }
+  }
+
+  // Server-Sent Events stream for EventSource; see liveMessageSchema
+  static monitorStreamUrl() {
+    return `${API_BASE_URL}/monitor/stream`
+  }
+
+  // Proctor commands
+  static async getCommands(sessionId: string): Promise<ProctorCommand[]> {
+    const response = await fetch(`${API_BASE_URL}/sessions/${sessionId}/commands`)
+    const result = await response.json()
+
+    if (!result.success) {
+      throw new Error(result.error || "Failed to fetch commands")
+    }
+
+    return proctorCommandSchema.array().parse(result.data)
+  }
+
+  static async issueCommand(sessionId: string, input: IssueCommandInput): Promise<ProctorCommand> {
+    const response = await fetch(`${API_BASE_URL}/sessions/${sessionId}/commands`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(input),
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || "Failed to issue command")
+    }
+
+    return proctorCommandSchema.parse(result.data)
+  }
+
+  static async acknowledgeCommand(sessionId: string, commandId: string): Promise<ProctorCommand> {
+    const response = await fetch(`${API_BASE_URL}/sessions/${sessionId}/commands/${commandId}/ack`, {
+      method: "POST",
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || "Failed to acknowledge command")
+    }
+
+    return proctorCommandSchema.parse(result.data)
+  }
+
+  // Server-Sent Events stream for EventSource; each "command" event is a ProctorCommand
+  static commandStreamUrl(sessionId: string) {
+    return `${API_BASE_URL}/sessions/${sessionId}/commands/stream`
+  }
+
+  // Recording upload
+  static async getRecordingStatus(
+    sessionId: string,
+  ): Promise<{ recording: Recording | null; receivedSequences: number[] }> {
+    const response = await fetch(`${API_BASE_URL}/sessions/${sessionId}/recording`)
+    const result = await response.json()
+
+    if (!result.success) {
+      throw new Error(result.error || "Failed to fetch recording")
+    }
+
+    return {
+      recording: result.data.recording ? recordingSchema.parse(result.data.recording) : null,
+      receivedSequences: result.data.receivedSequences,
+    }
+  }
+
+  static async uploadRecordingChunk(sessionId: string, sequence: number, chunk: Blob): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/sessions/${sessionId}/recording/chunks?sequence=${sequence}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": chunk.type || "video/webm",
+      },
+      body: chunk,
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || "Failed to upload recording chunk")
+    }
+  }
+
+  // Resolves with the missing sequences instead of the session when chunks have not all arrived
+  static async completeRecording(
+    sessionId: string,
+    totalChunks: number,
+  ): Promise<{ session: ProctoringSession } | { missing: number[] }> {
+    const response = await fetch(`${API_BASE_URL}/sessions/${sessionId}/recording`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ totalChunks }),
+    })
+
+    const result = await response.json()
+    if (response.status === 409 && Array.isArray(result.missing)) {
+      return { missing: result.missing }
+    }
+    if (!result.success) {
+      throw new Error(result.error || "Failed to complete recording")
+    }
+
+    return { session: proctoringSessionSchema.parse(result.data) }
+  }
+
+  static recordingUrl(sessionId: string) {
+    return `${API_BASE_URL}/sessions/${sessionId}/recording/file`
+  }
+
+  // Audio levels
+  static async getAudioLevels(sessionId: string): Promise<AudioLevelSample[]> {
+    const response = await fetch(`${API_BASE_URL}/sessions/${sessionId}/audio-levels`)
+    const result = await response.json()
+
+    if (!result.success) {
+      throw new Error(result.error || "Failed to fetch audio levels")
+    }
+
+    return audioLevelSampleSchema.array().parse(result.data)
+  }
+
+  static async addAudioLevels(sessionId: string, samples: AddAudioLevelsInput["samples"]): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/sessions/${sessionId}/audio-levels`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ samples }),
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || "Failed to store audio levels")
+    }
+  }
+
+  // Evidence snapshots
+  static async uploadEvidence(sessionId: string, snapshot: Blob): Promise<Evidence> {
+    const response = await fetch(`${API_BASE_URL}/sessions/${sessionId}/evidence`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "image/jpeg",
+      },
+      body: snapshot,
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || "Failed to upload evidence")
+    }
+
+    return evidenceSchema.parse(result.data)
+  }
+
+  static async getEvidence(sessionId: string): Promise<Evidence[]> {
+    const response = await fetch(`${API_BASE_URL}/sessions/${sessionId}/evidence`)
+    const result = await response.json()
+
+    if (!result.success) {
+      throw new Error(result.error || "Failed to fetch evidence")
+    }
+
+    return evidenceSchema.array().parse(result.data)
+  }
+
+  static evidenceUrl(sessionId: string, evidenceId: string) {
+    return `${API_BASE_URL}/sessions/${sessionId}/evidence/${evidenceId}`
+  }
+
   // Event management
   static async logEvent(
     sessionId: string,
-    type: DetectionEvent["type"],
+    type: DetectionEventType,
     description: string,
-    severity: "low" | "medium" | "high",
+    severity: Severity,
     confidence?: number,
     metadata?: Record<string, any>,
   ): Promise<DetectionEvent> {
@@ -112,7 +682,7 @@ export class ApiClient {
       throw new Error(result.error || "Failed to log event")
     }
 
-    return result.data
+    return detectionEventSchema.parse(result.data)
   }
 
   static async getEvents(
@@ -137,7 +707,7 @@ export class ApiClient {
     }
 
     return {
-      events: result.data,
+      events: detectionEventSchema.array().parse(result.data),
       total: result.total,
     }
   }
@@ -158,7 +728,10 @@ export class ApiClient {
   }
 
   // Report generation
-  static async generateReport(sessionId: string, format: "json" | "csv" = "json"): Promise<any> {
+  static async generateReport(sessionId: string, format?: "json"): Promise<ProctoringReport>
+  static async generateReport(sessionId: string, format: "csv"): Promise<string>
+  static async generateReport(sessionId: string, format: "json" | "csv"): Promise<ProctoringReport | string>
+  static async generateReport(sessionId: string, format: "json" | "csv" = "json"): Promise<ProctoringReport | string> {
     const response = await fetch(`${API_BASE_URL}/reports?sessionId=${sessionId}&format=${format}`)
 
     if (format === "csv") {
@@ -170,17 +743,36 @@ export class ApiClient {
       throw new Error(result.error || "Failed to generate report")
     }
 
-    return result.data
+    return proctoringReportSchema.parse(result.data)
   }
 
-  static async downloadReport(sessionId: string, candidateName: string): Promise<void> {
-    const csv = await this.generateReport(sessionId, "csv")
-    const blob = new Blob([csv], { type: "text/csv" })
+  // Null when the session does not exist
+  static async getReport(sessionId: string): Promise<ProctoringReport | null> {
+    const response = await fetch(`${API_BASE_URL}/reports?sessionId=${encodeURIComponent(sessionId)}&format=json`)
+    if (response.status === 404) {
+      return null
+    }
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || "Failed to fetch report")
+    }
+
+    return proctoringReportSchema.parse(result.data)
+  }
+
+  static async downloadReport(sessionId: string, candidateName: string, format: ReportDownloadFormat = "csv"): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/reports?sessionId=${encodeURIComponent(sessionId)}&format=${format}`)
+    if (!response.ok) {
+      throw new Error(`Failed to download report (${response.status})`)
+    }
+
+    const blob = await response.blob()
     const url = URL.createObjectURL(blob)
 
     const a = document.createElement("a")
     a.href = url
-    a.download = `proctoring-report-${candidateName.replace(/\s+/g, "-")}-${new Date().toISOString().split("T")[0]}.csv`
+    a.download = `proctoring-report-${candidateName.replace(/\s+/g, "-")}-${new Date().toISOString().split("T")[0]}${REPORT_DOWNLOAD_SUFFIXES[format]}`
     document.body.appendChild(a)
     a.click()
     document.body.removeChild(a)
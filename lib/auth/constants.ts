@@ -0,0 +1,4 @@
+// Shared with middleware.ts, which runs on the edge runtime and cannot import the providers
+
+export const LOCAL_AUTH_COOKIE = "proctoring_auth"
+export const LOGIN_PATH = "/login"
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server"
+import type { ProctoringRepository, SessionFilter } from "@/lib/repository"
+import type { AuthUser, ProctoringSession, UserRole } from "@/lib/domain"
+import { getAuthProvider } from "./provider"
+
+// The signed-in user, or the response a route handler should return instead:
+// 401 when nobody is signed in, 403 when the user's role is not among roles.
+// Any role is accepted when none are given.
+export async function requireUser(...roles: UserRole[]): Promise<AuthUser | NextResponse> {
+  let user: AuthUser | null
+  try {
+    user = await getAuthProvider().getUser()
+  } catch (error) {
+    return NextResponse.json({ success: false, error: "Failed to authenticate" }, { status: 500 })
+  }
+
+  if (!user) {
+    return NextResponse.json({ success: false, error: "Authentication required" }, { status: 401 })
+  }
+  if (roles.length > 0 && !roles.includes(user.role)) {
+    return NextResponse.json({ success: false, error: "Not allowed for your role" }, { status: 403 })
+  }
+
+  return user
+}
+
+// Admins see every session and candidates only their own; everyone else sees the
+// sessions of their organization. Mirrors the RLS policies in scripts/007_add_auth.sql.
+export function canAccessSession(user: AuthUser, session: ProctoringSession) {
+  if (user.role === "admin") return true
+  if (user.role === "candidate") return session.candidateId === user.id
+  return (session.orgId ?? null) === (user.orgId ?? null)
+}
+
+// Admins act on every organization, everyone else on their own
+export function canAccessOrganization(user: AuthUser, orgId: string) {
+  return user.role === "admin" || user.orgId === orgId
+}
+
+// Filter restricting a session listing to what canAccessSession allows
+export function sessionScope(user: AuthUser): Pick<SessionFilter, "candidateId" | "orgId"> {
+  if (user.role === "admin") return {}
+  if (user.role === "candidate") return { candidateId: user.id }
+  return { orgId: user.orgId ?? null }
+}
+
+// Sessions the user may not access are reported as missing, so their ids cannot be probed
+export async function getAccessibleSession(repository: ProctoringRepository, user: AuthUser, sessionId: string) {
+  const session = await repository.getSession(sessionId)
+  return session && canAccessSession(user, session) ? session : null
+}
+
+// Exams of other organizations are reported as missing, like sessions
+export async function getAccessibleExam(repository: ProctoringRepository, user: AuthUser, examId: string) {
+  const exam = await repository.getExam(examId)
+  return exam && canAccessOrganization(user, exam.orgId) ? exam : null
+}
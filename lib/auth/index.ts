@@ -0,0 +1,12 @@
+export type { AuthProvider } from "./types"
+export { createAuthProvider, getAuthBackend, getAuthProvider, getAuthSecret, type AuthBackend } from "./provider"
+export {
+  canAccessOrganization,
+  canAccessSession,
+  getAccessibleExam,
+  getAccessibleSession,
+  requireUser,
+  sessionScope,
+} from "./guards"
+export { DEV_USERS } from "./local-auth"
+export { LOCAL_AUTH_COOKIE, LOGIN_PATH } from "./constants"
@@ -0,0 +1,68 @@
+import { createHmac, timingSafeEqual } from "crypto"
+import { cookies } from "next/headers"
+import type { AuthUser } from "@/lib/domain"
+import { LOCAL_AUTH_COOKIE } from "./constants"
+import type { AuthProvider } from "./types"
+
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000
+const DEV_ORG_ID = "org_dev"
+
+// Fixed accounts for development, one or more per role. Both candidates belong to
+// the dev organization, so each can be checked against the other's sessions.
+export const DEV_USERS: AuthUser[] = [
+  { id: "user_candidate", email: "candidate@example.com", name: "Alex Candidate", role: "candidate", orgId: DEV_ORG_ID },
+  { id: "user_candidate2", email: "candidate2@example.com", name: "Sam Candidate", role: "candidate", orgId: DEV_ORG_ID },
+  { id: "user_proctor", email: "proctor@example.com", name: "Pat Proctor", role: "proctor", orgId: DEV_ORG_ID },
+  { id: "user_reviewer", email: "reviewer@example.com", name: "Robin Reviewer", role: "reviewer", orgId: DEV_ORG_ID },
+  { id: "user_owner", email: "owner@example.com", name: "Olive Owner", role: "org_owner", orgId: DEV_ORG_ID },
+  { id: "user_admin", email: "admin@example.com", name: "Ada Admin", role: "admin" },
+]
+
+// Stand-in for Supabase Auth in development: signs in any of DEV_USERS without a
+// password and keeps the user id in an HMAC-signed cookie.
+export class LocalAuthProvider implements AuthProvider {
+  constructor(private readonly secret: string) {}
+
+  async getUser() {
+    const token = (await cookies()).get(LOCAL_AUTH_COOKIE)?.value
+    const userId = token ? this.verify(token) : null
+    return DEV_USERS.find((user) => user.id === userId) ?? null
+  }
+
+  async signIn(email: string) {
+    const user = DEV_USERS.find((candidate) => candidate.email === email.toLowerCase())
+    if (!user) return null
+
+    const expiresAt = Date.now() + SESSION_TTL_MS
+    const cookieStore = await cookies()
+    cookieStore.set(LOCAL_AUTH_COOKIE, this.sign(`${user.id}.${expiresAt}`), {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      expires: new Date(expiresAt),
+    })
+    return user
+  }
+
+  async signOut() {
+    const cookieStore = await cookies()
+    cookieStore.delete(LOCAL_AUTH_COOKIE)
+  }
+
+  private sign(payload: string) {
+    return `${payload}.${createHmac("sha256", this.secret).update(payload).digest("base64url")}`
+  }
+
+  // The user id of a valid, unexpired token
+  private verify(token: string) {
+    const [userId, expiresAt, signature] = token.split(".")
+    if (!userId || !expiresAt || !signature) return null
+
+    const expected = Buffer.from(this.sign(`${userId}.${expiresAt}`))
+    const actual = Buffer.from(token)
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+
+    return Number(expiresAt) > Date.now() ? userId : null
+  }
+}
@@ -0,0 +1,53 @@
+import { LocalAuthProvider } from "./local-auth"
+import { SupabaseAuthProvider } from "./supabase-auth"
+import type { AuthProvider } from "./types"
+
+export type AuthBackend = "local" | "supabase"
+
+// Signs the local provider's cookies when AUTH_SECRET is not set; development only.
+// Production refuses to fall back to it or to the passwordless local provider.
+const DEV_AUTH_SECRET = "proctoring-dev-secret"
+
+declare global {
+  // Shared across route bundles, like the repository
+  var proctoringAuthProvider: AuthProvider | undefined
+}
+
+export function createAuthProvider(backend: AuthBackend): AuthProvider {
+  switch (backend) {
+    case "local":
+      return new LocalAuthProvider(getAuthSecret())
+    case "supabase":
+      return new SupabaseAuthProvider()
+    default:
+      throw new Error(`Unknown auth backend: ${backend}`)
+  }
+}
+
+// Also signs invitation links, so it is needed with either backend
+export function getAuthSecret() {
+  if (process.env.AUTH_SECRET) return process.env.AUTH_SECRET
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("AUTH_SECRET must be set in production")
+  }
+  return DEV_AUTH_SECRET
+}
+
+export function getAuthBackend(): AuthBackend {
+  const backend = process.env.AUTH_PROVIDER as AuthBackend | undefined
+  if (process.env.NODE_ENV === "production") {
+    if (!backend) throw new Error("AUTH_PROVIDER must be set in production")
+    // Signs anyone in as any development account, admin included, without a password
+    if (backend === "local") throw new Error("The local auth provider cannot be used in production")
+  }
+  return backend || "local"
+}
+
+// Backend is chosen with AUTH_PROVIDER (local | supabase), defaulting to the local dev stand-in
+export function getAuthProvider(): AuthProvider {
+  if (!globalThis.proctoringAuthProvider) {
+    globalThis.proctoringAuthProvider = createAuthProvider(getAuthBackend())
+  }
+
+  return globalThis.proctoringAuthProvider
+}
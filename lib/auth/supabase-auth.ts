@@ -0,0 +1,39 @@
+import { createClient } from "@/lib/supabase/server"
+import { userFromProfileRow, type ProfileRow } from "@/lib/domain"
+import type { AuthProvider } from "./types"
+
+// Supabase Auth, with the role and organization read from public.profiles
+// (scripts/007_add_auth.sql). The Supabase client keeps the session cookies.
+export class SupabaseAuthProvider implements AuthProvider {
+  async getUser() {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+    if (!user) return null
+
+    return this.loadProfile(user.id)
+  }
+
+  async signIn(email: string, password: string) {
+    const supabase = await createClient()
+    const { data, error } = await supabase.auth.signInWithPassword({ email, password })
+    if (error || !data.user) return null
+
+    return this.loadProfile(data.user.id)
+  }
+
+  async signOut() {
+    const supabase = await createClient()
+    await supabase.auth.signOut()
+  }
+
+  // Null when the user has no profile yet
+  private async loadProfile(userId: string) {
+    const supabase = await createClient()
+    const { data, error } = await supabase.from("profiles").select("*").eq("id", userId).maybeSingle()
+
+    if (error) throw error
+    return data ? userFromProfileRow(data as ProfileRow) : null
+  }
+}
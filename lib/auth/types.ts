@@ -0,0 +1,11 @@
+import type { AuthUser } from "@/lib/domain"
+
+// Identity backend used by the API routes. Sessions live in cookies, so every
+// method works on the cookies of the current request.
+export interface AuthProvider {
+  // Null when nobody is signed in or the session has expired
+  getUser(): Promise<AuthUser | null>
+  // Null when the credentials are rejected
+  signIn(email: string, password: string): Promise<AuthUser | null>
+  signOut(): Promise<void>
+}
@@ -0,0 +1,48 @@
+import path from "path"
+import { LocalBlobStore } from "./local-blob-store"
+import { S3BlobStore } from "./s3-blob-store"
+import type { BlobStore } from "./types"
+
+export type { BlobBody, BlobInfo, BlobStore, ByteRange } from "./types"
+
+export type BlobStorageBackend = "local" | "s3"
+
+declare global {
+  // Shared across route bundles, like the repository
+  var proctoringBlobStore: BlobStore | undefined
+}
+
+export function createBlobStore(backend: BlobStorageBackend): BlobStore {
+  switch (backend) {
+    case "local":
+      return new LocalBlobStore(process.env.BLOB_STORAGE_DIR || path.join(process.cwd(), ".data", "blobs"))
+    case "s3": {
+      const bucket = process.env.S3_BUCKET
+      if (!bucket) {
+        throw new Error("S3_BUCKET is required for the s3 blob storage backend")
+      }
+      return new S3BlobStore({
+        bucket,
+        prefix: process.env.S3_PREFIX,
+        client: {
+          region: process.env.S3_REGION || "us-east-1",
+          // Set for S3-compatible stores such as MinIO; credentials otherwise come from the AWS default chain
+          endpoint: process.env.S3_ENDPOINT || undefined,
+          forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+        },
+      })
+    }
+    default:
+      throw new Error(`Unknown blob storage backend: ${backend}`)
+  }
+}
+
+// Backend is chosen with BLOB_STORAGE (local | s3), defaulting to local disk
+export function getBlobStore(): BlobStore {
+  if (!globalThis.proctoringBlobStore) {
+    const backend = (process.env.BLOB_STORAGE || "local") as BlobStorageBackend
+    globalThis.proctoringBlobStore = createBlobStore(backend)
+  }
+
+  return globalThis.proctoringBlobStore
+}
@@ -0,0 +1,128 @@
+import { randomUUID } from "crypto"
+import { createReadStream, createWriteStream, promises as fs, type Dirent } from "fs"
+import path from "path"
+import { Readable } from "stream"
+import { finished } from "stream/promises"
+import type { BlobInfo, BlobStore, ByteRange } from "./types"
+
+// Stores blobs as files under a root directory. The content type is kept in a
+// sidecar file next to each blob.
+export class LocalBlobStore implements BlobStore {
+  constructor(private readonly rootDir: string) {}
+
+  private resolve(key: string) {
+    const filePath = path.resolve(this.rootDir, key)
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`)
+    }
+    return filePath
+  }
+
+  private async prepare(key: string, contentType: string) {
+    const filePath = this.resolve(key)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(`${filePath}.type`, contentType)
+    return filePath
+  }
+
+  // Unique per write, so two writes of one key never share a half-written file
+  private tempPath(filePath: string) {
+    return `${filePath}.${randomUUID()}.tmp`
+  }
+
+  async put(key: string, data: Uint8Array, contentType: string) {
+    const filePath = await this.prepare(key, contentType)
+    // Write then rename so a half-written chunk is never read back
+    const tempPath = this.tempPath(filePath)
+    await fs.writeFile(tempPath, data)
+    await fs.rename(tempPath, filePath)
+  }
+
+  async putStream(key: string, parts: AsyncIterable<Uint8Array>, contentType: string) {
+    const filePath = await this.prepare(key, contentType)
+    const tempPath = this.tempPath(filePath)
+    const output = createWriteStream(tempPath)
+    let size = 0
+
+    for await (const part of parts) {
+      size += part.byteLength
+      if (!output.write(part)) {
+        await new Promise<void>((resolve) => output.once("drain", () => resolve()))
+      }
+    }
+
+    output.end()
+    await finished(output)
+    await fs.rename(tempPath, filePath)
+    return size
+  }
+
+  async get(key: string) {
+    try {
+      return new Uint8Array(await fs.readFile(this.resolve(key)))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+      throw error
+    }
+  }
+
+  async getStream(key: string, range?: ByteRange) {
+    const info = await this.stat(key)
+    if (!info) return null
+
+    const stream = createReadStream(this.resolve(key), range ? { start: range.start, end: range.end } : undefined)
+    return { info, stream: Readable.toWeb(stream) as ReadableStream<Uint8Array> }
+  }
+
+  async stat(key: string): Promise<BlobInfo | null> {
+    const filePath = this.resolve(key)
+    try {
+      const [stats, contentType] = await Promise.all([
+        fs.stat(filePath),
+        fs.readFile(`${filePath}.type`, "utf8").catch(() => "application/octet-stream"),
+      ])
+      return { size: stats.size, contentType }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+      throw error
+    }
+  }
+
+  async list(prefix: string) {
+    const keys: string[] = []
+
+    const walk = async (dirKey: string) => {
+      let entries: Dirent[]
+      try {
+        entries = await fs.readdir(dirKey ? this.resolve(dirKey) : this.rootDir, { withFileTypes: true })
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return
+        throw error
+      }
+
+      for (const entry of entries) {
+        const key = dirKey ? `${dirKey}/${entry.name}` : entry.name
+        if (entry.isDirectory()) {
+          await walk(key)
+        } else if (!entry.name.endsWith(".type") && !entry.name.endsWith(".tmp")) {
+          keys.push(key)
+        }
+      }
+    }
+
+    // Start from the deepest directory the prefix names
+    await walk(prefix.slice(0, Math.max(0, prefix.lastIndexOf("/"))))
+    return keys.filter((key) => key.startsWith(prefix)).sort()
+  }
+
+  async totalSize(prefix: string) {
+    const keys = await this.list(prefix)
+    const sizes = await Promise.all(keys.map(async (key) => (await this.stat(key))?.size ?? 0))
+    return sizes.reduce((total, size) => total + size, 0)
+  }
+
+  async delete(key: string) {
+    const filePath = this.resolve(key)
+    await Promise.all([fs.rm(filePath, { force: true }), fs.rm(`${filePath}.type`, { force: true })])
+  }
+}
@@ -0,0 +1,133 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  NotFound,
+  PutObjectCommand,
+  S3Client,
+  type S3ClientConfig,
+} from "@aws-sdk/client-s3"
+import { Upload } from "@aws-sdk/lib-storage"
+import { Readable } from "stream"
+import type { BlobInfo, BlobStore, ByteRange } from "./types"
+
+export interface S3BlobStoreOptions {
+  bucket: string
+  // Prepended to every key, e.g. "proctoring/"
+  prefix?: string
+  client: S3ClientConfig
+}
+
+// S3 or any S3-compatible object store (MinIO, R2, ...)
+export class S3BlobStore implements BlobStore {
+  private readonly client: S3Client
+  private readonly bucket: string
+  private readonly prefix: string
+
+  constructor({ bucket, prefix = "", client }: S3BlobStoreOptions) {
+    this.client = new S3Client(client)
+    this.bucket = bucket
+    this.prefix = prefix
+  }
+
+  async put(key: string, data: Uint8Array, contentType: string) {
+    await this.client.send(
+      new PutObjectCommand({ Bucket: this.bucket, Key: this.prefix + key, Body: data, ContentType: contentType }),
+    )
+  }
+
+  // Multipart upload; lib-storage buffers the parts into 5 MB pieces as S3 requires
+  async putStream(key: string, parts: AsyncIterable<Uint8Array>, contentType: string) {
+    let size = 0
+    const counted = async function* () {
+      for await (const part of parts) {
+        size += part.byteLength
+        yield part
+      }
+    }
+
+    const upload = new Upload({
+      client: this.client,
+      params: { Bucket: this.bucket, Key: this.prefix + key, Body: Readable.from(counted()), ContentType: contentType },
+    })
+    await upload.done()
+
+    return size
+  }
+
+  async get(key: string) {
+    const body = await this.getStream(key)
+    if (!body) return null
+    return new Uint8Array(await new Response(body.stream).arrayBuffer())
+  }
+
+  async getStream(key: string, range?: ByteRange) {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({
+          Bucket: this.bucket,
+          Key: this.prefix + key,
+          Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+        }),
+      )
+      if (!response.Body) return null
+
+      // ContentLength is the length of the returned range; the full size is in ContentRange
+      const totalSize = response.ContentRange ? Number(response.ContentRange.split("/")[1]) : response.ContentLength
+      return {
+        info: { size: totalSize ?? 0, contentType: response.ContentType || "application/octet-stream" },
+        stream: response.Body.transformToWebStream() as ReadableStream<Uint8Array>,
+      }
+    } catch (error) {
+      if (error instanceof NoSuchKey) return null
+      throw error
+    }
+  }
+
+  async stat(key: string): Promise<BlobInfo | null> {
+    try {
+      const response = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: this.prefix + key }))
+      return { size: response.ContentLength ?? 0, contentType: response.ContentType || "application/octet-stream" }
+    } catch (error) {
+      if (error instanceof NotFound || error instanceof NoSuchKey) return null
+      throw error
+    }
+  }
+
+  async list(prefix: string) {
+    const objects = await this.listObjects(prefix)
+    return objects.map((object) => object.key).sort()
+  }
+
+  async totalSize(prefix: string) {
+    const objects = await this.listObjects(prefix)
+    return objects.reduce((total, object) => total + object.size, 0)
+  }
+
+  private async listObjects(prefix: string) {
+    const objects: { key: string; size: number }[] = []
+    let continuationToken: string | undefined
+
+    do {
+      const response = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: this.prefix + prefix,
+          ContinuationToken: continuationToken,
+        }),
+      )
+      for (const object of response.Contents || []) {
+        if (object.Key) objects.push({ key: object.Key.slice(this.prefix.length), size: object.Size ?? 0 })
+      }
+      continuationToken = response.NextContinuationToken
+    } while (continuationToken)
+
+    return objects
+  }
+
+  async delete(key: string) {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: this.prefix + key }))
+  }
+}
@@ -0,0 +1,31 @@
+export interface BlobInfo {
+  size: number
+  contentType: string
+}
+
+// Inclusive byte range, as in an HTTP Range header
+export interface ByteRange {
+  start: number
+  end: number
+}
+
+export interface BlobBody {
+  info: BlobInfo
+  stream: ReadableStream<Uint8Array>
+}
+
+// Binary storage for recordings and other large artifacts, kept out of the
+// repository. Keys are slash-separated paths such as "recordings/<id>/chunks/00001".
+export interface BlobStore {
+  put(key: string, data: Uint8Array, contentType: string): Promise<void>
+  // Writes a blob from parts produced in order, without holding it all in memory; returns its size
+  putStream(key: string, parts: AsyncIterable<Uint8Array>, contentType: string): Promise<number>
+  get(key: string): Promise<Uint8Array | null>
+  getStream(key: string, range?: ByteRange): Promise<BlobBody | null>
+  stat(key: string): Promise<BlobInfo | null>
+  // Keys under the prefix, in lexicographic order
+  list(prefix: string): Promise<string[]>
+  // Combined size in bytes of the blobs under the prefix
+  totalSize(prefix: string): Promise<number>
+  delete(key: string): Promise<void>
+}
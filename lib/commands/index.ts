@@ -0,0 +1,93 @@
+import type { ProctoringRepository } from "@/lib/repository"
+import {
+  PROCTOR_COMMAND_LABELS,
+  PROCTOR_COMMAND_SEVERITIES,
+  PROCTOR_COMMAND_STATUSES,
+  commandsFromEvents,
+  describeCommand,
+  type AuthUser,
+  type DetectionEvent,
+  type IssueCommandInput,
+  type ProctorCommand,
+  type ProctoringSession,
+} from "@/lib/domain"
+
+// Every command of the session with its acknowledgement, oldest first
+export async function listCommands(repository: ProctoringRepository, sessionId: string) {
+  const [issued, acknowledged] = await Promise.all([
+    repository.listEvents({ sessionId, type: "proctor_command" }),
+    repository.listEvents({ sessionId, type: "command_acknowledged" }),
+  ])
+  return commandsFromEvents([...issued.events, ...acknowledged.events])
+}
+
+// Records the command in the session's timeline and applies the status change it
+// stands for. The candidate's page learns of it through the live hub.
+export async function issueCommand(
+  repository: ProctoringRepository,
+  user: AuthUser,
+  session: ProctoringSession,
+  { type, text }: IssueCommandInput,
+  now = new Date(),
+): Promise<{ command: ProctorCommand; event: DetectionEvent; session: ProctoringSession }> {
+  const event = await repository.createEvent({
+    sessionId: session.id,
+    type: "proctor_command",
+    timestamp: now,
+    description: describeCommand(type, text),
+    severity: PROCTOR_COMMAND_SEVERITIES[type],
+    metadata: { command: type, text, issuedBy: user.id, issuedByName: user.name },
+  })
+
+  const status = PROCTOR_COMMAND_STATUSES[type]
+  let updated = session
+  if (status && status !== session.status) {
+    updated =
+      (await repository.updateSession(session.id, {
+        status,
+        ...(status === "terminated" && !session.endTime ? { endTime: now } : {}),
+      })) ?? session
+  }
+
+  const [command] = commandsFromEvents([event])
+  return { command, event, session: updated }
+}
+
+// Records that the candidate's page received the command. Acknowledging twice
+// returns the first acknowledgement. Null when the session has no such command.
+export async function acknowledgeCommand(
+  repository: ProctoringRepository,
+  session: ProctoringSession,
+  commandId: string,
+  now = new Date(),
+): Promise<{ command: ProctorCommand; event?: DetectionEvent } | null> {
+  const command = (await listCommands(repository, session.id)).find((candidate) => candidate.id === commandId)
+  if (!command) return null
+  if (command.acknowledgedAt) return { command }
+
+  const event = await repository.createEvent({
+    sessionId: session.id,
+    type: "command_acknowledged",
+    timestamp: now,
+    description: `Candidate acknowledged: ${PROCTOR_COMMAND_LABELS[command.type].toLowerCase()}`,
+    severity: "low",
+    metadata: { commandId, command: command.type },
+  })
+
+  return { command: { ...command, acknowledgedAt: now }, event }
+}
+
+// Whether the session is paused because a proctor paused it, in which case only a
+// proctor may resume it
+export async function isPausedByProctor(repository: ProctoringRepository, session: ProctoringSession) {
+  if (session.status !== "paused") return false
+  const last = (await listCommands(repository, session.id))
+    .filter((command) => command.type === "pause" || command.type === "resume")
+    .at(-1)
+  return last?.type === "pause"
+}
+
+// One Server-Sent Events frame of the candidate's command stream
+export function formatCommandSse(command: ProctorCommand) {
+  return `event: command\ndata: ${JSON.stringify(command)}\n\n`
+}
@@ -0,0 +1,122 @@
+import type { AttentionSettings } from "@/lib/domain"
+import type { DetectionResults, GazeDirection, HeadPose } from "./types"
+
+interface Range {
+  min: number
+  max: number
+}
+
+// Head pose and gaze extents observed while the candidate looked at the screen
+// corners. Anything inside them (plus the configured tolerance) is on-screen.
+export interface AttentionCalibration {
+  yaw: Range
+  pitch: Range
+  gazeX: Range
+  gazeY: Range
+}
+
+export interface AttentionSample {
+  headPose: HeadPose | null
+  gaze: GazeDirection | null
+}
+
+// A continuous stretch of looking away from the screen
+export interface OffScreenEpisode {
+  // Wall-clock times in milliseconds
+  startedAt: number
+  endedAt: number
+  durationMs: number
+  // Largest head rotation seen during the episode, in degrees
+  peakYaw: number
+  peakPitch: number
+}
+
+// Assumes the candidate sits centred in front of the screen
+export const DEFAULT_ATTENTION_CALIBRATION: AttentionCalibration = {
+  yaw: { min: 0, max: 0 },
+  pitch: { min: 0, max: 0 },
+  gazeX: { min: 0, max: 0 },
+  gazeY: { min: 0, max: 0 },
+}
+
+export function calibrationFromSamples(samples: AttentionSample[]): AttentionCalibration {
+  const poses = samples.flatMap((sample) => (sample.headPose ? [sample.headPose] : []))
+  const gazes = samples.flatMap((sample) => (sample.gaze ? [sample.gaze] : []))
+
+  if (poses.length === 0) {
+    throw new Error("No face was visible during calibration")
+  }
+
+  const range = (values: number[]): Range =>
+    values.length > 0 ? { min: Math.min(...values), max: Math.max(...values) } : { min: 0, max: 0 }
+
+  return {
+    yaw: range(poses.map((pose) => pose.yaw)),
+    pitch: range(poses.map((pose) => pose.pitch)),
+    gazeX: range(gazes.map((gaze) => gaze.x)),
+    gazeY: range(gazes.map((gaze) => gaze.y)),
+  }
+}
+
+// Null when the frame carries no head pose, i.e. no landmark detector ran or no face was found
+export function isLookingAway(
+  results: Pick<DetectionResults, "headPose" | "gaze">,
+  calibration: AttentionCalibration,
+  settings: AttentionSettings,
+): boolean | null {
+  const { headPose, gaze } = results
+  if (!headPose) return null
+
+  const outside = (value: number, { min, max }: Range, tolerance: number) =>
+    value < min - tolerance || value > max + tolerance
+
+  return (
+    outside(headPose.yaw, calibration.yaw, settings.maxYawDeg) ||
+    outside(headPose.pitch, calibration.pitch, settings.maxPitchDeg) ||
+    (gaze !== null &&
+      (outside(gaze.x, calibration.gazeX, settings.maxGazeOffset) ||
+        outside(gaze.y, calibration.gazeY, settings.maxGazeOffset)))
+  )
+}
+
+// Turns per-frame looking-away flags into off-screen episodes. An episode is
+// reported once attention returns, and only if it lasted at least dwellMs.
+export class AttentionTracker {
+  private episode: Omit<OffScreenEpisode, "endedAt" | "durationMs"> | null = null
+
+  constructor(private readonly dwellMs: number) {}
+
+  update(lookingAway: boolean, headPose: HeadPose | null, now = Date.now()): OffScreenEpisode | null {
+    if (lookingAway) {
+      if (!this.episode) {
+        this.episode = { startedAt: now, peakYaw: 0, peakPitch: 0 }
+      }
+      if (headPose) {
+        this.episode.peakYaw = Math.max(this.episode.peakYaw, Math.abs(headPose.yaw))
+        this.episode.peakPitch = Math.max(this.episode.peakPitch, Math.abs(headPose.pitch))
+      }
+      return null
+    }
+
+    return this.flush(now)
+  }
+
+  // Whether the current episode has already lasted longer than the dwell time
+  isDwelling(now = Date.now()) {
+    return this.episode !== null && now - this.episode.startedAt >= this.dwellMs
+  }
+
+  // Ends any open episode, e.g. when the session stops
+  flush(now = Date.now()): OffScreenEpisode | null {
+    const episode = this.episode
+    this.episode = null
+
+    if (!episode || now - episode.startedAt < this.dwellMs) return null
+
+    return { ...episode, endedAt: now, durationMs: now - episode.startedAt }
+  }
+
+  reset() {
+    this.episode = null
+  }
+}
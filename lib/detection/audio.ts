@@ -0,0 +1,329 @@
+import { AUDIO_LEVEL_FLOOR_DB, type AudioSettings } from "@/lib/domain"
+
+export type AudioEpisodeType = "speech_detected" | "multiple_speakers" | "background_noise"
+
+export type AudioFrameClass = "speech" | "noise" | "silence"
+
+// Features of one analysis frame of the microphone signal
+export interface AudioFrame {
+  // RMS level in dBFS
+  levelDb: number
+  // Share of the signal's power in the voice band (300-3400 Hz)
+  voiceBandRatio: number
+  // Fundamental frequency of voiced sound; null when the frame is unvoiced
+  pitchHz: number | null
+}
+
+// A stretch of sustained speech, several voices or loud noise
+export interface AudioEpisode {
+  type: AudioEpisodeType
+  // Wall-clock times in milliseconds
+  startedAt: number
+  endedAt: number
+  durationMs: number
+  // Share of the episode's frames that matched, or how clearly the voices separate
+  confidence: number
+  peakDb: number
+  // Pitch of each voice told apart, for multiple_speakers
+  pitchesHz?: number[]
+}
+
+// The microphone level over one second
+export interface AudioLevel {
+  // Wall-clock start of the second, in milliseconds
+  timestamp: number
+  levelDb: number
+  peakDb: number
+  speechRatio: number
+}
+
+// Pauses between words shorter than this do not end a speech episode
+const SPEECH_HANGOVER_MS = 500
+const NOISE_HANGOVER_MS = 300
+const MIN_VOICE_BAND_RATIO = 0.5
+// Each voice must account for this share of the voiced frames, with this much
+// pitch between the closest frames of the two, to count as a second speaker
+const MIN_SPEAKER_SHARE = 0.25
+const MIN_SPEAKER_SEPARATION_HZ = 15
+const MIN_PITCHED_FRAMES = 10
+
+interface OpenEpisode {
+  startedAt: number
+  lastSeenAt: number
+  frames: number
+  matched: number
+  peakDb: number
+  pitches: number[]
+}
+
+// Classifies analysis frames into speech, noise and silence and turns runs of
+// them into episodes. Independent of Web Audio so it can be fed any features.
+export class VoiceActivityDetector {
+  private speech: OpenEpisode | null = null
+  private noise: OpenEpisode | null = null
+
+  constructor(private readonly settings: AudioSettings) {}
+
+  classify(frame: AudioFrame): AudioFrameClass {
+    if (
+      frame.levelDb >= this.settings.speechThresholdDb &&
+      frame.pitchHz !== null &&
+      frame.voiceBandRatio >= MIN_VOICE_BAND_RATIO
+    ) {
+      return "speech"
+    }
+    return frame.levelDb >= this.settings.noiseThresholdDb ? "noise" : "silence"
+  }
+
+  // Episodes that ended with this frame
+  update(frame: AudioFrame, now = Date.now()): AudioEpisode[] {
+    const frameClass = this.classify(frame)
+    const ended: AudioEpisode[] = []
+
+    this.speech = this.track(this.speech, frameClass === "speech", frame, now)
+    if (this.speech && now - this.speech.lastSeenAt > SPEECH_HANGOVER_MS) {
+      ended.push(...this.endSpeech(this.speech))
+      this.speech = null
+    }
+
+    this.noise = this.track(this.noise, frameClass === "noise", frame, now)
+    if (this.noise && now - this.noise.lastSeenAt > NOISE_HANGOVER_MS) {
+      ended.push(...this.endNoise(this.noise))
+      this.noise = null
+    }
+
+    return ended
+  }
+
+  // Ends the episodes in progress, e.g. when the session stops
+  flush(): AudioEpisode[] {
+    const ended = [...(this.speech ? this.endSpeech(this.speech) : []), ...(this.noise ? this.endNoise(this.noise) : [])]
+    this.speech = null
+    this.noise = null
+    return ended
+  }
+
+  private track(episode: OpenEpisode | null, matches: boolean, frame: AudioFrame, now: number) {
+    if (!episode && !matches) return null
+
+    const open = episode ?? { startedAt: now, lastSeenAt: now, frames: 0, matched: 0, peakDb: AUDIO_LEVEL_FLOOR_DB, pitches: [] }
+    open.frames++
+    if (matches) {
+      open.matched++
+      open.lastSeenAt = now
+      open.peakDb = Math.max(open.peakDb, frame.levelDb)
+      if (frame.pitchHz !== null) open.pitches.push(frame.pitchHz)
+    }
+    return open
+  }
+
+  private endSpeech(episode: OpenEpisode): AudioEpisode[] {
+    const durationMs = episode.lastSeenAt - episode.startedAt
+    if (durationMs < this.settings.minSpeechMs) return []
+
+    const base = {
+      startedAt: episode.startedAt,
+      endedAt: episode.lastSeenAt,
+      durationMs,
+      peakDb: episode.peakDb,
+    }
+    const ended: AudioEpisode[] = [{ ...base, type: "speech_detected", confidence: episode.matched / episode.frames }]
+
+    const speakers = splitSpeakers(episode.pitches, this.settings.speakerPitchGapHz)
+    if (speakers) ended.push({ ...base, type: "multiple_speakers", ...speakers })
+    return ended
+  }
+
+  private endNoise(episode: OpenEpisode): AudioEpisode[] {
+    const durationMs = episode.lastSeenAt - episode.startedAt
+    if (durationMs < this.settings.minNoiseMs) return []
+
+    return [
+      {
+        type: "background_noise",
+        startedAt: episode.startedAt,
+        endedAt: episode.lastSeenAt,
+        durationMs,
+        confidence: episode.matched / episode.frames,
+        peakDb: episode.peakDb,
+      },
+    ]
+  }
+}
+
+// Splits the pitches heard during an episode into a low and a high voice at the
+// widest gap. One voice's intonation rarely spans the gap between two speakers'
+// typical pitches, so two well-populated clusters far enough apart suggest two
+// people. A heuristic: similar voices are not told apart.
+function splitSpeakers(pitches: number[], minGapHz: number) {
+  if (pitches.length < MIN_PITCHED_FRAMES) return null
+
+  const sorted = [...pitches].sort((a, b) => a - b)
+  const minShare = Math.ceil(sorted.length * MIN_SPEAKER_SHARE)
+
+  let split = -1
+  let widest = 0
+  for (let index = minShare; index <= sorted.length - minShare; index++) {
+    const gap = sorted[index] - sorted[index - 1]
+    if (gap > widest) {
+      widest = gap
+      split = index
+    }
+  }
+  if (split === -1 || widest < MIN_SPEAKER_SEPARATION_HZ) return null
+
+  const low = median(sorted.slice(0, split))
+  const high = median(sorted.slice(split))
+  if (high - low < minGapHz) return null
+
+  const minority = Math.min(split, sorted.length - split) / sorted.length
+  return { pitchesHz: [Math.round(low), Math.round(high)], confidence: Math.min(1, minority * 2) }
+}
+
+function median(sorted: number[]) {
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+export interface AudioActivityHandlers {
+  // Called when an episode ends, or when monitoring stops during one
+  onEpisode: (episode: AudioEpisode) => void
+  onLevel: (level: AudioLevel) => void
+}
+
+const FRAME_INTERVAL_MS = 50
+const LEVEL_INTERVAL_MS = 1000
+const FFT_SIZE = 2048
+const VOICE_BAND_HZ = [300, 3400]
+const SIGNAL_BAND_HZ = [50, 8000]
+const PITCH_RANGE_HZ = [80, 400]
+// Autocorrelation peak, relative to the signal's energy, above which a frame is voiced
+const MIN_VOICING = 0.5
+
+// Runs the voice activity detector on a microphone stream with the Web Audio API,
+// entirely in the browser, and reports the level once a second
+export class AudioActivityMonitor {
+  private context: AudioContext | null = null
+  private interval: ReturnType<typeof setInterval> | null = null
+  private detector: VoiceActivityDetector
+  private level = { startedAt: 0, power: 0, frames: 0, speechFrames: 0, peakDb: AUDIO_LEVEL_FLOOR_DB }
+
+  constructor(
+    private readonly stream: MediaStream,
+    private readonly settings: AudioSettings,
+    private readonly handlers: AudioActivityHandlers,
+  ) {
+    this.detector = new VoiceActivityDetector(settings)
+  }
+
+  start() {
+    if (this.context) return
+
+    const context = new AudioContext()
+    const analyser = context.createAnalyser()
+    analyser.fftSize = FFT_SIZE
+    analyser.smoothingTimeConstant = 0
+    // Analysed only; never connected to the speakers
+    context.createMediaStreamSource(this.stream).connect(analyser)
+    // Contexts created outside a user gesture start suspended
+    context.resume().catch(() => {})
+
+    const samples = new Float32Array(analyser.fftSize)
+    const spectrum = new Float32Array(analyser.frequencyBinCount)
+    this.level.startedAt = Date.now()
+    this.interval = setInterval(() => {
+      analyser.getFloatTimeDomainData(samples)
+      analyser.getFloatFrequencyData(spectrum)
+      this.analyse(samples, spectrum, context.sampleRate)
+    }, FRAME_INTERVAL_MS)
+    this.context = context
+  }
+
+  // Ends the episodes in progress and releases the audio context
+  stop() {
+    if (!this.context) return
+
+    if (this.interval) clearInterval(this.interval)
+    this.interval = null
+    this.detector.flush().forEach(this.handlers.onEpisode)
+    this.context.close().catch(() => {})
+    this.context = null
+  }
+
+  private analyse(samples: Float32Array, spectrum: Float32Array, sampleRate: number, now = Date.now()) {
+    const meanSquare = samples.reduce((total, sample) => total + sample * sample, 0) / samples.length
+    const levelDb = toDb(meanSquare)
+    const frame: AudioFrame = {
+      levelDb,
+      voiceBandRatio: voiceBandRatio(spectrum, sampleRate),
+      // Only worth estimating for frames loud enough to be speech
+      pitchHz: levelDb >= this.settings.speechThresholdDb ? estimatePitch(samples, sampleRate) : null,
+    }
+
+    this.detector.update(frame, now).forEach(this.handlers.onEpisode)
+
+    this.level.power += meanSquare
+    this.level.frames++
+    this.level.peakDb = Math.max(this.level.peakDb, levelDb)
+    if (this.detector.classify(frame) === "speech") this.level.speechFrames++
+
+    if (now - this.level.startedAt >= LEVEL_INTERVAL_MS) {
+      this.handlers.onLevel({
+        timestamp: this.level.startedAt,
+        levelDb: toDb(this.level.power / this.level.frames),
+        peakDb: this.level.peakDb,
+        speechRatio: this.level.speechFrames / this.level.frames,
+      })
+      this.level = { startedAt: now, power: 0, frames: 0, speechFrames: 0, peakDb: AUDIO_LEVEL_FLOOR_DB }
+    }
+  }
+}
+
+function toDb(meanSquare: number) {
+  return meanSquare > 0 ? Math.max(AUDIO_LEVEL_FLOOR_DB, Math.min(0, 10 * Math.log10(meanSquare))) : AUDIO_LEVEL_FLOOR_DB
+}
+
+// Spectrum bins are in dB; power is summed over the bins of each band
+function voiceBandRatio(spectrum: Float32Array, sampleRate: number) {
+  const binHz = sampleRate / (spectrum.length * 2)
+  let voice = 0
+  let total = 0
+  for (let bin = 0; bin < spectrum.length; bin++) {
+    const frequency = bin * binHz
+    if (frequency < SIGNAL_BAND_HZ[0] || frequency > SIGNAL_BAND_HZ[1]) continue
+    const power = Math.pow(10, spectrum[bin] / 10)
+    total += power
+    if (frequency >= VOICE_BAND_HZ[0] && frequency <= VOICE_BAND_HZ[1]) voice += power
+  }
+  return total > 0 ? voice / total : 0
+}
+
+// Autocorrelation pitch estimate over every other sample, which is plenty for
+// voices and halves the work
+function estimatePitch(samples: Float32Array, sampleRate: number) {
+  const rate = sampleRate / 2
+  const length = Math.floor(samples.length / 2)
+  const signal = new Float32Array(length)
+  for (let index = 0; index < length; index++) signal[index] = samples[index * 2]
+
+  const minLag = Math.floor(rate / PITCH_RANGE_HZ[1])
+  const maxLag = Math.min(Math.ceil(rate / PITCH_RANGE_HZ[0]), length - 1)
+  const window = length - maxLag
+
+  let energy = 0
+  for (let index = 0; index < window; index++) energy += signal[index] * signal[index]
+  if (energy === 0) return null
+
+  let bestLag = -1
+  let bestCorrelation = 0
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let correlation = 0
+    for (let index = 0; index < window; index++) correlation += signal[index] * signal[index + lag]
+    if (correlation > bestCorrelation) {
+      bestCorrelation = correlation
+      bestLag = lag
+    }
+  }
+
+  return bestLag > 0 && bestCorrelation / energy >= MIN_VOICING ? rate / bestLag : null
+}
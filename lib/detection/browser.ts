@@ -0,0 +1,116 @@
+import type { BrowserSettings } from "@/lib/domain"
+
+export type BrowserEpisodeType = "tab_hidden" | "window_blur" | "fullscreen_exit" | "devtools_open"
+
+export type ClipboardAction = "copy" | "cut" | "paste" | "contextmenu"
+
+// A stretch of time the exam page was hidden, out of focus, out of fullscreen or
+// had developer tools open
+export interface BrowserEpisode {
+  type: BrowserEpisodeType
+  // Wall-clock times in milliseconds
+  startedAt: number
+  endedAt: number
+  durationMs: number
+}
+
+export interface BrowserActivityHandlers {
+  // Called when an episode ends, or when monitoring stops during one
+  onEpisode: (episode: BrowserEpisode) => void
+  onClipboard: (action: ClipboardAction) => void
+}
+
+const DEVTOOLS_POLL_MS = 1000
+
+const CLIPBOARD_ACTIONS: ClipboardAction[] = ["copy", "cut", "paste", "contextmenu"]
+
+// Watches the page for what the camera cannot see: switching tabs, focusing another
+// window, leaving fullscreen (only when the exam requires it), clipboard use and
+// docked developer tools. Undocked developer tools cannot be told apart from another
+// window and only show as window_blur.
+export class BrowserActivityMonitor {
+  private openSince = new Map<BrowserEpisodeType, number>()
+  private detach: (() => void) | null = null
+
+  constructor(
+    private readonly settings: BrowserSettings,
+    private readonly handlers: BrowserActivityHandlers,
+  ) {}
+
+  start() {
+    if (this.detach) return
+
+    const handleVisibility = () => {
+      if (document.hidden) {
+        // Switching tabs also blurs the window; that time counts as tab_hidden only
+        this.openSince.delete("window_blur")
+        this.open("tab_hidden")
+      } else {
+        this.close("tab_hidden")
+      }
+    }
+    const handleBlur = () => {
+      if (!document.hidden) this.open("window_blur")
+    }
+    const handleFocus = () => this.close("window_blur")
+    const handleFullscreen = () => {
+      if (document.fullscreenElement) {
+        this.close("fullscreen_exit")
+      } else {
+        this.open("fullscreen_exit")
+      }
+    }
+    const handleClipboard = (event: Event) => this.handlers.onClipboard(event.type as ClipboardAction)
+
+    document.addEventListener("visibilitychange", handleVisibility)
+    window.addEventListener("blur", handleBlur)
+    window.addEventListener("focus", handleFocus)
+    if (this.settings.requireFullscreen) {
+      document.addEventListener("fullscreenchange", handleFullscreen)
+      if (!document.fullscreenElement) this.open("fullscreen_exit")
+    }
+    CLIPBOARD_ACTIONS.forEach((action) => document.addEventListener(action, handleClipboard))
+    const devtoolsInterval = setInterval(() => this.checkDevtools(), DEVTOOLS_POLL_MS)
+
+    this.detach = () => {
+      document.removeEventListener("visibilitychange", handleVisibility)
+      window.removeEventListener("blur", handleBlur)
+      window.removeEventListener("focus", handleFocus)
+      document.removeEventListener("fullscreenchange", handleFullscreen)
+      CLIPBOARD_ACTIONS.forEach((action) => document.removeEventListener(action, handleClipboard))
+      clearInterval(devtoolsInterval)
+    }
+  }
+
+  // Ends the episodes in progress and stops listening
+  stop(now = Date.now()) {
+    for (const type of [...this.openSince.keys()]) this.close(type, now)
+    this.detach?.()
+    this.detach = null
+  }
+
+  // Docked developer tools take room from the page without shrinking the window
+  private checkDevtools() {
+    const gap = Math.max(window.outerWidth - window.innerWidth, window.outerHeight - window.innerHeight)
+    if (gap > this.settings.devtoolsGapPx) {
+      this.open("devtools_open")
+    } else {
+      this.close("devtools_open")
+    }
+  }
+
+  private open(type: BrowserEpisodeType, now = Date.now()) {
+    if (!this.openSince.has(type)) this.openSince.set(type, now)
+  }
+
+  private close(type: BrowserEpisodeType, now = Date.now()) {
+    const startedAt = this.openSince.get(type)
+    if (startedAt === undefined) return
+    this.openSince.delete(type)
+
+    const durationMs = now - startedAt
+    if (durationMs >= this.settings.minEpisodeMs) {
+      this.handlers.onEpisode({ type, startedAt, endedAt: now, durationMs })
+    }
+  }
+}
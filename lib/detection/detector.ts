@@ -0,0 +1,48 @@
+import type { DetectionResults } from "./types"
+
+export type DetectorCapability = "faces" | "objects" | "eyes" | "gaze"
+
+export interface DetectionFrame {
+  // Hidden canvas holding the current video frame
+  canvas: HTMLCanvasElement
+  // Monotonic timestamp in milliseconds (performance.now())
+  timestamp: number
+}
+
+// A pluggable CV backend. Each detector fills in the parts of DetectionResults
+// matching its capabilities; CVDetection merges the output of all of them.
+export interface Detector {
+  readonly id: string
+  readonly capabilities: DetectorCapability[]
+  // How often detect() should run; detectors without one run once per second
+  readonly intervalMs?: number
+  load(): Promise<void>
+  detect(frame: DetectionFrame): Partial<DetectionResults> | Promise<Partial<DetectionResults>>
+  dispose(): void
+}
+
+export const EMPTY_DETECTION_RESULTS: DetectionResults = {
+  faces: [],
+  objects: [],
+  eyesClosed: false,
+  lookingAway: false,
+  multipleFaces: false,
+  headPose: null,
+  gaze: null,
+  eyeAspectRatio: null,
+}
+
+export function mergeDetectionResults(partials: Partial<DetectionResults>[]): DetectionResults {
+  const faces = partials.flatMap((partial) => partial.faces || [])
+
+  return {
+    faces,
+    objects: partials.flatMap((partial) => partial.objects || []),
+    eyesClosed: partials.some((partial) => partial.eyesClosed),
+    lookingAway: partials.some((partial) => partial.lookingAway),
+    multipleFaces: faces.length > 1,
+    headPose: partials.find((partial) => partial.headPose)?.headPose ?? null,
+    gaze: partials.find((partial) => partial.gaze)?.gaze ?? null,
+    eyeAspectRatio: partials.find((partial) => typeof partial.eyeAspectRatio === "number")?.eyeAspectRatio ?? null,
+  }
+}
@@ -0,0 +1,56 @@
+import type { FaceDetector } from "@mediapipe/tasks-vision"
+import type { DetectionFrame, Detector, DetectorCapability } from "../detector"
+import { loadVisionFileset, MODEL_FILES } from "../models"
+import type { FaceDetection } from "../types"
+
+// BlazeFace short-range model via MediaPipe Tasks. Landmarks are returned in
+// pixels in the order right eye, left eye, nose tip, mouth, right ear, left ear.
+export class MediaPipeFaceDetector implements Detector {
+  readonly id = "mediapipe-face"
+  readonly capabilities: DetectorCapability[] = ["faces"]
+  private detector: FaceDetector | null = null
+
+  constructor(private readonly minConfidence = 0.5) {}
+
+  async load() {
+    if (this.detector) return
+
+    const { FaceDetector } = await import("@mediapipe/tasks-vision")
+    const fileset = await loadVisionFileset()
+
+    this.detector = await FaceDetector.createFromOptions(fileset, {
+      baseOptions: { modelAssetPath: MODEL_FILES.faceDetector, delegate: "CPU" },
+      runningMode: "VIDEO",
+      minDetectionConfidence: this.minConfidence,
+    })
+  }
+
+  detect({ canvas, timestamp }: DetectionFrame) {
+    if (!this.detector) {
+      throw new Error("Face detector used before load()")
+    }
+
+    const { detections } = this.detector.detectForVideo(canvas, timestamp)
+
+    const faces: FaceDetection[] = detections
+      .filter((detection) => detection.boundingBox)
+      .map((detection) => {
+        const box = detection.boundingBox!
+        return {
+          box: { x: box.originX, y: box.originY, width: box.width, height: box.height },
+          confidence: detection.categories[0]?.score ?? 0,
+          landmarks: detection.keypoints.map((point) => ({
+            x: point.x * canvas.width,
+            y: point.y * canvas.height,
+          })),
+        }
+      })
+
+    return { faces }
+  }
+
+  dispose() {
+    this.detector?.close()
+    this.detector = null
+  }
+}
@@ -0,0 +1,114 @@
+import type { FaceLandmarker, Matrix, NormalizedLandmark } from "@mediapipe/tasks-vision"
+import type { DetectionFrame, Detector, DetectorCapability } from "../detector"
+import { loadVisionFileset, MODEL_FILES } from "../models"
+import type { GazeDirection, HeadPose } from "../types"
+
+// Indices into the 478-point face mesh (with iris refinement). upper/lower are
+// the two lid point pairs used for the eye aspect ratio.
+const RIGHT_EYE = { outer: 33, inner: 133, top: 159, bottom: 145, iris: 468, upper: [160, 158], lower: [144, 153] }
+const LEFT_EYE = { outer: 263, inner: 362, top: 386, bottom: 374, iris: 473, upper: [385, 387], lower: [380, 373] }
+
+type EyeIndices = typeof RIGHT_EYE
+
+// MediaPipe Face Landmarker. Estimates head pose from the facial transformation
+// matrix, gaze from the iris position within each eye and eye openness from the
+// eye aspect ratio. Runs several times a second so blinks are not missed.
+export class MediaPipeLandmarkDetector implements Detector {
+  readonly id = "mediapipe-landmarks"
+  readonly capabilities: DetectorCapability[] = ["gaze", "eyes"]
+  private landmarker: FaceLandmarker | null = null
+
+  constructor(
+    private readonly minConfidence = 0.5,
+    readonly intervalMs = 100,
+  ) {}
+
+  async load() {
+    if (this.landmarker) return
+
+    const { FaceLandmarker } = await import("@mediapipe/tasks-vision")
+    const fileset = await loadVisionFileset()
+
+    this.landmarker = await FaceLandmarker.createFromOptions(fileset, {
+      baseOptions: { modelAssetPath: MODEL_FILES.faceLandmarker, delegate: "CPU" },
+      runningMode: "VIDEO",
+      numFaces: 1,
+      minFaceDetectionConfidence: this.minConfidence,
+      outputFacialTransformationMatrixes: true,
+    })
+  }
+
+  detect({ canvas, timestamp }: DetectionFrame) {
+    if (!this.landmarker) {
+      throw new Error("Face landmarker used before load()")
+    }
+
+    const result = this.landmarker.detectForVideo(canvas, timestamp)
+    const landmarks = result.faceLandmarks[0]
+    const matrix = result.facialTransformationMatrixes?.[0]
+
+    return {
+      headPose: matrix ? headPoseFromMatrix(matrix) : null,
+      gaze: landmarks ? gazeFromLandmarks(landmarks) : null,
+      eyeAspectRatio: landmarks ? eyeAspectRatio(landmarks, canvas.width, canvas.height) : null,
+    }
+  }
+
+  dispose() {
+    this.landmarker?.close()
+    this.landmarker = null
+  }
+}
+
+// Euler angles of the rotation part of a column-major 4x4 transform
+function headPoseFromMatrix({ data }: Matrix): HeadPose {
+  const r = (row: number, column: number) => data[column * 4 + row]
+  const toDegrees = (radians: number) => (radians * 180) / Math.PI
+
+  return {
+    yaw: toDegrees(Math.asin(Math.max(-1, Math.min(1, -r(2, 0))))),
+    pitch: toDegrees(Math.atan2(r(2, 1), r(2, 2))),
+    roll: toDegrees(Math.atan2(r(1, 0), r(0, 0))),
+  }
+}
+
+function gazeFromLandmarks(landmarks: NormalizedLandmark[]): GazeDirection | null {
+  if (landmarks.length <= LEFT_EYE.iris) return null
+
+  const right = irisOffset(landmarks, RIGHT_EYE)
+  const left = irisOffset(landmarks, LEFT_EYE)
+
+  return { x: (right.x + left.x) / 2, y: (right.y + left.y) / 2 }
+}
+
+// Iris centre relative to the eye centre, scaled by half the eye width so the
+// result does not depend on the distance from the camera
+function irisOffset(landmarks: NormalizedLandmark[], eye: EyeIndices): GazeDirection {
+  const outer = landmarks[eye.outer]
+  const inner = landmarks[eye.inner]
+  const iris = landmarks[eye.iris]
+
+  const halfWidth = Math.hypot(inner.x - outer.x, inner.y - outer.y) / 2 || 1
+  const centerX = (outer.x + inner.x) / 2
+  const centerY = (landmarks[eye.top].y + landmarks[eye.bottom].y) / 2
+
+  return {
+    x: (iris.x - centerX) / halfWidth,
+    y: (iris.y - centerY) / halfWidth,
+  }
+}
+
+// Soukupová & Čech: (|p2-p6| + |p3-p5|) / (2 |p1-p4|), averaged over both eyes.
+// Landmarks are scaled to pixels first since normalized x and y differ in scale.
+function eyeAspectRatio(landmarks: NormalizedLandmark[], width: number, height: number) {
+  const distance = (a: number, b: number) =>
+    Math.hypot((landmarks[a].x - landmarks[b].x) * width, (landmarks[a].y - landmarks[b].y) * height)
+
+  const ratio = (eye: EyeIndices) => {
+    const horizontal = distance(eye.outer, eye.inner)
+    if (horizontal === 0) return 0
+    return (distance(eye.upper[0], eye.lower[0]) + distance(eye.upper[1], eye.lower[1])) / (2 * horizontal)
+  }
+
+  return (ratio(RIGHT_EYE) + ratio(LEFT_EYE)) / 2
+}
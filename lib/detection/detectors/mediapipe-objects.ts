@@ -0,0 +1,58 @@
+import type { ObjectDetector } from "@mediapipe/tasks-vision"
+import type { DetectionFrame, Detector, DetectorCapability } from "../detector"
+import { loadVisionFileset, MODEL_FILES } from "../models"
+import type { ObjectDetection } from "../types"
+
+// EfficientDet-Lite0 trained on COCO via MediaPipe Tasks. Reports every class
+// above a low threshold; the exam's object policy decides what matters.
+export class MediaPipeObjectDetector implements Detector {
+  readonly id = "mediapipe-objects"
+  readonly capabilities: DetectorCapability[] = ["objects"]
+  private detector: ObjectDetector | null = null
+
+  constructor(
+    private readonly minConfidence = 0.3,
+    private readonly maxResults = 10,
+  ) {}
+
+  async load() {
+    if (this.detector) return
+
+    const { ObjectDetector } = await import("@mediapipe/tasks-vision")
+    const fileset = await loadVisionFileset()
+
+    this.detector = await ObjectDetector.createFromOptions(fileset, {
+      baseOptions: { modelAssetPath: MODEL_FILES.objectDetector, delegate: "CPU" },
+      runningMode: "VIDEO",
+      scoreThreshold: this.minConfidence,
+      maxResults: this.maxResults,
+    })
+  }
+
+  detect({ canvas, timestamp }: DetectionFrame) {
+    if (!this.detector) {
+      throw new Error("Object detector used before load()")
+    }
+
+    const { detections } = this.detector.detectForVideo(canvas, timestamp)
+
+    const objects: ObjectDetection[] = detections
+      .filter((detection) => detection.boundingBox && detection.categories.length > 0)
+      .map((detection) => {
+        const box = detection.boundingBox!
+        const category = detection.categories[0]
+        return {
+          class: category.categoryName,
+          confidence: category.score,
+          box: { x: box.originX, y: box.originY, width: box.width, height: box.height },
+        }
+      })
+
+    return { objects }
+  }
+
+  dispose() {
+    this.detector?.close()
+    this.detector = null
+  }
+}
@@ -0,0 +1,128 @@
+import type { DetectionFrame, Detector, DetectorCapability } from "../detector"
+import type { DetectionResults, FaceDetection, ObjectDetection } from "../types"
+
+export interface SimulatedDetectorOptions {
+  // Seed for a reproducible sequence of results; Math.random is used when omitted
+  seed?: number
+  // Restrict the simulated output, e.g. to fake only what no real model covers yet
+  capabilities?: DetectorCapability[]
+}
+
+// Random detections for demos and tests. With a seed the output is deterministic.
+export class SimulatedDetector implements Detector {
+  readonly id = "simulated"
+  readonly capabilities: DetectorCapability[]
+  private readonly random: () => number
+
+  constructor({ seed, capabilities = ["faces", "objects", "eyes", "gaze"] }: SimulatedDetectorOptions = {}) {
+    this.capabilities = capabilities
+    this.random = seed === undefined ? Math.random : mulberry32(seed)
+  }
+
+  async load() {}
+
+  detect(_frame: DetectionFrame) {
+    const results: Partial<DetectionResults> = {}
+
+    if (this.capabilities.includes("faces")) results.faces = this.generateFaces()
+    if (this.capabilities.includes("objects")) results.objects = this.generateObjects()
+    if (this.capabilities.includes("eyes")) {
+      // 10% chance of eyes being closed
+      results.eyeAspectRatio = this.random() < 0.1 ? 0.05 + this.random() * 0.1 : 0.25 + this.random() * 0.1
+    }
+    if (this.capabilities.includes("gaze")) Object.assign(results, this.generateGaze())
+
+    return results
+  }
+
+  dispose() {}
+
+  private generateFaces(): FaceDetection[] {
+    const faceCount = this.random() < 0.9 ? 1 : this.random() < 0.95 ? 0 : 2
+    const faces: FaceDetection[] = []
+
+    for (let i = 0; i < faceCount; i++) {
+      faces.push({
+        box: {
+          x: 100 + i * 200,
+          y: 100,
+          width: 150,
+          height: 200,
+        },
+        confidence: 0.85 + this.random() * 0.1,
+        landmarks: [
+          { x: 150 + i * 200, y: 150 }, // Left eye
+          { x: 200 + i * 200, y: 150 }, // Right eye
+          { x: 175 + i * 200, y: 180 }, // Nose
+          { x: 175 + i * 200, y: 220 }, // Mouth
+        ],
+      })
+    }
+
+    return faces
+  }
+
+  // Mostly facing the screen, with a 15% chance of turning well away from it
+  private generateGaze(): Pick<DetectionResults, "headPose" | "gaze"> {
+    const lookingAway = this.random() < 0.15
+    const spread = lookingAway ? 60 : 10
+    const sign = this.random() < 0.5 ? -1 : 1
+
+    return {
+      headPose: {
+        yaw: lookingAway ? sign * (30 + this.random() * 30) : (this.random() - 0.5) * spread,
+        pitch: (this.random() - 0.5) * spread * 0.5,
+        roll: (this.random() - 0.5) * 10,
+      },
+      gaze: {
+        x: (this.random() - 0.5) * 0.4,
+        y: (this.random() - 0.5) * 0.4,
+      },
+    }
+  }
+
+  private generateObjects(): ObjectDetection[] {
+    const objects: ObjectDetection[] = []
+
+    if (this.random() < 0.05) {
+      // 5% chance of phone
+      objects.push({
+        class: "cell phone",
+        confidence: 0.8,
+        box: { x: 300, y: 200, width: 60, height: 120 },
+      })
+    }
+
+    if (this.random() < 0.03) {
+      // 3% chance of book/notes
+      objects.push({
+        class: "book",
+        confidence: 0.75,
+        box: { x: 50, y: 300, width: 100, height: 150 },
+      })
+    }
+
+    if (this.random() < 0.02) {
+      // 2% chance of laptop
+      objects.push({
+        class: "laptop",
+        confidence: 0.9,
+        box: { x: 400, y: 250, width: 200, height: 150 },
+      })
+    }
+
+    return objects
+  }
+}
+
+// Small seeded PRNG (mulberry32)
+function mulberry32(seed: number) {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
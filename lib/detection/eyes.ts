@@ -0,0 +1,74 @@
+import type { EyeSettings } from "@/lib/domain"
+
+// A closure long enough to count as the eyes being closed rather than a blink
+export interface EyeClosure {
+  // Wall-clock times in milliseconds
+  startedAt: number
+  endedAt: number
+  durationMs: number
+  minEyeAspectRatio: number
+  // Blinks per minute over the preceding window, at the time the closure ended
+  blinkRate: number
+}
+
+const BLINK_RATE_WINDOW_MS = 60_000
+
+// Classifies eye aspect ratio samples into blinks and sustained closures and
+// keeps a rolling blink rate. Needs samples several times a second to see blinks.
+export class EyeTracker {
+  private closedSince: number | null = null
+  private minEyeAspectRatio = Infinity
+  private blinks: number[] = []
+  private readonly startedAt: number
+
+  constructor(
+    private readonly settings: EyeSettings,
+    now = Date.now(),
+  ) {
+    this.startedAt = now
+  }
+
+  // Returns a closure once the eyes reopen after at least minClosureMs
+  update(eyeAspectRatio: number | null, now = Date.now()): EyeClosure | null {
+    if (eyeAspectRatio === null) return null
+
+    if (eyeAspectRatio < this.settings.closedThreshold) {
+      if (this.closedSince === null) this.closedSince = now
+      this.minEyeAspectRatio = Math.min(this.minEyeAspectRatio, eyeAspectRatio)
+      return null
+    }
+
+    return this.flush(now)
+  }
+
+  // Ends any closure in progress, e.g. when the session stops
+  flush(now = Date.now()): EyeClosure | null {
+    if (this.closedSince === null) return null
+
+    const startedAt = this.closedSince
+    const durationMs = now - startedAt
+    const minEyeAspectRatio = this.minEyeAspectRatio
+    this.closedSince = null
+    this.minEyeAspectRatio = Infinity
+
+    if (durationMs <= this.settings.maxBlinkMs) {
+      this.blinks.push(now)
+      return null
+    }
+
+    if (durationMs < this.settings.minClosureMs) return null
+
+    return { startedAt, endedAt: now, durationMs, minEyeAspectRatio, blinkRate: this.blinkRate(now) }
+  }
+
+  // Blinks per minute over the last minute, or since tracking started if that is shorter
+  blinkRate(now = Date.now()) {
+    this.blinks = this.blinks.filter((time) => now - time < BLINK_RATE_WINDOW_MS)
+    const windowMs = Math.min(BLINK_RATE_WINDOW_MS, Math.max(now - this.startedAt, 1))
+    return (this.blinks.length * 60_000) / windowMs
+  }
+
+  isClosed() {
+    return this.closedSince !== null
+  }
+}
@@ -0,0 +1,105 @@
+import type { FaceLandmarker, NormalizedLandmark } from "@mediapipe/tasks-vision"
+import { loadVisionFileset, MODEL_FILES } from "./models"
+
+// Points of the 478-point face mesh on bone rather than soft tissue: forehead, chin,
+// cheekbones, eye corners, nose and brow ridge. Their mutual distances barely move
+// with expression, unlike the mouth and lids.
+const SIGNATURE_LANDMARKS = [10, 152, 234, 454, 33, 133, 362, 263, 1, 2, 168, 98, 327, 70, 300, 105, 334]
+
+// Relative difference between two signatures at which the match score reaches 0
+const MAX_SIGNATURE_DIFFERENCE = 0.2
+
+// Embedding of a face's proportions: the distances between the signature landmarks,
+// scaled by their mean so the size of the face in the picture drops out
+export type FaceSignature = number[]
+
+export interface FaceSignatureResult {
+  // Faces found in the image; a signature is only taken when there is exactly one
+  faces: number
+  signature: FaceSignature | null
+}
+
+// Computes face signatures from still images for the identity check, entirely in the
+// browser. Distances are taken in 3D, so moderate head turns change them little.
+// Proportions tell people apart far less reliably than a trained face recognition
+// model; the score is a prompt for review, not proof of identity.
+export class FaceSignatureExtractor {
+  private landmarker: FaceLandmarker | null = null
+
+  async load() {
+    if (this.landmarker) return
+
+    const { FaceLandmarker } = await import("@mediapipe/tasks-vision")
+    const fileset = await loadVisionFileset()
+
+    this.landmarker = await FaceLandmarker.createFromOptions(fileset, {
+      baseOptions: { modelAssetPath: MODEL_FILES.faceLandmarker, delegate: "CPU" },
+      runningMode: "IMAGE",
+      // Two, so a second face in view is noticed rather than ignored
+      numFaces: 2,
+    })
+  }
+
+  extract(image: HTMLCanvasElement): FaceSignatureResult {
+    if (!this.landmarker) {
+      throw new Error("Face signature extractor used before load()")
+    }
+
+    const { faceLandmarks } = this.landmarker.detect(image)
+    return {
+      faces: faceLandmarks.length,
+      signature: faceLandmarks.length === 1 ? signatureOf(faceLandmarks[0], image.width, image.height) : null,
+    }
+  }
+
+  // Signature of a stored picture, such as the selfie kept with the session
+  async extractFromUrl(url: string): Promise<FaceSignatureResult> {
+    const image = new Image()
+    image.src = url
+    await image.decode()
+
+    const canvas = document.createElement("canvas")
+    canvas.width = image.naturalWidth
+    canvas.height = image.naturalHeight
+    canvas.getContext("2d")?.drawImage(image, 0, 0)
+    return this.extract(canvas)
+  }
+
+  dispose() {
+    this.landmarker?.close()
+    this.landmarker = null
+  }
+}
+
+function signatureOf(landmarks: NormalizedLandmark[], width: number, height: number): FaceSignature {
+  // Landmark z is on roughly the same scale as x
+  const points = SIGNATURE_LANDMARKS.map((index) => ({
+    x: landmarks[index].x * width,
+    y: landmarks[index].y * height,
+    z: landmarks[index].z * width,
+  }))
+
+  const distances: number[] = []
+  for (let a = 0; a < points.length; a++) {
+    for (let b = a + 1; b < points.length; b++) {
+      distances.push(Math.hypot(points[a].x - points[b].x, points[a].y - points[b].y, points[a].z - points[b].z))
+    }
+  }
+
+  const mean = distances.reduce((total, distance) => total + distance, 0) / distances.length
+  return mean > 0 ? distances.map((distance) => distance / mean) : distances
+}
+
+// Match score from 0 (different proportions) to 1 (identical)
+export function compareFaceSignatures(a: FaceSignature, b: FaceSignature) {
+  if (a.length === 0 || a.length !== b.length) return 0
+
+  let squaredDifference = 0
+  let squaredLength = 0
+  for (let index = 0; index < a.length; index++) {
+    squaredDifference += (a[index] - b[index]) ** 2
+    squaredLength += a[index] ** 2
+  }
+  const difference = Math.sqrt(squaredDifference / squaredLength)
+  return Math.max(0, Math.min(1, 1 - difference / MAX_SIGNATURE_DIFFERENCE))
+}
@@ -0,0 +1,29 @@
+import { MediaPipeFaceDetector } from "./detectors/mediapipe-face"
+import { MediaPipeLandmarkDetector } from "./detectors/mediapipe-landmarks"
+import { MediaPipeObjectDetector } from "./detectors/mediapipe-objects"
+import { SimulatedDetector } from "./detectors/simulated"
+import { registerDetector, type DetectorSpec } from "./registry"
+
+export * from "./types"
+export * from "./detector"
+export * from "./registry"
+export * from "./object-policy"
+export * from "./attention"
+export * from "./eyes"
+export * from "./browser"
+export * from "./audio"
+export * from "./identity"
+export { MediaPipeFaceDetector, MediaPipeLandmarkDetector, MediaPipeObjectDetector, SimulatedDetector }
+
+registerDetector("mediapipe-face", (options) => new MediaPipeFaceDetector(options?.minConfidence))
+registerDetector(
+  "mediapipe-landmarks",
+  (options) => new MediaPipeLandmarkDetector(options?.minConfidence, options?.intervalMs),
+)
+registerDetector(
+  "mediapipe-objects",
+  (options) => new MediaPipeObjectDetector(options?.minConfidence, options?.maxResults),
+)
+registerDetector("simulated", (options) => new SimulatedDetector(options))
+
+export const DEFAULT_DETECTORS: DetectorSpec[] = ["mediapipe-face", "mediapipe-objects", "mediapipe-landmarks"]
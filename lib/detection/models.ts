@@ -0,0 +1,30 @@
+import type { FilesetResolver } from "@mediapipe/tasks-vision"
+
+type WasmFileset = Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>
+
+// Model files are served from public/models (populated by `npm run setup:models`),
+// so detection never depends on a CDN at runtime
+export const MODELS_BASE_PATH = "/models"
+export const MEDIAPIPE_WASM_PATH = `${MODELS_BASE_PATH}/mediapipe/wasm`
+
+export const MODEL_FILES = {
+  faceDetector: `${MODELS_BASE_PATH}/blaze_face_short_range.tflite`,
+  objectDetector: `${MODELS_BASE_PATH}/efficientdet_lite0.tflite`,
+  faceLandmarker: `${MODELS_BASE_PATH}/face_landmarker.task`,
+}
+
+let filesetPromise: Promise<WasmFileset> | null = null
+
+// The WASM runtime is shared by every MediaPipe task
+export function loadVisionFileset() {
+  if (!filesetPromise) {
+    filesetPromise = import("@mediapipe/tasks-vision")
+      .then(({ FilesetResolver }) => FilesetResolver.forVisionTasks(MEDIAPIPE_WASM_PATH))
+      .catch((error) => {
+        // Allow a retry after a failed load instead of caching the rejection
+        filesetPromise = null
+        throw error
+      })
+  }
+  return filesetPromise
+}
@@ -0,0 +1,35 @@
+import type { DetectionEventType, ObjectAction, ObjectPolicy, Severity } from "@/lib/domain"
+import type { ObjectDetection } from "./types"
+
+export interface ObjectViolation {
+  objectClass: string
+  confidence: number
+  action: Exclude<ObjectAction, "allowed">
+  eventType: DetectionEventType
+  severity: Severity
+  box: ObjectDetection["box"]
+}
+
+// Returns what an object detection means under the exam's policy, or null when
+// the class is allowed, unlisted or below its confidence threshold
+export function evaluateObject(policy: ObjectPolicy, detection: ObjectDetection): ObjectViolation | null {
+  const rule = policy.rules[detection.class.toLowerCase()]
+  if (!rule || rule.action === "allowed" || detection.confidence < rule.minConfidence) {
+    return null
+  }
+
+  return {
+    objectClass: detection.class,
+    confidence: detection.confidence,
+    action: rule.action,
+    eventType: rule.eventType,
+    severity: rule.severity,
+    box: detection.box,
+  }
+}
+
+export function evaluateObjects(policy: ObjectPolicy, detections: ObjectDetection[]) {
+  return detections
+    .map((detection) => evaluateObject(policy, detection))
+    .filter((violation): violation is ObjectViolation => violation !== null)
+}
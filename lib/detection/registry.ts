@@ -0,0 +1,27 @@
+import type { Detector } from "./detector"
+
+export type DetectorFactory = (options?: Record<string, any>) => Detector
+
+// A detector id, optionally with options passed to its factory
+export type DetectorSpec = string | { id: string; options?: Record<string, any> }
+
+const factories = new Map<string, DetectorFactory>()
+
+export function registerDetector(id: string, factory: DetectorFactory) {
+  factories.set(id, factory)
+}
+
+export function getRegisteredDetectors() {
+  return Array.from(factories.keys())
+}
+
+export function createDetector(spec: DetectorSpec): Detector {
+  const { id, options } = typeof spec === "string" ? { id: spec, options: undefined } : spec
+  const factory = factories.get(id)
+
+  if (!factory) {
+    throw new Error(`Unknown detector "${id}". Registered detectors: ${getRegisteredDetectors().join(", ")}`)
+  }
+
+  return factory(options)
+}
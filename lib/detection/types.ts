@@ -0,0 +1,39 @@
+// Types for detection results
+
+export interface FaceDetection {
+  box: { x: number; y: number; width: number; height: number }
+  confidence: number
+  landmarks?: { x: number; y: number }[]
+}
+
+export interface ObjectDetection {
+  class: string
+  confidence: number
+  box: { x: number; y: number; width: number; height: number }
+}
+
+// Head rotation in degrees; yaw is positive to the candidate's left, pitch upwards
+export interface HeadPose {
+  yaw: number
+  pitch: number
+  roll: number
+}
+
+// Iris position within the eye, from -1 to 1 on each axis (0 = looking straight ahead)
+export interface GazeDirection {
+  x: number
+  y: number
+}
+
+export interface DetectionResults {
+  faces: FaceDetection[]
+  objects: ObjectDetection[]
+  eyesClosed: boolean
+  lookingAway: boolean
+  multipleFaces: boolean
+  // Null when no detector estimates them or no face is visible
+  headPose: HeadPose | null
+  gaze: GazeDirection | null
+  // Mean eye aspect ratio of both eyes; drops towards 0 as the eyes close
+  eyeAspectRatio: number | null
+}
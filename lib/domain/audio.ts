@@ -0,0 +1,43 @@
+import { z } from "zod"
+
+// Levels are RMS in dBFS: 0 is full scale, silence is clamped to this floor
+export const AUDIO_LEVEL_FLOOR_DB = -100
+
+// The microphone level over one second of the session, as charted in the dashboard
+export const audioLevelSampleSchema = z.object({
+  sessionId: z.string(),
+  timestamp: z.coerce.date(),
+  levelDb: z.number().min(AUDIO_LEVEL_FLOOR_DB).max(0),
+  peakDb: z.number().min(AUDIO_LEVEL_FLOOR_DB).max(0),
+  // Share of the second the voice activity detector classified as speech
+  speechRatio: z.number().min(0).max(1),
+})
+
+// Request body of POST /api/sessions/:id/audio-levels
+export const addAudioLevelsInputSchema = z.object({
+  samples: audioLevelSampleSchema.omit({ sessionId: true }).array().min(1).max(300),
+})
+
+export type AudioLevelSample = z.infer<typeof audioLevelSampleSchema>
+export type AddAudioLevelsInput = z.infer<typeof addAudioLevelsInputSchema>
+
+// Averages consecutive samples so a long session charts as at most maxPoints
+// points, keeping the loudest peak of each bucket. Samples must be oldest first.
+export function downsampleAudioLevels(samples: AudioLevelSample[], maxPoints: number): AudioLevelSample[] {
+  if (samples.length <= maxPoints) return samples
+
+  const bucketSize = Math.ceil(samples.length / maxPoints)
+  const buckets: AudioLevelSample[] = []
+  for (let start = 0; start < samples.length; start += bucketSize) {
+    const bucket = samples.slice(start, start + bucketSize)
+    const mean = (values: number[]) => values.reduce((total, value) => total + value, 0) / values.length
+    buckets.push({
+      sessionId: bucket[0].sessionId,
+      timestamp: bucket[0].timestamp,
+      levelDb: mean(bucket.map((sample) => sample.levelDb)),
+      peakDb: Math.max(...bucket.map((sample) => sample.peakDb)),
+      speechRatio: mean(bucket.map((sample) => sample.speechRatio)),
+    })
+  }
+  return buckets
+}
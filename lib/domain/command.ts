@@ -0,0 +1,110 @@
+import { z } from "zod"
+import type { DetectionEvent, Severity } from "./event"
+import type { SessionStatus } from "./session"
+
+// What a proctor can ask of a candidate's page while the session is in progress
+export const PROCTOR_COMMAND_TYPES = ["message", "warning", "pause", "resume", "terminate"] as const
+
+export const proctorCommandTypeSchema = z.enum(PROCTOR_COMMAND_TYPES)
+
+const COMMANDS_WITH_TEXT: ProctorCommandType[] = ["message", "warning", "terminate"]
+
+// Request body of POST /api/sessions/:id/commands. Messages and warnings carry their
+// text, terminations the reason given to the candidate.
+export const issueCommandInputSchema = z
+  .object({
+    type: proctorCommandTypeSchema,
+    text: z.string().trim().max(1000, "Text must be at most 1000 characters").optional(),
+  })
+  .refine((input) => !COMMANDS_WITH_TEXT.includes(input.type) || !!input.text, {
+    message: "Text is required for this command",
+    path: ["text"],
+  })
+
+// A command as the candidate's page and the monitoring wall see it. Commands are
+// stored as proctor_command events; acknowledgements as command_acknowledged events.
+export const proctorCommandSchema = z.object({
+  // Id of the proctor_command event
+  id: z.string(),
+  sessionId: z.string(),
+  type: proctorCommandTypeSchema,
+  text: z.string().optional(),
+  issuedBy: z.string(),
+  issuedByName: z.string(),
+  issuedAt: z.coerce.date(),
+  acknowledgedAt: z.coerce.date().optional(),
+})
+
+export type ProctorCommandType = z.infer<typeof proctorCommandTypeSchema>
+export type IssueCommandInput = z.infer<typeof issueCommandInputSchema>
+export type ProctorCommand = z.infer<typeof proctorCommandSchema>
+
+export const PROCTOR_COMMAND_LABELS: Record<ProctorCommandType, string> = {
+  message: "Message",
+  warning: "Formal warning",
+  pause: "Pause",
+  resume: "Resume",
+  terminate: "Termination",
+}
+
+export const PROCTOR_COMMAND_SEVERITIES: Record<ProctorCommandType, Severity> = {
+  message: "low",
+  warning: "medium",
+  pause: "medium",
+  resume: "low",
+  terminate: "high",
+}
+
+// Status the session moves to when the command is issued, for those that change it
+export const PROCTOR_COMMAND_STATUSES: Partial<Record<ProctorCommandType, SessionStatus>> = {
+  pause: "paused",
+  resume: "active",
+  terminate: "terminated",
+}
+
+// Timeline description of a command
+export function describeCommand(type: ProctorCommandType, text?: string) {
+  switch (type) {
+    case "message":
+      return `Proctor message: ${text}`
+    case "warning":
+      return `Formal warning: ${text}`
+    case "pause":
+      return "Session paused by the proctor"
+    case "resume":
+      return "Session resumed by the proctor"
+    case "terminate":
+      return `Session terminated by the proctor: ${text}`
+  }
+}
+
+// Rebuilds a session's commands from its audit events, oldest first
+export function commandsFromEvents(events: DetectionEvent[]): ProctorCommand[] {
+  const acknowledgedAt = new Map<string, Date>()
+  for (const event of events) {
+    const commandId = event.metadata?.commandId
+    if (event.type === "command_acknowledged" && typeof commandId === "string") {
+      acknowledgedAt.set(commandId, event.timestamp)
+    }
+  }
+
+  const commands: ProctorCommand[] = []
+  for (const event of events) {
+    if (event.type !== "proctor_command") continue
+    const parsed = proctorCommandTypeSchema.safeParse(event.metadata?.command)
+    if (!parsed.success) continue
+
+    commands.push({
+      id: event.id,
+      sessionId: event.sessionId,
+      type: parsed.data,
+      text: typeof event.metadata?.text === "string" ? event.metadata.text : undefined,
+      issuedBy: String(event.metadata?.issuedBy ?? ""),
+      issuedByName: String(event.metadata?.issuedByName ?? ""),
+      issuedAt: event.timestamp,
+      acknowledgedAt: acknowledgedAt.get(event.id),
+    })
+  }
+
+  return commands.sort((a, b) => a.issuedAt.getTime() - b.issuedAt.getTime())
+}
@@ -0,0 +1,125 @@
+import { z } from "zod"
+
+export const DETECTION_EVENT_TYPES = [
+  "focus_lost",
+  "no_face",
+  "multiple_faces",
+  "phone_detected",
+  "notes_detected",
+  "suspicious_object",
+  "eyes_closed",
+  // Browser activity (lib/detection/browser.ts)
+  "tab_hidden",
+  "window_blur",
+  "fullscreen_exit",
+  "clipboard_use",
+  "devtools_open",
+  // Microphone analysis (lib/detection/audio.ts)
+  "speech_detected",
+  "multiple_speakers",
+  "background_noise",
+  // Live face compared with the identity check's selfie (lib/detection/identity.ts)
+  "identity_mismatch",
+  // Audit trail of proctor interventions (lib/domain/command.ts); never scored
+  "proctor_command",
+  "command_acknowledged",
+] as const
+
+export const AUDIT_EVENT_TYPES = ["proctor_command", "command_acknowledged"] as const
+
+export const SEVERITIES = ["low", "medium", "high"] as const
+
+export const detectionEventTypeSchema = z.enum(DETECTION_EVENT_TYPES)
+export const severitySchema = z.enum(SEVERITIES)
+
+export const detectionEventSchema = z.object({
+  id: z.string(),
+  sessionId: z.string(),
+  type: detectionEventTypeSchema,
+  timestamp: z.coerce.date(),
+  description: z.string(),
+  severity: severitySchema,
+  confidence: z.number().min(0).max(1).optional(),
+  metadata: z.record(z.any()).optional(),
+})
+
+// Detection box kept in metadata.boxes, in fractions of the frame size so it
+// can be drawn over the recording at any display size
+export const eventBoxSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+  label: z.string().optional(),
+})
+
+// A day; longer episodes are not ones a session produces
+export const MAX_EPISODE_MS = 24 * 60 * 60 * 1000
+
+// Most frame samples one event carries, and boxes one sample keeps
+export const MAX_EVENT_SAMPLES = 100
+const MAX_SAMPLE_BOXES = 20
+
+// A frame in which the page saw an incident's condition, as sent: ageMs is how long
+// before the event was sent the frame was seen, so samples need no clock of the page
+export const eventSampleInputSchema = z.object({
+  ageMs: z.number().int().nonnegative().max(MAX_EPISODE_MS),
+  confidence: z.number().min(0).max(1).optional(),
+  boxes: eventBoxSchema.array().max(MAX_SAMPLE_BOXES).optional(),
+})
+
+// A frame sample as stored in metadata.samples, timed by the server
+export const eventSampleSchema = eventSampleInputSchema.omit({ ageMs: true }).extend({
+  timestamp: z.coerce.date(),
+})
+
+// Metadata the server reads when grouping events into incidents, checked before it is
+// stored. metadata.informational is never taken from the client: the events route
+// sets it from the session's object policy.
+export const eventMetadataInputSchema = z
+  .object({
+    // Id the candidate's page gave the incident the event opens or closes
+    incidentId: z.string().max(100).optional(),
+    // How long the page saw the incident, on the event that closes it
+    incidentDurationMs: z.number().int().nonnegative().max(MAX_EPISODE_MS).optional(),
+    // Episode events span their own duration
+    durationMs: z.number().int().nonnegative().max(MAX_EPISODE_MS).optional(),
+    objectClass: z.string().max(100).optional(),
+    // Frames seen since the incident's previous event, kept for audit
+    samples: eventSampleInputSchema.array().max(MAX_EVENT_SAMPLES).optional(),
+  })
+  .catchall(z.any())
+
+// Request body of POST /api/events
+export const createEventInputSchema = detectionEventSchema
+  .omit({ id: true, timestamp: true })
+  .extend({ metadata: eventMetadataInputSchema.optional() })
+
+export type DetectionEventType = z.infer<typeof detectionEventTypeSchema>
+export type Severity = z.infer<typeof severitySchema>
+export type DetectionEvent = z.infer<typeof detectionEventSchema>
+export type CreateEventInput = z.infer<typeof createEventInputSchema>
+export type EventBox = z.infer<typeof eventBoxSchema>
+export type EventSampleInput = z.infer<typeof eventSampleInputSchema>
+export type EventSample = z.infer<typeof eventSampleSchema>
+
+// Events recording what people did rather than what the detectors saw
+export function isAuditEvent(type: DetectionEventType) {
+  return (AUDIT_EVENT_TYPES as readonly DetectionEventType[]).includes(type)
+}
+
+export function isSuspiciousObjectEvent(type: DetectionEventType) {
+  return type === "phone_detected" || type === "notes_detected" || type === "suspicious_object"
+}
+
+// Boxes recorded with the event; empty when it has none or they are malformed
+export function eventBoxesOf(event: DetectionEvent): EventBox[] {
+  const parsed = eventBoxSchema.array().safeParse(event.metadata?.boxes)
+  return parsed.success ? parsed.data : []
+}
+
+// Frame samples recorded with the event, oldest first; empty when it has none or they are malformed
+export function eventSamplesOf(event: DetectionEvent): EventSample[] {
+  const parsed = eventSampleSchema.array().safeParse(event.metadata?.samples)
+  return parsed.success ? parsed.data.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()) : []
+}
@@ -0,0 +1,28 @@
+import { z } from "zod"
+
+export const EVIDENCE_TRIGGERS = ["start", "peak"] as const
+
+export const evidenceTriggerSchema = z.enum(EVIDENCE_TRIGGERS)
+
+// JPEG snapshot of the frame behind an incident, held in the blob store
+export const evidenceSchema = z.object({
+  id: z.string(),
+  sessionId: z.string(),
+  contentType: z.string(),
+  size: z.number().int().nonnegative(),
+  capturedAt: z.coerce.date(),
+  // Deleted after this, following the exam's settings.evidence.retentionDays, or
+  // settings.identity.retentionDays for the identity check's ID photo and selfie
+  expiresAt: z.coerce.date(),
+})
+
+// Kept in DetectionEvent.metadata.evidence of the event the snapshot was taken for
+export const evidenceRefSchema = z.object({
+  id: z.string(),
+  // Whether the snapshot shows the incident opening or its most confident frame so far
+  trigger: evidenceTriggerSchema,
+})
+
+export type EvidenceTrigger = z.infer<typeof evidenceTriggerSchema>
+export type Evidence = z.infer<typeof evidenceSchema>
+export type EvidenceRef = z.infer<typeof evidenceRefSchema>
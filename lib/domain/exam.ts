@@ -0,0 +1,56 @@
+import { z } from "zod"
+import { proctoringSettingsInputSchema, proctoringSettingsSchema } from "./settings"
+
+// An exam of an organization. Sessions taken for it copy its scoring policy and
+// detection settings when they are created.
+export const examSchema = z.object({
+  id: z.string(),
+  orgId: z.string(),
+  title: z.string(),
+  description: z.string().optional(),
+  // Sessions can only be started within [opensAt, closesAt]
+  opensAt: z.coerce.date(),
+  closesAt: z.coerce.date(),
+  // Time limit of one session
+  durationMinutes: z.number().int().positive(),
+  scoringPolicy: z.string(),
+  settings: proctoringSettingsSchema,
+  createdBy: z.string().optional(),
+  createdAt: z.coerce.date(),
+})
+
+const examFieldsSchema = z.object({
+  title: z.string().trim().min(1, "Exam title is required"),
+  description: z.string().trim().optional(),
+  opensAt: z.coerce.date({ invalid_type_error: "opensAt must be a date" }),
+  closesAt: z.coerce.date({ invalid_type_error: "closesAt must be a date" }),
+  durationMinutes: z.number().int("durationMinutes must be a whole number").positive().max(24 * 60),
+  scoringPolicy: z.string().optional(),
+  settings: proctoringSettingsInputSchema.optional(),
+})
+
+const windowIsOrdered = (exam: { opensAt?: Date; closesAt?: Date }) =>
+  !exam.opensAt || !exam.closesAt || exam.closesAt > exam.opensAt
+
+// Request body of POST /api/exams. Admins, who belong to no organization, name it.
+export const createExamInputSchema = examFieldsSchema
+  .extend({ orgId: z.string().optional() })
+  .refine(windowIsOrdered, { message: "closesAt must be after opensAt", path: ["closesAt"] })
+
+// Request body of PUT /api/exams/:id
+export const updateExamInputSchema = examFieldsSchema
+  .partial()
+  .strict()
+  .refine(windowIsOrdered, { message: "closesAt must be after opensAt", path: ["closesAt"] })
+
+export const EXAM_WINDOW_STATES = ["upcoming", "open", "closed"] as const
+
+export type Exam = z.infer<typeof examSchema>
+export type CreateExamInput = z.infer<typeof createExamInputSchema>
+export type UpdateExamInput = z.infer<typeof updateExamInputSchema>
+export type ExamWindowState = (typeof EXAM_WINDOW_STATES)[number]
+
+export function examWindowState(exam: Pick<Exam, "opensAt" | "closesAt">, now = new Date()): ExamWindowState {
+  if (now < exam.opensAt) return "upcoming"
+  return now > exam.closesAt ? "closed" : "open"
+}
@@ -0,0 +1,44 @@
+import { z } from "zod"
+
+// A reviewer's decision on the identity check; pending until someone compared the pictures
+export const IDENTITY_REVIEW_STATUSES = ["pending", "approved", "rejected"] as const
+
+export const identityReviewStatusSchema = z.enum(IDENTITY_REVIEW_STATUSES)
+
+// Outcome of the identity check the candidate ran before the session started. The
+// ID photo and selfie are kept as session evidence.
+export const identityVerificationSchema = z.object({
+  verifiedAt: z.coerce.date(),
+  // Similarity of the selfie's face to the ID photo's, 0 to 1, as the candidate's
+  // browser computed it. The candidate controls that page, so the score only guides
+  // the reviewer and never verifies anyone by itself.
+  reportedMatchScore: z.number().min(0).max(1),
+  // settings.identity.matchThreshold when the check ran
+  threshold: z.number().min(0).max(1),
+  status: identityReviewStatusSchema,
+  reviewedAt: z.coerce.date().optional(),
+  reviewedBy: z.string().optional(),
+  reviewedByName: z.string().optional(),
+  idDocumentEvidenceId: z.string(),
+  selfieEvidenceId: z.string(),
+})
+
+// Form fields of POST /api/sessions/:id/identity besides the idDocument and selfie images
+export const recordIdentityInputSchema = z.object({
+  matchScore: z.coerce.number().min(0, "matchScore must be between 0 and 1").max(1, "matchScore must be between 0 and 1"),
+})
+
+// Request body of PUT /api/sessions/:id/identity
+export const reviewIdentityInputSchema = z.object({
+  status: identityReviewStatusSchema.exclude(["pending"]),
+})
+
+export type IdentityReviewStatus = z.infer<typeof identityReviewStatusSchema>
+export type IdentityVerification = z.infer<typeof identityVerificationSchema>
+export type RecordIdentityInput = z.infer<typeof recordIdentityInputSchema>
+export type ReviewIdentityInput = z.infer<typeof reviewIdentityInputSchema>
+
+// Whether the reported score reached the threshold, a hint for the reviewer
+export function identityScoreReachedThreshold(verification: IdentityVerification) {
+  return verification.reportedMatchScore >= verification.threshold
+}
@@ -0,0 +1,24 @@
+import { z } from "zod"
+import { detectionEventTypeSchema, severitySchema } from "./event"
+
+// A continuous violation aggregated from the frame-level detection events that
+// observed it. Derived from events, never stored on its own.
+export const incidentSchema = z.object({
+  id: z.string(),
+  sessionId: z.string(),
+  type: detectionEventTypeSchema,
+  // Highest severity among the events
+  severity: severitySchema,
+  description: z.string(),
+  startedAt: z.coerce.date(),
+  endedAt: z.coerce.date(),
+  durationMs: z.number().nonnegative(),
+  peakConfidence: z.number().min(0).max(1).optional(),
+  // Raw detection events the incident was built from, for audit
+  eventIds: z.array(z.string()),
+  // Set for objects the exam's policy only logs; such incidents are not scored
+  informational: z.boolean(),
+  objectClass: z.string().optional(),
+})
+
+export type Incident = z.infer<typeof incidentSchema>
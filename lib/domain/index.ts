@@ -0,0 +1,19 @@
+// Canonical session, event and report model shared by routes, hooks and components
+export * from "./session"
+export * from "./event"
+export * from "./incident"
+export * from "./settings"
+export * from "./recording"
+export * from "./system-check"
+export * from "./identity"
+export * from "./evidence"
+export * from "./statistics"
+export * from "./report"
+export * from "./user"
+export * from "./organization"
+export * from "./exam"
+export * from "./invitation"
+export * from "./live"
+export * from "./command"
+export * from "./audio"
+export * from "./rows"
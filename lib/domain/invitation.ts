@@ -0,0 +1,70 @@
+import { z } from "zod"
+import { examSchema } from "./exam"
+
+export const INVITATION_STATUSES = ["pending", "accepted", "revoked"] as const
+
+// Lifetime of an invitation link unless the request asks for another one
+export const DEFAULT_INVITATION_LINK_TTL_HOURS = 72
+
+export const invitationStatusSchema = z.enum(INVITATION_STATUSES)
+
+// A candidate invited to take an exam
+export const invitationSchema = z.object({
+  id: z.string(),
+  examId: z.string(),
+  orgId: z.string(),
+  candidateName: z.string(),
+  candidateEmail: z.string(),
+  status: invitationStatusSchema,
+  createdAt: z.coerce.date(),
+  // Session the candidate took, once accepted
+  sessionId: z.string().optional(),
+  acceptedAt: z.coerce.date().optional(),
+  // Nonce of the current invitation link; issuing a new link invalidates the old one
+  tokenId: z.string().optional(),
+  tokenExpiresAt: z.coerce.date().optional(),
+})
+
+// Request body of POST /api/exams/:id/invitations
+export const createInvitationInputSchema = z.object({
+  candidateName: z.string().trim().min(1, "Candidate name is required"),
+  candidateEmail: z.string().trim().toLowerCase().email("Enter a valid email address"),
+})
+
+// Request body of PUT /api/exams/:id/invitations
+export const updateInvitationInputSchema = z.object({
+  invitationId: z.string(),
+  status: z.literal("revoked"),
+})
+
+// Request body of POST /api/exams/:id/invitations/:invitationId/link
+export const issueInvitationLinkInputSchema = z.object({
+  expiresInHours: z
+    .number()
+    .int("expiresInHours must be a whole number")
+    .min(1)
+    .max(30 * 24)
+    .default(DEFAULT_INVITATION_LINK_TTL_HOURS),
+})
+
+// What the candidate landing page shows before the link is used
+export const invitationPreviewSchema = z.object({
+  candidateName: z.string(),
+  candidateEmail: z.string(),
+  exam: examSchema.pick({ id: true, title: true, description: true, opensAt: true, closesAt: true, durationMinutes: true }),
+  expiresAt: z.coerce.date(),
+})
+
+export type InvitationStatus = z.infer<typeof invitationStatusSchema>
+export type Invitation = z.infer<typeof invitationSchema>
+export type CreateInvitationInput = z.infer<typeof createInvitationInputSchema>
+export type UpdateInvitationInput = z.infer<typeof updateInvitationInputSchema>
+export type InvitationPreview = z.infer<typeof invitationPreviewSchema>
+export type IssueInvitationLinkInput = z.input<typeof issueInvitationLinkInputSchema>
+
+// Issued invitation link; the token is only ever returned here, never stored
+export interface InvitationLink {
+  token: string
+  path: string
+  expiresAt: Date
+}
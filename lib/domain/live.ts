@@ -0,0 +1,42 @@
+import { z } from "zod"
+import { proctoringSessionSchema } from "./session"
+import { detectionEventSchema } from "./event"
+
+// What the candidate's page currently sees, as shown in its status panel
+export const liveStatusSchema = z.object({
+  focused: z.boolean(),
+  faceDetected: z.boolean(),
+  multipleFaces: z.boolean(),
+  suspiciousItems: z.array(z.string()).max(10),
+  updatedAt: z.coerce.date(),
+})
+
+// Request body of POST /api/sessions/:id/live-status; the server stamps updatedAt
+export const liveStatusInputSchema = liveStatusSchema.omit({ updatedAt: true })
+
+export const LIVE_MESSAGE_TYPES = ["snapshot", "session", "removed", "event", "status"] as const
+
+// Messages of the monitoring stream (GET /api/monitor/stream). Each carries the
+// session it is about, as it is after the change.
+export const liveMessageSchema = z.discriminatedUnion("type", [
+  // Sent first on every connection: the sessions in progress and their last status
+  z.object({
+    type: z.literal("snapshot"),
+    sessions: z.array(proctoringSessionSchema),
+    statuses: z.record(liveStatusSchema),
+  }),
+  // Started, updated or ended
+  z.object({ type: z.literal("session"), session: proctoringSessionSchema }),
+  z.object({ type: z.literal("removed"), session: proctoringSessionSchema }),
+  z.object({ type: z.literal("event"), session: proctoringSessionSchema, event: detectionEventSchema }),
+  z.object({ type: z.literal("status"), session: proctoringSessionSchema, status: liveStatusSchema }),
+])
+
+export type LiveStatus = z.infer<typeof liveStatusSchema>
+export type LiveStatusInput = z.infer<typeof liveStatusInputSchema>
+export type LiveMessage = z.infer<typeof liveMessageSchema>
+
+// Sessions shown on the monitoring wall
+export function isLiveSession(session: { status: string }) {
+  return session.status === "active" || session.status === "paused"
+}
@@ -0,0 +1,16 @@
+import { z } from "zod"
+
+// Tenant owning exams and sessions; users belong to at most one
+export const organizationSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  createdAt: z.coerce.date(),
+})
+
+// Request body of POST /api/organizations
+export const createOrganizationInputSchema = z.object({
+  name: z.string().trim().min(1, "Organization name is required"),
+})
+
+export type Organization = z.infer<typeof organizationSchema>
+export type CreateOrganizationInput = z.infer<typeof createOrganizationInputSchema>
@@ -0,0 +1,45 @@
+import { z } from "zod"
+
+export const RECORDING_STATUSES = ["uploading", "complete"] as const
+
+// A day of one-second chunks. Also keeps sequences within the 8 digits chunk keys
+// are padded to, so they list in order.
+export const MAX_RECORDING_CHUNKS = 24 * 60 * 60
+
+export const recordingStatusSchema = z.enum(RECORDING_STATUSES)
+
+// Server-side recording of a session, uploaded in chunks while it runs
+export const recordingSchema = z.object({
+  status: recordingStatusSchema,
+  mimeType: z.string(),
+  startedAt: z.coerce.date(),
+  // Set once the chunks have been assembled into the final file
+  completedAt: z.coerce.date().optional(),
+  chunkCount: z.number().int().nonnegative().optional(),
+  size: z.number().int().nonnegative().optional(),
+  // Blob store key of the final file
+  key: z.string().optional(),
+})
+
+// Query of POST /api/sessions/:id/recording/chunks
+export const recordingChunkQuerySchema = z.object({
+  sequence: z.coerce
+    .number()
+    .int("sequence must be a non-negative integer")
+    .nonnegative("sequence must be a non-negative integer")
+    .max(MAX_RECORDING_CHUNKS - 1, `sequence must be below ${MAX_RECORDING_CHUNKS}`),
+})
+
+// Request body of POST /api/sessions/:id/recording, which assembles the chunks
+export const completeRecordingInputSchema = z.object({
+  totalChunks: z
+    .number()
+    .int()
+    .positive("totalChunks must be a positive integer")
+    .max(MAX_RECORDING_CHUNKS, `totalChunks must be at most ${MAX_RECORDING_CHUNKS}`),
+})
+
+export type RecordingStatus = z.infer<typeof recordingStatusSchema>
+export type Recording = z.infer<typeof recordingSchema>
+export type RecordingChunkQuery = z.infer<typeof recordingChunkQuerySchema>
+export type CompleteRecordingInput = z.infer<typeof completeRecordingInputSchema>
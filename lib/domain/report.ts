@@ -0,0 +1,73 @@
+import { z } from "zod"
+import { proctoringSessionSchema } from "./session"
+import { detectionEventSchema, detectionEventTypeSchema, severitySchema } from "./event"
+import { incidentSchema } from "./incident"
+import { audioLevelSampleSchema } from "./audio"
+
+export const reportStatisticsSchema = z.object({
+  totalEvents: z.number(),
+  eventsBySeverity: z.object({
+    high: z.number(),
+    medium: z.number(),
+    low: z.number(),
+  }),
+  eventsByType: z.record(z.number()),
+  totalIncidents: z.number(),
+  incidentsByType: z.record(z.number()),
+  // Counts of incidents, not of frame-level events
+  focusLossCount: z.number(),
+  suspiciousObjectCount: z.number(),
+  multipleFaceCount: z.number(),
+  averageConfidence: z.number(),
+  // Attention off-screen, summed from the durations of focus_lost events
+  offScreenSeconds: z.number(),
+  longestOffScreenSeconds: z.number(),
+  // Sustained eye closures, from eyes_closed event metadata
+  eyesClosedCount: z.number(),
+  eyesClosedSeconds: z.number(),
+  longestEyesClosedSeconds: z.number(),
+  // Mean blinks per minute reported with eyes_closed events; null when none were recorded
+  averageBlinkRate: z.number().nullable(),
+})
+
+export const integrityAnalysisSchema = z.object({
+  finalScore: z.number(),
+  // Scoring policy the deductions were computed with
+  policy: z.string(),
+  deductions: z.array(
+    z.object({
+      eventType: detectionEventTypeSchema,
+      reason: z.string(),
+      points: z.number(),
+      count: z.number(),
+      forgiven: z.number(),
+    }),
+  ),
+  recommendations: z.array(z.string()),
+})
+
+// One entry per incident, at its start
+export const timelineEntrySchema = z.object({
+  timestamp: z.coerce.date(),
+  event: z.string(),
+  severity: severitySchema,
+  type: detectionEventTypeSchema,
+  durationMs: z.number(),
+})
+
+export const proctoringReportSchema = z.object({
+  session: proctoringSessionSchema,
+  // Raw frame-level detections, kept for audit
+  events: z.array(detectionEventSchema),
+  incidents: z.array(incidentSchema),
+  statistics: reportStatisticsSchema,
+  integrityAnalysis: integrityAnalysisSchema,
+  timeline: z.array(timelineEntrySchema),
+  // Microphone level over the session, downsampled for charting
+  audioLevels: z.array(audioLevelSampleSchema).default([]),
+})
+
+export type ReportStatistics = z.infer<typeof reportStatisticsSchema>
+export type IntegrityAnalysis = z.infer<typeof integrityAnalysisSchema>
+export type TimelineEntry = z.infer<typeof timelineEntrySchema>
+export type ProctoringReport = z.infer<typeof proctoringReportSchema>
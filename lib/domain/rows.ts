@@ -0,0 +1,322 @@
+import { proctoringSessionSchema, type ProctoringSession, type SessionStatus, type VideoQuality } from "./session"
+import { detectionEventSchema, type DetectionEvent, type DetectionEventType, type Severity } from "./event"
+import type { SessionStatistics } from "./statistics"
+import type { ProctoringSettings } from "./settings"
+import type { Recording } from "./recording"
+import type { SystemCheck } from "./system-check"
+import type { IdentityVerification } from "./identity"
+import { authUserSchema, type AuthUser, type UserRole } from "./user"
+import { organizationSchema, type Organization } from "./organization"
+import { examSchema, type Exam } from "./exam"
+import { invitationSchema, type Invitation, type InvitationStatus } from "./invitation"
+import { audioLevelSampleSchema, type AudioLevelSample } from "./audio"
+
+// Row shapes of the tables in scripts/001_create_proctoring_tables.sql
+
+export interface ProctoringSessionRow {
+  id: string
+  candidate_name: string
+  session_start: string
+  session_end: string | null
+  duration_seconds: number
+  status: SessionStatus
+  video_quality: VideoQuality
+  integrity_score: number
+  detection_enabled: boolean
+  scoring_policy: string
+  settings: ProctoringSettings | null
+  recording: Recording | null
+  system_check: SystemCheck | null
+  identity_verification: IdentityVerification | null
+  reviewed_at: string | null
+  candidate_id: string | null
+  org_id: string | null
+  exam_id: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface DetectionEventRow {
+  id: string
+  session_id: string
+  event_type: DetectionEventType
+  description: string
+  severity: Severity
+  timestamp: string
+  confidence: number | null
+  metadata: Record<string, any> | null
+}
+
+export interface SessionStatisticsRow {
+  id: string
+  session_id: string
+  total_focus_loss_events: number
+  total_multiple_face_events: number
+  total_suspicious_object_events: number
+  total_no_face_events: number
+  average_confidence: number | string
+  updated_at: string
+}
+
+// Row of public.profiles (scripts/007_add_auth.sql), one per Supabase Auth user
+export interface ProfileRow {
+  id: string
+  email: string
+  display_name: string | null
+  role: UserRole
+  org_id: string | null
+  created_at: string
+}
+
+// Rows of the tables in scripts/008_add_organizations_and_exams.sql
+
+export interface OrganizationRow {
+  id: string
+  name: string
+  created_at: string
+}
+
+export interface ExamRow {
+  id: string
+  org_id: string
+  title: string
+  description: string | null
+  opens_at: string
+  closes_at: string
+  duration_minutes: number
+  scoring_policy: string
+  settings: ProctoringSettings
+  created_by: string | null
+  created_at: string
+}
+
+export interface InvitationRow {
+  id: string
+  exam_id: string
+  org_id: string
+  candidate_name: string
+  candidate_email: string
+  status: InvitationStatus
+  session_id: string | null
+  accepted_at: string | null
+  token_id: string | null
+  token_expires_at: string | null
+  created_at: string
+}
+
+// Row of public.audio_levels (scripts/010_add_audio_levels.sql)
+export interface AudioLevelRow {
+  id: string
+  session_id: string
+  recorded_at: string
+  level_db: number
+  peak_db: number
+  speech_ratio: number
+}
+
+export function sessionFromRow(row: ProctoringSessionRow): ProctoringSession {
+  return proctoringSessionSchema.parse({
+    id: row.id,
+    candidateName: row.candidate_name,
+    startTime: row.session_start,
+    endTime: row.session_end ?? undefined,
+    duration: row.duration_seconds,
+    status: row.status,
+    integrityScore: row.integrity_score,
+    videoQuality: row.video_quality,
+    detectionEnabled: row.detection_enabled ?? true,
+    scoringPolicy: row.scoring_policy ?? undefined,
+    settings: row.settings ?? undefined,
+    recording: row.recording ?? undefined,
+    systemCheck: row.system_check ?? undefined,
+    identityVerification: row.identity_verification ?? undefined,
+    reviewedAt: row.reviewed_at ?? undefined,
+    candidateId: row.candidate_id ?? undefined,
+    orgId: row.org_id ?? undefined,
+    examId: row.exam_id ?? undefined,
+  })
+}
+
+// Only the fields present on the (partial) session are written
+export function sessionToRow(session: Partial<ProctoringSession>): Partial<ProctoringSessionRow> {
+  const row: Partial<ProctoringSessionRow> = {}
+
+  if (session.id !== undefined) row.id = session.id
+  if (session.candidateName !== undefined) row.candidate_name = session.candidateName
+  if (session.startTime !== undefined) row.session_start = session.startTime.toISOString()
+  if (session.endTime !== undefined) row.session_end = session.endTime.toISOString()
+  if (session.duration !== undefined) row.duration_seconds = session.duration
+  if (session.status !== undefined) row.status = session.status
+  if (session.integrityScore !== undefined) row.integrity_score = session.integrityScore
+  if (session.videoQuality !== undefined) row.video_quality = session.videoQuality
+  if (session.detectionEnabled !== undefined) row.detection_enabled = session.detectionEnabled
+  if (session.scoringPolicy !== undefined) row.scoring_policy = session.scoringPolicy
+  if (session.settings !== undefined) row.settings = session.settings
+  if (session.recording !== undefined) row.recording = session.recording
+  if (session.systemCheck !== undefined) row.system_check = session.systemCheck
+  if (session.identityVerification !== undefined) row.identity_verification = session.identityVerification
+  if (session.reviewedAt !== undefined) row.reviewed_at = session.reviewedAt.toISOString()
+  if (session.candidateId !== undefined) row.candidate_id = session.candidateId
+  if (session.orgId !== undefined) row.org_id = session.orgId
+  if (session.examId !== undefined) row.exam_id = session.examId
+
+  return row
+}
+
+export function eventFromRow(row: DetectionEventRow): DetectionEvent {
+  return detectionEventSchema.parse({
+    id: row.id,
+    sessionId: row.session_id,
+    type: row.event_type,
+    timestamp: row.timestamp,
+    description: row.description,
+    severity: row.severity,
+    confidence: row.confidence === null ? undefined : Number(row.confidence),
+    metadata: row.metadata ?? undefined,
+  })
+}
+
+export function eventToRow(event: Omit<DetectionEvent, "id"> & { id?: string }): Partial<DetectionEventRow> {
+  const row: Partial<DetectionEventRow> = {
+    session_id: event.sessionId,
+    event_type: event.type,
+    description: event.description,
+    severity: event.severity,
+    timestamp: event.timestamp.toISOString(),
+    confidence: event.confidence ?? null,
+    metadata: event.metadata ?? {},
+  }
+
+  if (event.id !== undefined) row.id = event.id
+
+  return row
+}
+
+export function statisticsFromRow(row: SessionStatisticsRow): SessionStatistics {
+  return {
+    sessionId: row.session_id,
+    totalFocusLossEvents: row.total_focus_loss_events,
+    totalMultipleFaceEvents: row.total_multiple_face_events,
+    totalSuspiciousObjectEvents: row.total_suspicious_object_events,
+    totalNoFaceEvents: row.total_no_face_events,
+    // DECIMAL columns come back as strings
+    averageConfidence: Number(row.average_confidence),
+    updatedAt: new Date(row.updated_at),
+  }
+}
+
+export function statisticsToRow(statistics: SessionStatistics): Omit<SessionStatisticsRow, "id"> {
+  return {
+    session_id: statistics.sessionId,
+    total_focus_loss_events: statistics.totalFocusLossEvents,
+    total_multiple_face_events: statistics.totalMultipleFaceEvents,
+    total_suspicious_object_events: statistics.totalSuspiciousObjectEvents,
+    total_no_face_events: statistics.totalNoFaceEvents,
+    average_confidence: statistics.averageConfidence,
+    updated_at: statistics.updatedAt.toISOString(),
+  }
+}
+
+export function userFromProfileRow(row: ProfileRow): AuthUser {
+  return authUserSchema.parse({
+    id: row.id,
+    email: row.email,
+    name: row.display_name || row.email,
+    role: row.role,
+    orgId: row.org_id ?? undefined,
+  })
+}
+
+export function organizationFromRow(row: OrganizationRow): Organization {
+  return organizationSchema.parse({ id: row.id, name: row.name, createdAt: row.created_at })
+}
+
+export function examFromRow(row: ExamRow): Exam {
+  return examSchema.parse({
+    id: row.id,
+    orgId: row.org_id,
+    title: row.title,
+    description: row.description ?? undefined,
+    opensAt: row.opens_at,
+    closesAt: row.closes_at,
+    durationMinutes: row.duration_minutes,
+    scoringPolicy: row.scoring_policy,
+    settings: row.settings,
+    createdBy: row.created_by ?? undefined,
+    createdAt: row.created_at,
+  })
+}
+
+// Only the fields present on the (partial) exam are written
+export function examToRow(exam: Partial<Exam>): Partial<ExamRow> {
+  const row: Partial<ExamRow> = {}
+
+  if (exam.id !== undefined) row.id = exam.id
+  if (exam.orgId !== undefined) row.org_id = exam.orgId
+  if (exam.title !== undefined) row.title = exam.title
+  if (exam.description !== undefined) row.description = exam.description
+  if (exam.opensAt !== undefined) row.opens_at = exam.opensAt.toISOString()
+  if (exam.closesAt !== undefined) row.closes_at = exam.closesAt.toISOString()
+  if (exam.durationMinutes !== undefined) row.duration_minutes = exam.durationMinutes
+  if (exam.scoringPolicy !== undefined) row.scoring_policy = exam.scoringPolicy
+  if (exam.settings !== undefined) row.settings = exam.settings
+  if (exam.createdBy !== undefined) row.created_by = exam.createdBy
+  if (exam.createdAt !== undefined) row.created_at = exam.createdAt.toISOString()
+
+  return row
+}
+
+export function invitationFromRow(row: InvitationRow): Invitation {
+  return invitationSchema.parse({
+    id: row.id,
+    examId: row.exam_id,
+    orgId: row.org_id,
+    candidateName: row.candidate_name,
+    candidateEmail: row.candidate_email,
+    status: row.status,
+    sessionId: row.session_id ?? undefined,
+    acceptedAt: row.accepted_at ?? undefined,
+    tokenId: row.token_id ?? undefined,
+    tokenExpiresAt: row.token_expires_at ?? undefined,
+    createdAt: row.created_at,
+  })
+}
+
+// Only the fields present on the (partial) invitation are written
+export function invitationToRow(invitation: Partial<Invitation>): Partial<InvitationRow> {
+  const row: Partial<InvitationRow> = {}
+
+  if (invitation.id !== undefined) row.id = invitation.id
+  if (invitation.examId !== undefined) row.exam_id = invitation.examId
+  if (invitation.orgId !== undefined) row.org_id = invitation.orgId
+  if (invitation.candidateName !== undefined) row.candidate_name = invitation.candidateName
+  if (invitation.candidateEmail !== undefined) row.candidate_email = invitation.candidateEmail
+  if (invitation.status !== undefined) row.status = invitation.status
+  if (invitation.sessionId !== undefined) row.session_id = invitation.sessionId
+  if (invitation.acceptedAt !== undefined) row.accepted_at = invitation.acceptedAt.toISOString()
+  if (invitation.tokenId !== undefined) row.token_id = invitation.tokenId
+  if (invitation.tokenExpiresAt !== undefined) row.token_expires_at = invitation.tokenExpiresAt.toISOString()
+  if (invitation.createdAt !== undefined) row.created_at = invitation.createdAt.toISOString()
+
+  return row
+}
+
+export function audioLevelFromRow(row: AudioLevelRow): AudioLevelSample {
+  return audioLevelSampleSchema.parse({
+    sessionId: row.session_id,
+    timestamp: row.recorded_at,
+    levelDb: row.level_db,
+    peakDb: row.peak_db,
+    speechRatio: row.speech_ratio,
+  })
+}
+
+export function audioLevelToRow(sample: AudioLevelSample): Omit<AudioLevelRow, "id"> {
+  return {
+    session_id: sample.sessionId,
+    recorded_at: sample.timestamp.toISOString(),
+    level_db: sample.levelDb,
+    peak_db: sample.peakDb,
+    speech_ratio: sample.speechRatio,
+  }
+}
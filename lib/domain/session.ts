@@ -0,0 +1,112 @@
+import { z } from "zod"
+import { proctoringSettingsInputSchema, proctoringSettingsSchema } from "./settings"
+import { recordingSchema } from "./recording"
+import { systemCheckSchema } from "./system-check"
+import { identityVerificationSchema } from "./identity"
+
+export const SESSION_STATUSES = ["active", "paused", "completed", "terminated"] as const
+export const VIDEO_QUALITIES = ["720p", "1080p"] as const
+
+export const sessionStatusSchema = z.enum(SESSION_STATUSES)
+export const videoQualitySchema = z.enum(VIDEO_QUALITIES)
+
+export const proctoringSessionSchema = z.object({
+  id: z.string(),
+  candidateName: z.string(),
+  startTime: z.coerce.date(),
+  endTime: z.coerce.date().optional(),
+  duration: z.number(),
+  status: sessionStatusSchema,
+  integrityScore: z.number(),
+  videoQuality: videoQualitySchema,
+  detectionEnabled: z.boolean(),
+  // Name of the scoring policy in lib/scoring used for the integrity score
+  scoringPolicy: z.string().default("standard"),
+  settings: proctoringSettingsSchema.default({}),
+  recording: recordingSchema.optional(),
+  // Latest device check run before the session started
+  systemCheck: systemCheckSchema.optional(),
+  // Latest identity check, for exams that require one
+  identityVerification: identityVerificationSchema.optional(),
+  // Set when a reviewer marks the session as reviewed
+  reviewedAt: z.coerce.date().optional(),
+  // User who took the session and the organization it belongs to; set from the
+  // signed-in user when the session is created
+  candidateId: z.string().optional(),
+  orgId: z.string().optional(),
+  // Exam the session was taken for; unset for practice sessions
+  examId: z.string().optional(),
+})
+
+// Request body of POST /api/sessions
+export const createSessionInputSchema = z.object({
+  candidateName: z.string().trim().min(1, "Candidate name is required"),
+  videoQuality: videoQualitySchema.default("720p"),
+  detectionEnabled: z.boolean().default(true),
+  scoringPolicy: z.string().optional(),
+  settings: proctoringSettingsInputSchema.optional(),
+  // Takes the exam's organization, scoring policy and settings instead of the two above
+  examId: z.string().optional(),
+})
+
+// Request body of PUT /api/sessions. The integrity score is computed by the
+// server, so it is rejected here along with any other unknown field.
+export const updateSessionInputSchema = z
+  .object({
+    sessionId: z.string().min(1, "Session ID is required"),
+    status: sessionStatusSchema.optional(),
+    duration: z.number().int().nonnegative().optional(),
+  })
+  .strict()
+
+export const SESSION_SORT_FIELDS = ["startTime", "integrityScore", "candidateName", "duration"] as const
+export const SORT_ORDERS = ["asc", "desc"] as const
+
+export const sessionSortFieldSchema = z.enum(SESSION_SORT_FIELDS)
+export const sortOrderSchema = z.enum(SORT_ORDERS)
+
+// Query string of GET /api/sessions. Results are paginated only when limit is given.
+export const sessionQuerySchema = z.object({
+  sessionId: z.string().optional(),
+  examId: z.string().optional(),
+  // Only honoured for admins; everyone else is limited to their own organization
+  orgId: z.string().optional(),
+  // Case-insensitive substring of the candidate name
+  search: z.string().trim().optional(),
+  status: sessionStatusSchema.optional(),
+  // Sessions started within [from, to]
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  minScore: z.coerce.number().min(0).max(100).optional(),
+  maxScore: z.coerce.number().min(0).max(100).optional(),
+  reviewed: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  sort: sessionSortFieldSchema.default("startTime"),
+  order: sortOrderSchema.default("desc"),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  // nextCursor of the previous page
+  cursor: z.string().optional(),
+})
+
+export const BULK_SESSION_ACTIONS = ["delete", "mark_reviewed", "export"] as const
+// json exports the sessions with their events; csv is a one-row-per-session summary
+export const SESSION_EXPORT_FORMATS = ["json", "csv"] as const
+
+// Request body of POST /api/sessions/bulk
+export const bulkSessionActionInputSchema = z.object({
+  action: z.enum(BULK_SESSION_ACTIONS),
+  sessionIds: z.array(z.string()).min(1, "Select at least one session").max(100, "Select at most 100 sessions"),
+  // Only used by export
+  format: z.enum(SESSION_EXPORT_FORMATS).default("json"),
+})
+
+export type SessionStatus = z.infer<typeof sessionStatusSchema>
+export type VideoQuality = z.infer<typeof videoQualitySchema>
+export type ProctoringSession = z.infer<typeof proctoringSessionSchema>
+export type CreateSessionInput = z.infer<typeof createSessionInputSchema>
+export type UpdateSessionInput = z.infer<typeof updateSessionInputSchema>
+export type SessionSortField = z.infer<typeof sessionSortFieldSchema>
+export type SortOrder = z.infer<typeof sortOrderSchema>
+export type SessionQuery = z.infer<typeof sessionQuerySchema>
+export type SessionQueryInput = z.input<typeof sessionQuerySchema>
+export type BulkSessionAction = z.infer<typeof bulkSessionActionInputSchema>["action"]
+export type SessionExportFormat = z.infer<typeof bulkSessionActionInputSchema>["format"]
@@ -0,0 +1,194 @@
+import { z } from "zod"
+import { detectionEventTypeSchema, severitySchema, type DetectionEventType } from "./event"
+
+export const OBJECT_ACTIONS = ["forbidden", "allowed", "logged"] as const
+
+export const objectActionSchema = z.enum(OBJECT_ACTIONS)
+
+// How one detector class (COCO label, e.g. "cell phone") is treated
+export const objectClassRuleSchema = z.object({
+  action: objectActionSchema,
+  minConfidence: z.number().min(0).max(1),
+  severity: severitySchema,
+  eventType: detectionEventTypeSchema,
+})
+
+// Classes without a rule are ignored
+export const objectPolicySchema = z.object({
+  name: z.string(),
+  rules: z.record(objectClassRuleSchema),
+})
+
+export type ObjectAction = z.infer<typeof objectActionSchema>
+export type ObjectClassRule = z.infer<typeof objectClassRuleSchema>
+export type ObjectPolicy = z.infer<typeof objectPolicySchema>
+
+// Whether an event reports an object class the policy marks as "logged", under the
+// event type the policy gives it. Such events are kept for review but not scored.
+export function isLoggedObjectEvent(policy: ObjectPolicy, type: DetectionEventType, objectClass: unknown) {
+  if (typeof objectClass !== "string") return false
+  const rule = policy.rules[objectClass.toLowerCase()]
+  return rule?.action === "logged" && rule.eventType === type
+}
+
+const CLOSED_BOOK_RULES: Record<string, ObjectClassRule> = {
+  "cell phone": { action: "forbidden", minConfidence: 0.6, severity: "high", eventType: "phone_detected" },
+  book: { action: "forbidden", minConfidence: 0.6, severity: "medium", eventType: "notes_detected" },
+  laptop: { action: "forbidden", minConfidence: 0.7, severity: "medium", eventType: "suspicious_object" },
+  tv: { action: "logged", minConfidence: 0.7, severity: "low", eventType: "suspicious_object" },
+  remote: { action: "logged", minConfidence: 0.7, severity: "low", eventType: "suspicious_object" },
+}
+
+export const OBJECT_POLICY_PRESETS = {
+  closed_book: {
+    name: "closed_book",
+    rules: CLOSED_BOOK_RULES,
+  },
+  open_book: {
+    name: "open_book",
+    rules: {
+      ...CLOSED_BOOK_RULES,
+      book: { ...CLOSED_BOOK_RULES.book, action: "allowed" },
+    },
+  },
+} satisfies Record<string, ObjectPolicy>
+
+export type ObjectPolicyPreset = keyof typeof OBJECT_POLICY_PRESETS
+
+// When the candidate counts as looking away. Angles and gaze offsets are
+// tolerances beyond the extents measured during calibration.
+export const attentionSettingsSchema = z.object({
+  maxYawDeg: z.number().positive().default(20),
+  maxPitchDeg: z.number().positive().default(15),
+  // Iris offset within the eye, in half eye widths
+  maxGazeOffset: z.number().positive().default(0.35),
+  // How long attention must stay off-screen before focus_lost is raised
+  dwellMs: z.number().int().nonnegative().default(5000),
+})
+
+export type AttentionSettings = z.infer<typeof attentionSettingsSchema>
+
+// Eye closure classification from the eye aspect ratio (EAR)
+export const eyeSettingsSchema = z.object({
+  // EAR below which the eyes count as closed
+  closedThreshold: z.number().positive().max(1).default(0.2),
+  // Closures up to this long are blinks
+  maxBlinkMs: z.number().int().positive().default(400),
+  // Closures at least this long raise eyes_closed
+  minClosureMs: z.number().int().positive().default(2000),
+})
+
+export type EyeSettings = z.infer<typeof eyeSettingsSchema>
+
+// How frame-level detections are grouped into incidents
+export const incidentSettingsSchema = z.object({
+  // An incident closes once its condition has not been seen for this long
+  graceMs: z.number().int().nonnegative().default(3000),
+})
+
+export type IncidentSettings = z.infer<typeof incidentSettingsSchema>
+
+// Snapshots taken when an incident opens and at its peak confidence
+export const evidenceSettingsSchema = z.object({
+  enabled: z.boolean().default(true),
+  // Only incidents at least this severe are captured
+  minSeverity: severitySchema.default("high"),
+  // Minimum time between two snapshots of the same incident
+  peakIntervalMs: z.number().int().nonnegative().default(5000),
+  // Upper bound on snapshots per session
+  maxPerSession: z.number().int().nonnegative().default(100),
+  // Burn the face and object boxes into the image
+  drawBoxes: z.boolean().default(true),
+  jpegQuality: z.number().min(0.1).max(1).default(0.8),
+  // Snapshots are deleted this many days after capture
+  retentionDays: z.number().int().positive().default(30),
+})
+
+export type EvidenceSettings = z.infer<typeof evidenceSettingsSchema>
+
+// Monitoring of the candidate's browser window: tab switches, window focus,
+// fullscreen, clipboard and developer tools
+export const browserSettingsSchema = z.object({
+  // Sessions only start in fullscreen, and leaving it raises fullscreen_exit
+  requireFullscreen: z.boolean().default(false),
+  // Shorter tab switches, focus losses and fullscreen exits are not reported
+  minEpisodeMs: z.number().int().nonnegative().default(500),
+  // Docked developer tools show as a gap this wide between the window's outer and inner size
+  devtoolsGapPx: z.number().int().positive().default(160),
+})
+
+export type BrowserSettings = z.infer<typeof browserSettingsSchema>
+
+// Voice activity detection on the microphone, run in the candidate's browser.
+// Levels are RMS in dBFS (0 is full scale).
+export const audioSettingsSchema = z.object({
+  // Off for oral interviews, where the candidate is expected to talk
+  enabled: z.boolean().default(true),
+  // Voiced sound louder than this counts as speech
+  speechThresholdDb: z.number().max(0).default(-50),
+  // Speech lasting at least this long raises speech_detected
+  minSpeechMs: z.number().int().positive().default(3000),
+  // Voices whose pitch differs by at least this much count as different speakers
+  speakerPitchGapHz: z.number().positive().default(70),
+  // Other sound louder than this is background noise
+  noiseThresholdDb: z.number().max(0).default(-30),
+  // Noise lasting at least this long raises background_noise
+  minNoiseMs: z.number().int().positive().default(2000),
+})
+
+export type AudioSettings = z.infer<typeof audioSettingsSchema>
+
+// Identity check before the session (ID photo against a selfie) and re-verification
+// of the live face against the selfie while it runs. Match scores run from 0 to 1.
+export const identitySettingsSchema = z.object({
+  enabled: z.boolean().default(false),
+  // Scores below this fail the check or raise identity_mismatch
+  matchThreshold: z.number().min(0).max(1).default(0.6),
+  // How often the live face is compared with the selfie
+  reverifyIntervalMs: z.number().int().min(5000).default(60_000),
+  // The ID photo and selfie are deleted this many days after capture, whatever
+  // settings.evidence.retentionDays says about incident snapshots
+  retentionDays: z.number().int().positive().default(30),
+})
+
+export type IdentitySettings = z.infer<typeof identitySettingsSchema>
+
+// Per-exam detection settings stored on the session
+export const proctoringSettingsSchema = z.object({
+  objectPolicy: objectPolicySchema.default(OBJECT_POLICY_PRESETS.closed_book),
+  attention: attentionSettingsSchema.default({}),
+  eyes: eyeSettingsSchema.default({}),
+  incidents: incidentSettingsSchema.default({}),
+  evidence: evidenceSettingsSchema.default({}),
+  browser: browserSettingsSchema.default({}),
+  audio: audioSettingsSchema.default({}),
+  identity: identitySettingsSchema.default({}),
+})
+
+// Accepted on session creation: presets may be referenced by name
+export const proctoringSettingsInputSchema = z.object({
+  objectPolicy: z
+    .union([z.enum(Object.keys(OBJECT_POLICY_PRESETS) as [ObjectPolicyPreset]), objectPolicySchema])
+    .optional(),
+  attention: attentionSettingsSchema.optional(),
+  eyes: eyeSettingsSchema.optional(),
+  incidents: incidentSettingsSchema.optional(),
+  evidence: evidenceSettingsSchema.optional(),
+  browser: browserSettingsSchema.optional(),
+  audio: audioSettingsSchema.optional(),
+  identity: identitySettingsSchema.optional(),
+})
+
+export type ProctoringSettings = z.infer<typeof proctoringSettingsSchema>
+export type ProctoringSettingsInput = z.infer<typeof proctoringSettingsInputSchema>
+
+export const DEFAULT_PROCTORING_SETTINGS: ProctoringSettings = proctoringSettingsSchema.parse({})
+
+export function resolveProctoringSettings(input: ProctoringSettingsInput = {}): ProctoringSettings {
+  const { objectPolicy, ...rest } = input
+
+  return proctoringSettingsSchema.parse({
+    ...rest,
+    objectPolicy: typeof objectPolicy === "string" ? OBJECT_POLICY_PRESETS[objectPolicy] : objectPolicy,
+  })
+}
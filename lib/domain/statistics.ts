@@ -0,0 +1,13 @@
+import { z } from "zod"
+
+export const sessionStatisticsSchema = z.object({
+  sessionId: z.string(),
+  totalFocusLossEvents: z.number(),
+  totalMultipleFaceEvents: z.number(),
+  totalSuspiciousObjectEvents: z.number(),
+  totalNoFaceEvents: z.number(),
+  averageConfidence: z.number(),
+  updatedAt: z.coerce.date(),
+})
+
+export type SessionStatistics = z.infer<typeof sessionStatisticsSchema>
@@ -0,0 +1,58 @@
+import { z } from "zod"
+
+// What the pre-session wizard checks, in the order it runs them
+export const SYSTEM_CHECK_NAMES = ["camera", "microphone", "resolution", "lighting", "face", "audio_level", "codec"] as const
+export const SYSTEM_CHECK_STATUSES = ["passed", "warning", "failed"] as const
+
+export const systemCheckNameSchema = z.enum(SYSTEM_CHECK_NAMES)
+export const systemCheckStatusSchema = z.enum(SYSTEM_CHECK_STATUSES)
+
+export const systemCheckItemSchema = z.object({
+  name: systemCheckNameSchema,
+  status: systemCheckStatusSchema,
+  // What the candidate was shown, e.g. "1280×720, below the selected 1080p"
+  message: z.string().max(500),
+})
+
+const checkedDeviceSchema = z.object({
+  deviceId: z.string(),
+  label: z.string(),
+})
+
+// Outcome of the device check the candidate ran before the session started
+export const systemCheckSchema = z.object({
+  checkedAt: z.coerce.date(),
+  // False when any check failed; warnings do not hold the session back
+  passed: z.boolean(),
+  camera: checkedDeviceSchema.optional(),
+  microphone: checkedDeviceSchema.optional(),
+  // Format the recording is made in
+  mimeType: z.string().optional(),
+  checks: z.array(systemCheckItemSchema),
+})
+
+// Request body of POST /api/sessions/:id/system-check. The server stamps the time
+// and works out whether the check passed.
+export const recordSystemCheckInputSchema = systemCheckSchema.omit({ checkedAt: true, passed: true }).extend({
+  checks: z.array(systemCheckItemSchema).min(1, "At least one check is required").max(SYSTEM_CHECK_NAMES.length),
+})
+
+export type SystemCheckName = z.infer<typeof systemCheckNameSchema>
+export type SystemCheckStatus = z.infer<typeof systemCheckStatusSchema>
+export type SystemCheckItem = z.infer<typeof systemCheckItemSchema>
+export type SystemCheck = z.infer<typeof systemCheckSchema>
+export type RecordSystemCheckInput = z.infer<typeof recordSystemCheckInputSchema>
+
+export const SYSTEM_CHECK_LABELS: Record<SystemCheckName, string> = {
+  camera: "Camera",
+  microphone: "Microphone",
+  resolution: "Resolution",
+  lighting: "Lighting",
+  face: "Face in view",
+  audio_level: "Microphone level",
+  codec: "Recording format",
+}
+
+export function systemCheckPassed(checks: SystemCheckItem[]) {
+  return checks.every((check) => check.status !== "failed")
+}
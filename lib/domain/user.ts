@@ -0,0 +1,32 @@
+import { z } from "zod"
+
+export const USER_ROLES = ["candidate", "proctor", "reviewer", "admin", "org_owner"] as const
+
+export const userRoleSchema = z.enum(USER_ROLES)
+
+// Signed-in user with the role and organization from their profile
+export const authUserSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  name: z.string(),
+  role: userRoleSchema,
+  // Unset for admins, who are not bound to an organization
+  orgId: z.string().optional(),
+})
+
+// Request body of POST /api/auth/login. The local dev provider ignores the password.
+export const loginInputSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email address"),
+  password: z.string().default(""),
+})
+
+export type UserRole = z.infer<typeof userRoleSchema>
+export type AuthUser = z.infer<typeof authUserSchema>
+export type LoginInput = z.infer<typeof loginInputSchema>
+
+// Roles that watch or review other people's sessions
+export const STAFF_ROLES: UserRole[] = ["proctor", "reviewer", "admin", "org_owner"]
+// Roles that may change sessions and add events, recordings and evidence to them
+export const SESSION_WRITER_ROLES: UserRole[] = ["candidate", "proctor", "admin", "org_owner"]
+// Roles that may delete sessions and events
+export const MANAGER_ROLES: UserRole[] = ["admin", "org_owner"]
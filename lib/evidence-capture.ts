@@ -0,0 +1,84 @@
+import { SEVERITIES, type EvidenceSettings, type Severity } from "@/lib/domain"
+import type { DetectionResults } from "@/lib/detection"
+
+export interface SnapshotOptions {
+  // Burn the face and object boxes into the image
+  drawBoxes: boolean
+  // JPEG quality, 0 to 1
+  quality: number
+}
+
+// Encodes the frame the detectors last ran on; null before the first frame
+export type CaptureSnapshot = (options: SnapshotOptions) => Promise<Blob | null>
+
+const FACE_COLOR = "#22c55e"
+const VIOLATION_COLOR = "#ef4444"
+
+// Copies the frame so drawing boxes leaves the detection canvas untouched
+export function renderSnapshot(
+  frame: HTMLCanvasElement,
+  results: DetectionResults | null,
+  options: SnapshotOptions,
+): Promise<Blob | null> {
+  if (frame.width === 0 || frame.height === 0) return Promise.resolve(null)
+
+  const canvas = document.createElement("canvas")
+  canvas.width = frame.width
+  canvas.height = frame.height
+  const ctx = canvas.getContext("2d")
+  if (!ctx) return Promise.resolve(null)
+
+  ctx.drawImage(frame, 0, 0)
+
+  if (options.drawBoxes && results) {
+    ctx.lineWidth = Math.max(2, Math.round(canvas.width / 320))
+    ctx.font = `${Math.max(12, Math.round(canvas.width / 50))}px sans-serif`
+
+    const faceColor = results.multipleFaces ? VIOLATION_COLOR : FACE_COLOR
+    results.faces.forEach((face) => drawBox(ctx, face.box, faceColor, `face ${Math.round(face.confidence * 100)}%`))
+    results.objects.forEach((object) =>
+      drawBox(ctx, object.box, VIOLATION_COLOR, `${object.class} ${Math.round(object.confidence * 100)}%`),
+    )
+  }
+
+  return new Promise((resolve) => canvas.toBlob(resolve, "image/jpeg", options.quality))
+}
+
+function drawBox(
+  ctx: CanvasRenderingContext2D,
+  box: { x: number; y: number; width: number; height: number },
+  color: string,
+  label: string,
+) {
+  ctx.strokeStyle = color
+  ctx.strokeRect(box.x, box.y, box.width, box.height)
+
+  const textHeight = parseInt(ctx.font, 10) + 4
+  const labelY = box.y >= textHeight ? box.y - textHeight : box.y
+  ctx.fillStyle = color
+  ctx.fillRect(box.x, labelY, ctx.measureText(label).width + 8, textHeight)
+  ctx.fillStyle = "#ffffff"
+  ctx.fillText(label, box.x + 4, labelY + textHeight - 5)
+}
+
+// Decides which incident openings and peaks get a snapshot, following the exam's
+// evidence settings: severe enough, not too soon after the incident's previous
+// snapshot, and within the per-session limit.
+export class EvidenceCapturePolicy {
+  private readonly lastCaptureByIncident = new Map<string, number>()
+  private captured = 0
+
+  constructor(private readonly settings: EvidenceSettings) {}
+
+  shouldCapture(incidentId: string, severity: Severity, now = Date.now()) {
+    if (!this.settings.enabled || this.captured >= this.settings.maxPerSession) return false
+    if (SEVERITIES.indexOf(severity) < SEVERITIES.indexOf(this.settings.minSeverity)) return false
+
+    const lastCapture = this.lastCaptureByIncident.get(incidentId)
+    if (lastCapture !== undefined && now - lastCapture < this.settings.peakIntervalMs) return false
+
+    this.lastCaptureByIncident.set(incidentId, now)
+    this.captured++
+    return true
+  }
+}
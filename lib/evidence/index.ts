@@ -0,0 +1,130 @@
+import type { BlobStore } from "@/lib/blob-store"
+import type { ProctoringRepository } from "@/lib/repository"
+import type { Evidence, ProctoringSession } from "@/lib/domain"
+
+// Incident snapshots, or the ID photo and selfie of the identity check, which are
+// kept for settings.identity.retentionDays instead
+export type EvidenceKind = "snapshot" | "identity"
+
+// Snapshots are single JPEG frames; anything this large is not one of ours
+export const MAX_SNAPSHOT_BYTES = 2 * 1024 * 1024
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Ids start with the kind prefix, if any, and the capture time, so retention can be
+// enforced from the key alone
+const EVIDENCE_ID_PATTERN = /^(?:identity-)?(\d+)-[a-z0-9]+$/
+const IDENTITY_ID_PREFIX = "identity-"
+
+function evidencePrefix(sessionId: string) {
+  return `evidence/${sessionId}/`
+}
+
+function evidenceKey(sessionId: string, evidenceId: string) {
+  return `${evidencePrefix(sessionId)}${evidenceId}.jpg`
+}
+
+function evidenceIdOf(key: string) {
+  return key.slice(key.lastIndexOf("/") + 1).replace(/\.jpg$/, "")
+}
+
+function capturedAtOf(evidenceId: string) {
+  const match = EVIDENCE_ID_PATTERN.exec(evidenceId)
+  return match ? new Date(Number(match[1])) : null
+}
+
+function expiresAtOf(session: ProctoringSession, evidenceId: string, capturedAt: Date) {
+  const retentionDays = evidenceId.startsWith(IDENTITY_ID_PREFIX)
+    ? session.settings.identity.retentionDays
+    : session.settings.evidence.retentionDays
+  return new Date(capturedAt.getTime() + retentionDays * DAY_MS)
+}
+
+export async function saveEvidence(
+  store: BlobStore,
+  session: ProctoringSession,
+  data: Uint8Array,
+  contentType: string,
+  kind: EvidenceKind = "snapshot",
+  capturedAt = new Date(),
+): Promise<Evidence> {
+  const prefix = kind === "identity" ? IDENTITY_ID_PREFIX : ""
+  const id = `${prefix}${capturedAt.getTime()}-${Math.random().toString(36).substr(2, 9)}`
+  await store.put(evidenceKey(session.id, id), data, contentType)
+
+  return {
+    id,
+    sessionId: session.id,
+    contentType,
+    size: data.byteLength,
+    capturedAt,
+    expiresAt: expiresAtOf(session, id, capturedAt),
+  }
+}
+
+// Unknown ids and snapshots past their retention period are never served, even if not yet purged
+function isRetained(session: ProctoringSession, evidenceId: string, now: Date) {
+  const capturedAt = capturedAtOf(evidenceId)
+  return capturedAt !== null && expiresAtOf(session, evidenceId, capturedAt) > now
+}
+
+export async function getEvidence(store: BlobStore, session: ProctoringSession, evidenceId: string, now = new Date()) {
+  if (!isRetained(session, evidenceId, now)) return null
+
+  return store.getStream(evidenceKey(session.id, evidenceId))
+}
+
+// Whole image in memory, for embedding in generated reports
+export async function readEvidence(store: BlobStore, session: ProctoringSession, evidenceId: string, now = new Date()) {
+  if (!isRetained(session, evidenceId, now)) return null
+
+  return store.get(evidenceKey(session.id, evidenceId))
+}
+
+export async function listEvidence(
+  store: BlobStore,
+  session: ProctoringSession,
+  now = new Date(),
+): Promise<Evidence[]> {
+  const keys = await store.list(evidencePrefix(session.id))
+  const evidence = await Promise.all(
+    keys.map(async (key): Promise<Evidence | null> => {
+      const id = evidenceIdOf(key)
+      const capturedAt = capturedAtOf(id)
+      if (!capturedAt || expiresAtOf(session, id, capturedAt) <= now) return null
+
+      const info = await store.stat(key)
+      if (!info) return null
+
+      return { id, sessionId: session.id, ...info, capturedAt, expiresAt: expiresAtOf(session, id, capturedAt) }
+    }),
+  )
+
+  return evidence.filter((item): item is Evidence => item !== null)
+}
+
+// Deletes every snapshot and identity image past its session's retention period;
+// returns how many were removed
+export async function purgeExpiredEvidence(store: BlobStore, repository: ProctoringRepository, now = new Date()) {
+  let deleted = 0
+
+  const { sessions } = await repository.listSessions()
+  for (const session of sessions) {
+    const keys = await store.list(evidencePrefix(session.id))
+    const expired = keys.filter((key) => {
+      const id = evidenceIdOf(key)
+      const capturedAt = capturedAtOf(id)
+      return capturedAt !== null && expiresAtOf(session, id, capturedAt) <= now
+    })
+
+    await Promise.all(expired.map((key) => store.delete(key)))
+    deleted += expired.length
+  }
+
+  return deleted
+}
+
+export async function deleteEvidence(store: BlobStore, sessionId: string) {
+  const keys = await store.list(evidencePrefix(sessionId))
+  await Promise.all(keys.map((key) => store.delete(key)))
+}
@@ -0,0 +1,147 @@
+import { isAuditEvent, type DetectionEvent, type Incident, type Severity } from "@/lib/domain"
+
+const SEVERITY_RANK: Record<Severity, number> = { low: 0, medium: 1, high: 2 }
+
+export interface IncidentUpdate {
+  incident: Incident
+  change: "opened" | "extended"
+  // The event raised the incident's peak confidence
+  newPeak: boolean
+}
+
+// Events belong to the same incident while they share a type and, for objects,
+// a class. Episode events (with metadata.durationMs) already span their own
+// duration and, like audit events, always form an incident of their own.
+function incidentKey(event: DetectionEvent) {
+  if (isEpisodeEvent(event) || isAuditEvent(event.type)) return `${event.type}:${event.id}`
+  const objectClass = event.metadata?.objectClass
+  return typeof objectClass === "string" ? `${event.type}:${objectClass}` : event.type
+}
+
+function isEpisodeEvent(event: DetectionEvent) {
+  return typeof event.metadata?.durationMs === "number"
+}
+
+// The candidate's page groups its detections into incidents itself and logs the events
+// that open and close one, and batches of the frames in between, all with the
+// incident's id in metadata.incidentId.
+// The closing event also says how long the page saw the incident (incidentDurationMs),
+// since it is only sent once the grace period has passed. The id only joins events of
+// the same kind, so one incident cannot swallow detections of another type or class.
+function reportedIncidentKey(event: DetectionEvent) {
+  const incidentId = event.metadata?.incidentId
+  return typeof incidentId === "string" ? `${incidentKey(event)}#${incidentId}` : null
+}
+
+// Groups detection events into incidents: an incident opens when a condition is
+// first seen, is extended while it keeps being seen, and closes once it has not
+// been seen for graceMs. Events must be observed in timestamp order.
+export class IncidentTracker {
+  private readonly open = new Map<string, Incident>()
+  private readonly closed: Incident[] = []
+  // Incidents by the id the candidate's page reported them with and their kind, open or closed
+  private readonly reported = new Map<string, Incident>()
+
+  constructor(private readonly graceMs: number) {}
+
+  observe(event: DetectionEvent): IncidentUpdate {
+    const timestamp = new Date(event.timestamp)
+    this.closeExpired(timestamp)
+
+    const reportedKey = reportedIncidentKey(event)
+    const reported = reportedKey ? this.reported.get(reportedKey) : undefined
+    if (reported) {
+      // An incident cannot have lasted past the event reporting it
+      const reportedDurationMs = event.metadata?.incidentDurationMs
+      const endedAt =
+        typeof reportedDurationMs === "number"
+          ? new Date(Math.min(reported.startedAt.getTime() + Math.max(0, reportedDurationMs), timestamp.getTime()))
+          : timestamp
+      return this.extend(reported, event, endedAt)
+    }
+
+    const key = incidentKey(event)
+    const existing = this.open.get(key)
+
+    if (existing) {
+      return this.extend(existing, event, timestamp)
+    }
+
+    const durationMs = isEpisodeEvent(event) ? (event.metadata!.durationMs as number) : 0
+    const incident: Incident = {
+      id: `incident_${event.id}`,
+      sessionId: event.sessionId,
+      type: event.type,
+      severity: event.severity,
+      description: event.description,
+      startedAt: new Date(timestamp.getTime() - durationMs),
+      endedAt: timestamp,
+      durationMs,
+      peakConfidence: event.confidence,
+      eventIds: [event.id],
+      informational: event.metadata?.informational === true,
+      objectClass: typeof event.metadata?.objectClass === "string" ? event.metadata.objectClass : undefined,
+    }
+
+    if (isEpisodeEvent(event)) {
+      this.closed.push(incident)
+    } else {
+      this.open.set(key, incident)
+    }
+    if (reportedKey) this.reported.set(reportedKey, incident)
+
+    return { incident, change: "opened", newPeak: event.confidence !== undefined }
+  }
+
+  private extend(incident: Incident, event: DetectionEvent, endedAt: Date): IncidentUpdate {
+    const newPeak = event.confidence !== undefined && event.confidence > (incident.peakConfidence ?? -1)
+    if (endedAt > incident.endedAt) incident.endedAt = endedAt
+    incident.durationMs = incident.endedAt.getTime() - incident.startedAt.getTime()
+    incident.eventIds.push(event.id)
+    incident.informational = incident.informational && event.metadata?.informational === true
+    if (newPeak) incident.peakConfidence = event.confidence
+    if (SEVERITY_RANK[event.severity] > SEVERITY_RANK[incident.severity]) incident.severity = event.severity
+
+    return { incident, change: "extended", newPeak }
+  }
+
+  // Closes the incidents not seen within the grace period before `now`
+  closeExpired(now: Date): Incident[] {
+    const expired: Incident[] = []
+
+    for (const [key, incident] of this.open) {
+      if (now.getTime() - incident.endedAt.getTime() > this.graceMs) {
+        this.open.delete(key)
+        this.closed.push(incident)
+        expired.push(incident)
+      }
+    }
+
+    return expired
+  }
+
+  // Closes every open incident, e.g. when the session ends
+  closeAll(): Incident[] {
+    const remaining = [...this.open.values()]
+    this.open.clear()
+    this.closed.push(...remaining)
+    return remaining
+  }
+
+  // Every incident seen so far, open ones included, ordered by start
+  incidents(): Incident[] {
+    return [...this.closed, ...this.open.values()].sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime())
+  }
+}
+
+// Incidents of a session from its stored detection events
+export function buildIncidents(events: DetectionEvent[], graceMs: number): Incident[] {
+  const tracker = new IncidentTracker(graceMs)
+  const sorted = [...events].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+
+  for (const event of sorted) {
+    tracker.observe(event)
+  }
+
+  return tracker.incidents()
+}
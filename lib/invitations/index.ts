@@ -0,0 +1,113 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto"
+import type { ProctoringRepository } from "@/lib/repository"
+import type { AuthUser, Exam, Invitation, InvitationLink, ProctoringSession } from "@/lib/domain"
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Why a token was refused, with the response a route gives for it
+export const INVITATION_TOKEN_ERRORS = {
+  invalid: { status: 404, message: "This invitation link is not valid" },
+  used: { status: 409, message: "This invitation link has already been used" },
+  revoked: { status: 410, message: "This invitation has been revoked" },
+  expired: { status: 410, message: "This invitation link has expired" },
+} as const
+
+export type InvitationTokenError = keyof typeof INVITATION_TOKEN_ERRORS
+
+export type ResolvedInvitation =
+  | { invitation: Invitation; exam: Exam; tokenId: string; error?: undefined }
+  | { error: InvitationTokenError }
+
+// Tokens are "<invitationId>.<tokenId>.<expiresAt>.<signature>"; ids never contain dots
+function signToken(payload: string, secret: string) {
+  return `${payload}.${createHmac("sha256", secret).update(`invitation:${payload}`).digest("base64url")}`
+}
+
+function verifyToken(token: string, secret: string) {
+  const [invitationId, tokenId, expiresAt, signature, ...rest] = token.split(".")
+  if (!invitationId || !tokenId || !expiresAt || !signature || rest.length > 0) return null
+
+  const expected = Buffer.from(signToken(`${invitationId}.${tokenId}.${expiresAt}`, secret))
+  const actual = Buffer.from(token)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+
+  return { invitationId, tokenId, expiresAt: new Date(Number(expiresAt)) }
+}
+
+// Issues a new link for the invitation, replacing any earlier one. Links never
+// outlive the exam's window.
+export async function issueInvitationLink(
+  repository: ProctoringRepository,
+  invitation: Invitation,
+  exam: Exam,
+  secret: string,
+  expiresInHours: number,
+  now = new Date(),
+): Promise<InvitationLink> {
+  const expiresAt = new Date(Math.min(now.getTime() + expiresInHours * HOUR_MS, exam.closesAt.getTime()))
+  const tokenId = randomBytes(12).toString("base64url")
+
+  await repository.updateInvitation(invitation.id, { tokenId, tokenExpiresAt: expiresAt })
+
+  const token = signToken(`${invitation.id}.${tokenId}.${expiresAt.getTime()}`, secret)
+  return { token, path: `/join/${token}`, expiresAt }
+}
+
+// The invitation and exam a token was issued for. Only the link issued last is
+// valid, and only until it expires or the invitation is accepted or revoked.
+export async function resolveInvitationToken(
+  repository: ProctoringRepository,
+  token: string,
+  secret: string,
+  now = new Date(),
+): Promise<ResolvedInvitation> {
+  const payload = verifyToken(token, secret)
+  if (!payload) return { error: "invalid" }
+
+  const invitation = await repository.getInvitation(payload.invitationId)
+  if (!invitation || invitation.tokenId !== payload.tokenId) return { error: "invalid" }
+  if (invitation.status === "revoked") return { error: "revoked" }
+  if (invitation.status === "accepted") return { error: "used" }
+  if (payload.expiresAt <= now) return { error: "expired" }
+
+  const exam = await repository.getExam(invitation.examId)
+  if (!exam) return { error: "invalid" }
+
+  return { invitation, exam, tokenId: payload.tokenId }
+}
+
+// Accepts the invitation and starts the candidate's session for the exam, bound to
+// the invited name. Null when the link was used in the meantime.
+export async function acceptInvitation(
+  repository: ProctoringRepository,
+  user: AuthUser,
+  { invitation, exam, tokenId }: { invitation: Invitation; exam: Exam; tokenId: string },
+  now = new Date(),
+): Promise<ProctoringSession | null> {
+  const claimed = await repository.claimInvitation(invitation.id, tokenId, now)
+  if (!claimed) return null
+
+  try {
+    const session = await repository.createSession({
+      candidateName: invitation.candidateName,
+      startTime: now,
+      duration: 0,
+      status: "active",
+      integrityScore: 100,
+      videoQuality: "720p",
+      detectionEnabled: true,
+      scoringPolicy: exam.scoringPolicy,
+      settings: exam.settings,
+      candidateId: user.id,
+      orgId: exam.orgId,
+      examId: exam.id,
+    })
+
+    await repository.linkInvitationSession(invitation.id, session.id)
+    return session
+  } catch (error) {
+    // Give the candidate the chance to retry with the same link
+    await repository.releaseInvitation(invitation.id)
+    throw error
+  }
+}
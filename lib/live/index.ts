@@ -0,0 +1,57 @@
+import { isLiveSession, type LiveMessage, type LiveStatus } from "@/lib/domain"
+
+type Listener = (message: Exclude<LiveMessage, { type: "snapshot" }>) => void
+
+// In-process fan-out of session changes, detection events and candidate statuses to
+// the monitoring streams. Only reaches streams served by the same server process.
+export class LiveHub {
+  private listeners = new Set<Listener>()
+  // Last status reported for each session in progress, for the snapshot of new streams
+  private statuses = new Map<string, LiveStatus>()
+
+  subscribe(listener: Listener) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  publish(message: Exclude<LiveMessage, { type: "snapshot" }>) {
+    if (message.type === "status") {
+      this.statuses.set(message.session.id, message.status)
+    } else if (message.type === "removed" || (message.type === "session" && !isLiveSession(message.session))) {
+      this.statuses.delete(message.session.id)
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(message)
+      } catch (error) {
+        // A stream that failed to write is dropped by its own cleanup
+        console.error("Live listener failed:", error)
+      }
+    }
+  }
+
+  getStatus(sessionId: string) {
+    return this.statuses.get(sessionId) ?? null
+  }
+}
+
+declare global {
+  // Shared across route bundles, like the repository
+  var proctoringLiveHub: LiveHub | undefined
+}
+
+export function getLiveHub(): LiveHub {
+  if (!globalThis.proctoringLiveHub) {
+    globalThis.proctoringLiveHub = new LiveHub()
+  }
+
+  return globalThis.proctoringLiveHub
+}
+
+// One Server-Sent Events frame
+export function formatSse(message: LiveMessage) {
+  return `event: ${message.type}\ndata: ${JSON.stringify(message)}\n\n`
+}
@@ -0,0 +1,120 @@
+import { ApiClient } from "@/lib/api-client"
+import type { ProctoringSession } from "@/lib/domain"
+
+const MAX_RETRY_DELAY_MS = 30_000
+
+export interface UploadProgress {
+  uploaded: number
+  pending: number
+}
+
+// Uploads MediaRecorder chunks to the server in sequence order as they are
+// produced. Chunks stay in memory only until the server has acknowledged them;
+// failed uploads are retried with backoff and resumed when the browser comes
+// back online, skipping whatever the server already has.
+export class RecordingUploader {
+  private readonly pending = new Map<number, Blob>()
+  private nextSequence = 0
+  private uploaded = 0
+  private isUploading = false
+  private retryDelayMs = 1000
+  private retryTimer: ReturnType<typeof setTimeout> | null = null
+  private idleWaiters: (() => void)[] = []
+
+  constructor(
+    private readonly sessionId: string,
+    private readonly onProgress?: (progress: UploadProgress) => void,
+  ) {
+    window.addEventListener("online", this.handleOnline)
+  }
+
+  add(chunk: Blob) {
+    this.pending.set(this.nextSequence++, chunk)
+    this.reportProgress()
+    this.pump()
+  }
+
+  // Asks the server which chunks it holds and uploads the rest
+  async resume() {
+    const { receivedSequences } = await ApiClient.getRecordingStatus(this.sessionId)
+    for (const sequence of receivedSequences) {
+      if (this.pending.delete(sequence)) this.uploaded++
+    }
+    this.reportProgress()
+    this.retryNow()
+  }
+
+  // Waits for every chunk to upload, then has the server assemble the recording
+  async finish(): Promise<ProctoringSession> {
+    await this.waitUntilIdle()
+
+    const result = await ApiClient.completeRecording(this.sessionId, this.nextSequence)
+    if ("missing" in result) {
+      throw new Error(`Server is missing recording chunks ${result.missing.join(", ")}`)
+    }
+
+    this.dispose()
+    return result.session
+  }
+
+  dispose() {
+    window.removeEventListener("online", this.handleOnline)
+    if (this.retryTimer) clearTimeout(this.retryTimer)
+    this.retryTimer = null
+  }
+
+  private handleOnline = () => {
+    this.resume().catch(() => this.scheduleRetry())
+  }
+
+  private retryNow() {
+    if (this.retryTimer) clearTimeout(this.retryTimer)
+    this.retryTimer = null
+    this.retryDelayMs = 1000
+    this.pump()
+  }
+
+  private async pump() {
+    if (this.isUploading || this.retryTimer) return
+    this.isUploading = true
+
+    try {
+      while (this.pending.size > 0) {
+        const sequence = Math.min(...this.pending.keys())
+        await ApiClient.uploadRecordingChunk(this.sessionId, sequence, this.pending.get(sequence)!)
+        this.pending.delete(sequence)
+        this.uploaded++
+        this.retryDelayMs = 1000
+        this.reportProgress()
+      }
+    } catch (error) {
+      console.error("Recording chunk upload failed:", error)
+      this.scheduleRetry()
+    } finally {
+      this.isUploading = false
+    }
+
+    if (this.pending.size === 0) {
+      this.idleWaiters.forEach((resolve) => resolve())
+      this.idleWaiters = []
+    }
+  }
+
+  private scheduleRetry() {
+    if (this.retryTimer) return
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null
+      this.pump()
+    }, this.retryDelayMs)
+    this.retryDelayMs = Math.min(this.retryDelayMs * 2, MAX_RETRY_DELAY_MS)
+  }
+
+  private waitUntilIdle() {
+    if (this.pending.size === 0 && !this.isUploading) return Promise.resolve()
+    return new Promise<void>((resolve) => this.idleWaiters.push(resolve))
+  }
+
+  private reportProgress() {
+    this.onProgress?.({ uploaded: this.uploaded, pending: this.pending.size })
+  }
+}
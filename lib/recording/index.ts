@@ -0,0 +1,164 @@
+import type { BlobStore } from "@/lib/blob-store"
+import type { ProctoringRepository } from "@/lib/repository"
+import { isLiveSession, type ProctoringSession } from "@/lib/domain"
+
+// MediaRecorder emits a chunk per second; anything this large is not one of ours
+export const MAX_CHUNK_BYTES = 25 * 1024 * 1024
+
+// Upper bound on a session's chunks together, several hours of 1080p video
+export const MAX_RECORDING_BYTES = 4 * 1024 * 1024 * 1024
+
+// The recorder's last chunks are still uploading when the session ends, so chunks are
+// accepted this long after it completed or was terminated
+const UPLOAD_GRACE_MS = 10 * 60 * 1000
+
+type AssemblyResult = { session: ProctoringSession } | { missing: number[] }
+
+declare global {
+  // Assemblies in progress by session id, shared across route bundles like the repository
+  var proctoringRecordingAssemblies: Map<string, Promise<AssemblyResult>> | undefined
+}
+
+// Containers MediaRecorder produces, optionally with a codecs parameter. The type is
+// served back with the recording, so anything else (text/html) is refused.
+const RECORDING_MIME_TYPE = /^video\/(webm|mp4)(\s*;\s*codecs=("?)[\w.,\s-]+\3)?$/i
+
+// The recording's MIME type from a chunk's Content-Type, or null when it is not a video
+// container MediaRecorder produces. A missing header is taken for WebM.
+export function recordingMimeType(contentType: string | null) {
+  if (!contentType) return "video/webm"
+  const mimeType = contentType.trim()
+  return RECORDING_MIME_TYPE.test(mimeType) ? mimeType : null
+}
+
+function recordingPrefix(sessionId: string) {
+  return `recordings/${sessionId}/`
+}
+
+function chunksPrefix(sessionId: string) {
+  return `${recordingPrefix(sessionId)}chunks/`
+}
+
+function chunkKey(sessionId: string, sequence: number) {
+  // Zero-padded so listing returns chunks in sequence order
+  return `${chunksPrefix(sessionId)}${String(sequence).padStart(8, "0")}`
+}
+
+export function recordingKey(sessionId: string) {
+  return `${recordingPrefix(sessionId)}recording`
+}
+
+// Sequence numbers already stored, so a reconnecting client can upload only what is missing
+export async function listReceivedChunks(store: BlobStore, sessionId: string) {
+  const keys = await store.list(chunksPrefix(sessionId))
+  return keys.map((key) => Number(key.slice(key.lastIndexOf("/") + 1))).filter(Number.isInteger)
+}
+
+// Bytes of the chunks stored so far, checked against MAX_RECORDING_BYTES
+export async function receivedChunkBytes(store: BlobStore, sessionId: string) {
+  return store.totalSize(chunksPrefix(sessionId))
+}
+
+// Chunks are taken while the session runs and for a short while after it ended,
+// and never once the recording has been assembled
+export function acceptsChunks(session: ProctoringSession, now = new Date()) {
+  if (session.recording?.status === "complete") return false
+  if (isLiveSession(session)) return true
+  return session.endTime !== undefined && now.getTime() - session.endTime.getTime() < UPLOAD_GRACE_MS
+}
+
+// Stores one chunk. Re-sending a sequence overwrites it, so retries are safe.
+export async function saveChunk(
+  store: BlobStore,
+  repository: ProctoringRepository,
+  session: ProctoringSession,
+  sequence: number,
+  data: Uint8Array,
+  mimeType: string,
+) {
+  await store.put(chunkKey(session.id, sequence), data, mimeType)
+
+  if (!session.recording) {
+    await repository.updateSession(session.id, {
+      recording: { status: "uploading", mimeType, startedAt: new Date() },
+    })
+  }
+}
+
+// Concatenates chunks 0..totalChunks-1 into the final recording and links it to
+// the session. Returns the missing sequences instead if any have not arrived.
+// A session is assembled once at a time: a request arriving while its assembly
+// runs gets that assembly's result.
+export async function assembleRecording(
+  store: BlobStore,
+  repository: ProctoringRepository,
+  session: ProctoringSession,
+  totalChunks: number,
+): Promise<AssemblyResult> {
+  const assemblies = (globalThis.proctoringRecordingAssemblies ??= new Map())
+  const running = assemblies.get(session.id)
+  if (running) return running
+
+  const assembly = assemble(store, repository, session, totalChunks).finally(() => assemblies.delete(session.id))
+  assemblies.set(session.id, assembly)
+  return assembly
+}
+
+async function assemble(
+  store: BlobStore,
+  repository: ProctoringRepository,
+  requested: ProctoringSession,
+  totalChunks: number,
+): Promise<AssemblyResult> {
+  // Read again, in case an assembly finished since the caller loaded the session
+  const session = (await repository.getSession(requested.id)) ?? requested
+  if (session.recording?.status === "complete") {
+    return { session }
+  }
+
+  const received = new Set(await listReceivedChunks(store, session.id))
+  const missing = Array.from({ length: totalChunks }, (_, sequence) => sequence).filter(
+    (sequence) => !received.has(sequence),
+  )
+  if (missing.length > 0) {
+    return { missing }
+  }
+
+  const mimeType = session.recording?.mimeType || "video/webm"
+  const key = recordingKey(session.id)
+
+  // WebM chunks from one MediaRecorder form a valid file when simply concatenated
+  const size = await store.putStream(
+    key,
+    (async function* () {
+      for (let sequence = 0; sequence < totalChunks; sequence++) {
+        const chunk = await store.get(chunkKey(session.id, sequence))
+        if (!chunk) throw new Error(`Recording chunk ${sequence} disappeared during assembly`)
+        yield chunk
+      }
+    })(),
+    mimeType,
+  )
+
+  const updated = await repository.updateSession(session.id, {
+    recording: {
+      status: "complete",
+      mimeType,
+      startedAt: session.recording?.startedAt ?? new Date(),
+      completedAt: new Date(),
+      chunkCount: totalChunks,
+      size,
+      key,
+    },
+  })
+
+  // Chunks are only removed once the final file is linked to the session
+  await Promise.all([...received].map((sequence) => store.delete(chunkKey(session.id, sequence))))
+
+  return { session: updated ?? session }
+}
+
+export async function deleteRecording(store: BlobStore, sessionId: string) {
+  const keys = await store.list(recordingPrefix(sessionId))
+  await Promise.all(keys.map((key) => store.delete(key)))
+}
@@ -0,0 +1,13 @@
+import { strToU8, zipSync } from "fflate"
+import type { ProctoringReport } from "@/lib/domain"
+import { eventsCsv, sessionsCsv } from "./csv"
+
+// ZIP archive of a session's report: the JSON report as the API returns it, its
+// raw events and a one-row session summary
+export function bundleReport(report: ProctoringReport): Uint8Array {
+  return zipSync({
+    "report.json": strToU8(JSON.stringify(report, null, 2)),
+    "events.csv": strToU8(eventsCsv(report.events)),
+    "sessions.csv": strToU8(sessionsCsv([report.session])),
+  })
+}
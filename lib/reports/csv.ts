@@ -0,0 +1,180 @@
+import type { DetectionEvent, ProctoringReport, ProctoringSession } from "@/lib/domain"
+
+export type CsvValue = string | number | boolean | Date | null | undefined
+
+// RFC 4180 line break, used both between records and after the last one
+const CRLF = "\r\n"
+
+// Spreadsheets run text starting with these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+// Fields containing a comma, quote or line break are quoted, with quotes doubled.
+// Dates are written as ISO 8601; null and undefined as empty fields. Text that
+// would be read as a formula, such as a candidate name starting with "=", is
+// prefixed with an apostrophe; numbers are written as they are.
+export function formatCsvField(value: CsvValue): string {
+  if (value === null || value === undefined) return ""
+
+  let text = value instanceof Date ? value.toISOString() : String(value)
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map((row) => row.map(formatCsvField).join(",") + CRLF).join("")
+}
+
+// Timestamps may still be ISO strings when the object has been through JSON
+function timestamp(value: Date | string | undefined) {
+  return value === undefined ? undefined : new Date(value)
+}
+
+function formatDuration(seconds: number) {
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`
+}
+
+// The report as labelled sections, the way it reads in a spreadsheet. Every record
+// is padded to the width of the widest one, as RFC 4180 expects.
+export function reportCsv(report: ProctoringReport): string {
+  const { session, statistics, integrityAnalysis } = report
+  const rows: CsvValue[][] = [
+    ["Proctoring Session Report"],
+    [],
+    ["Session Information"],
+    ["Candidate Name", session.candidateName],
+    ["Session ID", session.id],
+    ["Start Time", timestamp(session.startTime)],
+    ["End Time", timestamp(session.endTime) ?? "N/A"],
+    ["Duration", formatDuration(session.duration)],
+    ["Status", session.status],
+    ["Video Quality", session.videoQuality],
+    ["Final Integrity Score", `${integrityAnalysis.finalScore}%`],
+    [],
+    ["Detection Statistics"],
+    ["Total Events", statistics.totalEvents],
+    ["Total Incidents", statistics.totalIncidents],
+    ["High Severity Events", statistics.eventsBySeverity.high],
+    ["Medium Severity Events", statistics.eventsBySeverity.medium],
+    ["Low Severity Events", statistics.eventsBySeverity.low],
+    ["Focus Loss Events", statistics.focusLossCount],
+    ["Time Off-Screen (s)", statistics.offScreenSeconds],
+    ["Longest Off-Screen (s)", statistics.longestOffScreenSeconds],
+    ["Eyes Closed Events", statistics.eyesClosedCount],
+    ["Time Eyes Closed (s)", statistics.eyesClosedSeconds],
+    ["Average Blink Rate (per min)", statistics.averageBlinkRate ?? "N/A"],
+    ["Suspicious Object Events", statistics.suspiciousObjectCount],
+    ["Multiple Face Events", statistics.multipleFaceCount],
+    [],
+    ["Score Deductions"],
+    ["Event Type", "Reason", "Points", "Count", "Forgiven"],
+    ...integrityAnalysis.deductions.map((deduction) => [
+      deduction.eventType,
+      deduction.reason,
+      deduction.points,
+      deduction.count,
+      deduction.forgiven,
+    ]),
+    [],
+    ["Incidents"],
+    ["Start", "End", "Duration (s)", "Event Type", "Description", "Severity", "Peak Confidence", "Detections"],
+    ...report.incidents.map((incident) => [
+      timestamp(incident.startedAt),
+      timestamp(incident.endedAt),
+      Math.round(incident.durationMs / 1000),
+      incident.type,
+      incident.description,
+      incident.severity,
+      incident.peakConfidence,
+      incident.eventIds.length,
+    ]),
+    [],
+    ["Events Timeline"],
+    ["Timestamp", "Event Type", "Description", "Severity"],
+    ...report.events.map((event) => [timestamp(event.timestamp), event.type, event.description, event.severity]),
+    [],
+    ["Recommendations"],
+    ...integrityAnalysis.recommendations.map((recommendation) => [recommendation]),
+  ]
+
+  const width = Math.max(...rows.map((row) => row.length))
+  return toCsv(rows.map((row) => [...row, ...Array<CsvValue>(width - row.length).fill(undefined)]))
+}
+
+// Nested metadata objects become dotted columns; arrays are kept whole as JSON
+function flattenMetadata(metadata: Record<string, unknown>, prefix = "", into: Record<string, CsvValue> = {}) {
+  for (const [key, value] of Object.entries(metadata)) {
+    const column = `${prefix}${key}`
+    if (value !== null && typeof value === "object" && !Array.isArray(value) && !(value instanceof Date)) {
+      flattenMetadata(value as Record<string, unknown>, `${column}.`, into)
+    } else if (Array.isArray(value)) {
+      into[column] = JSON.stringify(value)
+    } else {
+      into[column] = value as CsvValue
+    }
+  }
+  return into
+}
+
+// One record per raw detection event, with a metadata.* column for every metadata
+// key seen on any of the events
+export function eventsCsv(events: DetectionEvent[]): string {
+  const metadata = events.map((event) => flattenMetadata(event.metadata ?? {}))
+  const metadataColumns = [...new Set(metadata.flatMap((fields) => Object.keys(fields)))].sort()
+
+  return toCsv([
+    [
+      "Event ID",
+      "Session ID",
+      "Timestamp",
+      "Event Type",
+      "Severity",
+      "Confidence",
+      "Description",
+      ...metadataColumns.map((column) => `metadata.${column}`),
+    ],
+    ...events.map((event, index) => [
+      event.id,
+      event.sessionId,
+      timestamp(event.timestamp),
+      event.type,
+      event.severity,
+      event.confidence,
+      event.description,
+      ...metadataColumns.map((column) => metadata[index][column]),
+    ]),
+  ])
+}
+
+// One record per session
+export function sessionsCsv(sessions: ProctoringSession[]): string {
+  return toCsv([
+    [
+      "Session ID",
+      "Candidate Name",
+      "Status",
+      "Start Time",
+      "End Time",
+      "Duration (s)",
+      "Integrity Score",
+      "Scoring Policy",
+      "Video Quality",
+      "Detection Enabled",
+      "Recording",
+      "Reviewed At",
+    ],
+    ...sessions.map((session) => [
+      session.id,
+      session.candidateName,
+      session.status,
+      timestamp(session.startTime),
+      timestamp(session.endTime),
+      session.duration,
+      session.integrityScore,
+      session.scoringPolicy,
+      session.videoQuality,
+      session.detectionEnabled,
+      session.recording?.status,
+      timestamp(session.reviewedAt),
+    ]),
+  ])
+}
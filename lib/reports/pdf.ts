@@ -0,0 +1,453 @@
+import PDFDocument from "pdfkit"
+import type { ProctoringReport, Severity } from "@/lib/domain"
+
+// Evidence snapshot embedded in the report
+export interface ReportThumbnail {
+  data: Uint8Array
+  caption: string
+}
+
+// The app's purple primary colour
+const BRAND_COLOR = "#6b5bd6"
+const TEXT_COLOR = "#1f2937"
+const MUTED_COLOR = "#6b7280"
+const BORDER_COLOR = "#e5e7eb"
+
+// Same palette as the dashboard charts
+const SEVERITY_COLORS: Record<Severity, string> = {
+  high: "#ef4444",
+  medium: "#f59e0b",
+  low: "#3b82f6",
+}
+
+const PAGE_MARGIN = 50
+const THUMBNAILS_PER_ROW = 3
+
+type Doc = InstanceType<typeof PDFDocument>
+
+// Renders the report as an A4 PDF. Uses only the standard PDF fonts, so nothing
+// is fetched or read beyond pdfkit's own font metrics.
+export function renderReportPdf(report: ProctoringReport, thumbnails: ReportThumbnail[] = []): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "A4",
+      margin: PAGE_MARGIN,
+      bufferPages: true,
+      info: {
+        Title: `Proctoring Report - ${report.session.candidateName}`,
+        Subject: `Session ${report.session.id}`,
+      },
+    })
+
+    const chunks: Buffer[] = []
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk))
+    doc.on("end", () => resolve(Buffer.concat(chunks)))
+    doc.on("error", reject)
+
+    drawHeader(doc, report)
+    drawSessionInfo(doc, report)
+    drawIntegrity(doc, report)
+    drawStatistics(doc, report)
+    drawCharts(doc, report)
+    drawTimeline(doc, report)
+    drawThumbnails(doc, thumbnails)
+    drawRecommendations(doc, report)
+    drawFooters(doc, report)
+
+    doc.end()
+  })
+}
+
+function contentWidth(doc: Doc) {
+  return doc.page.width - PAGE_MARGIN * 2
+}
+
+// Starts a new page when fewer than `height` points are left on this one
+function ensureSpace(doc: Doc, height: number) {
+  if (doc.y + height > doc.page.height - PAGE_MARGIN) {
+    doc.addPage()
+  }
+}
+
+function sectionTitle(doc: Doc, title: string) {
+  ensureSpace(doc, 60)
+  doc.moveDown(1)
+  doc.font("Helvetica-Bold").fontSize(14).fillColor(BRAND_COLOR).text(title, PAGE_MARGIN)
+  const y = doc.y + 2
+  doc
+    .moveTo(PAGE_MARGIN, y)
+    .lineTo(PAGE_MARGIN + contentWidth(doc), y)
+    .lineWidth(1)
+    .strokeColor(BORDER_COLOR)
+    .stroke()
+  doc.moveDown(0.6)
+  doc.font("Helvetica").fontSize(10).fillColor(TEXT_COLOR)
+}
+
+function keyValueRows(doc: Doc, rows: [string, string][]) {
+  const labelWidth = 160
+  rows.forEach(([label, value]) => {
+    ensureSpace(doc, 16)
+    const y = doc.y
+    doc.font("Helvetica").fontSize(10).fillColor(MUTED_COLOR).text(label, PAGE_MARGIN, y, { width: labelWidth })
+    doc
+      .fillColor(TEXT_COLOR)
+      .text(value, PAGE_MARGIN + labelWidth, y, { width: contentWidth(doc) - labelWidth })
+    doc.moveDown(0.2)
+  })
+}
+
+function formatDuration(seconds: number) {
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const secs = Math.round(seconds % 60)
+  return hours > 0 ? `${hours}h ${minutes}m ${secs}s` : `${minutes}m ${secs}s`
+}
+
+function formatDateTime(date: Date) {
+  return date.toISOString().replace("T", " ").replace(/\.\d+Z$/, " UTC")
+}
+
+function scoreColor(score: number) {
+  if (score >= 90) return "#16a34a"
+  if (score >= 70) return "#ca8a04"
+  return "#dc2626"
+}
+
+function humanize(type: string) {
+  return type.replace(/_/g, " ").replace(/\b\w/g, (letter) => letter.toUpperCase())
+}
+
+function drawHeader(doc: Doc, report: ProctoringReport) {
+  doc.rect(0, 0, doc.page.width, 90).fill(BRAND_COLOR)
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(22)
+    .fillColor("#ffffff")
+    .text("Proctoring Report", PAGE_MARGIN, 28, { width: contentWidth(doc) })
+  doc
+    .font("Helvetica")
+    .fontSize(11)
+    .text(`${report.session.candidateName}  ·  Generated ${formatDateTime(new Date())}`, PAGE_MARGIN, 56)
+  doc.y = 110
+  doc.fillColor(TEXT_COLOR)
+}
+
+function drawSessionInfo(doc: Doc, report: ProctoringReport) {
+  const { session } = report
+  sectionTitle(doc, "Session Information")
+  keyValueRows(doc, [
+    ["Candidate", session.candidateName],
+    ["Session ID", session.id],
+    ["Start", formatDateTime(session.startTime)],
+    ["End", session.endTime ? formatDateTime(session.endTime) : "In progress"],
+    ["Duration", formatDuration(session.duration)],
+    ["Status", session.status],
+    ["Video quality", session.videoQuality],
+  ])
+}
+
+function drawIntegrity(doc: Doc, report: ProctoringReport) {
+  const { finalScore, policy, deductions } = report.integrityAnalysis
+  sectionTitle(doc, "Integrity Score")
+
+  const y = doc.y
+  doc.font("Helvetica-Bold").fontSize(36).fillColor(scoreColor(finalScore)).text(`${finalScore}%`, PAGE_MARGIN, y)
+  doc
+    .font("Helvetica")
+    .fontSize(10)
+    .fillColor(MUTED_COLOR)
+    .text(`Scoring policy: ${policy}`, PAGE_MARGIN + 130, y + 8)
+    .text(`${report.statistics.totalIncidents} incidents from ${report.statistics.totalEvents} detections`, PAGE_MARGIN + 130)
+  doc.y = y + 50
+
+  if (deductions.length === 0) {
+    doc.fillColor(MUTED_COLOR).text("No deductions.", PAGE_MARGIN)
+    return
+  }
+
+  drawTable(
+    doc,
+    [
+      { header: "Deduction", width: 0.55 },
+      { header: "Counted", width: 0.15, align: "right" },
+      { header: "Forgiven", width: 0.15, align: "right" },
+      { header: "Points", width: 0.15, align: "right" },
+    ],
+    deductions.map((deduction) => [
+      deduction.reason,
+      String(deduction.count),
+      String(deduction.forgiven),
+      `-${deduction.points}`,
+    ]),
+  )
+}
+
+function drawStatistics(doc: Doc, report: ProctoringReport) {
+  const { statistics } = report
+  sectionTitle(doc, "Detection Statistics")
+  keyValueRows(doc, [
+    ["Focus loss incidents", String(statistics.focusLossCount)],
+    ["Time off-screen", `${formatDuration(statistics.offScreenSeconds)} (longest ${statistics.longestOffScreenSeconds}s)`],
+    ["Multiple face incidents", String(statistics.multipleFaceCount)],
+    ["Suspicious object incidents", String(statistics.suspiciousObjectCount)],
+    ["Eye closures", `${statistics.eyesClosedCount} (${statistics.eyesClosedSeconds}s in total)`],
+    [
+      "Average blink rate",
+      statistics.averageBlinkRate === null ? "N/A" : `${statistics.averageBlinkRate.toFixed(1)} per minute`,
+    ],
+    ["Average confidence", `${(statistics.averageConfidence * 100).toFixed(1)}%`],
+  ])
+}
+
+// Severity pie and event-type bars, side by side like the dashboard's analytics tab
+function drawCharts(doc: Doc, report: ProctoringReport) {
+  sectionTitle(doc, "Event Analysis")
+  ensureSpace(doc, 200)
+
+  const top = doc.y
+  const half = contentWidth(doc) / 2
+
+  // Severity distribution
+  const severities = (["high", "medium", "low"] as const).map((severity) => ({
+    label: humanize(severity),
+    value: report.statistics.eventsBySeverity[severity],
+    color: SEVERITY_COLORS[severity],
+  }))
+  const total = severities.reduce((sum, slice) => sum + slice.value, 0)
+  const radius = 60
+  const cx = PAGE_MARGIN + radius + 10
+  const cy = top + radius + 20
+
+  doc.font("Helvetica-Bold").fontSize(10).fillColor(TEXT_COLOR).text("Events by severity", PAGE_MARGIN, top)
+  if (total === 0) {
+    doc.circle(cx, cy, radius).lineWidth(1).strokeColor(BORDER_COLOR).stroke()
+  } else {
+    let angle = -Math.PI / 2
+    severities
+      .filter((slice) => slice.value > 0)
+      .forEach((slice) => {
+        const sweep = (slice.value / total) * Math.PI * 2
+        drawWedge(doc, cx, cy, radius, angle, angle + sweep, slice.color)
+        angle += sweep
+      })
+  }
+  severities.forEach((slice, index) => {
+    const legendY = top + 40 + index * 18
+    doc.rect(cx + radius + 20, legendY, 10, 10).fill(slice.color)
+    doc
+      .font("Helvetica")
+      .fontSize(9)
+      .fillColor(TEXT_COLOR)
+      .text(`${slice.label}: ${slice.value}`, cx + radius + 36, legendY + 1)
+  })
+
+  // Events by type
+  const left = PAGE_MARGIN + half + 10
+  const width = half - 10
+  const bars = Object.entries(report.statistics.eventsByType).sort(([, a], [, b]) => b - a)
+  const max = Math.max(1, ...bars.map(([, count]) => count))
+  const labelWidth = 95
+  const barHeight = 14
+
+  doc.font("Helvetica-Bold").fontSize(10).fillColor(TEXT_COLOR).text("Events by type", left, top)
+  if (bars.length === 0) {
+    doc.font("Helvetica").fontSize(9).fillColor(MUTED_COLOR).text("No events recorded", left, top + 20)
+  }
+  bars.forEach(([type, count], index) => {
+    const y = top + 20 + index * (barHeight + 6)
+    const barWidth = ((width - labelWidth - 30) * count) / max
+    doc
+      .font("Helvetica")
+      .fontSize(8)
+      .fillColor(TEXT_COLOR)
+      .text(humanize(type), left, y + 3, { width: labelWidth - 5, ellipsis: true, lineBreak: false })
+    doc.rect(left + labelWidth, y, Math.max(barWidth, 1), barHeight).fill(BRAND_COLOR)
+    doc.fillColor(TEXT_COLOR).text(String(count), left + labelWidth + barWidth + 4, y + 3, { lineBreak: false })
+  })
+
+  doc.y = Math.max(cy + radius, top + 20 + bars.length * (barHeight + 6)) + 10
+  doc.x = PAGE_MARGIN
+}
+
+function drawWedge(doc: Doc, cx: number, cy: number, radius: number, from: number, to: number, color: string) {
+  // Polygon approximation of the arc, one vertex per degree
+  const steps = Math.max(2, Math.ceil(((to - from) * 180) / Math.PI))
+  doc.moveTo(cx, cy)
+  for (let step = 0; step <= steps; step++) {
+    const angle = from + ((to - from) * step) / steps
+    doc.lineTo(cx + radius * Math.cos(angle), cy + radius * Math.sin(angle))
+  }
+  doc.closePath().fill(color)
+}
+
+function drawTimeline(doc: Doc, report: ProctoringReport) {
+  sectionTitle(doc, "Incident Timeline")
+
+  if (report.timeline.length === 0) {
+    doc.fillColor(MUTED_COLOR).text("No incidents detected during this session.", PAGE_MARGIN)
+    return
+  }
+
+  const sessionStart = report.session.startTime.getTime()
+  drawTable(
+    doc,
+    [
+      { header: "At", width: 0.1 },
+      { header: "Type", width: 0.18 },
+      { header: "Description", width: 0.44 },
+      { header: "Severity", width: 0.13 },
+      { header: "Duration", width: 0.15, align: "right" },
+    ],
+    report.timeline.map((entry) => [
+      formatDuration(Math.max(0, (entry.timestamp.getTime() - sessionStart) / 1000)),
+      humanize(entry.type),
+      entry.event,
+      entry.severity,
+      entry.durationMs > 0 ? `${(entry.durationMs / 1000).toFixed(1)}s` : "-",
+    ]),
+    (row) => SEVERITY_COLORS[row[3] as Severity],
+  )
+}
+
+function drawThumbnails(doc: Doc, thumbnails: ReportThumbnail[]) {
+  if (thumbnails.length === 0) return
+  sectionTitle(doc, "Evidence")
+
+  const gap = 12
+  const width = (contentWidth(doc) - gap * (THUMBNAILS_PER_ROW - 1)) / THUMBNAILS_PER_ROW
+  const height = width * 0.75
+  const rowHeight = height + 30
+
+  for (let index = 0; index < thumbnails.length; index += THUMBNAILS_PER_ROW) {
+    ensureSpace(doc, rowHeight)
+    const top = doc.y
+
+    thumbnails.slice(index, index + THUMBNAILS_PER_ROW).forEach((thumbnail, column) => {
+      const x = PAGE_MARGIN + column * (width + gap)
+      doc.rect(x, top, width, height).fill("#000000")
+      try {
+        doc.image(Buffer.from(thumbnail.data), x, top, { fit: [width, height], align: "center", valign: "center" })
+      } catch {
+        doc.font("Helvetica").fontSize(8).fillColor("#ffffff").text("Image unavailable", x, top + height / 2, {
+          width,
+          align: "center",
+        })
+      }
+      doc
+        .font("Helvetica")
+        .fontSize(8)
+        .fillColor(MUTED_COLOR)
+        .text(thumbnail.caption, x, top + height + 4, { width, height: 24, ellipsis: true })
+    })
+
+    doc.y = top + rowHeight
+  }
+  doc.x = PAGE_MARGIN
+}
+
+function drawRecommendations(doc: Doc, report: ProctoringReport) {
+  sectionTitle(doc, "Recommendations")
+  doc.font("Helvetica").fontSize(10).fillColor(TEXT_COLOR)
+  doc.list(report.integrityAnalysis.recommendations, PAGE_MARGIN, doc.y, {
+    width: contentWidth(doc),
+    bulletRadius: 2,
+    paragraphGap: 4,
+  })
+}
+
+function drawFooters(doc: Doc, report: ProctoringReport) {
+  const range = doc.bufferedPageRange()
+  for (let index = range.start; index < range.start + range.count; index++) {
+    doc.switchToPage(index)
+    // Writing inside the bottom margin would otherwise add a page
+    const bottomMargin = doc.page.margins.bottom
+    doc.page.margins.bottom = 0
+    doc
+      .font("Helvetica")
+      .fontSize(8)
+      .fillColor(MUTED_COLOR)
+      .text(
+        `Session ${report.session.id}  ·  Page ${index + 1} of ${range.count}`,
+        PAGE_MARGIN,
+        doc.page.height - PAGE_MARGIN / 2 - 4,
+        { width: contentWidth(doc), align: "center", lineBreak: false },
+      )
+    doc.page.margins.bottom = bottomMargin
+  }
+}
+
+interface Column {
+  header: string
+  // Fraction of the content width
+  width: number
+  align?: "left" | "right"
+}
+
+// Simple table that repeats its header after page breaks; rowColor marks each row with a coloured edge
+function drawTable(doc: Doc, columns: Column[], rows: string[][], rowColor?: (row: string[]) => string | undefined) {
+  const totalWidth = contentWidth(doc)
+  const padding = 4
+
+  const cellWidth = (index: number) => columns[index].width * totalWidth - padding * 2
+
+  // Measures a row and returns it with a function drawing it at a given y
+  const layoutRow = (cells: string[], bold: boolean) => {
+    const font = bold ? "Helvetica-Bold" : "Helvetica"
+    doc.font(font).fontSize(9)
+    const height =
+      Math.max(...cells.map((cell, index) => doc.heightOfString(cell, { width: cellWidth(index) }))) + padding * 2
+
+    const draw = (y: number) => {
+      let x = PAGE_MARGIN
+      doc.font(font).fontSize(9).fillColor(bold ? MUTED_COLOR : TEXT_COLOR)
+      cells.forEach((cell, index) => {
+        doc.text(cell, x + padding, y + padding, { width: cellWidth(index), align: columns[index].align ?? "left" })
+        x += columns[index].width * totalWidth
+      })
+    }
+
+    return { height, draw }
+  }
+
+  const drawHeaderRow = () => {
+    const header = layoutRow(
+      columns.map((column) => column.header),
+      true,
+    )
+    const y = doc.y
+    header.draw(y)
+    doc
+      .moveTo(PAGE_MARGIN, y + header.height)
+      .lineTo(PAGE_MARGIN + totalWidth, y + header.height)
+      .lineWidth(0.5)
+      .strokeColor(BORDER_COLOR)
+      .stroke()
+    doc.y = y + header.height
+  }
+
+  ensureSpace(doc, 40)
+  drawHeaderRow()
+
+  rows.forEach((cells) => {
+    const row = layoutRow(cells, false)
+    if (doc.y + row.height > doc.page.height - PAGE_MARGIN) {
+      doc.addPage()
+      drawHeaderRow()
+    }
+
+    const y = doc.y
+    const color = rowColor?.(cells)
+    if (color) doc.rect(PAGE_MARGIN, y + 2, 2, row.height - 4).fill(color)
+    row.draw(y)
+    doc
+      .moveTo(PAGE_MARGIN, y + row.height)
+      .lineTo(PAGE_MARGIN + totalWidth, y + row.height)
+      .lineWidth(0.5)
+      .strokeColor(BORDER_COLOR)
+      .stroke()
+    doc.y = y + row.height
+  })
+
+  doc.x = PAGE_MARGIN
+}
@@ -0,0 +1,234 @@
+import { promises as fs } from "fs"
+import path from "path"
+import {
+  audioLevelSampleSchema,
+  detectionEventSchema,
+  type AudioLevelSample,
+  examSchema,
+  invitationSchema,
+  organizationSchema,
+  proctoringSessionSchema,
+} from "@/lib/domain"
+import { InMemoryRepository, type RepositorySnapshot } from "./memory-repository"
+import type {
+  EventFilter,
+  ExamFilter,
+  ExamUpdates,
+  InvitationFilter,
+  InvitationUpdates,
+  NewDetectionEvent,
+  NewExam,
+  NewInvitation,
+  NewOrganization,
+  NewSession,
+  ProctoringRepository,
+  SessionFilter,
+  SessionUpdates,
+} from "./types"
+
+// JSON-file backed store for local development. Reads go through an in-memory
+// copy that is loaded once; every mutation rewrites the file.
+export class FileRepository implements ProctoringRepository {
+  private store: Promise<InMemoryRepository> | null = null
+  private writeQueue: Promise<void> = Promise.resolve()
+
+  constructor(private readonly filePath: string) {}
+
+  private load() {
+    if (!this.store) {
+      this.store = fs
+        .readFile(this.filePath, "utf8")
+        .then((contents) => new InMemoryRepository(reviveSnapshot(JSON.parse(contents))))
+        .catch((error: NodeJS.ErrnoException) => {
+          if (error.code === "ENOENT") return new InMemoryRepository()
+          throw error
+        })
+    }
+    return this.store
+  }
+
+  private async persist(store: InMemoryRepository) {
+    const contents = JSON.stringify(store.snapshot(), null, 2)
+
+    // Serialize writes so concurrent requests never interleave partial files
+    this.writeQueue = this.writeQueue.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+      const tempPath = `${this.filePath}.tmp`
+      await fs.writeFile(tempPath, contents)
+      await fs.rename(tempPath, this.filePath)
+    })
+
+    return this.writeQueue
+  }
+
+  async listSessions(filter?: SessionFilter) {
+    return (await this.load()).listSessions(filter)
+  }
+
+  async getSession(sessionId: string) {
+    return (await this.load()).getSession(sessionId)
+  }
+
+  async createSession(session: NewSession) {
+    const store = await this.load()
+    const created = await store.createSession(session)
+    await this.persist(store)
+    return created
+  }
+
+  async updateSession(sessionId: string, updates: SessionUpdates) {
+    const store = await this.load()
+    const updated = await store.updateSession(sessionId, updates)
+    if (updated) await this.persist(store)
+    return updated
+  }
+
+  async deleteSession(sessionId: string) {
+    const store = await this.load()
+    const deleted = await store.deleteSession(sessionId)
+    if (deleted) await this.persist(store)
+    return deleted
+  }
+
+  async listEvents(filter?: EventFilter) {
+    return (await this.load()).listEvents(filter)
+  }
+
+  async getEvent(eventId: string) {
+    return (await this.load()).getEvent(eventId)
+  }
+
+  async createEvent(event: NewDetectionEvent) {
+    const store = await this.load()
+    const created = await store.createEvent(event)
+    await this.persist(store)
+    return created
+  }
+
+  async deleteEvent(eventId: string) {
+    const store = await this.load()
+    const deleted = await store.deleteEvent(eventId)
+    if (deleted) await this.persist(store)
+    return deleted
+  }
+
+  async deleteSessionEvents(sessionId: string) {
+    const store = await this.load()
+    await store.deleteSessionEvents(sessionId)
+    await this.persist(store)
+  }
+
+  async getStatistics(sessionId: string) {
+    return (await this.load()).getStatistics(sessionId)
+  }
+
+  async listAudioLevels(sessionId: string) {
+    return (await this.load()).listAudioLevels(sessionId)
+  }
+
+  async addAudioLevels(samples: AudioLevelSample[]) {
+    const store = await this.load()
+    await store.addAudioLevels(samples)
+    await this.persist(store)
+  }
+
+  async listOrganizations() {
+    return (await this.load()).listOrganizations()
+  }
+
+  async getOrganization(orgId: string) {
+    return (await this.load()).getOrganization(orgId)
+  }
+
+  async createOrganization(organization: NewOrganization) {
+    const store = await this.load()
+    const created = await store.createOrganization(organization)
+    await this.persist(store)
+    return created
+  }
+
+  async listExams(filter?: ExamFilter) {
+    return (await this.load()).listExams(filter)
+  }
+
+  async getExam(examId: string) {
+    return (await this.load()).getExam(examId)
+  }
+
+  async createExam(exam: NewExam) {
+    const store = await this.load()
+    const created = await store.createExam(exam)
+    await this.persist(store)
+    return created
+  }
+
+  async updateExam(examId: string, updates: ExamUpdates) {
+    const store = await this.load()
+    const updated = await store.updateExam(examId, updates)
+    if (updated) await this.persist(store)
+    return updated
+  }
+
+  async deleteExam(examId: string) {
+    const store = await this.load()
+    const deleted = await store.deleteExam(examId)
+    if (deleted) await this.persist(store)
+    return deleted
+  }
+
+  async listInvitations(filter?: InvitationFilter) {
+    return (await this.load()).listInvitations(filter)
+  }
+
+  async getInvitation(invitationId: string) {
+    return (await this.load()).getInvitation(invitationId)
+  }
+
+  async createInvitation(invitation: NewInvitation) {
+    const store = await this.load()
+    const created = await store.createInvitation(invitation)
+    await this.persist(store)
+    return created
+  }
+
+  async updateInvitation(invitationId: string, updates: InvitationUpdates) {
+    const store = await this.load()
+    const updated = await store.updateInvitation(invitationId, updates)
+    if (updated) await this.persist(store)
+    return updated
+  }
+
+  async claimInvitation(invitationId: string, tokenId: string, acceptedAt: Date) {
+    const store = await this.load()
+    const claimed = await store.claimInvitation(invitationId, tokenId, acceptedAt)
+    if (claimed) await this.persist(store)
+    return claimed
+  }
+
+  async linkInvitationSession(invitationId: string, sessionId: string) {
+    const store = await this.load()
+    const updated = await store.linkInvitationSession(invitationId, sessionId)
+    if (updated) await this.persist(store)
+    return updated
+  }
+
+  async releaseInvitation(invitationId: string) {
+    const store = await this.load()
+    const updated = await store.releaseInvitation(invitationId)
+    if (updated) await this.persist(store)
+    return updated
+  }
+}
+
+// JSON.parse leaves dates as ISO strings; parsing through the domain schemas
+// restores them so the file store returns the same shapes as the in-memory store
+function reviveSnapshot(raw: Partial<RepositorySnapshot>): RepositorySnapshot {
+  return {
+    sessions: (raw.sessions || []).map((session) => proctoringSessionSchema.parse(session)),
+    events: (raw.events || []).map((event) => detectionEventSchema.parse(event)),
+    organizations: (raw.organizations || []).map((organization) => organizationSchema.parse(organization)),
+    exams: (raw.exams || []).map((exam) => examSchema.parse(exam)),
+    invitations: (raw.invitations || []).map((invitation) => invitationSchema.parse(invitation)),
+    audioLevels: (raw.audioLevels || []).map((sample) => audioLevelSampleSchema.parse(sample)),
+  }
+}
@@ -0,0 +1,57 @@
+import path from "path"
+import { InMemoryRepository } from "./memory-repository"
+import { FileRepository } from "./file-repository"
+import { SupabaseRepository } from "./supabase-repository"
+import type { ProctoringRepository } from "./types"
+
+export type {
+  ProctoringRepository,
+  SessionFilter,
+  SessionPage,
+  EventFilter,
+  ExamFilter,
+  InvitationFilter,
+} from "./types"
+export { decodeCursor } from "./types"
+
+export type StorageBackend = "memory" | "file" | "supabase"
+
+declare global {
+  // Route handlers are bundled separately, so the shared instance lives on globalThis
+  var proctoringRepository: ProctoringRepository | undefined
+}
+
+export function createRepository(backend: StorageBackend): ProctoringRepository {
+  switch (backend) {
+    case "memory":
+      return new InMemoryRepository()
+    case "file":
+      return new FileRepository(
+        process.env.PROCTORING_DATA_FILE || path.join(process.cwd(), ".data", "proctoring.json"),
+      )
+    case "supabase":
+      return new SupabaseRepository()
+    default:
+      throw new Error(`Unknown storage backend: ${backend}`)
+  }
+}
+
+function getStorageBackend() {
+  return (process.env.PROCTORING_STORAGE || "memory") as StorageBackend
+}
+
+// Backend is chosen with PROCTORING_STORAGE (memory | file | supabase), defaulting to memory
+export function getRepository(): ProctoringRepository {
+  if (!globalThis.proctoringRepository) {
+    globalThis.proctoringRepository = createRepository(getStorageBackend())
+  }
+
+  return globalThis.proctoringRepository
+}
+
+// For server jobs without a signed-in user, such as scheduled purges. With Supabase
+// it runs as the service role, since row level security shows requests without a
+// user no rows; callers check who may trigger the job.
+export function getSystemRepository(): ProctoringRepository {
+  return getStorageBackend() === "supabase" ? new SupabaseRepository({ serviceRole: true }) : getRepository()
+}
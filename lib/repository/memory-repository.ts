@@ -0,0 +1,307 @@
+import type { AudioLevelSample, ProctoringSession, DetectionEvent, Exam, Invitation, Organization } from "@/lib/domain"
+import {
+  computeStatistics,
+  decodeCursor,
+  encodeCursor,
+  generateId,
+  sessionSortValue,
+  type EventFilter,
+  type ExamFilter,
+  type ExamUpdates,
+  type InvitationFilter,
+  type InvitationUpdates,
+  type NewDetectionEvent,
+  type NewExam,
+  type NewInvitation,
+  type NewOrganization,
+  type NewSession,
+  type ProctoringRepository,
+  type SessionFilter,
+  type SessionUpdates,
+} from "./types"
+
+export interface RepositorySnapshot {
+  sessions: ProctoringSession[]
+  events: DetectionEvent[]
+  organizations: Organization[]
+  exams: Exam[]
+  invitations: Invitation[]
+  audioLevels: AudioLevelSample[]
+}
+
+const EMPTY_SNAPSHOT: RepositorySnapshot = {
+  sessions: [],
+  events: [],
+  organizations: [],
+  exams: [],
+  invitations: [],
+  audioLevels: [],
+}
+
+export class InMemoryRepository implements ProctoringRepository {
+  private sessions: ProctoringSession[]
+  private events: DetectionEvent[]
+  private organizations: Organization[]
+  private exams: Exam[]
+  private invitations: Invitation[]
+  private audioLevels: AudioLevelSample[]
+
+  constructor(snapshot: RepositorySnapshot = EMPTY_SNAPSHOT) {
+    this.sessions = [...snapshot.sessions]
+    this.events = [...snapshot.events]
+    this.organizations = [...snapshot.organizations]
+    this.exams = [...snapshot.exams]
+    this.invitations = [...snapshot.invitations]
+    this.audioLevels = [...snapshot.audioLevels]
+  }
+
+  snapshot(): RepositorySnapshot {
+    return {
+      sessions: this.sessions,
+      events: this.events,
+      organizations: this.organizations,
+      exams: this.exams,
+      invitations: this.invitations,
+      audioLevels: this.audioLevels,
+    }
+  }
+
+  async listSessions(filter: SessionFilter = {}) {
+    const { sort = "startTime", order = "desc", limit } = filter
+    const search = filter.search?.toLowerCase()
+
+    const filteredSessions = this.sessions.filter(
+      (session) =>
+        (!filter.sessionId || session.id === filter.sessionId) &&
+        (!filter.candidateId || session.candidateId === filter.candidateId) &&
+        (filter.orgId === undefined || (session.orgId ?? null) === filter.orgId) &&
+        (!filter.examId || session.examId === filter.examId) &&
+        (!search || session.candidateName.toLowerCase().includes(search)) &&
+        (!filter.status || session.status === filter.status) &&
+        (!filter.from || session.startTime >= filter.from) &&
+        (!filter.to || session.startTime <= filter.to) &&
+        (filter.minScore === undefined || session.integrityScore >= filter.minScore) &&
+        (filter.maxScore === undefined || session.integrityScore <= filter.maxScore) &&
+        (filter.reviewed === undefined || (session.reviewedAt !== undefined) === filter.reviewed),
+    )
+
+    // Position of a session relative to a sort key, in the requested order
+    const direction = order === "asc" ? 1 : -1
+    const compareTo = (session: ProctoringSession, value: string | number, id: string) => {
+      const sessionValue = sessionSortValue(session, sort)
+      if (sessionValue !== value) return (sessionValue < value ? -1 : 1) * direction
+      return session.id === id ? 0 : (session.id < id ? -1 : 1) * direction
+    }
+
+    const sortedSessions = [...filteredSessions].sort((a, b) => compareTo(a, sessionSortValue(b, sort), b.id))
+
+    const cursor = filter.cursor ? decodeCursor(filter.cursor) : null
+    const remaining = cursor
+      ? sortedSessions.filter((session) => compareTo(session, cursor.value, cursor.id) > 0)
+      : sortedSessions
+    const sessions = limit !== undefined ? remaining.slice(0, limit) : remaining
+    const last = sessions[sessions.length - 1]
+
+    return {
+      sessions,
+      total: sortedSessions.length,
+      nextCursor: last && sessions.length < remaining.length ? encodeCursor(sessionSortValue(last, sort), last.id) : null,
+    }
+  }
+
+  async getSession(sessionId: string) {
+    return this.sessions.find((session) => session.id === sessionId) ?? null
+  }
+
+  async createSession(session: NewSession) {
+    const newSession: ProctoringSession = { id: generateId("session"), ...session }
+    this.sessions.push(newSession)
+    return newSession
+  }
+
+  async updateSession(sessionId: string, updates: SessionUpdates) {
+    const sessionIndex = this.sessions.findIndex((session) => session.id === sessionId)
+    if (sessionIndex === -1) return null
+
+    const session = { ...this.sessions[sessionIndex], ...updates }
+    this.sessions[sessionIndex] = session
+    return session
+  }
+
+  async deleteSession(sessionId: string) {
+    const sessionIndex = this.sessions.findIndex((session) => session.id === sessionId)
+    if (sessionIndex === -1) return false
+
+    this.events = this.events.filter((event) => event.sessionId !== sessionId)
+    this.audioLevels = this.audioLevels.filter((sample) => sample.sessionId !== sessionId)
+    this.sessions.splice(sessionIndex, 1)
+    return true
+  }
+
+  async listEvents(filter: EventFilter = {}) {
+    const { limit, offset = 0 } = filter
+    let filteredEvents = this.events
+
+    if (filter.sessionId) {
+      filteredEvents = filteredEvents.filter((event) => event.sessionId === filter.sessionId)
+    }
+
+    if (filter.type) {
+      filteredEvents = filteredEvents.filter((event) => event.type === filter.type)
+    }
+
+    if (filter.severity) {
+      filteredEvents = filteredEvents.filter((event) => event.severity === filter.severity)
+    }
+
+    // Sort by timestamp (newest first) without reordering the backing array
+    const sortedEvents = [...filteredEvents].sort(
+      (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
+    )
+
+    return {
+      events: sortedEvents.slice(offset, limit !== undefined ? offset + limit : undefined),
+      total: sortedEvents.length,
+    }
+  }
+
+  async getEvent(eventId: string) {
+    return this.events.find((event) => event.id === eventId) ?? null
+  }
+
+  async createEvent(event: NewDetectionEvent) {
+    const newEvent: DetectionEvent = { id: generateId("event"), ...event }
+    this.events.push(newEvent)
+    return newEvent
+  }
+
+  async deleteEvent(eventId: string) {
+    const eventIndex = this.events.findIndex((event) => event.id === eventId)
+    if (eventIndex === -1) return null
+
+    const [deleted] = this.events.splice(eventIndex, 1)
+    return deleted
+  }
+
+  async deleteSessionEvents(sessionId: string) {
+    this.events = this.events.filter((event) => event.sessionId !== sessionId)
+  }
+
+  async getStatistics(sessionId: string) {
+    if (!(await this.getSession(sessionId))) return null
+
+    return computeStatistics(
+      sessionId,
+      this.events.filter((event) => event.sessionId === sessionId),
+    )
+  }
+
+  async listAudioLevels(sessionId: string) {
+    return this.audioLevels
+      .filter((sample) => sample.sessionId === sessionId)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+  }
+
+  async addAudioLevels(samples: AudioLevelSample[]) {
+    this.audioLevels.push(...samples)
+  }
+
+  async listOrganizations() {
+    return [...this.organizations].sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  async getOrganization(orgId: string) {
+    return this.organizations.find((organization) => organization.id === orgId) ?? null
+  }
+
+  async createOrganization(organization: NewOrganization) {
+    const newOrganization: Organization = { id: generateId("org"), ...organization }
+    this.organizations.push(newOrganization)
+    return newOrganization
+  }
+
+  async listExams(filter: ExamFilter = {}) {
+    return this.exams
+      .filter((exam) => !filter.orgId || exam.orgId === filter.orgId)
+      .sort((a, b) => b.opensAt.getTime() - a.opensAt.getTime())
+  }
+
+  async getExam(examId: string) {
+    return this.exams.find((exam) => exam.id === examId) ?? null
+  }
+
+  async createExam(exam: NewExam) {
+    const newExam: Exam = { id: generateId("exam"), ...exam }
+    this.exams.push(newExam)
+    return newExam
+  }
+
+  async updateExam(examId: string, updates: ExamUpdates) {
+    const examIndex = this.exams.findIndex((exam) => exam.id === examId)
+    if (examIndex === -1) return null
+
+    const exam = { ...this.exams[examIndex], ...updates }
+    this.exams[examIndex] = exam
+    return exam
+  }
+
+  async deleteExam(examId: string) {
+    const examIndex = this.exams.findIndex((exam) => exam.id === examId)
+    if (examIndex === -1) return false
+
+    this.exams.splice(examIndex, 1)
+    this.invitations = this.invitations.filter((invitation) => invitation.examId !== examId)
+    this.sessions = this.sessions.map((session) =>
+      session.examId === examId ? { ...session, examId: undefined } : session,
+    )
+    return true
+  }
+
+  async listInvitations(filter: InvitationFilter = {}) {
+    return this.invitations
+      .filter(
+        (invitation) =>
+          (!filter.examId || invitation.examId === filter.examId) &&
+          (!filter.orgId || invitation.orgId === filter.orgId),
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+  }
+
+  async getInvitation(invitationId: string) {
+    return this.invitations.find((invitation) => invitation.id === invitationId) ?? null
+  }
+
+  async createInvitation(invitation: NewInvitation) {
+    const newInvitation: Invitation = { id: generateId("invitation"), ...invitation }
+    this.invitations.push(newInvitation)
+    return newInvitation
+  }
+
+  async updateInvitation(invitationId: string, updates: InvitationUpdates) {
+    const invitationIndex = this.invitations.findIndex((invitation) => invitation.id === invitationId)
+    if (invitationIndex === -1) return null
+
+    const invitation = { ...this.invitations[invitationIndex], ...updates }
+    this.invitations[invitationIndex] = invitation
+    return invitation
+  }
+
+  async claimInvitation(invitationId: string, tokenId: string, acceptedAt: Date) {
+    const invitationIndex = this.invitations.findIndex(
+      (invitation) => invitation.id === invitationId && invitation.status === "pending" && invitation.tokenId === tokenId,
+    )
+    if (invitationIndex === -1) return null
+
+    const invitation: Invitation = { ...this.invitations[invitationIndex], status: "accepted", acceptedAt }
+    this.invitations[invitationIndex] = invitation
+    return invitation
+  }
+
+  async linkInvitationSession(invitationId: string, sessionId: string) {
+    return this.updateInvitation(invitationId, { sessionId })
+  }
+
+  async releaseInvitation(invitationId: string) {
+    return this.updateInvitation(invitationId, { status: "pending" })
+  }
+}
@@ -0,0 +1,485 @@
+import type { PostgrestError } from "@supabase/supabase-js"
+import { createClient } from "@/lib/supabase/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import {
+  audioLevelFromRow,
+  audioLevelToRow,
+  eventFromRow,
+  eventToRow,
+  examFromRow,
+  examToRow,
+  invitationFromRow,
+  invitationToRow,
+  isAuditEvent,
+  organizationFromRow,
+  sessionFromRow,
+  sessionToRow,
+  statisticsFromRow,
+  statisticsToRow,
+  type AudioLevelRow,
+  type AudioLevelSample,
+  type DetectionEventRow,
+  type ExamRow,
+  type InvitationRow,
+  type OrganizationRow,
+  type ProctoringSessionRow,
+  type SessionSortField,
+  type SessionStatisticsRow,
+} from "@/lib/domain"
+import {
+  computeStatistics,
+  decodeCursor,
+  encodeCursor,
+  sessionSortValue,
+  type EventFilter,
+  type ExamFilter,
+  type ExamUpdates,
+  type InvitationFilter,
+  type InvitationUpdates,
+  type NewDetectionEvent,
+  type NewExam,
+  type NewInvitation,
+  type NewOrganization,
+  type NewSession,
+  type ProctoringRepository,
+  type SessionFilter,
+  type SessionUpdates,
+} from "./types"
+
+const SORT_COLUMNS: Record<SessionSortField, keyof ProctoringSessionRow> = {
+  startTime: "session_start",
+  integrityScore: "integrity_score",
+  candidateName: "candidate_name",
+  duration: "duration_seconds",
+}
+
+// PostgREST returns at most this many rows per request, so reads that must see
+// every matching row fetch them page by page
+const PAGE_SIZE = 1000
+
+// Wildcards in the search term match literally
+function escapeLike(term: string) {
+  return term.replace(/[\\%_]/g, (char) => `\\${char}`)
+}
+
+// Values inside or() filters are quoted so commas and parentheses don't end the expression
+function quoteFilterValue(value: string | number) {
+  return typeof value === "number" ? String(value) : `"${value.replace(/["\\]/g, (char) => `\\${char}`)}"`
+}
+
+// Runs the query for rows from..to until a page comes back short. The query must
+// have a total order, or rows can move between pages.
+async function selectAllPages<Row>(
+  page: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: PostgrestError | null }>,
+) {
+  const rows: Row[] = []
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await page(offset, offset + PAGE_SIZE - 1)
+
+    if (error) throw error
+    rows.push(...((data ?? []) as Row[]))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
+}
+
+// Backed by the tables in scripts/001_create_proctoring_tables.sql. A server
+// client is created per call because it is bound to the request's cookies.
+// With serviceRole the repository runs as the service role instead, for server
+// jobs that act on no user's behalf; see getSystemRepository.
+export class SupabaseRepository implements ProctoringRepository {
+  constructor(private readonly options: { serviceRole?: boolean } = {}) {}
+
+  private async client() {
+    return this.options.serviceRole ? createAdminClient() : createClient()
+  }
+
+  async listSessions(filter: SessionFilter = {}) {
+    const { sort = "startTime", order = "desc", limit } = filter
+    const column = SORT_COLUMNS[sort]
+    const supabase = await this.client()
+
+    // The count runs without the cursor, so total covers every page
+    const filtered = (columns: string, options?: { count: "exact"; head: true }) => {
+      let query = supabase.from("proctoring_sessions").select(columns, options)
+
+      if (filter.sessionId) query = query.eq("id", filter.sessionId)
+      if (filter.candidateId) query = query.eq("candidate_id", filter.candidateId)
+      if (filter.examId) query = query.eq("exam_id", filter.examId)
+      if (filter.orgId !== undefined) {
+        query = filter.orgId === null ? query.is("org_id", null) : query.eq("org_id", filter.orgId)
+      }
+      if (filter.search) query = query.ilike("candidate_name", `%${escapeLike(filter.search)}%`)
+      if (filter.status) query = query.eq("status", filter.status)
+      if (filter.from) query = query.gte("session_start", filter.from.toISOString())
+      if (filter.to) query = query.lte("session_start", filter.to.toISOString())
+      if (filter.minScore !== undefined) query = query.gte("integrity_score", filter.minScore)
+      if (filter.maxScore !== undefined) query = query.lte("integrity_score", filter.maxScore)
+      if (filter.reviewed !== undefined) {
+        query = filter.reviewed ? query.not("reviewed_at", "is", null) : query.is("reviewed_at", null)
+      }
+
+      return query
+    }
+
+    const ordered = () => {
+      let query = filtered("*")
+        .order(column, { ascending: order === "asc" })
+        .order("id", { ascending: order === "asc" })
+
+      // Keyset pagination: rows strictly after the cursor in sort order
+      const cursor = filter.cursor ? decodeCursor(filter.cursor) : null
+      if (cursor) {
+        const op = order === "asc" ? "gt" : "lt"
+        const value = quoteFilterValue(cursor.value)
+        const id = quoteFilterValue(cursor.id)
+        query = query.or(`${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${id})`)
+      }
+
+      return query
+    }
+
+    // One extra row tells whether another page follows; without a limit every row is read
+    const [rows, { count, error: countError }] = await Promise.all([
+      limit !== undefined
+        ? ordered()
+            .limit(limit + 1)
+            .then(({ data, error }) => {
+              if (error) throw error
+              return data as unknown as ProctoringSessionRow[]
+            })
+        : selectAllPages<ProctoringSessionRow>((from, to) => ordered().range(from, to)),
+      filtered("id", { count: "exact", head: true }),
+    ])
+    if (countError) throw countError
+
+    const sessions = (limit !== undefined ? rows.slice(0, limit) : rows).map(sessionFromRow)
+    const last = sessions[sessions.length - 1]
+
+    return {
+      sessions,
+      total: count ?? sessions.length,
+      nextCursor:
+        last && limit !== undefined && rows.length > limit ? encodeCursor(sessionSortValue(last, sort), last.id) : null,
+    }
+  }
+
+  async getSession(sessionId: string) {
+    const supabase = await this.client()
+    const { data, error } = await supabase.from("proctoring_sessions").select("*").eq("id", sessionId).maybeSingle()
+
+    if (error) throw error
+    return data ? sessionFromRow(data as ProctoringSessionRow) : null
+  }
+
+  async createSession(session: NewSession) {
+    const supabase = await this.client()
+    const { data, error } = await supabase.from("proctoring_sessions").insert(sessionToRow(session)).select().single()
+
+    if (error) throw error
+
+    // Create initial statistics record
+    await supabase.from("session_statistics").insert({ session_id: data.id })
+
+    return sessionFromRow(data as ProctoringSessionRow)
+  }
+
+  async updateSession(sessionId: string, updates: SessionUpdates) {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from("proctoring_sessions")
+      .update({ ...sessionToRow(updates), updated_at: new Date().toISOString() })
+      .eq("id", sessionId)
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    return data ? sessionFromRow(data as ProctoringSessionRow) : null
+  }
+
+  async deleteSession(sessionId: string) {
+    const supabase = await this.client()
+    // Events and statistics are removed by ON DELETE CASCADE
+    const { data, error } = await supabase.from("proctoring_sessions").delete().eq("id", sessionId).select("id")
+
+    if (error) throw error
+    return data.length > 0
+  }
+
+  async listEvents(filter: EventFilter = {}) {
+    const { limit, offset = 0 } = filter
+    const supabase = await this.client()
+    const filtered = (options?: { count: "exact" }) => {
+      let query = supabase
+        .from("detection_events")
+        .select("*", options)
+        .order("timestamp", { ascending: false })
+        .order("id", { ascending: false })
+
+      if (filter.sessionId) query = query.eq("session_id", filter.sessionId)
+      if (filter.type) query = query.eq("event_type", filter.type)
+      if (filter.severity) query = query.eq("severity", filter.severity)
+
+      return query
+    }
+
+    // Without a limit every matching event is returned, however many pages that takes
+    if (limit === undefined) {
+      const rows = await selectAllPages<DetectionEventRow>((from, to) => filtered().range(from + offset, to + offset))
+      return { events: rows.map(eventFromRow), total: offset + rows.length }
+    }
+
+    const { data, error, count } = await filtered({ count: "exact" }).range(offset, offset + limit - 1)
+    if (error) throw error
+    return { events: (data as DetectionEventRow[]).map(eventFromRow), total: count ?? data.length }
+  }
+
+  async getEvent(eventId: string) {
+    const supabase = await this.client()
+    const { data, error } = await supabase.from("detection_events").select("*").eq("id", eventId).maybeSingle()
+
+    if (error) throw error
+    return data ? eventFromRow(data as DetectionEventRow) : null
+  }
+
+  async createEvent(event: NewDetectionEvent) {
+    // Users may not add audit events themselves, so they cannot be forged
+    const supabase = isAuditEvent(event.type) ? createAdminClient() : await this.client()
+    const { data, error } = await supabase.from("detection_events").insert(eventToRow(event)).select().single()
+
+    if (error) throw error
+
+    await this.refreshStatistics(event.sessionId)
+
+    return eventFromRow(data as DetectionEventRow)
+  }
+
+  async deleteEvent(eventId: string) {
+    const supabase = await this.client()
+    const { data, error } = await supabase.from("detection_events").delete().eq("id", eventId).select()
+
+    if (error) throw error
+    if (data.length === 0) return null
+
+    const deleted = eventFromRow(data[0] as DetectionEventRow)
+    await this.refreshStatistics(deleted.sessionId)
+    return deleted
+  }
+
+  async deleteSessionEvents(sessionId: string) {
+    const supabase = await this.client()
+    const { error } = await supabase.from("detection_events").delete().eq("session_id", sessionId)
+
+    if (error) throw error
+    await this.refreshStatistics(sessionId)
+  }
+
+  async getStatistics(sessionId: string) {
+    const supabase = await this.client()
+    const { data, error } = await supabase
+      .from("session_statistics")
+      .select("*")
+      .eq("session_id", sessionId)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) return null
+
+    return statisticsFromRow(data as SessionStatisticsRow)
+  }
+
+  // A session has a sample per second, more than PostgREST returns at once
+  async listAudioLevels(sessionId: string) {
+    const supabase = await this.client()
+    const rows = await selectAllPages<AudioLevelRow>((from, to) =>
+      supabase
+        .from("audio_levels")
+        .select("*")
+        .eq("session_id", sessionId)
+        .order("recorded_at", { ascending: true })
+        .order("id")
+        .range(from, to),
+    )
+
+    return rows.map(audioLevelFromRow)
+  }
+
+  async addAudioLevels(samples: AudioLevelSample[]) {
+    const supabase = await this.client()
+    const { error } = await supabase.from("audio_levels").insert(samples.map(audioLevelToRow))
+
+    if (error) throw error
+  }
+
+  async listOrganizations() {
+    const supabase = await this.client()
+    const { data, error } = await supabase.from("organizations").select("*").order("name")
+
+    if (error) throw error
+    return (data as OrganizationRow[]).map(organizationFromRow)
+  }
+
+  async getOrganization(orgId: string) {
+    const supabase = await this.client()
+    const { data, error } = await supabase.from("organizations").select("*").eq("id", orgId).maybeSingle()
+
+    if (error) throw error
+    return data ? organizationFromRow(data as OrganizationRow) : null
+  }
+
+  async createOrganization(organization: NewOrganization) {
+    const supabase = await this.client()
+    const { data, error } = await supabase
+      .from("organizations")
+      .insert({ name: organization.name, created_at: organization.createdAt.toISOString() })
+      .select()
+      .single()
+
+    if (error) throw error
+    return organizationFromRow(data as OrganizationRow)
+  }
+
+  async listExams(filter: ExamFilter = {}) {
+    const supabase = await this.client()
+    let query = supabase.from("exams").select("*").order("opens_at", { ascending: false })
+
+    if (filter.orgId) query = query.eq("org_id", filter.orgId)
+
+    const { data, error } = await query
+    if (error) throw error
+    return (data as ExamRow[]).map(examFromRow)
+  }
+
+  async getExam(examId: string) {
+    const supabase = await this.client()
+    const { data, error } = await supabase.from("exams").select("*").eq("id", examId).maybeSingle()
+
+    if (error) throw error
+    return data ? examFromRow(data as ExamRow) : null
+  }
+
+  async createExam(exam: NewExam) {
+    const supabase = await this.client()
+    const { data, error } = await supabase.from("exams").insert(examToRow(exam)).select().single()
+
+    if (error) throw error
+    return examFromRow(data as ExamRow)
+  }
+
+  async updateExam(examId: string, updates: ExamUpdates) {
+    const supabase = await this.client()
+    const { data, error } = await supabase
+      .from("exams")
+      .update(examToRow(updates))
+      .eq("id", examId)
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    return data ? examFromRow(data as ExamRow) : null
+  }
+
+  async deleteExam(examId: string) {
+    const supabase = await this.client()
+    // Invitations cascade; sessions keep their rows with exam_id set to null
+    const { data, error } = await supabase.from("exams").delete().eq("id", examId).select("id")
+
+    if (error) throw error
+    return data.length > 0
+  }
+
+  async listInvitations(filter: InvitationFilter = {}) {
+    const supabase = await this.client()
+    let query = supabase.from("invitations").select("*").order("created_at", { ascending: false })
+
+    if (filter.examId) query = query.eq("exam_id", filter.examId)
+    if (filter.orgId) query = query.eq("org_id", filter.orgId)
+
+    const { data, error } = await query
+    if (error) throw error
+    return (data as InvitationRow[]).map(invitationFromRow)
+  }
+
+  async getInvitation(invitationId: string) {
+    const supabase = await this.client()
+    const { data, error } = await supabase.from("invitations").select("*").eq("id", invitationId).maybeSingle()
+
+    if (error) throw error
+    return data ? invitationFromRow(data as InvitationRow) : null
+  }
+
+  async createInvitation(invitation: NewInvitation) {
+    const supabase = await this.client()
+    const { data, error } = await supabase.from("invitations").insert(invitationToRow(invitation)).select().single()
+
+    if (error) throw error
+    return invitationFromRow(data as InvitationRow)
+  }
+
+  async updateInvitation(invitationId: string, updates: InvitationUpdates) {
+    const supabase = await this.client()
+    const { data, error } = await supabase
+      .from("invitations")
+      .update(invitationToRow(updates))
+      .eq("id", invitationId)
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    return data ? invitationFromRow(data as InvitationRow) : null
+  }
+
+  // Candidates may not update invitations (scripts/009_add_invitation_links.sql), so the
+  // claim and its follow-ups run with the service role once the token has been verified
+  async claimInvitation(invitationId: string, tokenId: string, acceptedAt: Date) {
+    const supabase = createAdminClient()
+    // The filters make the update conditional, so only one of two concurrent claims matches
+    const { data, error } = await supabase
+      .from("invitations")
+      .update(invitationToRow({ status: "accepted", acceptedAt }))
+      .eq("id", invitationId)
+      .eq("status", "pending")
+      .eq("token_id", tokenId)
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    return data ? invitationFromRow(data as InvitationRow) : null
+  }
+
+  async linkInvitationSession(invitationId: string, sessionId: string) {
+    return this.updateClaimedInvitation(invitationId, { sessionId })
+  }
+
+  async releaseInvitation(invitationId: string) {
+    return this.updateClaimedInvitation(invitationId, { status: "pending" })
+  }
+
+  private async updateClaimedInvitation(invitationId: string, updates: InvitationUpdates) {
+    const { data, error } = await createAdminClient()
+      .from("invitations")
+      .update(invitationToRow(updates))
+      .eq("id", invitationId)
+      .eq("status", "accepted")
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    return data ? invitationFromRow(data as InvitationRow) : null
+  }
+
+  // Recompute the statistics row from the session's events
+  private async refreshStatistics(sessionId: string) {
+    const supabase = await this.client()
+    const rows = await selectAllPages<DetectionEventRow>((from, to) =>
+      supabase.from("detection_events").select("*").eq("session_id", sessionId).order("id").range(from, to),
+    )
+
+    const statistics = computeStatistics(sessionId, rows.map(eventFromRow))
+
+    await supabase
+      .from("session_statistics")
+      .update({ ...statisticsToRow(statistics), updated_at: new Date().toISOString() })
+      .eq("session_id", sessionId)
+  }
+}
@@ -0,0 +1,186 @@
+import {
+  isSuspiciousObjectEvent,
+  type AudioLevelSample,
+  type DetectionEvent,
+  type DetectionEventType,
+  type Exam,
+  type Invitation,
+  type Organization,
+  type ProctoringSession,
+  type SessionSortField,
+  type SessionStatistics,
+  type SessionStatus,
+  type Severity,
+  type SortOrder,
+} from "@/lib/domain"
+
+export interface SessionFilter {
+  sessionId?: string
+  candidateId?: string
+  // Null matches sessions that belong to no organization
+  orgId?: string | null
+  examId?: string
+  // Case-insensitive substring of the candidate name
+  search?: string
+  status?: SessionStatus
+  // Sessions started within [from, to]
+  from?: Date
+  to?: Date
+  minScore?: number
+  maxScore?: number
+  reviewed?: boolean
+  // Defaults to newest first; ties are broken by id
+  sort?: SessionSortField
+  order?: SortOrder
+  limit?: number
+  // nextCursor of the previous page
+  cursor?: string
+}
+
+export interface SessionPage {
+  sessions: ProctoringSession[]
+  // Count of matching sessions across all pages
+  total: number
+  // Null on the last page
+  nextCursor: string | null
+}
+
+export interface EventFilter {
+  sessionId?: string
+  type?: DetectionEventType
+  severity?: Severity
+  limit?: number
+  offset?: number
+}
+
+export interface ExamFilter {
+  orgId?: string
+}
+
+export interface InvitationFilter {
+  examId?: string
+  orgId?: string
+}
+
+export type NewSession = Omit<ProctoringSession, "id">
+export type NewDetectionEvent = Omit<DetectionEvent, "id">
+export type SessionUpdates = Partial<Omit<ProctoringSession, "id">>
+export type NewOrganization = Omit<Organization, "id">
+export type NewExam = Omit<Exam, "id">
+export type ExamUpdates = Partial<Omit<Exam, "id" | "orgId">>
+export type NewInvitation = Omit<Invitation, "id">
+export type InvitationUpdates = Partial<Pick<Invitation, "status" | "sessionId" | "tokenId" | "tokenExpiresAt">>
+
+// Storage backend shared by every API route
+export interface ProctoringRepository {
+  // Omitting limit returns every matching session
+  listSessions(filter?: SessionFilter): Promise<SessionPage>
+  getSession(sessionId: string): Promise<ProctoringSession | null>
+  createSession(session: NewSession): Promise<ProctoringSession>
+  updateSession(sessionId: string, updates: SessionUpdates): Promise<ProctoringSession | null>
+  // Deletes the session together with its events and statistics
+  deleteSession(sessionId: string): Promise<boolean>
+
+  // Events are returned newest first; total is the count before pagination.
+  // Omitting limit returns every matching event.
+  listEvents(filter?: EventFilter): Promise<{ events: DetectionEvent[]; total: number }>
+  getEvent(eventId: string): Promise<DetectionEvent | null>
+  createEvent(event: NewDetectionEvent): Promise<DetectionEvent>
+  // Returns the deleted event, or null if it did not exist
+  deleteEvent(eventId: string): Promise<DetectionEvent | null>
+  deleteSessionEvents(sessionId: string): Promise<void>
+
+  getStatistics(sessionId: string): Promise<SessionStatistics | null>
+
+  // Audio levels are returned oldest first
+  listAudioLevels(sessionId: string): Promise<AudioLevelSample[]>
+  addAudioLevels(samples: AudioLevelSample[]): Promise<void>
+
+  listOrganizations(): Promise<Organization[]>
+  getOrganization(orgId: string): Promise<Organization | null>
+  createOrganization(organization: NewOrganization): Promise<Organization>
+
+  // Exams are returned by opening time, latest first
+  listExams(filter?: ExamFilter): Promise<Exam[]>
+  getExam(examId: string): Promise<Exam | null>
+  createExam(exam: NewExam): Promise<Exam>
+  updateExam(examId: string, updates: ExamUpdates): Promise<Exam | null>
+  // Sessions taken for the exam are kept, without the link to it
+  deleteExam(examId: string): Promise<boolean>
+
+  // Invitations are returned newest first
+  listInvitations(filter?: InvitationFilter): Promise<Invitation[]>
+  getInvitation(invitationId: string): Promise<Invitation | null>
+  createInvitation(invitation: NewInvitation): Promise<Invitation>
+  updateInvitation(invitationId: string, updates: InvitationUpdates): Promise<Invitation | null>
+  // Marks a pending invitation whose current link is tokenId as accepted, in one step
+  // so a link used twice concurrently is only accepted once. Null if it was not claimable.
+  claimInvitation(invitationId: string, tokenId: string, acceptedAt: Date): Promise<Invitation | null>
+  // Finish a claim: link the session started for the invitation, or return it to
+  // pending when the session could not be created so the link can be used again
+  linkInvitationSession(invitationId: string, sessionId: string): Promise<Invitation | null>
+  releaseInvitation(invitationId: string): Promise<Invitation | null>
+}
+
+export function generateId(prefix: string) {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
+
+// Value a session is sorted by; dates as ISO strings, which order the same way
+export function sessionSortValue(session: ProctoringSession, field: SessionSortField): string | number {
+  switch (field) {
+    case "startTime":
+      return session.startTime.toISOString()
+    case "integrityScore":
+      return session.integrityScore
+    case "candidateName":
+      return session.candidateName
+    case "duration":
+      return session.duration
+  }
+}
+
+// Cursors are opaque to clients: the sort value and id of the last session on the page
+export function encodeCursor(value: string | number, id: string) {
+  return Buffer.from(JSON.stringify([value, id])).toString("base64url")
+}
+
+// Null when the cursor was not produced by encodeCursor
+export function decodeCursor(cursor: string): { value: string | number; id: string } | null {
+  let decoded: unknown
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"))
+  } catch {
+    return null
+  }
+
+  if (
+    !Array.isArray(decoded) ||
+    decoded.length !== 2 ||
+    (typeof decoded[0] !== "string" && typeof decoded[0] !== "number") ||
+    typeof decoded[1] !== "string"
+  ) {
+    return null
+  }
+
+  return { value: decoded[0], id: decoded[1] }
+}
+
+// Derive statistics from a session's events (used by backends without a statistics table)
+export function computeStatistics(sessionId: string, events: DetectionEvent[]): SessionStatistics {
+  const confidenceValues = events.filter((e) => e.confidence).map((e) => e.confidence!)
+
+  return {
+    sessionId,
+    totalFocusLossEvents: events.filter((e) => e.type === "focus_lost").length,
+    totalMultipleFaceEvents: events.filter((e) => e.type === "multiple_faces").length,
+    totalSuspiciousObjectEvents: events.filter((e) => isSuspiciousObjectEvent(e.type)).length,
+    totalNoFaceEvents: events.filter((e) => e.type === "no_face").length,
+    averageConfidence:
+      confidenceValues.length > 0 ? confidenceValues.reduce((sum, conf) => sum + conf, 0) / confidenceValues.length : 0,
+    updatedAt: events.reduce(
+      (latest, e) => (new Date(e.timestamp) > latest ? new Date(e.timestamp) : latest),
+      new Date(0),
+    ),
+  }
+}
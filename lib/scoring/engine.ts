@@ -0,0 +1,108 @@
+import { isAuditEvent, type DetectionEvent, type DetectionEventType, type Incident } from "@/lib/domain"
+import { buildIncidents } from "@/lib/incidents"
+import type { ScoringPolicy } from "./policies"
+
+export interface ScoreDeduction {
+  eventType: DetectionEventType
+  reason: string
+  points: number
+  // Incidents that contributed points
+  count: number
+  // Incidents skipped by the forgiveness window or minimum duration
+  forgiven: number
+}
+
+export interface ScoreResult {
+  policy: string
+  score: number
+  deductions: ScoreDeduction[]
+}
+
+const DEDUCTION_REASONS: Record<DetectionEventType, string> = {
+  focus_lost: "Loss of focus",
+  no_face: "Face not visible",
+  multiple_faces: "Multiple faces in frame",
+  phone_detected: "Mobile phone detected",
+  notes_detected: "Notes or reference material detected",
+  suspicious_object: "Unauthorized object detected",
+  eyes_closed: "Eyes closed",
+  tab_hidden: "Switched away from the exam tab",
+  window_blur: "Exam window lost focus",
+  fullscreen_exit: "Left fullscreen",
+  clipboard_use: "Clipboard or context menu used",
+  devtools_open: "Developer tools opened",
+  speech_detected: "Sustained speech",
+  multiple_speakers: "Multiple voices",
+  background_noise: "Loud background noise",
+  identity_mismatch: "Face did not match the verified candidate",
+  proctor_command: "Proctor intervention",
+  command_acknowledged: "Proctor intervention acknowledged",
+}
+
+// Score a session from scratch. Deterministic for a given set of incidents, so
+// the live score and the report breakdown always agree.
+export function scoreIncidents(incidents: Incident[], policy: ScoringPolicy): ScoreResult {
+  const incidentsByType = new Map<DetectionEventType, Incident[]>()
+  for (const incident of incidents) {
+    // Kept for review only, e.g. objects an exam's policy marks as "logged", and
+    // the audit trail of proctor interventions
+    if (incident.informational || isAuditEvent(incident.type)) continue
+    incidentsByType.set(incident.type, [...(incidentsByType.get(incident.type) || []), incident])
+  }
+
+  const deductions: ScoreDeduction[] = []
+
+  for (const [eventType, typeIncidents] of incidentsByType) {
+    const rule = policy.rules[eventType]
+    const sorted = [...typeIncidents].sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime())
+
+    let count = 0
+    let forgiven = 0
+    let lastCountedAt: number | null = null
+
+    for (const incident of sorted) {
+      const startedAt = incident.startedAt.getTime()
+
+      if (rule.minDurationMs !== undefined && incident.durationMs < rule.minDurationMs) {
+        forgiven++
+        continue
+      }
+
+      if (
+        rule.forgivenessWindowMs !== undefined &&
+        lastCountedAt !== null &&
+        startedAt - lastCountedAt < rule.forgivenessWindowMs
+      ) {
+        forgiven++
+        continue
+      }
+
+      count++
+      lastCountedAt = startedAt
+    }
+
+    let points = count * rule.points
+    if (rule.maxDeduction !== undefined) {
+      points = Math.min(points, rule.maxDeduction)
+    }
+
+    if (count > 0 || forgiven > 0) {
+      deductions.push({ eventType, reason: DEDUCTION_REASONS[eventType], points, count, forgiven })
+    }
+  }
+
+  deductions.sort((a, b) => b.points - a.points)
+
+  const totalDeduction = deductions.reduce((sum, deduction) => sum + deduction.points, 0)
+
+  return {
+    policy: policy.name,
+    score: Math.max(0, 100 - totalDeduction),
+    deductions,
+  }
+}
+
+// Groups raw detection events into incidents before scoring them
+export function scoreEvents(events: DetectionEvent[], policy: ScoringPolicy, graceMs: number): ScoreResult {
+  return scoreIncidents(buildIncidents(events, graceMs), policy)
+}
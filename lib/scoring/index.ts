@@ -0,0 +1,25 @@
+import type { ProctoringRepository } from "@/lib/repository"
+import type { ProctoringSession } from "@/lib/domain"
+import { scoreEvents } from "./engine"
+import { getScoringPolicy } from "./policies"
+
+export * from "./engine"
+export * from "./policies"
+
+export async function scoreSession(repository: ProctoringRepository, session: ProctoringSession) {
+  const { events } = await repository.listEvents({ sessionId: session.id })
+  return scoreEvents(events, getScoringPolicy(session.scoringPolicy), session.settings.incidents.graceMs)
+}
+
+// Recompute and store the live integrity score; the server is the only writer
+export async function refreshIntegrityScore(repository: ProctoringRepository, sessionId: string) {
+  const session = await repository.getSession(sessionId)
+  if (!session) return null
+
+  const result = await scoreSession(repository, session)
+  if (result.score !== session.integrityScore) {
+    await repository.updateSession(sessionId, { integrityScore: result.score })
+  }
+
+  return result
+}
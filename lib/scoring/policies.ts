@@ -0,0 +1,107 @@
+import type { DetectionEventType } from "@/lib/domain"
+
+export interface ScoringRule {
+  // Points deducted per counted incident
+  points: number
+  // Upper bound on the total deducted for this event type
+  maxDeduction?: number
+  // Incidents of the same type starting within this window after a counted one are forgiven
+  forgivenessWindowMs?: number
+  // Shorter incidents are ignored
+  minDurationMs?: number
+}
+
+export interface ScoringPolicy {
+  name: string
+  description: string
+  rules: Record<DetectionEventType, ScoringRule>
+}
+
+export const SCORING_POLICIES = {
+  standard: {
+    name: "standard",
+    description: "Default weights for proctored interviews",
+    rules: {
+      focus_lost: { points: 2, maxDeduction: 20, forgivenessWindowMs: 10_000, minDurationMs: 5_000 },
+      no_face: { points: 5, maxDeduction: 30, forgivenessWindowMs: 10_000, minDurationMs: 10_000 },
+      multiple_faces: { points: 10, maxDeduction: 40, forgivenessWindowMs: 30_000 },
+      phone_detected: { points: 15, maxDeduction: 45, forgivenessWindowMs: 30_000 },
+      notes_detected: { points: 15, maxDeduction: 45, forgivenessWindowMs: 30_000 },
+      suspicious_object: { points: 15, maxDeduction: 45, forgivenessWindowMs: 30_000 },
+      eyes_closed: { points: 1, maxDeduction: 10, forgivenessWindowMs: 10_000 },
+      tab_hidden: { points: 5, maxDeduction: 30, forgivenessWindowMs: 10_000, minDurationMs: 2_000 },
+      window_blur: { points: 2, maxDeduction: 10, forgivenessWindowMs: 10_000, minDurationMs: 2_000 },
+      fullscreen_exit: { points: 3, maxDeduction: 15, forgivenessWindowMs: 10_000, minDurationMs: 2_000 },
+      clipboard_use: { points: 5, maxDeduction: 25, forgivenessWindowMs: 30_000 },
+      devtools_open: { points: 15, maxDeduction: 30 },
+      speech_detected: { points: 3, maxDeduction: 15, forgivenessWindowMs: 30_000, minDurationMs: 3_000 },
+      multiple_speakers: { points: 10, maxDeduction: 30, forgivenessWindowMs: 60_000 },
+      background_noise: { points: 1, maxDeduction: 5, forgivenessWindowMs: 60_000 },
+      identity_mismatch: { points: 20, maxDeduction: 40, forgivenessWindowMs: 120_000 },
+      // Audit events; a warning costs nothing by itself, the violation behind it does
+      proctor_command: { points: 0 },
+      command_acknowledged: { points: 0 },
+    },
+  },
+  lenient: {
+    name: "lenient",
+    description: "Low-stakes practice sessions; only repeated or serious violations matter",
+    rules: {
+      focus_lost: { points: 1, maxDeduction: 10, forgivenessWindowMs: 60_000, minDurationMs: 10_000 },
+      no_face: { points: 2, maxDeduction: 10, forgivenessWindowMs: 60_000, minDurationMs: 20_000 },
+      multiple_faces: { points: 5, maxDeduction: 20, forgivenessWindowMs: 60_000 },
+      phone_detected: { points: 10, maxDeduction: 30, forgivenessWindowMs: 60_000 },
+      notes_detected: { points: 5, maxDeduction: 15, forgivenessWindowMs: 60_000 },
+      suspicious_object: { points: 5, maxDeduction: 15, forgivenessWindowMs: 60_000 },
+      eyes_closed: { points: 0 },
+      tab_hidden: { points: 2, maxDeduction: 10, forgivenessWindowMs: 30_000, minDurationMs: 5_000 },
+      window_blur: { points: 0 },
+      fullscreen_exit: { points: 1, maxDeduction: 5, forgivenessWindowMs: 30_000, minDurationMs: 5_000 },
+      clipboard_use: { points: 2, maxDeduction: 10, forgivenessWindowMs: 60_000 },
+      devtools_open: { points: 5, maxDeduction: 15 },
+      speech_detected: { points: 1, maxDeduction: 5, forgivenessWindowMs: 60_000, minDurationMs: 5_000 },
+      multiple_speakers: { points: 5, maxDeduction: 15, forgivenessWindowMs: 60_000 },
+      background_noise: { points: 0 },
+      identity_mismatch: { points: 10, maxDeduction: 20, forgivenessWindowMs: 300_000 },
+      proctor_command: { points: 0 },
+      command_acknowledged: { points: 0 },
+    },
+  },
+  strict: {
+    name: "strict",
+    description: "High-stakes exams; every violation is counted without caps",
+    rules: {
+      focus_lost: { points: 3, minDurationMs: 3_000 },
+      no_face: { points: 10, minDurationMs: 5_000 },
+      multiple_faces: { points: 20 },
+      phone_detected: { points: 25 },
+      notes_detected: { points: 20 },
+      suspicious_object: { points: 20 },
+      eyes_closed: { points: 2 },
+      tab_hidden: { points: 10 },
+      window_blur: { points: 5 },
+      fullscreen_exit: { points: 5 },
+      clipboard_use: { points: 10 },
+      devtools_open: { points: 25 },
+      speech_detected: { points: 5 },
+      multiple_speakers: { points: 20 },
+      background_noise: { points: 2 },
+      identity_mismatch: { points: 30 },
+      proctor_command: { points: 0 },
+      command_acknowledged: { points: 0 },
+    },
+  },
+} satisfies Record<string, ScoringPolicy>
+
+export type ScoringPolicyName = keyof typeof SCORING_POLICIES
+
+export const DEFAULT_SCORING_POLICY: ScoringPolicyName = "standard"
+
+export function isScoringPolicyName(name: string): name is ScoringPolicyName {
+  return Object.prototype.hasOwnProperty.call(SCORING_POLICIES, name)
+}
+
+// Unknown names fall back to the default so old sessions keep scoring
+export function getScoringPolicy(name?: string): ScoringPolicy {
+  return name && isScoringPolicyName(name) ? SCORING_POLICIES[name] : SCORING_POLICIES[DEFAULT_SCORING_POLICY]
+}
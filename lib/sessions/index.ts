@@ -0,0 +1,68 @@
+import type { BlobStore } from "@/lib/blob-store"
+import type { ProctoringRepository } from "@/lib/repository"
+import { deleteRecording } from "@/lib/recording"
+import { deleteEvidence } from "@/lib/evidence"
+import { getLiveHub } from "@/lib/live"
+import { isLiveSession, type DetectionEvent, type ProctoringSession } from "@/lib/domain"
+
+export interface SessionExport {
+  exportedAt: Date
+  sessions: { session: ProctoringSession; events: DetectionEvent[] }[]
+}
+
+// Deletes the session with its events, recording and evidence; false if it did not exist
+export async function deleteSessionWithArtifacts(repository: ProctoringRepository, store: BlobStore, sessionId: string) {
+  const deleted = await repository.deleteSession(sessionId)
+  if (!deleted) return false
+
+  await deleteRecording(store, sessionId)
+  await deleteEvidence(store, sessionId)
+  return true
+}
+
+// When an exam session's time is up: the exam's durationMinutes after it started.
+// Null for practice sessions and sessions whose exam was deleted.
+export async function sessionDeadline(repository: ProctoringRepository, session: ProctoringSession) {
+  if (!session.examId) return null
+
+  const exam = await repository.getExam(session.examId)
+  return exam ? new Date(session.startTime.getTime() + exam.durationMinutes * 60 * 1000) : null
+}
+
+// Completes an exam session still in progress once its time is up, ending it at the
+// deadline. The candidate's page stops by itself; this holds pages that don't to the
+// limit, and is checked by the routes candidates write through.
+export async function endSessionIfTimeIsUp(
+  repository: ProctoringRepository,
+  session: ProctoringSession,
+  now = new Date(),
+): Promise<ProctoringSession> {
+  if (!isLiveSession(session)) return session
+
+  const deadline = await sessionDeadline(repository, session)
+  if (!deadline || now < deadline) return session
+
+  const updated = await repository.updateSession(session.id, { status: "completed", endTime: deadline })
+  if (!updated) return session
+
+  getLiveHub().publish({ type: "session", session: updated })
+  return updated
+}
+
+// Sessions that do not exist are left out
+export async function exportSessions(repository: ProctoringRepository, sessionIds: string[]): Promise<SessionExport> {
+  const sessions = await Promise.all(
+    sessionIds.map(async (sessionId) => {
+      const session = await repository.getSession(sessionId)
+      if (!session) return null
+
+      const { events } = await repository.listEvents({ sessionId })
+      return { session, events }
+    }),
+  )
+
+  return {
+    exportedAt: new Date(),
+    sessions: sessions.filter((entry): entry is NonNullable<typeof entry> => entry !== null),
+  }
+}
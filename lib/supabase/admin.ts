@@ -0,0 +1,14 @@
+import { createClient } from "@supabase/supabase-js"
+
+// Service role client for the writes row level security keeps from users: session
+// updates, audit events and invitation claims. It bypasses every policy, so callers check access first. Server only.
+export function createAdminClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!serviceRoleKey) {
+    throw new Error("SUPABASE_SERVICE_ROLE_KEY is required with the supabase storage backend")
+  }
+
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+}
@@ -0,0 +1,161 @@
+import { AUDIO_LEVEL_FLOOR_DB, type SystemCheckItem, type VideoQuality } from "@/lib/domain"
+
+export const VIDEO_QUALITY_SIZES: Record<VideoQuality, { width: number; height: number }> = {
+  "720p": { width: 1280, height: 720 },
+  "1080p": { width: 1920, height: 1080 },
+}
+
+// Recording formats in order of preference; the first the browser supports is used
+export const RECORDING_MIME_TYPES = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"]
+
+// Mean luma of the frame, 0 to 255
+const MIN_BRIGHTNESS = 40
+const DIM_BRIGHTNESS = 70
+const BRIGHT_BRIGHTNESS = 220
+const BRIGHTNESS_SAMPLE_WIDTH = 160
+// Peaks below this are taken for a muted or disconnected microphone
+const SILENT_PEAK_DB = -90
+
+export interface MediaDeviceChoices {
+  cameras: MediaDeviceInfo[]
+  microphones: MediaDeviceInfo[]
+}
+
+// Device labels are only filled in once the page has camera and microphone permission
+export async function listMediaDevices(): Promise<MediaDeviceChoices> {
+  const devices = await navigator.mediaDevices.enumerateDevices()
+  return {
+    cameras: devices.filter((device) => device.kind === "videoinput" && device.deviceId),
+    microphones: devices.filter((device) => device.kind === "audioinput" && device.deviceId),
+  }
+}
+
+// getUserMedia constraints for the chosen devices; unset ids leave the choice to the browser
+export function mediaConstraints(
+  quality: VideoQuality,
+  { cameraId, microphoneId, video = true, audio = true }: { cameraId?: string; microphoneId?: string; video?: boolean; audio?: boolean },
+): MediaStreamConstraints {
+  const { width, height } = VIDEO_QUALITY_SIZES[quality]
+  return {
+    video: video ? { width, height, frameRate: 30, ...(cameraId ? { deviceId: { exact: cameraId } } : {}) } : false,
+    audio: audio ? (microphoneId ? { deviceId: { exact: microphoneId } } : true) : false,
+  }
+}
+
+export function pickRecordingMimeType() {
+  if (typeof MediaRecorder === "undefined") return null
+  return RECORDING_MIME_TYPES.find((mimeType) => MediaRecorder.isTypeSupported(mimeType)) ?? null
+}
+
+// Mean luma of the current video frame, or null before the first frame
+export function measureBrightness(video: HTMLVideoElement) {
+  if (video.videoWidth === 0 || video.videoHeight === 0) return null
+
+  const canvas = document.createElement("canvas")
+  canvas.width = BRIGHTNESS_SAMPLE_WIDTH
+  canvas.height = Math.max(1, Math.round((BRIGHTNESS_SAMPLE_WIDTH * video.videoHeight) / video.videoWidth))
+  const ctx = canvas.getContext("2d", { willReadFrequently: true })
+  if (!ctx) return null
+
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height)
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height)
+  let total = 0
+  for (let index = 0; index < data.length; index += 4) {
+    total += 0.2126 * data[index] + 0.7152 * data[index + 1] + 0.0722 * data[index + 2]
+  }
+  return total / (data.length / 4)
+}
+
+// Loudest level the microphone picks up over durationMs, in dBFS. onLevel receives
+// the running level so the candidate can see the microphone respond.
+export async function measureMicrophone(stream: MediaStream, durationMs: number, onLevel?: (levelDb: number) => void) {
+  const context = new AudioContext()
+  try {
+    await context.resume()
+    const analyser = context.createAnalyser()
+    analyser.fftSize = 2048
+    context.createMediaStreamSource(stream).connect(analyser)
+
+    const samples = new Float32Array(analyser.fftSize)
+    let peakDb = AUDIO_LEVEL_FLOOR_DB
+    const startedAt = Date.now()
+    while (Date.now() - startedAt < durationMs) {
+      await new Promise((resolve) => setTimeout(resolve, 50))
+      analyser.getFloatTimeDomainData(samples)
+      const meanSquare = samples.reduce((total, sample) => total + sample * sample, 0) / samples.length
+      const levelDb = meanSquare > 0 ? Math.max(AUDIO_LEVEL_FLOOR_DB, 10 * Math.log10(meanSquare)) : AUDIO_LEVEL_FLOOR_DB
+      peakDb = Math.max(peakDb, levelDb)
+      onLevel?.(levelDb)
+    }
+    return peakDb
+  } finally {
+    context.close().catch(() => {})
+  }
+}
+
+export function checkDevice(name: "camera" | "microphone", track: MediaStreamTrack | undefined): SystemCheckItem {
+  if (!track) return { name, status: "failed", message: `No ${name} is available` }
+  if (track.readyState !== "live") return { name, status: "failed", message: `The ${name} stopped responding` }
+  return { name, status: "passed", message: track.label || `Default ${name}` }
+}
+
+// Cameras may deliver less than asked for; the recording then has a lower quality
+export function checkResolution(track: MediaStreamTrack, quality: VideoQuality): SystemCheckItem {
+  const { width = 0, height = 0 } = track.getSettings()
+  const wanted = VIDEO_QUALITY_SIZES[quality]
+  const size = `${width}×${height}`
+
+  if (width === 0 || height === 0) return { name: "resolution", status: "failed", message: "The camera reports no resolution" }
+  if (Math.min(width, height) < VIDEO_QUALITY_SIZES["720p"].height / 2) {
+    return { name: "resolution", status: "failed", message: `${size} is too low to monitor the session` }
+  }
+  if (width < wanted.width || height < wanted.height) {
+    return { name: "resolution", status: "warning", message: `${size}, below the selected ${quality}` }
+  }
+  return { name: "resolution", status: "passed", message: size }
+}
+
+export function checkLighting(brightness: number | null): SystemCheckItem {
+  if (brightness === null) return { name: "lighting", status: "failed", message: "No picture from the camera" }
+
+  const level = `brightness ${Math.round(brightness)}/255`
+  if (brightness < MIN_BRIGHTNESS) {
+    return { name: "lighting", status: "failed", message: `Too dark (${level}); turn on a light facing you` }
+  }
+  if (brightness < DIM_BRIGHTNESS) {
+    return { name: "lighting", status: "warning", message: `Dim (${level}); more light improves detection` }
+  }
+  if (brightness > BRIGHT_BRIGHTNESS) {
+    return { name: "lighting", status: "warning", message: `Very bright (${level}); avoid light behind you` }
+  }
+  return { name: "lighting", status: "passed", message: `Good (${level})` }
+}
+
+// Null when face detection could not run, which leaves the check to the proctor
+export function checkFaces(count: number | null): SystemCheckItem {
+  if (count === null) return { name: "face", status: "warning", message: "Face detection is unavailable in this browser" }
+  if (count === 0) return { name: "face", status: "failed", message: "No face visible; sit facing the camera" }
+  if (count > 1) return { name: "face", status: "failed", message: `${count} faces visible; only you may be in view` }
+  return { name: "face", status: "passed", message: "One face visible" }
+}
+
+export function checkAudioLevel(peakDb: number, speechThresholdDb: number): SystemCheckItem {
+  const level = `peak ${Math.round(peakDb)} dB`
+  if (peakDb < SILENT_PEAK_DB) {
+    return { name: "audio_level", status: "failed", message: "No sound from the microphone; check it is not muted" }
+  }
+  if (peakDb < speechThresholdDb) {
+    return { name: "audio_level", status: "warning", message: `Quiet (${level}); speak up or move closer` }
+  }
+  return { name: "audio_level", status: "passed", message: `Heard you (${level})` }
+}
+
+export function checkCodec(mimeType: string | null): SystemCheckItem {
+  if (!mimeType) {
+    return { name: "codec", status: "failed", message: "This browser cannot record video; use a recent Chrome, Edge or Firefox" }
+  }
+  if (mimeType !== RECORDING_MIME_TYPES[0]) {
+    return { name: "codec", status: "warning", message: `${mimeType}; recordings will be larger` }
+  }
+  return { name: "codec", status: "passed", message: mimeType }
+}
@@ -0,0 +1,25 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { updateSession } from "@/lib/supabase/middleware"
+import { LOCAL_AUTH_COOKIE, LOGIN_PATH } from "@/lib/auth/constants"
+
+// Sends signed-out visitors of any page to the login page. Only checks that a
+// session exists; the API routes verify it and enforce roles themselves.
+export async function middleware(request: NextRequest) {
+  const response =
+    process.env.AUTH_PROVIDER === "supabase"
+      ? await updateSession(request)
+      : request.cookies.has(LOCAL_AUTH_COOKIE)
+        ? NextResponse.next()
+        : null
+
+  if (response) return response
+
+  const loginUrl = new URL(LOGIN_PATH, request.url)
+  loginUrl.searchParams.set("next", request.nextUrl.pathname + request.nextUrl.search)
+  return NextResponse.redirect(loginUrl)
+}
+
+export const config = {
+  // Everything except API routes, the login page, Next.js assets and static files
+  matcher: ["/((?!api|login|_next/static|_next/image|favicon.ico|models|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)"],
+}
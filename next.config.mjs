@@ -9,6 +9,10 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  experimental: {
+    // pdfkit reads its bundled font metrics from disk at runtime
+    serverComponentsExternalPackages: ["pdfkit"],
+  },
 }
 
 export default nextConfig
@@ -0,0 +1,3 @@
+-- Track whether AI detection was enabled for a session
+ALTER TABLE public.proctoring_sessions
+  ADD COLUMN IF NOT EXISTS detection_enabled BOOLEAN DEFAULT true;
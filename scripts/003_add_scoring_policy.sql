@@ -0,0 +1,3 @@
+-- Scoring policy used by the server-side integrity scoring engine (lib/scoring)
+ALTER TABLE public.proctoring_sessions
+  ADD COLUMN IF NOT EXISTS scoring_policy TEXT DEFAULT 'standard';
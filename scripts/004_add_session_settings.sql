@@ -0,0 +1,3 @@
+-- Per-exam detection settings (object policy, ...) as defined in lib/domain/settings.ts
+ALTER TABLE public.proctoring_sessions
+  ADD COLUMN IF NOT EXISTS settings JSONB DEFAULT '{}'::jsonb;
@@ -0,0 +1,3 @@
+-- Server-side recording assembled from uploaded chunks, as defined in lib/domain/recording.ts
+ALTER TABLE public.proctoring_sessions
+  ADD COLUMN IF NOT EXISTS recording JSONB;
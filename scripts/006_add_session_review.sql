@@ -0,0 +1,7 @@
+-- When a reviewer marked the session as reviewed in the session browser
+ALTER TABLE public.proctoring_sessions
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+
+-- Sort keys of the session browser; id breaks ties for cursor pagination
+CREATE INDEX IF NOT EXISTS idx_proctoring_sessions_session_start ON public.proctoring_sessions(session_start, id);
+CREATE INDEX IF NOT EXISTS idx_proctoring_sessions_integrity_score ON public.proctoring_sessions(integrity_score, id);
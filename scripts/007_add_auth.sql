@@ -0,0 +1,192 @@
+-- Role and organization of each Supabase Auth user, as defined in lib/domain/user.ts
+CREATE TABLE IF NOT EXISTS public.profiles (
+  id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  display_name TEXT,
+  role TEXT NOT NULL DEFAULT 'candidate' CHECK (role IN ('candidate', 'proctor', 'reviewer', 'admin', 'org_owner')),
+  org_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- New users start as candidates; admins promote them by updating their profile
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email, display_name)
+  VALUES (NEW.id, NEW.email, NEW.raw_user_meta_data ->> 'name')
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
+
+-- Candidate who took the session and the organization it belongs to
+ALTER TABLE public.proctoring_sessions
+  ADD COLUMN IF NOT EXISTS candidate_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS org_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_proctoring_sessions_candidate_id ON public.proctoring_sessions(candidate_id);
+CREATE INDEX IF NOT EXISTS idx_proctoring_sessions_org_id ON public.proctoring_sessions(org_id);
+CREATE INDEX IF NOT EXISTS idx_profiles_org_id ON public.profiles(org_id);
+
+-- Role and organization of the requesting user. SECURITY DEFINER so policies can
+-- read profiles without recursing into the profiles policies.
+CREATE OR REPLACE FUNCTION public.current_user_role()
+RETURNS TEXT
+LANGUAGE sql STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT role FROM public.profiles WHERE id = auth.uid()
+$$;
+
+CREATE OR REPLACE FUNCTION public.current_user_org()
+RETURNS UUID
+LANGUAGE sql STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT org_id FROM public.profiles WHERE id = auth.uid()
+$$;
+
+-- Same rule as canAccessSession in lib/auth/guards.ts: admins see every session,
+-- candidates their own, everyone else the sessions of their organization
+CREATE OR REPLACE FUNCTION public.can_access_session_row(session_candidate_id UUID, session_org_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT
+    public.current_user_role() = 'admin'
+    OR (public.current_user_role() = 'candidate' AND session_candidate_id = auth.uid())
+    OR (
+      public.current_user_role() IN ('proctor', 'reviewer', 'org_owner')
+      AND session_org_id IS NOT DISTINCT FROM public.current_user_org()
+    )
+$$;
+
+-- For tables that reference a session
+CREATE OR REPLACE FUNCTION public.can_access_session(target_session_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.proctoring_sessions s
+    WHERE s.id = target_session_id AND public.can_access_session_row(s.candidate_id, s.org_id)
+  )
+$$;
+
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+
+-- Replace the public access policies from 001_create_proctoring_tables.sql
+DROP POLICY IF EXISTS "Allow public access to proctoring_sessions" ON public.proctoring_sessions;
+DROP POLICY IF EXISTS "Allow public access to detection_events" ON public.detection_events;
+DROP POLICY IF EXISTS "Allow public access to session_statistics" ON public.session_statistics;
+
+-- Profiles: everyone reads their own; org owners their organization's; admins all.
+-- Only admins change roles and organizations.
+CREATE POLICY "Users read their own profile" ON public.profiles
+  FOR SELECT USING (id = auth.uid());
+
+CREATE POLICY "Org owners read their organization's profiles" ON public.profiles
+  FOR SELECT USING (public.current_user_role() = 'org_owner' AND org_id = public.current_user_org());
+
+CREATE POLICY "Admins manage profiles" ON public.profiles
+  FOR ALL USING (public.current_user_role() = 'admin') WITH CHECK (public.current_user_role() = 'admin');
+
+-- Proctoring sessions, checked on the row itself so a new session is visible to
+-- the INSERT ... RETURNING that created it
+CREATE POLICY "Users read sessions they may access" ON public.proctoring_sessions
+  FOR SELECT USING (public.can_access_session_row(candidate_id, org_id));
+
+-- Sessions are created for the signed-in user, within their organization
+CREATE POLICY "Users create their own sessions" ON public.proctoring_sessions
+  FOR INSERT WITH CHECK (
+    candidate_id = auth.uid() AND org_id IS NOT DISTINCT FROM public.current_user_org()
+  );
+
+-- Sessions are only updated by the server, with the service role key
+-- (lib/supabase/admin.ts), after the API has checked who may change what. Through
+-- the public API a candidate could otherwise raise their score, switch to a lenient
+-- scoring policy or settings, or fake their recording, device or identity checks,
+-- so there is no UPDATE policy for the API roles.
+
+-- New sessions may only set the columns a session starts with, and start active,
+-- unscored and now. Any other column (session_end, recording, reviewed_at and the
+-- columns later migrations add) must be left unset. Only the API roles are held to
+-- this; migrations and the service role are not.
+CREATE OR REPLACE FUNCTION public.protect_server_owned_session_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  unexpected_columns TEXT[];
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT array_agg(key) INTO unexpected_columns
+  FROM jsonb_object_keys(jsonb_strip_nulls(to_jsonb(NEW))) AS key
+  WHERE key NOT IN (
+    'id', 'candidate_name', 'session_start', 'duration_seconds', 'status', 'integrity_score',
+    'video_quality', 'detection_enabled', 'scoring_policy', 'settings', 'candidate_id', 'org_id',
+    'exam_id', 'created_at', 'updated_at'
+  );
+  IF unexpected_columns IS NOT NULL THEN
+    RAISE EXCEPTION 'New sessions cannot set %', array_to_string(unexpected_columns, ', ')
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.status <> 'active' OR NEW.integrity_score <> 100 OR NEW.duration_seconds <> 0
+    OR abs(extract(epoch FROM NEW.session_start - NOW())) > 60 THEN
+    RAISE EXCEPTION 'New sessions start active, unscored and now' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_server_owned_session_columns ON public.proctoring_sessions;
+CREATE TRIGGER protect_server_owned_session_columns
+  BEFORE INSERT ON public.proctoring_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.protect_server_owned_session_columns();
+
+CREATE POLICY "Managers delete sessions" ON public.proctoring_sessions
+  FOR DELETE USING (
+    public.current_user_role() IN ('admin', 'org_owner') AND public.can_access_session_row(candidate_id, org_id)
+  );
+
+-- Detection events: never updated, and never deleted by candidates. Audit events
+-- (lib/domain/event.ts AUDIT_EVENT_TYPES) are only added by the server with the
+-- service role, so proctor commands and acknowledgements cannot be forged.
+CREATE POLICY "Users read events of sessions they may access" ON public.detection_events
+  FOR SELECT USING (public.can_access_session(session_id));
+
+CREATE POLICY "Writers add events to sessions they may access" ON public.detection_events
+  FOR INSERT WITH CHECK (
+    public.current_user_role() IN ('candidate', 'proctor', 'admin', 'org_owner')
+    AND public.can_access_session(session_id)
+    AND event_type NOT IN ('proctor_command', 'command_acknowledged')
+  );
+
+CREATE POLICY "Managers delete events" ON public.detection_events
+  FOR DELETE USING (
+    public.current_user_role() IN ('admin', 'org_owner') AND public.can_access_session(session_id)
+  );
+
+-- Session statistics are maintained by the server on behalf of whoever adds events
+CREATE POLICY "Users read statistics of sessions they may access" ON public.session_statistics
+  FOR SELECT USING (public.can_access_session(session_id));
+
+CREATE POLICY "Users maintain statistics of sessions they may access" ON public.session_statistics
+  FOR INSERT WITH CHECK (public.can_access_session(session_id));
+
+CREATE POLICY "Users refresh statistics of sessions they may access" ON public.session_statistics
+  FOR UPDATE USING (public.can_access_session(session_id)) WITH CHECK (public.can_access_session(session_id));
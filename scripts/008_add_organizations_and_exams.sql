@@ -0,0 +1,93 @@
+-- Organizations that own users, exams and sessions
+CREATE TABLE IF NOT EXISTS public.organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Exams with their schedule window and the proctoring policy their sessions follow
+CREATE TABLE IF NOT EXISTS public.exams (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  opens_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  closes_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  duration_minutes INTEGER NOT NULL CHECK (duration_minutes > 0),
+  scoring_policy TEXT NOT NULL DEFAULT 'standard',
+  settings JSONB NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (closes_at > opens_at)
+);
+
+-- Candidates invited to an exam
+CREATE TABLE IF NOT EXISTS public.invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  exam_id UUID NOT NULL REFERENCES public.exams(id) ON DELETE CASCADE,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  candidate_name TEXT NOT NULL,
+  candidate_email TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'revoked')),
+  session_id UUID REFERENCES public.proctoring_sessions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Exam the session was taken for; practice sessions have none
+ALTER TABLE public.proctoring_sessions
+  ADD COLUMN IF NOT EXISTS exam_id UUID REFERENCES public.exams(id) ON DELETE SET NULL;
+
+-- org_id was added without a foreign key in 007_add_auth.sql
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_org_id_fkey FOREIGN KEY (org_id) REFERENCES public.organizations(id) ON DELETE SET NULL;
+ALTER TABLE public.proctoring_sessions
+  ADD CONSTRAINT proctoring_sessions_org_id_fkey FOREIGN KEY (org_id) REFERENCES public.organizations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_proctoring_sessions_exam_id ON public.proctoring_sessions(exam_id);
+CREATE INDEX IF NOT EXISTS idx_exams_org_id ON public.exams(org_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_invitations_exam_id ON public.invitations(exam_id, created_at);
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.exams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invitations ENABLE ROW LEVEL SECURITY;
+
+-- Organizations: members read their own; only admins create or change them
+CREATE POLICY "Members read their organization" ON public.organizations
+  FOR SELECT USING (public.current_user_role() = 'admin' OR id = public.current_user_org());
+
+CREATE POLICY "Admins manage organizations" ON public.organizations
+  FOR ALL USING (public.current_user_role() = 'admin') WITH CHECK (public.current_user_role() = 'admin');
+
+-- Exams: members read their organization's; managers create, change and delete them
+CREATE POLICY "Members read their organization's exams" ON public.exams
+  FOR SELECT USING (public.current_user_role() = 'admin' OR org_id = public.current_user_org());
+
+CREATE POLICY "Managers manage their organization's exams" ON public.exams
+  FOR ALL USING (
+    public.current_user_role() = 'admin'
+    OR (public.current_user_role() = 'org_owner' AND org_id = public.current_user_org())
+  )
+  WITH CHECK (
+    public.current_user_role() = 'admin'
+    OR (public.current_user_role() = 'org_owner' AND org_id = public.current_user_org())
+  );
+
+-- Invitations: staff read their organization's; proctors and managers send and revoke them
+CREATE POLICY "Staff read their organization's invitations" ON public.invitations
+  FOR SELECT USING (
+    public.current_user_role() = 'admin'
+    OR (
+      public.current_user_role() IN ('proctor', 'reviewer', 'org_owner')
+      AND org_id = public.current_user_org()
+    )
+  );
+
+CREATE POLICY "Proctors manage their organization's invitations" ON public.invitations
+  FOR ALL USING (
+    public.current_user_role() = 'admin'
+    OR (public.current_user_role() IN ('proctor', 'org_owner') AND org_id = public.current_user_org())
+  )
+  WITH CHECK (
+    public.current_user_role() = 'admin'
+    OR (public.current_user_role() IN ('proctor', 'org_owner') AND org_id = public.current_user_org())
+  );
@@ -0,0 +1,59 @@
+-- Current single-use join link of each invitation. Only a nonce is stored; the
+-- link itself is signed with AUTH_SECRET and never saved.
+ALTER TABLE public.invitations
+  ADD COLUMN IF NOT EXISTS token_id TEXT,
+  ADD COLUMN IF NOT EXISTS token_expires_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS accepted_at TIMESTAMP WITH TIME ZONE;
+
+-- Email of the requesting user, which invitations are addressed to
+CREATE OR REPLACE FUNCTION public.current_user_email()
+RETURNS TEXT
+LANGUAGE sql STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT lower(email) FROM public.profiles WHERE id = auth.uid()
+$$;
+
+-- Candidates read the invitations sent to them and the exams those are for, which
+-- may belong to another organization than their own
+CREATE POLICY "Candidates read their invitations" ON public.invitations
+  FOR SELECT USING (candidate_email = public.current_user_email());
+
+CREATE POLICY "Candidates read exams they are invited to" ON public.exams
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.invitations i
+      WHERE i.exam_id = exams.id AND i.candidate_email = public.current_user_email()
+    )
+  );
+
+-- Sessions for an accepted invitation belong to the exam's organization. Candidates
+-- only take exams through an invitation; staff may start exam sessions to try them.
+-- Exam sessions follow the exam's scoring policy and settings.
+DROP POLICY IF EXISTS "Users create their own sessions" ON public.proctoring_sessions;
+CREATE POLICY "Users create their own sessions" ON public.proctoring_sessions
+  FOR INSERT WITH CHECK (
+    candidate_id = auth.uid()
+    AND (
+      (
+        org_id IS NOT DISTINCT FROM public.current_user_org()
+        AND (exam_id IS NULL OR public.current_user_role() <> 'candidate')
+      )
+      OR EXISTS (
+        SELECT 1 FROM public.invitations i
+        WHERE i.exam_id = proctoring_sessions.exam_id
+          AND i.org_id = proctoring_sessions.org_id
+          AND i.candidate_email = public.current_user_email()
+          AND i.status = 'accepted'
+      )
+    )
+    AND (
+      exam_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.exams e
+        WHERE e.id = proctoring_sessions.exam_id
+          AND e.scoring_policy = proctoring_sessions.scoring_policy
+          AND e.settings = proctoring_sessions.settings
+      )
+    )
+  );
@@ -0,0 +1,23 @@
+-- Microphone level of each second of a session, as defined in lib/domain/audio.ts
+CREATE TABLE IF NOT EXISTS public.audio_levels (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES public.proctoring_sessions(id) ON DELETE CASCADE,
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  level_db REAL NOT NULL,
+  peak_db REAL NOT NULL,
+  speech_ratio REAL NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_audio_levels_session_id ON public.audio_levels(session_id, recorded_at);
+
+ALTER TABLE public.audio_levels ENABLE ROW LEVEL SECURITY;
+
+-- Same access as detection events: never updated, added by whoever may write to the session
+CREATE POLICY "Users read audio levels of sessions they may access" ON public.audio_levels
+  FOR SELECT USING (public.can_access_session(session_id));
+
+CREATE POLICY "Writers add audio levels to sessions they may access" ON public.audio_levels
+  FOR INSERT WITH CHECK (
+    public.current_user_role() IN ('candidate', 'proctor', 'admin', 'org_owner')
+    AND public.can_access_session(session_id)
+  );
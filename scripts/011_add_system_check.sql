@@ -0,0 +1,3 @@
+-- Device check the candidate ran before the session started, as defined in lib/domain/system-check.ts
+ALTER TABLE public.proctoring_sessions
+  ADD COLUMN IF NOT EXISTS system_check JSONB;
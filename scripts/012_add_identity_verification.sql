@@ -0,0 +1,6 @@
+-- Identity check the candidate ran before the session started, as defined in lib/domain/identity.ts.
+-- The ID photo and selfie are stored with the session's evidence. Only the server writes
+-- the column, with the service role: users have no UPDATE policy on sessions and cannot
+-- set it on new ones (scripts/007_add_auth.sql), so a candidate cannot approve their own check.
+ALTER TABLE public.proctoring_sessions
+  ADD COLUMN IF NOT EXISTS identity_verification JSONB;
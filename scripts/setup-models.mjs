@@ -0,0 +1,68 @@
+// Populates public/models with the MediaPipe WASM runtime and model files so
+// detection runs entirely from this app's own origin.
+//
+//   npm run setup:models
+//
+// The WASM runtime is copied from node_modules. Model files are downloaded once
+// from the MediaPipe model registry; set MODELS_SOURCE_DIR to copy them from a
+// local directory instead (e.g. on machines without internet access).
+import { copyFile, mkdir, readdir, stat, writeFile } from "node:fs/promises"
+import path from "node:path"
+
+const root = path.resolve(path.dirname(new URL(import.meta.url).pathname), "..")
+const modelsDir = path.join(root, "public", "models")
+const wasmSource = path.join(root, "node_modules", "@mediapipe", "tasks-vision", "wasm")
+const wasmTarget = path.join(modelsDir, "mediapipe", "wasm")
+
+const MODELS = {
+  "blaze_face_short_range.tflite":
+    "https://storage.googleapis.com/mediapipe-models/face_detector/blaze_face_short_range/float16/1/blaze_face_short_range.tflite",
+  "efficientdet_lite0.tflite":
+    "https://storage.googleapis.com/mediapipe-models/object_detector/efficientdet_lite0/float16/1/efficientdet_lite0.tflite",
+  "face_landmarker.task":
+    "https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task",
+}
+
+async function exists(file) {
+  try {
+    await stat(file)
+    return true
+  } catch {
+    return false
+  }
+}
+
+async function copyWasm() {
+  await mkdir(wasmTarget, { recursive: true })
+  for (const file of await readdir(wasmSource)) {
+    await copyFile(path.join(wasmSource, file), path.join(wasmTarget, file))
+  }
+  console.log(`Copied MediaPipe WASM runtime to ${path.relative(root, wasmTarget)}`)
+}
+
+async function fetchModel(name, url) {
+  const target = path.join(modelsDir, name)
+  if (await exists(target)) {
+    console.log(`${name} already present`)
+    return
+  }
+
+  if (process.env.MODELS_SOURCE_DIR) {
+    await copyFile(path.join(process.env.MODELS_SOURCE_DIR, name), target)
+    console.log(`Copied ${name} from ${process.env.MODELS_SOURCE_DIR}`)
+    return
+  }
+
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to download ${name}: ${response.status} ${response.statusText}`)
+  }
+  await writeFile(target, Buffer.from(await response.arrayBuffer()))
+  console.log(`Downloaded ${name}`)
+}
+
+await mkdir(modelsDir, { recursive: true })
+await copyWasm()
+for (const [name, url] of Object.entries(MODELS)) {
+  await fetchModel(name, url)
+}